@@ -4,11 +4,25 @@ import dotenv from 'dotenv';
 import connectDB from './config/database.js';
 import authRoutes from './routes/auth.js';
 import dashboardRoutes from './routes/dashboard.js';
-import { requestLogger } from './middleware/logger.js';
+import { requestLogger, auditLog } from './middleware/logger.js';
 import { apiLimiter } from './middleware/rateLimiter.js';
+import { assertFieldEncryptionReady } from './services/fieldEncryptionService.js';
+import { assertRoleRegistryInSync } from './services/roleService.js';
+import { assertPolicyConfigReady } from './services/policyService.js';
+import { expireElevations, ELEVATION_SWEEP_INTERVAL_MS } from './services/elevationService.js';
+import { expireOperations, OPERATION_SWEEP_INTERVAL_MS } from './services/pendingOperationService.js';
 
 dotenv.config();
 
+// Refuse to start without usable field encryption keys
+assertFieldEncryptionReady();
+
+// Refuse to start when a server role table or model disagrees with shared/roleRegistry.js
+assertRoleRegistryInSync();
+
+// Refuse to start with a policy time zone or internal network list that cannot be used
+assertPolicyConfigReady();
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -17,6 +31,8 @@ app.use(cors({
   origin: ['http://localhost:5173', 'http://localhost:8080', 'http://localhost:8081'],
   credentials: true,
 }));
+// Roster files are larger than any other request; only their routes get the bigger body limit
+app.use('/api/dashboard/admin/rosters', express.json({ limit: '3mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -29,6 +45,41 @@ app.use('/api/', apiLimiter);
 // Connect to MongoDB
 connectDB();
 
+// verifyToken ends a lapsed elevation on the holder's next request; this records the ones nobody comes back for
+const sweepExpiredElevations = async () => {
+  try {
+    for (const request of await expireElevations()) {
+      auditLog('elevation_expired', request.user, {
+        elevationId: request._id,
+        permissions: request.permissions,
+        expiresAt: request.expiresAt,
+        wasPending: !request.reviewedAt,
+      });
+    }
+  } catch (error) {
+    console.error('Elevation expiry sweep error:', error);
+  }
+};
+setInterval(sweepExpiredElevations, ELEVATION_SWEEP_INTERVAL_MS).unref();
+
+// Proposals nobody approved within the window lapse; the proposer has to propose again
+const sweepExpiredOperations = async () => {
+  try {
+    for (const operation of await expireOperations()) {
+      auditLog('operation_expired', operation.proposedBy, {
+        operationId: operation._id,
+        type: operation.type,
+        targetUserId: operation.targetUser,
+        targetRole: operation.targetRole,
+        expiresAt: operation.expiresAt,
+      });
+    }
+  } catch (error) {
+    console.error('Operation expiry sweep error:', error);
+  }
+};
+setInterval(sweepExpiredOperations, OPERATION_SWEEP_INTERVAL_MS).unref();
+
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/dashboard', dashboardRoutes);
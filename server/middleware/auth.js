@@ -1,8 +1,54 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import Session from '../models/Session.js';
+import { isSessionActive, touchSession, getStepUpMaxAgeSeconds } from '../services/sessionService.js';
+import { isSponsorConfirmed } from '../services/sponsorService.js';
+import { isVerificationResolved } from '../services/verificationService.js';
+import { getEffectivePermissions, getElevatedPermissions } from '../services/permissionService.js';
+import { checkAccessPolicy } from '../services/policyService.js';
+import { resolveElevation, recordElevationUse } from '../services/elevationService.js';
+import { securityLogger, auditLog } from './logger.js';
+import { isPermission, isRoleKey } from '../../shared/roleRegistry.js';
+
+// Tokens issued before the last password change are no longer valid
+const issuedBeforePasswordChange = (decoded, user) => Boolean(
+  user.passwordChangedAt && decoded.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)
+);
+
+// Access tokens carry their session id; signing out or revoking the session voids them immediately
+const loadActiveSession = async (decoded) => {
+  if (!decoded.sid) {
+    return null;
+  }
+  const session = await Session.findById(decoded.sid);
+  return isSessionActive(session) && String(session.user) === String(decoded.userId) ? session : null;
+};
+
+// Active elevation of the user; one past its expiry is ended and recorded here, on the user's next request
+const loadActiveElevation = async (userId) => {
+  const { elevation, expired } = await resolveElevation(userId);
+  if (expired) {
+    auditLog('elevation_expired', userId, {
+      elevationId: expired._id,
+      permissions: expired.permissions,
+      expiresAt: expired.expiresAt,
+    });
+  }
+  return elevation;
+};
+
+/**
+ * Let an account pending MFA enrollment past the verifyToken that follows
+ * Use before verifyToken, only on the routes needed to sign in and enrol a new factor.
+ */
+export const allowPendingMfaEnrollment = (req, res, next) => {
+  req.allowPendingMfaEnrollment = true;
+  next();
+};
 
 /**
  * Verify JWT token and attach user to request
+ * Also attaches the user's active elevation, if any; its permissions apply only until it expires.
  */
 export const verifyToken = async (req, res, next) => {
   try {
@@ -31,6 +77,22 @@ export const verifyToken = async (req, res, next) => {
       });
     }
 
+    if (issuedBeforePasswordChange(decoded, user)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session expired. Please login again.',
+      });
+    }
+
+    const session = await loadActiveSession(decoded);
+    if (!session) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session has been signed out. Please login again.',
+      });
+    }
+    await touchSession(session, req);
+
     if (!user.isActivated) {
       return res.status(403).json({
         success: false,
@@ -38,12 +100,35 @@ export const verifyToken = async (req, res, next) => {
       });
     }
 
+    // After an admin MFA reset the account reaches nothing but MFA settings until it enrols a compliant factor
+    if (user.mfaEnrollmentRequired && !req.allowPendingMfaEnrollment) {
+      return res.status(403).json({
+        success: false,
+        message: 'Set up a new MFA method before continuing.',
+        mfaEnrollmentRequired: true,
+      });
+    }
+
+    const elevation = await loadActiveElevation(user._id);
+
     // Attach user to request object
     req.user = {
       userId: user._id,
       email: user.officialEmail,
       role: user.role,
       fullName: user.fullName,
+      credentialId: user.credentialId,
+      sessionId: session._id,
+      mfaVerifiedAt: session.mfaVerifiedAt,
+      mfaMethod: session.mfaMethod,
+      sponsorConfirmed: isSponsorConfirmed(user),
+      verificationStatus: user.manualVerification?.status ?? 'not_required',
+      verificationResolved: isVerificationResolved(user),
+      permissionOverrides: user.permissionOverrides ?? [],
+      mfaEnrollmentRequired: user.mfaEnrollmentRequired,
+      elevation: elevation
+        ? { id: elevation._id, permissions: elevation.permissions, expiresAt: elevation.expiresAt }
+        : null,
     };
 
     next();
@@ -72,9 +157,15 @@ export const verifyToken = async (req, res, next) => {
 
 /**
  * Check if user has required role(s)
- * Usage: requireRole('admin'), requireRole('admin', 'officer')
+ * Usage: requireRole('admin'), requireRole('personnel', 'admin')
+ * Roles must be keys of shared/roleRegistry.js; anything else throws while the routes load.
  */
 export const requireRole = (...allowedRoles) => {
+  const unknownRoles = allowedRoles.filter((role) => !isRoleKey(role));
+  if (unknownRoles.length > 0) {
+    throw new Error(`requireRole: unknown role ${unknownRoles.map((role) => `"${role}"`).join(', ')}`);
+  }
+
   return (req, res, next) => {
     if (!req.user) {
       return res.status(401).json({
@@ -94,6 +185,165 @@ export const requireRole = (...allowedRoles) => {
   };
 };
 
+/**
+ * Require every listed permission: the role's grants, an active elevation and the user's overrides
+ * (see permissionService), then the current access policy for the same names (see policyService)
+ * Requests allowed only through an elevation are audited as elevation_used.
+ * Usage: requirePermission('rosters:manage'); use after verifyToken.
+ * Names must be in PERMISSIONS of shared/roleRegistry.js; anything else throws while the routes load.
+ */
+export const requirePermission = (...requiredPermissions) => {
+  const unknownPermissions = requiredPermissions.filter((permission) => !isPermission(permission));
+  if (unknownPermissions.length > 0) {
+    throw new Error(`requirePermission: unknown permission ${unknownPermissions.map((permission) => `"${permission}"`).join(', ')}`);
+  }
+
+  return async (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+      });
+    }
+
+    let policyDenial;
+    let elevatedUse = [];
+    try {
+      // Resolved once per request; later checks on the same request reuse it
+      req.user.permissions ??= await getEffectivePermissions(req.user);
+      req.user.elevatedPermissions ??= await getElevatedPermissions(req.user);
+
+      const missingPermissions = requiredPermissions.filter((permission) => !req.user.permissions.includes(permission));
+      if (missingPermissions.length > 0) {
+        return res.status(403).json({
+          success: false,
+          message: `Access denied. Required permission: ${missingPermissions.join(', ')}`,
+          missingPermissions,
+        });
+      }
+
+      policyDenial = await checkAccessPolicy(req, requiredPermissions);
+
+      elevatedUse = requiredPermissions.filter((permission) => req.user.elevatedPermissions.includes(permission));
+      if (!policyDenial && elevatedUse.length > 0) {
+        await recordElevationUse(req.user.elevation.id);
+      }
+    } catch (error) {
+      console.error('Permission check error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Authorization failed.',
+      });
+    }
+
+    if (policyDenial) {
+      // The deciding policy's own description reads better than its id; a default deny has none
+      const decidingPolicy = policyDenial.policies.find((policy) => policy.id === policyDenial.decidedBy[0]);
+      securityLogger('access_policy_denied', {
+        userId: req.user.userId,
+        action: policyDenial.attributes.action,
+        policies: policyDenial.decidedBy,
+        policyVersion: policyDenial.version,
+        ip: req.ip,
+      });
+
+      return res.status(403).json({
+        success: false,
+        message: `Access denied by policy: ${decidingPolicy?.description || policyDenial.reason}`,
+        policyDenied: true,
+        policies: policyDenial.decidedBy,
+      });
+    }
+
+    if (elevatedUse.length > 0) {
+      auditLog('elevation_used', req.user.userId, {
+        elevationId: req.user.elevation.id,
+        permissions: elevatedUse,
+        method: req.method,
+        path: req.originalUrl,
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Require a fresh MFA proof on the current session (sign-in or POST /api/auth/step-up)
+ * Usage: requireRecentAuth(), requireRecentAuth(120)
+ * Without maxAge the role's default window applies; use after verifyToken.
+ */
+export const requireRecentAuth = (maxAgeSeconds) => {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+      });
+    }
+
+    const maxAge = maxAgeSeconds ?? getStepUpMaxAgeSeconds(req.user.role);
+    const verifiedAt = req.user.mfaVerifiedAt?.getTime() ?? 0;
+
+    if (Date.now() - verifiedAt > maxAge * 1000) {
+      return res.status(403).json({
+        success: false,
+        message: 'Please confirm your identity to continue.',
+        stepUpRequired: true,
+        maxAge,
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Block family accounts whose sponsor has not confirmed them yet; other roles pass through
+ * Use after verifyToken.
+ */
+export const requireSponsorConfirmation = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'Authentication required.',
+    });
+  }
+
+  if (!req.user.sponsorConfirmed) {
+    return res.status(403).json({
+      success: false,
+      message: 'Available once your sponsor confirms your account.',
+      sponsorConfirmationRequired: true,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Block accounts whose registration is waiting for manual verification (or failed it)
+ * Use after verifyToken.
+ */
+export const requireResolvedVerification = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      message: 'Authentication required.',
+    });
+  }
+
+  if (!req.user.verificationResolved) {
+    return res.status(403).json({
+      success: false,
+      message: 'Available once a reviewer has verified your registration.',
+      verificationRequired: true,
+    });
+  }
+
+  next();
+};
+
 /**
  * Check if user is admin
  */
@@ -122,12 +372,15 @@ export const optionalAuth = async (req, res, next) => {
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
     const user = await User.findById(decoded.userId).select('-passwordHash -totpSecret');
     
-    if (user && user.isActivated) {
+    const session = user ? await loadActiveSession(decoded) : null;
+
+    if (user && session && user.isActivated && !user.mfaEnrollmentRequired && !issuedBeforePasswordChange(decoded, user)) {
       req.user = {
         userId: user._id,
         email: user.officialEmail,
         role: user.role,
         fullName: user.fullName,
+        sessionId: session._id,
       };
     }
   } catch (error) {
@@ -14,6 +14,8 @@ export const requestLogger = (req, res, next) => {
     const sanitizedBody = { ...req.body };
     // Remove sensitive fields from logs
     delete sanitizedBody.password;
+    delete sanitizedBody.newPassword;
+    delete sanitizedBody.currentPassword;
     delete sanitizedBody.totpSecret;
     delete sanitizedBody.passwordHash;
     delete sanitizedBody.backupCodes;
@@ -47,6 +47,21 @@ export const otpLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+/**
+ * Rate limiter for MFA code verification
+ * Prevents brute forcing of 6-digit codes
+ */
+export const mfaLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 verification attempts per window
+  message: {
+    success: false,
+    message: 'Too many verification attempts. Please try again after 15 minutes.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 /**
  * General API rate limiter
  * Protects all API endpoints
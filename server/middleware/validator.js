@@ -1,10 +1,90 @@
 import validator from 'validator';
+import { ROLE_KEYS, ROLE_REGISTRY, isPermission, isRoleKey } from '../../shared/roleRegistry.js';
+import { ELEVATION_DURATIONS_MINUTES } from '../services/elevationService.js';
+
+// Shape check for a WebAuthn response from @simplewebauthn/browser; signatures are verified in webauthnService
+const isWebAuthnResponse = (value) => Boolean(
+  value
+  && typeof value === 'object'
+  && typeof value.id === 'string'
+  && typeof value.rawId === 'string'
+  && value.type === 'public-key'
+  && value.response
+  && typeof value.response === 'object'
+);
+
+// Authenticator and hardware token codes are 6 or 8 digits depending on their parameters; emailed codes are always 6
+const TOTP_CODE_PATTERN = /^(\d{6}|\d{8})$/;
+const EMAIL_CODE_PATTERN = /^\d{6}$/;
+
+const isConsecutiveCodePair = (codes) => Array.isArray(codes)
+  && codes.length === 2
+  && codes.every((code) => typeof code === 'string' && TOTP_CODE_PATTERN.test(code));
+
+const getCodePattern = (method) => (['totp', 'hotp'].includes(method) ? TOTP_CODE_PATTERN : EMAIL_CODE_PATTERN);
+
+// Defence Personnel Service ID, named by family registrants as their sponsor
+const isServiceId = (value) => typeof value === 'string'
+  && ROLE_REGISTRY.personnel.idRule.pattern.test(value.trim().toUpperCase());
+
+// Largest hardware token CSV accepted in one import
+const MAX_TOKEN_CSV_LENGTH = 100000;
+
+// Largest credential roster file; its routes get a matching body limit in server/index.js
+const MAX_ROSTER_FILE_LENGTH = 2000000;
+
+// Shared checks for previewing and applying a roster import
+const getRosterImportErrors = (params, body) => {
+  const { format, content, fileName, note } = body;
+  const errors = [];
+
+  if (!isRoleKey(params.role)) {
+    errors.push(`Role must be one of: ${ROLE_KEYS.join(', ')}`);
+  }
+
+  if (!['csv', 'json'].includes(format)) {
+    errors.push('Format must be csv or json');
+  }
+
+  if (!content || typeof content !== 'string' || !content.trim()) {
+    errors.push('Roster content required');
+  } else if (content.length > MAX_ROSTER_FILE_LENGTH) {
+    errors.push(`Roster must be ${MAX_ROSTER_FILE_LENGTH} characters or fewer`);
+  }
+
+  if (fileName !== undefined && fileName !== null && (typeof fileName !== 'string' || fileName.length > 200)) {
+    errors.push('File name must be 200 characters or fewer');
+  }
+
+  if (note !== undefined && (typeof note !== 'string' || note.trim().length > 500)) {
+    errors.push('Note must be 500 characters or fewer');
+  }
+
+  return errors;
+};
+
+// Check the factor on a signed-in confirmation; returns an error message or null
+const getStepUpFactorError = (mfaMethod, mfaCode, webauthnResponse) => {
+  if (!['totp', 'hotp', 'email', 'webauthn', 'backup'].includes(mfaMethod)) {
+    return 'MFA method must be one of: totp, hotp, email, webauthn, backup';
+  }
+
+  if (mfaMethod === 'webauthn') {
+    return isWebAuthnResponse(webauthnResponse) ? null : 'Security key response required';
+  }
+
+  if (typeof mfaCode !== 'string' || !(mfaMethod === 'backup' ? /^\d{4}-?\d{4}$/ : getCodePattern(mfaMethod)).test(mfaCode.trim())) {
+    return mfaMethod === 'backup' ? 'Valid backup code required (XXXX-XXXX)' : 'Valid verification code required';
+  }
+
+  return null;
+};
 
 /**
  * Sanitize and validate registration input
  */
 export const validateRegistration = (req, res, next) => {
-  const { fullName, email, mobile, serviceId, role, password } = req.body;
+  const { fullName, email, mobile, serviceId, role, password, mfaMethod, webauthnResponse, sponsorServiceId } = req.body;
 
   const errors = [];
 
@@ -33,9 +113,13 @@ export const validateRegistration = (req, res, next) => {
   }
 
   // Validate role
-  const validRoles = ['personnel', 'family', 'veteran', 'cert', 'admin'];
-  if (!role || !validRoles.includes(role)) {
-    errors.push(`Role must be one of: ${validRoles.join(', ')}`);
+  if (!isRoleKey(role)) {
+    errors.push(`Role must be one of: ${ROLE_KEYS.join(', ')}`);
+  }
+
+  // Family members name the Defence Personnel account that sponsors them
+  if (role === 'family' && !isServiceId(sponsorServiceId)) {
+    errors.push('Sponsor Service ID required (ARMY, NAVY, AIRF or DRDO followed by 2-6 letters/numbers)');
   }
 
   // Validate password strength
@@ -53,6 +137,13 @@ export const validateRegistration = (req, res, next) => {
     }
   }
 
+  // Validate MFA method
+  if (!['totp', 'email', 'webauthn'].includes(mfaMethod)) {
+    errors.push('MFA method must be one of: totp, email, webauthn');
+  } else if (mfaMethod === 'webauthn' && !isWebAuthnResponse(webauthnResponse)) {
+    errors.push('Security key registration required');
+  }
+
   if (errors.length > 0) {
     return res.status(400).json({
       success: false,
@@ -64,6 +155,7 @@ export const validateRegistration = (req, res, next) => {
   // Sanitize strings
   req.body.fullName = validator.escape(fullName.trim());
   req.body.serviceId = validator.escape(serviceId.trim());
+  req.body.sponsorServiceId = role === 'family' ? sponsorServiceId.trim().toUpperCase() : undefined;
 
   next();
 };
@@ -99,34 +191,919 @@ export const validateLogin = (req, res, next) => {
  * Validate MFA verification input
  */
 export const validateMfaVerification = (req, res, next) => {
-  const { code } = req.body;
+  const { code, method, mfaChallenge, webauthnResponse, trustDevice } = req.body;
+
+  if (!mfaChallenge || typeof mfaChallenge !== 'string') {
+    return res.status(400).json({
+      success: false,
+      message: 'MFA challenge required. Please sign in again.',
+      challengeExpired: true,
+    });
+  }
+
+  if (trustDevice !== undefined && typeof trustDevice !== 'boolean') {
+    return res.status(400).json({
+      success: false,
+      message: 'trustDevice must be true or false',
+    });
+  }
+
+  if (method === 'backup') {
+    if (!code || typeof code !== 'string' || !/^\d{4}-?\d{4}$/.test(code.trim())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid backup code required (XXXX-XXXX)',
+      });
+    }
+
+    return next();
+  }
+
+  if (method === 'webauthn') {
+    if (!isWebAuthnResponse(webauthnResponse)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Security key response required',
+      });
+    }
+
+    return next();
+  }
+
+  if (!['totp', 'hotp', 'email'].includes(method)) {
+    return res.status(400).json({
+      success: false,
+      message: 'MFA method must be one of: totp, hotp, email, webauthn, backup',
+    });
+  }
+
+  if (typeof code !== 'string' || !getCodePattern(method).test(code)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Valid verification code required',
+    });
+  }
+
+  next();
+};
 
-  if (!code || !/^\d{6}$/.test(code)) {
+const OTP_PURPOSES = ['login', 'registration', 'password-reset'];
+
+/**
+ * Validate OTP send request
+ */
+export const validateOtpRequest = (req, res, next) => {
+  const { email, purpose } = req.body;
+
+  const errors = [];
+
+  if (!email || typeof email !== 'string' || !validator.isEmail(email)) {
+    errors.push('Valid email address required');
+  }
+
+  if (!OTP_PURPOSES.includes(purpose)) {
+    errors.push(`Purpose must be one of: ${OTP_PURPOSES.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  // Normalize the same way as registration so lookups line up
+  req.body.email = validator.normalizeEmail(email);
+
+  next();
+};
+
+/**
+ * Validate OTP verification request
+ */
+export const validateOtpVerification = (req, res, next) => {
+  const { otpCode } = req.body;
+
+  if (!otpCode || typeof otpCode !== 'string' || !/^\d{6}$/.test(otpCode)) {
     return res.status(400).json({
       success: false,
       message: 'Valid 6-digit code required',
     });
   }
 
+  validateOtpRequest(req, res, next);
+};
+
+/**
+ * Validate password reset request (after the reset OTP has been verified)
+ */
+export const validatePasswordReset = (req, res, next) => {
+  const { email, verificationToken, newPassword, mfaMethod, mfaCode, webauthnResponse } = req.body;
+
+  const errors = [];
+
+  if (!email || typeof email !== 'string' || !validator.isEmail(email)) {
+    errors.push('Valid email address required');
+  }
+
+  if (!verificationToken || typeof verificationToken !== 'string') {
+    errors.push('Email verification is required before resetting your password');
+  }
+
+  if (newPassword !== undefined && typeof newPassword !== 'string') {
+    errors.push('New password must be a string');
+  }
+
+  if (mfaMethod !== undefined && !['totp', 'hotp', 'webauthn', 'backup'].includes(mfaMethod)) {
+    errors.push('MFA method must be one of: totp, hotp, webauthn, backup');
+  }
+
+  if (mfaMethod === 'webauthn' && !isWebAuthnResponse(webauthnResponse)) {
+    errors.push('Security key response required');
+  }
+
+  if (mfaCode !== undefined && (typeof mfaCode !== 'string' || !/^(\d{6}|\d{4}-?\d{4})$/.test(mfaCode.trim()))) {
+    errors.push('Valid MFA code required');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  req.body.email = validator.normalizeEmail(email);
+
   next();
 };
 
 /**
- * Sanitize general text input to prevent XSS
+ * Validate change password request from a signed-in user
  */
-export const sanitizeInput = (req, res, next) => {
-  const sanitize = (obj) => {
-    for (const key in obj) {
-      if (typeof obj[key] === 'string') {
-        obj[key] = validator.escape(obj[key].trim());
-      } else if (typeof obj[key] === 'object' && obj[key] !== null) {
-        sanitize(obj[key]);
-      }
+export const validateChangePassword = (req, res, next) => {
+  const { currentPassword, newPassword, mfaMethod, mfaCode, webauthnResponse } = req.body;
+
+  const errors = [];
+
+  if (!currentPassword || typeof currentPassword !== 'string') {
+    errors.push('Current password required');
+  }
+
+  if (!newPassword || typeof newPassword !== 'string') {
+    errors.push('New password required');
+  }
+
+  const factorError = getStepUpFactorError(mfaMethod, mfaCode, webauthnResponse);
+  if (factorError) {
+    errors.push(factorError);
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate re-verification before MFA settings change
+ */
+export const validateMfaReverification = (req, res, next) => {
+  const { password, mfaMethod, mfaCode, webauthnResponse } = req.body;
+
+  const errors = [];
+
+  if (!password || typeof password !== 'string') {
+    errors.push('Current password required');
+  }
+
+  const factorError = getStepUpFactorError(mfaMethod, mfaCode, webauthnResponse);
+  if (factorError) {
+    errors.push(factorError);
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a step-up MFA proof
+ */
+export const validateStepUp = (req, res, next) => {
+  const { mfaMethod, mfaCode, webauthnResponse } = req.body;
+
+  const factorError = getStepUpFactorError(mfaMethod, mfaCode, webauthnResponse);
+  if (factorError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: [factorError],
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate MFA method update
+ */
+export const validateMfaUpdate = (req, res, next) => {
+  const { mfaUpdateToken, method, totpSecret, totpCode, webauthnResponse, nickname, tokenSerial, hotpCodes } = req.body;
+
+  const errors = [];
+
+  if (!mfaUpdateToken || typeof mfaUpdateToken !== 'string') {
+    errors.push('Re-verification required before changing MFA settings');
+  }
+
+  if (!['totp', 'hotp', 'email', 'webauthn'].includes(method)) {
+    errors.push('MFA method must be one of: totp, hotp, email, webauthn');
+  }
+
+  if (method === 'webauthn') {
+    if (!isWebAuthnResponse(webauthnResponse)) {
+      errors.push('Security key registration required');
     }
-  };
 
-  if (req.body && typeof req.body === 'object') {
-    sanitize(req.body);
+    if (nickname !== undefined && (typeof nickname !== 'string' || nickname.trim().length > 60)) {
+      errors.push('Security key name must be 60 characters or fewer');
+    }
+  }
+
+  if (method === 'totp') {
+    if (!totpSecret || typeof totpSecret !== 'string' || !/^[A-Z2-7]{16,}=*$/.test(totpSecret)) {
+      errors.push('Valid authenticator secret required');
+    }
+
+    if (!totpCode || typeof totpCode !== 'string' || !TOTP_CODE_PATTERN.test(totpCode)) {
+      errors.push('Valid authenticator code required');
+    }
+  }
+
+  // Two consecutive codes prove possession and line the server counter up with the token
+  if (method === 'hotp') {
+    if (!tokenSerial || typeof tokenSerial !== 'string' || !/^[A-Za-z0-9-]{4,32}$/.test(tokenSerial.trim())) {
+      errors.push('Valid token serial number required');
+    }
+
+    if (!isConsecutiveCodePair(hotpCodes)) {
+      errors.push('Two consecutive token codes required');
+    }
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate security key registration options request during sign-up
+ */
+export const validateWebAuthnRegistrationOptions = (req, res, next) => {
+  const { email, fullName } = req.body;
+
+  const errors = [];
+
+  if (!email || typeof email !== 'string' || !validator.isEmail(email)) {
+    errors.push('Valid email address required');
+  }
+
+  if (fullName !== undefined && (typeof fullName !== 'string' || fullName.trim().length > 120)) {
+    errors.push('Full name must be 120 characters or fewer');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  // Normalize the same way as registration so the stored challenge lines up
+  req.body.email = validator.normalizeEmail(email);
+
+  next();
+};
+
+/**
+ * Validate an account unlock request from the sign-in page
+ */
+export const validateUnlockRequest = (req, res, next) => {
+  const { identifier, role, reason } = req.body;
+
+  const errors = [];
+
+  if (!identifier || typeof identifier !== 'string' || identifier.trim().length < 3) {
+    errors.push('Valid identifier (email or service ID) required');
+  }
+
+  if (!isRoleKey(role)) {
+    errors.push('Valid role required');
+  }
+
+  if (!reason || typeof reason !== 'string' || reason.trim().length < 10 || reason.trim().length > 500) {
+    errors.push('Reason must be between 10 and 500 characters');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate an admin decision on an unlock request
+ */
+export const validateUnlockReview = (req, res, next) => {
+  const { decision, note } = req.body;
+
+  const errors = [];
+
+  if (!['approve', 'reject'].includes(decision)) {
+    errors.push('Decision must be approve or reject');
+  }
+
+  if (note !== undefined && (typeof note !== 'string' || note.trim().length > 500)) {
+    errors.push('Note must be 500 characters or fewer');
+  }
+
+  // Rejections are kept on record, so they need an explanation
+  if (decision === 'reject' && (typeof note !== 'string' || !note.trim())) {
+    errors.push('A note is required when rejecting a request');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate an admin decision on a pending registration
+ */
+export const validateActivationReview = (req, res, next) => {
+  const { decision, reason } = req.body;
+
+  const errors = [];
+
+  if (!['approve', 'reject'].includes(decision)) {
+    errors.push('Decision must be approve or reject');
+  }
+
+  if (reason !== undefined && (typeof reason !== 'string' || reason.trim().length > 500)) {
+    errors.push('Reason must be 500 characters or fewer');
+  }
+
+  // The applicant is emailed the reason for a rejection
+  if (decision === 'reject' && (typeof reason !== 'string' || !reason.trim())) {
+    errors.push('A reason is required when rejecting a registration');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a reviewer resolving a registration flagged for manual verification
+ */
+export const validateVerificationResolution = (req, res, next) => {
+  const { decision, note } = req.body;
+
+  const errors = [];
+
+  if (!['verify', 'reject'].includes(decision)) {
+    errors.push('Decision must be verify or reject');
+  }
+
+  // Every resolution records what the reviewer checked
+  if (typeof note !== 'string' || !note.trim()) {
+    errors.push('A note is required to resolve a verification');
+  } else if (note.trim().length > 500) {
+    errors.push('Note must be 500 characters or fewer');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a family member naming a new sponsor
+ */
+export const validateSponsorRequest = (req, res, next) => {
+  const { serviceId } = req.body;
+
+  if (!isServiceId(serviceId)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: ['Sponsor Service ID required (ARMY, NAVY, AIRF or DRDO followed by 2-6 letters/numbers)'],
+    });
+  }
+
+  req.body.serviceId = serviceId.trim().toUpperCase();
+
+  next();
+};
+
+/**
+ * Validate a sponsor's answer to a dependent's confirmation request
+ */
+export const validateSponsorReview = (req, res, next) => {
+  const { decision, reason } = req.body;
+
+  const errors = [];
+
+  if (!['confirm', 'reject'].includes(decision)) {
+    errors.push('Decision must be confirm or reject');
+  }
+
+  if (reason !== undefined && (typeof reason !== 'string' || reason.trim().length > 500)) {
+    errors.push('Reason must be 500 characters or fewer');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a hardware token resync during sign-in
+ */
+export const validateHardwareTokenResync = (req, res, next) => {
+  const { mfaChallenge, hotpCodes } = req.body;
+
+  if (!mfaChallenge || typeof mfaChallenge !== 'string') {
+    return res.status(400).json({
+      success: false,
+      message: 'MFA challenge required. Please sign in again.',
+      challengeExpired: true,
+    });
+  }
+
+  if (!isConsecutiveCodePair(hotpCodes)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: ['Two consecutive token codes required'],
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a hardware token CSV import
+ */
+export const validateHardwareTokenImport = (req, res, next) => {
+  const { csv } = req.body;
+
+  const errors = [];
+
+  if (!csv || typeof csv !== 'string' || !csv.trim()) {
+    errors.push('CSV content required');
+  } else if (csv.length > MAX_TOKEN_CSV_LENGTH) {
+    errors.push(`CSV must be ${MAX_TOKEN_CSV_LENGTH} characters or fewer`);
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a roster file before previewing its import
+ */
+export const validateRosterPreview = (req, res, next) => {
+  const errors = getRosterImportErrors(req.params, req.body);
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate applying a previewed roster import
+ */
+export const validateRosterApply = (req, res, next) => {
+  const errors = getRosterImportErrors(req.params, req.body);
+
+  // The version the admin previewed against; the import is refused if the roster moved on since
+  if (!Number.isInteger(req.body.baseVersion) || req.body.baseVersion < 0) {
+    errors.push('Base version from the preview required');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a registration roster check
+ */
+export const validateRosterCheck = (req, res, next) => {
+  const { role, serviceId, email, fullName } = req.body;
+
+  const errors = [];
+
+  if (!isRoleKey(role)) {
+    errors.push(`Role must be one of: ${ROLE_KEYS.join(', ')}`);
+  }
+
+  if (!serviceId || typeof serviceId !== 'string' || serviceId.trim().length < 3 || serviceId.length > 64) {
+    errors.push('Valid service/credential ID required');
+  }
+
+  if (!email || typeof email !== 'string' || !validator.isEmail(email)) {
+    errors.push('Valid email address required');
+  }
+
+  if (!fullName || typeof fullName !== 'string' || fullName.trim().length < 2 || fullName.length > 120) {
+    errors.push('Full name must be at least 2 characters');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate assigning a hardware token to a user
+ */
+export const validateHardwareTokenAssign = (req, res, next) => {
+  const { userId } = req.body;
+
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: ['User ID required'],
+    });
+  }
+
+  next();
+};
+
+/**
+ * Sanitize general text input to prevent XSS
+ */
+export const sanitizeInput = (req, res, next) => {
+  const sanitize = (obj) => {
+    for (const key in obj) {
+      if (typeof obj[key] === 'string') {
+        obj[key] = validator.escape(obj[key].trim());
+      } else if (typeof obj[key] === 'object' && obj[key] !== null) {
+        sanitize(obj[key]);
+      }
+    }
+  };
+
+  if (req.body && typeof req.body === 'object') {
+    sanitize(req.body);
+  }
+
+  next();
+};
+
+const isOperationReason = (value) => typeof value === 'string' && value.trim().length >= 10 && value.trim().length <= 500;
+
+/**
+ * Validate a role's new grant list
+ */
+export const validateRolePermissions = (req, res, next) => {
+  const { permissions } = req.body;
+
+  const errors = [];
+
+  if (!isRoleKey(req.params.role)) {
+    errors.push(`Role must be one of: ${ROLE_KEYS.join(', ')}`);
+  }
+
+  if (!Array.isArray(permissions)) {
+    errors.push('Permissions must be a list of permission names');
+  } else {
+    const unknown = permissions.filter((permission) => !isPermission(permission));
+    if (unknown.length > 0) {
+      errors.push(`Unknown permissions: ${unknown.map(String).join(', ')}`);
+    }
+  }
+
+  // The change waits for a second administrator, who reads this
+  if (!isOperationReason(req.body.reason)) {
+    errors.push('Reason must be between 10 and 500 characters');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a per-user permission override
+ */
+export const validatePermissionOverride = (req, res, next) => {
+  const { permission, effect, reason } = req.body;
+
+  const errors = [];
+
+  if (!isPermission(permission)) {
+    errors.push('Valid permission required');
+  }
+
+  if (!['grant', 'deny'].includes(effect)) {
+    errors.push('Effect must be grant or deny');
+  }
+
+  if (!reason || typeof reason !== 'string' || reason.trim().length < 10 || reason.trim().length > 500) {
+    errors.push('Reason must be between 10 and 500 characters');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+const isPolicyDocumentBody = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Validate a policy document sent for testing; its contents are checked by policyService
+ */
+export const validatePolicyTest = (req, res, next) => {
+  if (!isPolicyDocumentBody(req.body.document)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: ['Policy document must be a JSON object'],
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a dry-run policy decision
+ */
+export const validatePolicyExplain = (req, res, next) => {
+  const { action, userId, attributes, document } = req.body;
+
+  const errors = [];
+
+  if (!isPermission(action)) {
+    errors.push('Action must be a permission name');
+  }
+
+  if (userId !== undefined && (typeof userId !== 'string' || !validator.isMongoId(userId))) {
+    errors.push('User ID must be a valid ID');
+  }
+
+  if (attributes !== undefined && !isPolicyDocumentBody(attributes)) {
+    errors.push('Attributes must be an object of attribute name to value');
+  }
+
+  if (document !== undefined && !isPolicyDocumentBody(document)) {
+    errors.push('Policy document must be a JSON object');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate applying a policy document as the next version
+ */
+export const validatePolicyApply = (req, res, next) => {
+  const { document, baseVersion, note } = req.body;
+
+  const errors = [];
+
+  if (!isPolicyDocumentBody(document)) {
+    errors.push('Policy document must be a JSON object');
+  }
+
+  // The version the admin edited; the apply is refused if another version landed since
+  if (!Number.isInteger(baseVersion) || baseVersion < 0) {
+    errors.push('Base version required');
+  }
+
+  if (note !== undefined && (typeof note !== 'string' || note.trim().length > 500)) {
+    errors.push('Note must be 500 characters or fewer');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a request for temporary elevated permissions
+ */
+export const validateElevationRequest = (req, res, next) => {
+  const { permissions, justification, durationMinutes } = req.body;
+
+  const errors = [];
+
+  if (!Array.isArray(permissions) || permissions.length === 0) {
+    errors.push('Choose at least one permission');
+  } else {
+    const unknown = permissions.filter((permission) => !isPermission(permission));
+    if (unknown.length > 0) {
+      errors.push(`Unknown permissions: ${unknown.map(String).join(', ')}`);
+    }
+    if (new Set(permissions).size !== permissions.length) {
+      errors.push('Permissions must not repeat');
+    }
+  }
+
+  if (!ELEVATION_DURATIONS_MINUTES.includes(durationMinutes)) {
+    errors.push(`Duration must be one of: ${ELEVATION_DURATIONS_MINUTES.join(', ')} minutes`);
+  }
+
+  if (!justification || typeof justification !== 'string' || justification.trim().length < 20 || justification.trim().length > 500) {
+    errors.push('Justification must be between 20 and 500 characters');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate an approver's decision on an elevation request
+ */
+export const validateElevationReview = (req, res, next) => {
+  const { decision, note } = req.body;
+
+  const errors = [];
+
+  if (!['approve', 'reject'].includes(decision)) {
+    errors.push('Decision must be approve or reject');
+  }
+
+  if (note !== undefined && (typeof note !== 'string' || note.trim().length > 500)) {
+    errors.push('Note must be 500 characters or fewer');
+  }
+
+  if (decision === 'reject' && (typeof note !== 'string' || !note.trim())) {
+    errors.push('A note is required when rejecting a request');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate the reason given for deactivating an account, resetting its MFA or resetting a role's permissions
+ */
+export const validateOperationReason = (req, res, next) => {
+  if (!isOperationReason(req.body.reason)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: ['Reason must be between 10 and 500 characters'],
+    });
+  }
+
+  next();
+};
+
+/**
+ * Validate a second administrator's decision on a pending operation
+ */
+export const validateOperationReview = (req, res, next) => {
+  const { decision, note } = req.body;
+
+  const errors = [];
+
+  if (!['approve', 'reject'].includes(decision)) {
+    errors.push('Decision must be approve or reject');
+  }
+
+  if (note !== undefined && (typeof note !== 'string' || note.trim().length > 500)) {
+    errors.push('Note must be 500 characters or fewer');
+  }
+
+  if (decision === 'reject' && (typeof note !== 'string' || !note.trim())) {
+    errors.push('A note is required when rejecting an operation');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors,
+    });
   }
 
   next();
@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+
+// One applied access policy document; the highest version is the one requests are checked against
+const accessPolicyVersionSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  // Normalised JSON document (defaultEffect, policies, tests), see server/services/policyService.js
+  document: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true,
+  },
+  policyCount: {
+    type: Number,
+    required: true,
+  },
+  testCount: {
+    type: Number,
+    required: true,
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+    default: null,
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Two admins applying from the same base version cannot both win
+accessPolicyVersionSchema.index({ version: -1 }, { unique: true });
+
+export const AccessPolicyVersion = mongoose.model('AccessPolicyVersion', accessPolicyVersionSchema);
+export default AccessPolicyVersion;
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+import { PERMISSIONS } from '../../shared/roleRegistry.js';
+
+// A user's request for extra permissions for a limited time; see server/services/elevationService.js
+const elevationRequestSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  permissions: {
+    type: [{
+      type: String,
+      enum: Object.keys(PERMISSIONS),
+    }],
+    required: true,
+    validate: {
+      validator: (permissions) => permissions.length > 0,
+      message: 'At least one permission is required',
+    },
+  },
+  justification: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500,
+  },
+  durationMinutes: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  // pending -> approved -> expired or revoked; pending -> rejected, cancelled or expired (nobody decided in time)
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'approved', 'rejected', 'cancelled', 'expired', 'revoked'],
+    default: 'pending',
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+    default: null,
+  },
+  reviewedAt: {
+    type: Date,
+    default: null,
+  },
+  // Counted from approval, not from the request
+  expiresAt: {
+    type: Date,
+    default: null,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null,
+  },
+  // When it stopped applying: expiry, revocation or cancellation
+  endedAt: {
+    type: Date,
+    default: null,
+  },
+  endedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Approver queue lists pending requests oldest first
+elevationRequestSchema.index({ status: 1, createdAt: 1 });
+
+// verifyToken looks up the user's approved elevation on every request
+elevationRequestSchema.index({ user: 1, status: 1 });
+
+// Expiry sweep finds approved elevations past expiresAt
+elevationRequestSchema.index({ status: 1, expiresAt: 1 });
+
+// At most one pending request per user
+elevationRequestSchema.index({ user: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+
+export const ElevationRequest = mongoose.model('ElevationRequest', elevationRequestSchema);
+export default ElevationRequest;
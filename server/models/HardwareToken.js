@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import { encryptField, decryptField } from '../services/fieldEncryptionService.js';
+
+const hardwareTokenSchema = new mongoose.Schema({
+  serial: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    uppercase: true,
+  },
+  // Base32 seed, encrypted at rest like User.totpSecret
+  seed: {
+    type: String,
+    required: true,
+    set: encryptField,
+    get: decryptField,
+  },
+  algorithm: {
+    type: String,
+    enum: ['SHA1', 'SHA256', 'SHA512'],
+    default: 'SHA1',
+  },
+  digits: {
+    type: Number,
+    enum: [6, 8],
+    default: 6,
+  },
+  // Next counter value the token is expected to show
+  counter: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  status: {
+    type: String,
+    enum: ['available', 'assigned'],
+    default: 'available',
+  },
+  assignedTo: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  assignedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  assignedAt: {
+    type: Date,
+    default: null,
+  },
+  importedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null,
+  },
+  lastResyncAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Index for faster queries
+hardwareTokenSchema.index({ assignedTo: 1 });
+hardwareTokenSchema.index({ status: 1, createdAt: -1 });
+
+export const HardwareToken = mongoose.model('HardwareToken', hardwareTokenSchema);
+export default HardwareToken;
@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+
+const otpCodeSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+  purpose: {
+    type: String,
+    required: true,
+    enum: ['login', 'registration', 'password-reset', 'step-up'],
+  },
+  codeHash: {
+    type: String,
+    required: true,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  consumedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Index for faster queries
+otpCodeSchema.index({ email: 1, purpose: 1 });
+
+// TTL index for auto-cleanup of expired codes
+otpCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OtpCode = mongoose.model('OtpCode', otpCodeSchema);
+export default OtpCode;
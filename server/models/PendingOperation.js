@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import { PERMISSIONS, ROLE_KEYS } from '../../shared/roleRegistry.js';
+
+// A critical admin action proposed by one administrator and run only once a second one approves it;
+// see server/services/pendingOperationService.js
+const pendingOperationSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: true,
+    enum: [
+      'deactivate_account',
+      'reset_mfa',
+      'set_role_permissions',
+      'reset_role_permissions',
+      'set_permission_override',
+      'remove_permission_override',
+    ],
+  },
+  // Type, target and any permission, e.g. "reset_mfa:<userId>", "set_role_permissions:cert"
+  // or "set_permission_override:<userId>:accounts:manage"
+  key: {
+    type: String,
+    required: true,
+  },
+  // The approver must hold it
+  requiredPermission: {
+    type: String,
+    required: true,
+    enum: Object.keys(PERMISSIONS),
+  },
+  targetUser: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  targetRole: {
+    type: String,
+    enum: [...ROLE_KEYS, null],
+    default: null,
+  },
+  // What to run, fixed at proposal time (e.g. the new grant list and the one it replaces)
+  params: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500,
+  },
+  // pending -> executed or failed once approved; pending -> rejected, cancelled or expired
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'executed', 'failed', 'rejected', 'cancelled', 'expired'],
+    default: 'pending',
+  },
+  proposedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+    default: null,
+  },
+  reviewedAt: {
+    type: Date,
+    default: null,
+  },
+  // End of the approval window
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  executedAt: {
+    type: Date,
+    default: null,
+  },
+  // Outcome of the run, e.g. { added, removed } or { sessionsRevoked }
+  result: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null,
+  },
+  failureReason: {
+    type: String,
+    default: null,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Approvals inbox lists pending operations oldest first
+pendingOperationSchema.index({ status: 1, createdAt: 1 });
+
+// Expiry sweep finds pending operations past their window
+pendingOperationSchema.index({ status: 1, expiresAt: 1 });
+
+// At most one pending operation per type and target
+pendingOperationSchema.index({ key: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+
+export const PendingOperation = mongoose.model('PendingOperation', pendingOperationSchema);
+export default PendingOperation;
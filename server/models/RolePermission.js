@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+import { PERMISSIONS, ROLE_KEYS } from '../../shared/roleRegistry.js';
+
+// Permissions an administrator granted to a role; roles without a document use defaultPermissions from shared/roleRegistry.js
+const rolePermissionSchema = new mongoose.Schema({
+  role: {
+    type: String,
+    required: true,
+    enum: ROLE_KEYS,
+  },
+  permissions: [{
+    type: String,
+    enum: Object.keys(PERMISSIONS),
+  }],
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// One grant list per role
+rolePermissionSchema.index({ role: 1 }, { unique: true });
+
+export const RolePermission = mongoose.model('RolePermission', rolePermissionSchema);
+export default RolePermission;
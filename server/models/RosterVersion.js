@@ -0,0 +1,87 @@
+import mongoose from 'mongoose';
+import { ROLE_KEYS } from '../../shared/roleRegistry.js';
+
+// One imported roster for a role; the highest version is the one registration checks against
+const rosterVersionSchema = new mongoose.Schema({
+  role: {
+    type: String,
+    required: true,
+    enum: ROLE_KEYS,
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  entries: [{
+    _id: false,
+    credentialId: {
+      type: String,
+      required: true,
+      trim: true,
+      uppercase: true,
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      default: null,
+    },
+    fullName: {
+      type: String,
+      trim: true,
+      maxlength: 120,
+      default: null,
+    },
+  }],
+  entryCount: {
+    type: Number,
+    required: true,
+  },
+  // Changes against the previous version, recorded for the import history
+  changes: {
+    added: {
+      type: Number,
+      default: 0,
+    },
+    removed: {
+      type: Number,
+      default: 0,
+    },
+    changed: {
+      type: Number,
+      default: 0,
+    },
+  },
+  format: {
+    type: String,
+    enum: ['csv', 'json'],
+    required: true,
+  },
+  fileName: {
+    type: String,
+    trim: true,
+    maxlength: 200,
+    default: null,
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+    default: null,
+  },
+  importedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Two imports racing from the same base version cannot both win
+rosterVersionSchema.index({ role: 1, version: -1 }, { unique: true });
+
+export const RosterVersion = mongoose.model('RosterVersion', rosterVersionSchema);
+export default RosterVersion;
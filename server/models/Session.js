@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+
+const sessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  // Public half of the refresh token; shared by every token in the rotation chain
+  familyId: {
+    type: String,
+    required: true,
+  },
+  // Only the latest refresh token of the family is redeemable
+  refreshTokenHash: {
+    type: String,
+    required: true,
+  },
+  // Kept briefly after rotation to tell a concurrent refresh apart from token reuse
+  previousTokenHash: {
+    type: String,
+    default: null,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  // Last completed MFA check on this session (sign-in or step-up)
+  mfaVerifiedAt: {
+    type: Date,
+    default: null,
+  },
+  // Factor used for that check; access policies grade MFA strength from it
+  mfaMethod: {
+    type: String,
+    enum: ['totp', 'hotp', 'email', 'webauthn', 'backup', null],
+    default: null,
+  },
+  lastRotatedAt: {
+    type: Date,
+    default: null,
+  },
+  revokedAt: {
+    type: Date,
+    default: null,
+  },
+  revokedReason: {
+    type: String,
+    default: null,
+  },
+  createdByIp: {
+    type: String,
+    default: null,
+  },
+  userAgent: {
+    type: String,
+    default: null,
+  },
+  // Readable label derived from the user agent, e.g. "Chrome on Windows"
+  device: {
+    type: String,
+    default: 'Unknown device',
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastSeenIp: {
+    type: String,
+    default: null,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Index for faster queries
+sessionSchema.index({ familyId: 1 }, { unique: true });
+sessionSchema.index({ user: 1, revokedAt: 1 });
+
+// TTL index for auto-cleanup of expired sessions
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model('Session', sessionSchema);
+export default Session;
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+
+const trustedDeviceSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  // The device token is a JWT; only a hash of its secret part is kept
+  secretHash: {
+    type: String,
+    required: true,
+  },
+  device: {
+    type: String,
+    default: 'Unknown device',
+  },
+  userAgent: {
+    type: String,
+    default: null,
+  },
+  createdByIp: {
+    type: String,
+    default: null,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: {
+    type: Date,
+    default: null,
+  },
+  revokedReason: {
+    type: String,
+    default: null,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Index for faster queries
+trustedDeviceSchema.index({ user: 1, revokedAt: 1 });
+
+// TTL index for auto-cleanup of expired devices
+trustedDeviceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const TrustedDevice = mongoose.model('TrustedDevice', trustedDeviceSchema);
+export default TrustedDevice;
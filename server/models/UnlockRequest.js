@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+import { ROLE_KEYS } from '../../shared/roleRegistry.js';
+
+const unlockRequestSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+  role: {
+    type: String,
+    required: true,
+    enum: ROLE_KEYS,
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500,
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending',
+  },
+  lockedUntil: {
+    type: Date,
+    default: null,
+  },
+  requestIp: {
+    type: String,
+    default: null,
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: 500,
+    default: null,
+  },
+  reviewedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// Admin queue lists pending requests oldest first
+unlockRequestSchema.index({ status: 1, createdAt: 1 });
+
+// At most one pending request per user
+unlockRequestSchema.index({ user: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
+
+export const UnlockRequest = mongoose.model('UnlockRequest', unlockRequestSchema);
+export default UnlockRequest;
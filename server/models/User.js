@@ -1,4 +1,6 @@
 import mongoose from 'mongoose';
+import { PERMISSIONS, ROLE_KEYS } from '../../shared/roleRegistry.js';
+import { encryptField, decryptField } from '../services/fieldEncryptionService.js';
 
 const userSchema = new mongoose.Schema({
   fullName: {
@@ -31,7 +33,7 @@ const userSchema = new mongoose.Schema({
   role: {
     type: String,
     required: true,
-    enum: ['personnel', 'family', 'veteran', 'cert', 'admin'],
+    enum: ROLE_KEYS,
   },
   credentialId: {
     type: String,
@@ -41,29 +43,249 @@ const userSchema = new mongoose.Schema({
   authMethod: {
     type: String,
     required: true,
-    enum: ['authenticator', 'email'],
+    enum: ['authenticator', 'email', 'webauthn', 'hardware_token'],
   },
   passwordHash: {
     type: String,
     required: true,
     match: /^\$2[aby]\$[0-9]{2}\$[./0-9A-Za-z]{53}$/,
   },
+  // Encrypted at rest; reads return the plaintext seed
   totpSecret: {
     type: String,
     default: null,
+    set: encryptField,
+    get: decryptField,
+  },
+  // Authenticator parameters fixed at enrollment; older accounts leave them unset and use SHA1/6/30
+  totpParams: {
+    algorithm: {
+      type: String,
+      enum: ['SHA1', 'SHA256', 'SHA512', null],
+      default: null,
+    },
+    digits: {
+      type: Number,
+      default: null,
+    },
+    period: {
+      type: Number,
+      default: null,
+    },
+  },
+  // Time step of the last accepted authenticator code; that code and older ones are refused
+  totpLastUsedStep: {
+    type: Number,
+    default: null,
   },
   backupCodes: [{
-    code: String,
+    codeHash: {
+      type: String,
+      set: encryptField,
+      get: decryptField,
+    },
     used: {
       type: Boolean,
       default: false,
     },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  }],
+  webauthnCredentials: [{
+    credentialId: {
+      type: String,
+      required: true,
+    },
+    publicKey: {
+      type: String,
+      required: true,
+    },
+    counter: {
+      type: Number,
+      default: 0,
+    },
+    transports: [String],
+    deviceType: {
+      type: String,
+      default: null,
+    },
+    backedUp: {
+      type: Boolean,
+      default: false,
+    },
+    nickname: {
+      type: String,
+      trim: true,
+      maxlength: 60,
+      default: 'Security key',
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
   }],
   isActivated: {
     type: Boolean,
     required: true,
     default: false,
   },
+  // Administrator decision on the registration; isActivated follows it
+  activationReview: {
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected'],
+      default: 'pending',
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+      default: null,
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    // Activated by AUTO_ACTIVATE_ROLES after email verification rather than by an administrator
+    autoApproved: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  // Registrations flagged at sign-up stay restricted until a reviewer resolves them (see verificationService)
+  manualVerification: {
+    status: {
+      type: String,
+      enum: ['not_required', 'pending', 'verified', 'rejected'],
+      default: 'not_required',
+    },
+    reasons: [{
+      type: String,
+      enum: [
+        'public_email_provider',
+        'non_defence_domain',
+        'admin_domain_mismatch',
+        'credential_id_format',
+        'credential_id_in_use',
+      ],
+    }],
+    flaggedAt: {
+      type: Date,
+      default: null,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+      default: null,
+    },
+    resolvedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  // Set when an administrator deactivates an activated account; it is not a registration waiting for review
+  deactivation: {
+    deactivatedAt: {
+      type: Date,
+      default: null,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+      default: null,
+    },
+    deactivatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    // Second administrator; deactivating an admin account needs one (see pendingOperationService)
+    approvedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  // Family accounts only: the Defence Personnel account that vouches for the dependent
+  sponsor: {
+    serviceId: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      default: null,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'confirmed', 'rejected', null],
+      default: null,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+      default: null,
+    },
+    requestedAt: {
+      type: Date,
+      default: null,
+    },
+    decidedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  // Exceptions to the role's permissions for this user; a deny wins over the role grant (see permissionService)
+  permissionOverrides: [{
+    _id: false,
+    permission: {
+      type: String,
+      required: true,
+      enum: Object.keys(PERMISSIONS),
+    },
+    effect: {
+      type: String,
+      required: true,
+      enum: ['grant', 'deny'],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+      required: true,
+    },
+    grantedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }],
   emailVerified: {
     type: Boolean,
     default: false,
@@ -94,6 +316,52 @@ const userSchema = new mongoose.Schema({
       default: null,
     },
   },
+  mfaChallenge: {
+    jti: {
+      type: String,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+  },
+  lockout: {
+    failedAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+  },
+  passwordChangedAt: {
+    type: Date,
+    default: null,
+  },
+  mfaChangedAt: {
+    type: Date,
+    default: null,
+  },
+  // Set by an admin MFA reset that left the account below its role's MFA minimum; until a compliant
+  // factor is enrolled the account can only sign in with email OTP and reach MFA settings
+  mfaEnrollmentRequired: {
+    type: Boolean,
+    default: false,
+  },
+  lastLogin: {
+    type: Date,
+    default: null,
+  },
   createdAt: {
     type: Date,
     required: true,
@@ -113,6 +381,9 @@ const userSchema = new mongoose.Schema({
 userSchema.index({ officialEmail: 1 });
 userSchema.index({ credentialId: 1 });
 userSchema.index({ emailVerificationToken: 1 });
+userSchema.index({ isActivated: 1, createdAt: 1 });
+userSchema.index({ 'sponsor.user': 1, 'sponsor.status': 1 });
+userSchema.index({ 'manualVerification.status': 1, 'manualVerification.flaggedAt': 1 });
 
 // TTL index for auto-cleanup of expired tokens
 userSchema.index({ emailVerificationExpiry: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+
+const webAuthnChallengeSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+  purpose: {
+    type: String,
+    required: true,
+    enum: ['registration', 'login', 'step-up', 'password-reset'],
+  },
+  challenge: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  strict: true,
+  timestamps: true,
+});
+
+// One outstanding challenge per email and purpose
+webAuthnChallengeSchema.index({ email: 1, purpose: 1 }, { unique: true });
+
+// TTL index for auto-cleanup of expired challenges
+webAuthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const WebAuthnChallenge = mongoose.model('WebAuthnChallenge', webAuthnChallengeSchema);
+export default WebAuthnChallenge;
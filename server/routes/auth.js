@@ -1,14 +1,179 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
-import { registerLimiter, loginLimiter } from '../middleware/rateLimiter.js';
-import { validateRegistration, validateLogin } from '../middleware/validator.js';
-import { securityLogger } from '../middleware/logger.js';
-import { generateVerificationToken, sendVerificationEmail, sendTotpSetupEmail } from '../services/emailService.js';
+import { registerLimiter, loginLimiter, mfaLimiter, otpLimiter, strictLimiter } from '../middleware/rateLimiter.js';
+import {
+  validateRegistration,
+  validateLogin,
+  validateMfaVerification,
+  validateOtpRequest,
+  validateOtpVerification,
+  validatePasswordReset,
+  validateChangePassword,
+  validateMfaReverification,
+  validateMfaUpdate,
+  validateWebAuthnRegistrationOptions,
+  validateUnlockRequest,
+  validateStepUp,
+  validateHardwareTokenResync,
+  validateRosterCheck,
+} from '../middleware/validator.js';
+import { verifyToken, requireRecentAuth, allowPendingMfaEnrollment } from '../middleware/auth.js';
+import { securityLogger, auditLog } from '../middleware/logger.js';
+import {
+  generateVerificationToken,
+  sendVerificationEmail,
+  sendTotpSetupEmail,
+  sendOtpEmail,
+  sendPasswordResetEmail,
+  sendPasswordChangedEmail,
+  sendMfaMethodChangedEmail,
+  sendAccountLockedEmail,
+  sendActivationDecisionEmail,
+  sendSponsorRequestEmail,
+} from '../services/emailService.js';
+import { validatePasswordForRole, hashPassword } from '../services/passwordPolicyService.js';
+import {
+  ROLE_ENFORCED_MFA_METHODS,
+  verifyMfaCode,
+  verifyTotpCode,
+  getTotpParamsForRole,
+  getUserTotpParams,
+  toClientMfaMethod,
+  toStoredAuthMethod,
+  isMfaMethodAllowedForRole,
+  describeEnforcedMfaMethod,
+  createMfaUpdateToken,
+  checkMfaUpdateToken,
+} from '../services/mfaService.js';
+import {
+  BACKUP_CODE_COUNT,
+  isValidBackupCodeFormat,
+  generateBackupCodes,
+  toBackupCodeRecords,
+  countRemainingBackupCodes,
+} from '../services/backupCodeService.js';
+import {
+  issueMfaChallenge,
+  loadMfaChallenge,
+  consumeMfaChallenge,
+  recordFailedChallengeAttempt,
+  clearMfaChallenge,
+} from '../services/mfaChallengeService.js';
+import {
+  getOtpExpirySeconds,
+  issueEmailOtp,
+  verifyEmailOtp,
+  createOtpVerificationToken,
+  checkOtpVerificationToken,
+} from '../services/otpService.js';
+import {
+  createRegistrationOptions,
+  verifyRegistration,
+  createAuthenticationOptions,
+} from '../services/webauthnService.js';
+import {
+  isAccountLocked,
+  getLockoutState,
+  recordFailedLogin,
+  clearLockout,
+} from '../services/lockoutService.js';
+import {
+  signAccessToken,
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  findSessionByRefreshToken,
+  listActiveSessions,
+  toSessionSummary,
+  recordStepUp,
+  getStepUpMaxAgeSeconds,
+  setRefreshCookie,
+  clearRefreshCookie,
+  readRefreshCookie,
+} from '../services/sessionService.js';
+import {
+  isTrustedDeviceAllowedForRole,
+  trustDevice,
+  checkTrustedDevice,
+  revokeUserTrustedDevices,
+  listTrustedDevices,
+  getTrustedDeviceId,
+  toTrustedDeviceSummary,
+  setTrustedDeviceCookie,
+  clearTrustedDeviceCookie,
+  readTrustedDeviceCookie,
+} from '../services/trustedDeviceService.js';
+import {
+  findAssignedToken,
+  resyncHardwareToken,
+  findResyncCounter,
+  claimResyncCounter,
+} from '../services/hardwareTokenService.js';
+import { autoActivateIfEligible } from '../services/activationService.js';
+import { findSponsorByServiceId, newSponsorLink } from '../services/sponsorService.js';
+import { buildManualVerification } from '../services/verificationService.js';
+import { checkAgainstRoster } from '../services/rosterService.js';
+import Session from '../models/Session.js';
+import UnlockRequest from '../models/UnlockRequest.js';
+import TrustedDevice from '../models/TrustedDevice.js';
 
 const router = express.Router();
 
+// Security key assertions arrive as an object; every other factor is a code string
+const getMfaFactor = (method, code, webauthnResponse) => (method === 'webauthn' ? webauthnResponse : code.trim());
+
+// Start a session for a completed sign-in and build the shared part of the response.
+// Short-lived access token in the body; the refresh token only ever travels in an httpOnly cookie.
+const completeSignIn = async (user, req, res, { mfaVerified = true, mfaMethod = null } = {}) => {
+  const { session, accessToken, accessTokenExpiresAt, refreshToken } = await createSession(user, req, { mfaVerified, mfaMethod });
+  setRefreshCookie(res, refreshToken);
+
+  securityLogger('session_created', {
+    userId: user._id,
+    sessionId: session._id,
+    ip: req.ip,
+  });
+
+  return {
+    token: accessToken,
+    expiresAt: accessTokenExpiresAt,
+    user: {
+      id: user._id,
+      fullName: user.fullName,
+      email: user.officialEmail,
+      role: user.role,
+      mfaMethod: toClientMfaMethod(user.authMethod),
+      totpDigits: getUserTotpParams(user).digits,
+      mfaEnrollmentRequired: user.mfaEnrollmentRequired,
+    },
+  };
+};
+
+// Roles listed in AUTO_ACTIVATE_ROLES skip the approval queue once the email is verified
+const activateAfterEmailVerification = async (user) => {
+  const activated = await autoActivateIfEligible(user);
+  if (!activated) {
+    return false;
+  }
+
+  securityLogger('account_auto_activated', {
+    userId: user._id,
+    email: user.officialEmail,
+    role: user.role,
+  });
+  auditLog('account_activation_approved', user._id, {
+    targetUserId: user._id,
+    targetEmail: user.officialEmail,
+    autoApproved: true,
+  });
+
+  await sendActivationDecisionEmail(user.officialEmail, user.fullName, { approved: true });
+  return true;
+};
+
 /**
  * Register new user
  * POST /api/auth/register
@@ -24,7 +189,10 @@ router.post('/register', registerLimiter, validateRegistration, async (req, res)
       password,
       mfaMethod,
       totpSecret,
+      webauthnResponse,
       backupCodes,
+      emailVerificationToken,
+      sponsorServiceId,
     } = req.body;
 
     // Validate required fields
@@ -35,6 +203,13 @@ router.post('/register', registerLimiter, validateRegistration, async (req, res)
       });
     }
 
+    if (!isMfaMethodAllowedForRole(role, mfaMethod)) {
+      return res.status(400).json({
+        success: false,
+        message: describeEnforcedMfaMethod(role),
+      });
+    }
+
     // Check if user already exists
     const existingUser = await User.findOne({ officialEmail: email });
     if (existingUser) {
@@ -44,15 +219,70 @@ router.post('/register', registerLimiter, validateRegistration, async (req, res)
       });
     }
 
+    // Roles with an imported roster only accept credential IDs on it, with the listed email and name
+    const rosterCheck = await checkAgainstRoster({ role, credentialId: serviceId, email, fullName });
+    if (rosterCheck.mismatches.length > 0) {
+      securityLogger('registration_roster_mismatch', {
+        email,
+        role,
+        credentialId: serviceId,
+        rosterVersion: rosterCheck.rosterVersion,
+        mismatches: rosterCheck.mismatches.map((mismatch) => mismatch.code),
+        ip: req.ip,
+      });
+
+      return res.status(400).json({
+        success: false,
+        message: rosterCheck.mismatches.map((mismatch) => mismatch.message).join(' '),
+        rosterMismatches: rosterCheck.mismatches,
+      });
+    }
+
+    // Family members link to their sponsor's record; the sponsor confirms the link from their dashboard
+    const sponsor = role === 'family' ? await findSponsorByServiceId(sponsorServiceId) : null;
+    if (role === 'family' && !sponsor) {
+      return res.status(400).json({
+        success: false,
+        message: 'Sponsor Service ID not recognised. Your sponsor needs an active Defence Personnel account.',
+      });
+    }
+
+    // An OTP-verified email (see /verify-otp) skips the verification link
+    const emailPreverified = Boolean(
+      emailVerificationToken && checkOtpVerificationToken(emailVerificationToken, email, 'registration')
+    );
+
+    // The key is only stored once the attestation checks out against our challenge
+    let webauthnCredentials = [];
+    if (mfaMethod === 'webauthn') {
+      const registration = await verifyRegistration(email, webauthnResponse);
+      if (!registration.valid) {
+        securityLogger('webauthn_registration_failed', {
+          email,
+          role,
+          reason: registration.reason,
+          ip: req.ip,
+        });
+
+        return res.status(400).json({
+          success: false,
+          message: 'Security key registration could not be verified. Please register your key again.',
+        });
+      }
+      webauthnCredentials = [registration.credential];
+    }
+
+    // Unusual email domains and credential IDs wait for a reviewer; until then the account is restricted
+    const manualVerification = await buildManualVerification({ officialEmail: email, role, credentialId: serviceId });
+
     // Hash password
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
 
-    // Prepare backup codes if provided
-    const formattedBackupCodes = backupCodes?.map(code => ({
-      code,
-      used: false,
-    })) || [];
+    // Hash backup codes if provided; only the user ever sees them in plaintext
+    const formattedBackupCodes = Array.isArray(backupCodes)
+      ? toBackupCodeRecords(backupCodes.filter(isValidBackupCodeFormat).slice(0, BACKUP_CODE_COUNT))
+      : [];
 
     // Create new user
     const user = new User({
@@ -62,38 +292,51 @@ router.post('/register', registerLimiter, validateRegistration, async (req, res)
       credentialId: serviceId,
       role,
       passwordHash: hashedPassword,
-      authMethod: mfaMethod === 'totp' ? 'authenticator' : 'email',
+      authMethod: toStoredAuthMethod(mfaMethod),
       totpSecret: mfaMethod === 'totp' ? totpSecret : null,
+      // The client enrolled the authenticator with the role's parameters
+      totpParams: mfaMethod === 'totp' ? getTotpParamsForRole(role) : undefined,
+      webauthnCredentials,
       backupCodes: formattedBackupCodes,
-      isActivated: false, // Changed to false - requires email verification
-      emailVerified: false, // New field
+      sponsor: sponsor ? newSponsorLink(sponsor) : undefined,
+      manualVerification,
+      isActivated: false, // Requires email verification and administrator approval (see activationService)
+      emailVerified: emailPreverified,
+      activation: {
+        lastOtpVerifiedAt: emailPreverified ? new Date() : null,
+      },
       createdAt: new Date(),
       updatedAt: new Date(),
     });
 
     await user.save();
 
-    // Generate verification token
-    const verificationToken = generateVerificationToken();
-    const expiryMinutes = parseInt(process.env.EMAIL_VERIFICATION_EXPIRY || '15');
-    const expiryDate = new Date(Date.now() + expiryMinutes * 60 * 1000);
+    if (!emailPreverified) {
+      // Generate verification token
+      const verificationToken = generateVerificationToken();
+      const expiryMinutes = parseInt(process.env.EMAIL_VERIFICATION_EXPIRY || '15');
+      const expiryDate = new Date(Date.now() + expiryMinutes * 60 * 1000);
 
-    user.emailVerificationToken = verificationToken;
-    user.emailVerificationExpiry = expiryDate;
-    user.lastVerificationEmailSent = new Date();
-    await user.save();
+      user.emailVerificationToken = verificationToken;
+      user.emailVerificationExpiry = expiryDate;
+      user.lastVerificationEmailSent = new Date();
+      await user.save();
+
+      try {
+        await sendVerificationEmail(email, fullName, verificationToken, 'registration');
+      } catch (emailError) {
+        console.error('Failed to send verification email:', emailError);
+        // Don't fail registration if email fails
+      }
+    }
 
-    // Send verification email
     try {
-      await sendVerificationEmail(email, fullName, verificationToken, 'registration');
-      
       // Send TOTP setup confirmation if applicable
       if (mfaMethod === 'totp') {
         await sendTotpSetupEmail(email, fullName);
       }
     } catch (emailError) {
-      console.error('Failed to send verification email:', emailError);
-      // Don't fail registration if email fails
+      console.error('Failed to send TOTP setup email:', emailError);
     }
 
     // Log security event
@@ -102,14 +345,41 @@ router.post('/register', registerLimiter, validateRegistration, async (req, res)
       email: user.officialEmail,
       role: user.role,
       authMethod: user.authMethod,
-      emailVerified: false,
+      emailVerified: emailPreverified,
     });
 
-    // Don't generate JWT yet - requires email verification first
+    if (manualVerification.status === 'pending') {
+      securityLogger('registration_flagged_for_verification', {
+        userId: user._id,
+        email: user.officialEmail,
+        role: user.role,
+        reasons: manualVerification.reasons,
+      });
+    }
+
+    if (sponsor) {
+      auditLog('sponsor_confirmation_requested', user._id, {
+        sponsorId: sponsor._id,
+        sponsorServiceId: sponsor.credentialId,
+      });
+      await sendSponsorRequestEmail(sponsor.officialEmail, sponsor.fullName, {
+        dependentName: user.fullName,
+        familyId: user.credentialId,
+      });
+    }
+
+    const autoActivated = await activateAfterEmailVerification(user);
+
+    // Don't generate JWT yet - requires email verification and approval first
     res.status(201).json({
       success: true,
-      message: 'Registration successful. Please check your email to verify your account.',
-      requiresEmailVerification: true,
+      message: emailPreverified
+        ? `Registration successful. Your email has been verified${autoActivated ? ' and your account is active.' : '. An administrator will review your account.'}`
+        : 'Registration successful. Please check your email to verify your account.',
+      requiresEmailVerification: !emailPreverified,
+      requiresApproval: !autoActivated,
+      requiresSponsorConfirmation: Boolean(sponsor),
+      requiresManualVerification: manualVerification.status === 'pending',
       user: {
         id: user._id,
         fullName: user.fullName,
@@ -128,6 +398,29 @@ router.post('/register', registerLimiter, validateRegistration, async (req, res)
   }
 });
 
+/**
+ * Check registration details against the role's credential roster before the security steps
+ * POST /api/auth/roster-check
+ */
+router.post('/roster-check', strictLimiter, validateRosterCheck, async (req, res) => {
+  try {
+    const { role, serviceId, email, fullName } = req.body;
+    const rosterCheck = await checkAgainstRoster({ role, credentialId: serviceId.trim(), email, fullName });
+
+    res.json({
+      success: true,
+      enforced: rosterCheck.enforced,
+      mismatches: rosterCheck.mismatches,
+    });
+  } catch (error) {
+    console.error('Roster check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check the credential roster',
+    });
+  }
+});
+
 /**
  * Login user
  * POST /api/auth/login
@@ -165,18 +458,75 @@ router.post('/login', loginLimiter, validateLogin, async (req, res) => {
       });
     }
 
+    // Locked accounts are refused before the password is checked
+    if (isAccountLocked(user)) {
+      securityLogger('login_blocked_locked', {
+        userId: user._id,
+        email: user.officialEmail,
+        lockedUntil: user.lockout.lockedUntil,
+      });
+
+      return res.status(423).json({
+        success: false,
+        message: 'Account locked after too many failed attempts.',
+        lockout: getLockoutState(user),
+      });
+    }
+
     // Verify password
     const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
     if (!isPasswordValid) {
+      const { justLocked, ...lockout } = await recordFailedLogin(user);
+
       securityLogger('login_failed', {
         userId: user._id,
         email: user.officialEmail,
         reason: 'invalid_password',
+        attemptsRemaining: lockout.attemptsRemaining,
       });
-      
+
+      if (justLocked) {
+        securityLogger('account_locked', {
+          userId: user._id,
+          email: user.officialEmail,
+          lockedUntil: lockout.lockedUntil,
+          ip: req.ip,
+        });
+
+        await sendAccountLockedEmail(user.officialEmail, user.fullName, {
+          lockedUntil: lockout.lockedUntil,
+          ip: req.ip,
+        });
+
+        return res.status(423).json({
+          success: false,
+          message: 'Account locked after too many failed attempts.',
+          lockout,
+        });
+      }
+
       return res.status(401).json({
         success: false,
         message: 'Invalid credentials',
+        lockout,
+      });
+    }
+
+    // Email verification comes first; administrators review verified registrations
+    if (!user.emailVerified) {
+      return res.status(403).json({
+        success: false,
+        message: 'Email not verified. Please check your email for verification link.',
+        requiresEmailVerification: true,
+        email: user.officialEmail,
+      });
+    }
+
+    if (!user.isActivated && user.deactivation?.deactivatedAt) {
+      return res.status(403).json({
+        success: false,
+        message: 'Your account has been deactivated. Contact administrator.',
+        activationStatus: 'deactivated',
       });
     }
 
@@ -184,27 +534,58 @@ router.post('/login', loginLimiter, validateLogin, async (req, res) => {
     if (!user.isActivated) {
       return res.status(403).json({
         success: false,
-        message: 'Account not activated. Contact administrator.',
+        message: user.activationReview?.status === 'rejected'
+          ? 'Your registration was not approved. Contact administrator.'
+          : 'Account pending administrator approval.',
+        activationStatus: user.activationReview?.status === 'rejected' ? 'rejected' : 'pending',
       });
     }
 
-    // Check if email is verified
-    if (!user.emailVerified) {
+    // A reviewer could not verify the registration; pending verifications sign in with restricted access
+    if (user.manualVerification?.status === 'rejected') {
       return res.status(403).json({
         success: false,
-        message: 'Email not verified. Please check your email for verification link.',
-        requiresEmailVerification: true,
+        message: 'Your registration could not be verified. Contact administrator.',
+        verificationStatus: 'rejected',
+      });
+    }
+
+    // A trusted device skips the MFA step; the session still needs a step-up for sensitive actions
+    const trustedDevice = await checkTrustedDevice(readTrustedDeviceCookie(req), user);
+    if (trustedDevice) {
+      clearLockout(user);
+      user.lastLogin = new Date();
+      await user.save();
+
+      securityLogger('login_success', {
+        userId: user._id,
         email: user.officialEmail,
+        role: user.role,
+        method: 'trusted_device',
+        trustedDeviceId: trustedDevice._id,
+      });
+
+      const signIn = await completeSignIn(user, req, res, { mfaVerified: false });
+      return res.json({
+        success: true,
+        ...signIn,
+        trustedDevice: true,
+        message: 'Login successful',
       });
     }
 
-    securityLogger('login_success', {
+    // Password step passed - reset the failure count and issue a short-lived challenge for the MFA step
+    clearLockout(user);
+    const challenge = issueMfaChallenge(user, req);
+    await user.save();
+
+    securityLogger('login_password_verified', {
       userId: user._id,
       email: user.officialEmail,
       role: user.role,
     });
 
-    // Return user data (MFA verification happens on frontend)
+    // Return user data - the second factor is verified server-side in /verify-mfa
     res.json({
       success: true,
       user: {
@@ -213,7 +594,10 @@ router.post('/login', loginLimiter, validateLogin, async (req, res) => {
         role: user.role,
         mfaEnabled: true,
         mfaMethod: user.authMethod,
-        totpSecret: user.authMethod === 'authenticator' ? user.totpSecret : undefined,
+        totpDigits: getUserTotpParams(user).digits,
+        mfaEnrollmentRequired: user.mfaEnrollmentRequired,
+        mfaChallenge: challenge.token,
+        mfaChallengeExpiresAt: challenge.expiresAt,
       },
       message: 'Login successful',
     });
@@ -227,212 +611,1732 @@ router.post('/login', loginLimiter, validateLogin, async (req, res) => {
 });
 
 /**
- * Verify MFA and complete login
- * POST /api/auth/verify-mfa
+ * Ask an administrator to unlock a locked account
+ * POST /api/auth/unlock-request
+ * Always answers the same way so the endpoint cannot be used to probe accounts.
  */
-router.post('/verify-mfa', async (req, res) => {
+router.post('/unlock-request', strictLimiter, validateUnlockRequest, async (req, res) => {
   try {
-    const { userId, code, method } = req.body;
+    const { identifier, role } = req.body;
+    const reason = req.body.reason.trim();
 
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found',
-      });
-    }
+    const user = await User.findOne({
+      $or: [
+        { officialEmail: identifier.toLowerCase() },
+        { credentialId: identifier.toUpperCase() }
+      ],
+      role: role,
+    });
 
-    // Update last login
-    user.lastLogin = new Date();
-    await user.save();
+    if (user && isAccountLocked(user)) {
+      const existing = await UnlockRequest.findOne({ user: user._id, status: 'pending' });
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        userId: user._id, 
-        email: user.email,
-        role: user.role,
-      },
-      process.env.JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+      if (!existing) {
+        const unlockRequest = await UnlockRequest.create({
+          user: user._id,
+          email: user.officialEmail,
+          role: user.role,
+          reason,
+          lockedUntil: user.lockout.lockedUntil,
+          requestIp: req.ip,
+        });
+
+        securityLogger('unlock_requested', {
+          userId: user._id,
+          email: user.officialEmail,
+          requestId: unlockRequest._id,
+          ip: req.ip,
+        });
+      }
+    } else {
+      securityLogger('unlock_request_ignored', {
+        identifier,
+        role,
+        reason: user ? 'not_locked' : 'user_not_found',
+        ip: req.ip,
+      });
+    }
 
     res.json({
       success: true,
-      token,
-      message: 'MFA verified',
-      user: {
-        id: user._id,
-        fullName: user.fullName,
-        email: user.email,
-        role: user.role,
-      },
+      message: 'If this account is locked, your request has been sent to an administrator for review.',
     });
   } catch (error) {
-    console.error('MFA verification error:', error);
+    console.error('Unlock request error:', error);
     res.status(500).json({
       success: false,
-      message: 'Server error during MFA verification',
+      message: 'Failed to submit unlock request',
     });
   }
 });
 
 /**
- * Send email verification link
- * POST /api/auth/send-verification
+ * Rotate the refresh token and issue a new access token
+ * POST /api/auth/refresh
  */
-router.post('/send-verification', registerLimiter, async (req, res) => {
+router.post('/refresh', async (req, res) => {
   try {
-    const { email, purpose = 'registration' } = req.body;
-
-    if (!email) {
-      return res.status(400).json({
-        success: false,
-        message: 'Email is required',
-      });
-    }
-
-    // Find user
-    const user = await User.findOne({ officialEmail: email.toLowerCase() });
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: 'User not found',
-      });
-    }
+    const result = await rotateSession(readRefreshCookie(req), req);
 
-    // Check if already verified
-    if (user.emailVerified && purpose === 'registration') {
-      return res.status(400).json({
-        success: false,
-        message: 'Email already verified',
-      });
-    }
+    if (!result.valid) {
+      if (result.reason === 'refresh_token_reuse') {
+        securityLogger('refresh_token_reuse', {
+          userId: result.session.user,
+          sessionId: result.session._id,
+          ip: req.ip,
+        });
+      }
 
-    // Rate limiting - max 3 emails per 15 minutes
-    if (user.lastVerificationEmailSent) {
-      const timeSinceLastEmail = Date.now() - user.lastVerificationEmailSent.getTime();
-      const RATE_LIMIT = 5 * 60 * 1000; // 5 minutes
-      
-      if (timeSinceLastEmail < RATE_LIMIT) {
-        const waitTime = Math.ceil((RATE_LIMIT - timeSinceLastEmail) / 1000 / 60);
-        return res.status(429).json({
+      // A concurrent refresh already rotated the cookie; the client retries with the new one
+      if (result.reason === 'refresh_superseded') {
+        return res.status(409).json({
           success: false,
-          message: `Please wait ${waitTime} minute(s) before requesting another verification email`,
+          message: 'Session was refreshed by another request. Please retry.',
+          retry: true,
         });
       }
-    }
-
-    // Generate verification token
-    const verificationToken = generateVerificationToken();
-    const expiryMinutes = parseInt(process.env.EMAIL_VERIFICATION_EXPIRY || '15');
-    const expiryDate = new Date(Date.now() + expiryMinutes * 60 * 1000);
-
-    // Save token to user
-    user.emailVerificationToken = verificationToken;
-    user.emailVerificationExpiry = expiryDate;
-    user.lastVerificationEmailSent = new Date();
-    await user.save();
 
-    // Send verification email
-    await sendVerificationEmail(email, user.fullName, verificationToken, purpose);
+      clearRefreshCookie(res);
+      return res.status(401).json({
+        success: false,
+        message: 'Session expired. Please login again.',
+      });
+    }
 
-    securityLogger('email_verification_sent', {
-      userId: user._id,
-      email: user.officialEmail,
-      purpose,
-    });
+    const { user, accessToken, accessTokenExpiresAt, refreshToken } = result;
+    setRefreshCookie(res, refreshToken);
 
     res.json({
       success: true,
-      message: 'Verification email sent successfully',
-      expiresIn: expiryMinutes,
+      token: accessToken,
+      expiresAt: accessTokenExpiresAt,
+      user: {
+        id: user._id,
+        fullName: user.fullName,
+        email: user.officialEmail,
+        role: user.role,
+        mfaMethod: toClientMfaMethod(user.authMethod),
+      },
     });
   } catch (error) {
-    console.error('Send verification error:', error);
+    console.error('Token refresh error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to send verification email',
-      error: error.message,
+      message: 'Failed to refresh session',
     });
   }
 });
 
 /**
- * Verify email with token
- * GET /api/auth/verify-email/:token
+ * Sign out and revoke the current session
+ * POST /api/auth/logout
+ * Works from the refresh cookie alone so an expired access token can still sign out.
  */
-router.get('/verify-email/:token', async (req, res) => {
+router.post('/logout', async (req, res) => {
   try {
-    const { token } = req.params;
-
-    if (!token) {
-      return res.status(400).json({
-        success: false,
-        message: 'Verification token is required',
+    const session = await findSessionByRefreshToken(readRefreshCookie(req));
+    if (session && !session.revokedAt) {
+      await revokeSession(session, 'logout');
+      securityLogger('logout', {
+        userId: session.user,
+        sessionId: session._id,
+        ip: req.ip,
       });
     }
 
-    // Find user with this token
-    const user = await User.findOne({
-      emailVerificationToken: token,
-      emailVerificationExpiry: { $gt: new Date() }, // Token not expired
+    clearRefreshCookie(res);
+    res.json({
+      success: true,
+      message: 'Signed out',
     });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out',
+    });
+  }
+});
 
-    if (!user) {
-      return res.status(400).json({
+/**
+ * List the signed-in user's active sessions
+ * GET /api/auth/sessions
+ */
+router.get('/sessions', verifyToken, async (req, res) => {
+  try {
+    const sessions = await listActiveSessions(req.user.userId);
+
+    res.json({
+      success: true,
+      sessions: sessions.map((session) => toSessionSummary(session, req.user.sessionId)),
+    });
+  } catch (error) {
+    console.error('Session list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve sessions',
+    });
+  }
+});
+
+/**
+ * Sign out every session except the current one
+ * POST /api/auth/sessions/revoke-others
+ */
+router.post('/sessions/revoke-others', verifyToken, async (req, res) => {
+  try {
+    const revoked = await revokeUserSessions(req.user.userId, 'revoked_by_user', {
+      exceptSessionId: req.user.sessionId,
+    });
+
+    securityLogger('sessions_revoked', {
+      userId: req.user.userId,
+      keptSessionId: req.user.sessionId,
+      revoked,
+      ip: req.ip,
+    });
+
+    res.json({
+      success: true,
+      revoked,
+      message: revoked === 1 ? 'Signed out 1 other session' : `Signed out ${revoked} other sessions`,
+    });
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out other sessions',
+    });
+  }
+});
+
+/**
+ * Sign out one of the signed-in user's other sessions
+ * POST /api/auth/sessions/:id/revoke
+ */
+router.post('/sessions/:id/revoke', verifyToken, async (req, res) => {
+  try {
+    if (String(req.params.id) === String(req.user.sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Use Logout to end the current session',
+      });
+    }
+
+    const session = mongoose.isValidObjectId(req.params.id)
+      ? await Session.findOne({ _id: req.params.id, user: req.user.userId })
+      : null;
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      });
+    }
+
+    await revokeSession(session, 'revoked_by_user');
+
+    securityLogger('session_revoked', {
+      userId: req.user.userId,
+      sessionId: session._id,
+      ip: req.ip,
+    });
+
+    res.json({
+      success: true,
+      message: 'Session signed out',
+    });
+  } catch (error) {
+    console.error('Session revoke error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out session',
+    });
+  }
+});
+
+/**
+ * List the signed-in user's trusted devices
+ * GET /api/auth/trusted-devices
+ */
+router.get('/trusted-devices', verifyToken, async (req, res) => {
+  try {
+    const devices = await listTrustedDevices(req.user.userId);
+    const currentDeviceId = getTrustedDeviceId(readTrustedDeviceCookie(req));
+
+    res.json({
+      success: true,
+      allowed: isTrustedDeviceAllowedForRole(req.user.role),
+      devices: devices.map((device) => toTrustedDeviceSummary(device, currentDeviceId)),
+    });
+  } catch (error) {
+    console.error('Trusted device list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve trusted devices',
+    });
+  }
+});
+
+/**
+ * Stop trusting every device of the signed-in user
+ * POST /api/auth/trusted-devices/revoke-all
+ */
+router.post('/trusted-devices/revoke-all', verifyToken, async (req, res) => {
+  try {
+    const revoked = await revokeUserTrustedDevices(req.user.userId, 'revoked_by_user');
+    clearTrustedDeviceCookie(res);
+
+    securityLogger('trusted_devices_revoked', {
+      userId: req.user.userId,
+      revoked,
+      reason: 'revoked_by_user',
+      ip: req.ip,
+    });
+
+    res.json({
+      success: true,
+      revoked,
+      message: revoked === 1 ? 'Removed 1 trusted device' : `Removed ${revoked} trusted devices`,
+    });
+  } catch (error) {
+    console.error('Trusted device revoke error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove trusted devices',
+    });
+  }
+});
+
+/**
+ * Stop trusting one of the signed-in user's devices
+ * POST /api/auth/trusted-devices/:id/revoke
+ */
+router.post('/trusted-devices/:id/revoke', verifyToken, async (req, res) => {
+  try {
+    const device = mongoose.isValidObjectId(req.params.id)
+      ? await TrustedDevice.findOne({ _id: req.params.id, user: req.user.userId, revokedAt: null })
+      : null;
+    if (!device) {
+      return res.status(404).json({
+        success: false,
+        message: 'Trusted device not found',
+      });
+    }
+
+    device.revokedAt = new Date();
+    device.revokedReason = 'revoked_by_user';
+    await device.save();
+
+    if (String(device._id) === String(getTrustedDeviceId(readTrustedDeviceCookie(req)))) {
+      clearTrustedDeviceCookie(res);
+    }
+
+    securityLogger('trusted_device_revoked', {
+      userId: req.user.userId,
+      trustedDeviceId: device._id,
+      ip: req.ip,
+    });
+
+    res.json({
+      success: true,
+      message: 'Device is no longer trusted',
+    });
+  } catch (error) {
+    console.error('Trusted device revoke error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove trusted device',
+    });
+  }
+});
+
+/**
+ * Verify MFA and complete login
+ * POST /api/auth/verify-mfa
+ */
+router.post('/verify-mfa', mfaLimiter, validateMfaVerification, async (req, res) => {
+  try {
+    const { mfaChallenge, code, method, webauthnResponse, trustDevice: trustRequested } = req.body;
+
+    const challenge = await loadMfaChallenge(mfaChallenge, req);
+    if (!challenge.valid) {
+      securityLogger('mfa_challenge_rejected', {
+        reason: challenge.reason,
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Your verification window has expired. Please sign in again.',
+        challengeExpired: true,
+      });
+    }
+
+    const { user } = challenge;
+
+    // Backup codes are always accepted as a recovery path
+    if (method !== 'backup' && method !== challenge.method) {
+      return res.status(400).json({
+        success: false,
+        message: 'MFA method does not match this sign-in challenge',
+      });
+    }
+
+    if (!user.isActivated || !user.emailVerified) {
+      return res.status(403).json({
+        success: false,
+        message: 'Account not activated. Contact administrator.',
+      });
+    }
+
+    const result = await verifyMfaCode(user, method, getMfaFactor(method, code, webauthnResponse));
+    if (!result.valid) {
+      const attemptsRemaining = await recordFailedChallengeAttempt(user, challenge.jti);
+
+      securityLogger('mfa_failed', {
+        userId: user._id,
+        email: user.officialEmail,
+        method,
+        reason: result.reason,
+        attemptsRemaining,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: attemptsRemaining > 0
+          ? 'Invalid verification code'
+          : 'Too many incorrect codes. Please sign in again.',
+        attemptsRemaining,
+        challengeExpired: attemptsRemaining === 0,
+      });
+    }
+
+    // Challenge is single-use; a concurrent request that redeemed it first wins
+    if (!await consumeMfaChallenge(user, challenge.jti)) {
+      securityLogger('mfa_challenge_rejected', {
+        userId: user._id,
+        reason: 'challenge_used',
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Your verification window has expired. Please sign in again.',
+        challengeExpired: true,
+      });
+    }
+
+    // Update last login (also persists a security key's counter)
+    user.lastLogin = new Date();
+    if (method === 'email') {
+      user.activation.lastOtpVerifiedAt = new Date();
+    }
+    await user.save();
+
+    securityLogger('login_success', {
+      userId: user._id,
+      email: user.officialEmail,
+      role: user.role,
+      method,
+    });
+
+    const backupCodesRemaining = countRemainingBackupCodes(user);
+    if (method === 'backup') {
+      securityLogger('backup_code_used', {
+        userId: user._id,
+        email: user.officialEmail,
+        backupCodesRemaining,
+      });
+    }
+
+    const signIn = await completeSignIn(user, req, res, { mfaMethod: method });
+
+    // Opt-in only, and never for roles that must complete MFA on every sign-in
+    const deviceTrusted = trustRequested === true && isTrustedDeviceAllowedForRole(user.role);
+    if (deviceTrusted) {
+      const trusted = await trustDevice(user, req);
+      setTrustedDeviceCookie(res, trusted.token);
+
+      securityLogger('device_trusted', {
+        userId: user._id,
+        trustedDeviceId: trusted.device._id,
+        expiresAt: trusted.expiresAt,
+        ip: req.ip,
+      });
+    }
+
+    res.json({
+      success: true,
+      ...signIn,
+      message: 'MFA verified',
+      backupCodesRemaining,
+      deviceTrusted,
+    });
+  } catch (error) {
+    console.error('MFA verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during MFA verification',
+    });
+  }
+});
+
+/**
+ * Send email OTP
+ * POST /api/auth/send-otp
+ */
+router.post('/send-otp', otpLimiter, validateOtpRequest, async (req, res) => {
+  try {
+    const { purpose, mfaChallenge } = req.body;
+    let { email } = req.body;
+
+    let user;
+    if (purpose === 'login') {
+      // Login codes are only sent to the account behind a live MFA challenge
+      const challenge = mfaChallenge ? await loadMfaChallenge(mfaChallenge, req) : { valid: false };
+      if (!challenge.valid) {
+        return res.status(401).json({
+          success: false,
+          message: 'Your verification window has expired. Please sign in again.',
+          challengeExpired: true,
+        });
+      }
+      user = challenge.user;
+      email = user.officialEmail;
+    } else {
+      user = await User.findOne({ officialEmail: email });
+    }
+
+    if (purpose === 'registration' && user) {
+      return res.status(400).json({
+        success: false,
+        message: 'User with this email already exists',
+      });
+    }
+
+    // Login and reset codes only go to existing accounts (login only for email MFA).
+    // The response is identical either way so accounts cannot be enumerated.
+    const canIssue = purpose === 'registration'
+      || (user && (purpose !== 'login' || user.authMethod === 'email'));
+
+    if (!canIssue) {
+      securityLogger('otp_request_ignored', { email, purpose });
+
+      return res.json({
+        success: true,
+        message: `OTP sent to ${email}`,
+        expiresIn: getOtpExpirySeconds(),
+      });
+    }
+
+    const issued = await issueEmailOtp(email, purpose);
+    if (issued.retryAfter) {
+      return res.status(429).json({
+        success: false,
+        message: `Please wait ${issued.retryAfter} seconds before requesting another code`,
+      });
+    }
+
+    if (purpose === 'password-reset') {
+      await sendPasswordResetEmail(email, user.fullName, issued.code, issued.expiresIn);
+    } else {
+      await sendOtpEmail(email, user?.fullName || 'User', issued.code, purpose, issued.expiresIn);
+    }
+
+    if (user) {
+      user.activation.lastOtpSentAt = new Date();
+      await user.save();
+    }
+
+    securityLogger('otp_sent', {
+      userId: user?._id,
+      email,
+      purpose,
+    });
+
+    res.json({
+      success: true,
+      message: `OTP sent to ${email}`,
+      expiresIn: issued.expiresIn,
+    });
+  } catch (error) {
+    console.error('Send OTP error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send OTP',
+    });
+  }
+});
+
+/**
+ * Verify email OTP
+ * POST /api/auth/verify-otp
+ * Login codes are redeemed through /verify-mfa instead.
+ */
+router.post('/verify-otp', mfaLimiter, validateOtpVerification, async (req, res) => {
+  try {
+    const { email, otpCode, purpose } = req.body;
+
+    if (purpose === 'login') {
+      return res.status(400).json({
+        success: false,
+        message: 'Login codes are verified through /verify-mfa',
+      });
+    }
+
+    const result = await verifyEmailOtp(email, purpose, otpCode);
+    if (!result.valid) {
+      securityLogger('otp_failed', {
+        email,
+        purpose,
+        reason: result.reason,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: result.reason === 'too_many_attempts'
+          ? 'Too many incorrect attempts. Request a new code.'
+          : 'Invalid or expired OTP code',
+      });
+    }
+
+    const user = await User.findOne({ officialEmail: email });
+    if (user) {
+      user.activation.lastOtpVerifiedAt = new Date();
+      await user.save();
+    }
+
+    securityLogger('otp_verified', {
+      userId: user?._id,
+      email,
+      purpose,
+    });
+
+    res.json({
+      success: true,
+      message: 'OTP verified successfully',
+      verificationToken: createOtpVerificationToken(email, purpose),
+    });
+  } catch (error) {
+    console.error('Verify OTP error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify OTP',
+    });
+  }
+});
+
+/**
+ * Start a password reset after the reset OTP was verified
+ * POST /api/auth/reset-password/start
+ * Tells the client which second factor the reset needs.
+ */
+router.post('/reset-password/start', mfaLimiter, validatePasswordReset, async (req, res) => {
+  try {
+    const { email, verificationToken } = req.body;
+
+    const user = await User.findOne({ officialEmail: email });
+    if (!user || !checkOtpVerificationToken(verificationToken, email, 'password-reset', user.passwordChangedAt)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Your reset session has expired. Please request a new code.',
+        resetExpired: true,
+      });
+    }
+
+    res.json({
+      success: true,
+      role: user.role,
+      mfaMethod: toClientMfaMethod(user.authMethod),
+      totpDigits: getUserTotpParams(user).digits,
+      // Email OTP users already proved their factor with the reset code
+      mfaRequired: user.authMethod !== 'email',
+    });
+  } catch (error) {
+    console.error('Password reset start error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start password reset',
+    });
+  }
+});
+
+/**
+ * Reset password with a verified reset OTP plus the user's MFA factor
+ * POST /api/auth/reset-password
+ */
+router.post('/reset-password', mfaLimiter, validatePasswordReset, async (req, res) => {
+  try {
+    const { email, verificationToken, newPassword, mfaMethod, mfaCode, webauthnResponse } = req.body;
+
+    const user = await User.findOne({ officialEmail: email });
+    if (!user || !checkOtpVerificationToken(verificationToken, email, 'password-reset', user.passwordChangedAt)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Your reset session has expired. Please request a new code.',
+        resetExpired: true,
+      });
+    }
+
+    // Checked before the MFA factor so a rejected password does not use up the code
+    const policyError = validatePasswordForRole(newPassword, user.role);
+    if (policyError) {
+      return res.status(400).json({
+        success: false,
+        message: policyError,
+      });
+    }
+
+    if (await bcrypt.compare(newPassword, user.passwordHash)) {
+      return res.status(400).json({
+        success: false,
+        message: 'New password must be different from your current password',
+      });
+    }
+
+    if (user.authMethod !== 'email') {
+      if (!mfaMethod || (mfaMethod === 'webauthn' ? !webauthnResponse : !mfaCode)) {
+        return res.status(400).json({
+          success: false,
+          message: {
+            webauthn: 'Security key or backup code required',
+            hardware_token: 'Hardware token or backup code required',
+          }[user.authMethod] ?? 'Authenticator or backup code required',
+          mfaRequired: true,
+        });
+      }
+
+      const result = await verifyMfaCode(user, mfaMethod, getMfaFactor(mfaMethod, mfaCode, webauthnResponse), {
+        purpose: 'password-reset',
+      });
+      if (!result.valid) {
+        securityLogger('password_reset_mfa_failed', {
+          userId: user._id,
+          email: user.officialEmail,
+          method: mfaMethod,
+          reason: result.reason,
+          ip: req.ip,
+        });
+
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid verification code',
+        });
+      }
+    }
+
+    const changedAt = new Date();
+    user.passwordHash = await hashPassword(newPassword);
+    // Signs out every existing session and voids this reset token
+    user.passwordChangedAt = changedAt;
+    clearMfaChallenge(user);
+    await user.save();
+    await revokeUserSessions(user._id, 'password_reset');
+    await revokeUserTrustedDevices(user._id, 'password_reset');
+    clearTrustedDeviceCookie(res);
+
+    securityLogger('password_reset', {
+      userId: user._id,
+      email: user.officialEmail,
+      ip: req.ip,
+    });
+    auditLog('password_reset', user._id, {
+      email: user.officialEmail,
+      mfaMethod: mfaMethod || 'email',
+    });
+
+    await sendPasswordChangedEmail(user.officialEmail, user.fullName, {
+      changedAt,
+      ip: req.ip,
+      method: 'reset',
+    });
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. Please sign in with your new password.',
+    });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reset password',
+    });
+  }
+});
+
+/**
+ * Send email verification link
+ * POST /api/auth/send-verification
+ */
+router.post('/send-verification', registerLimiter, async (req, res) => {
+  try {
+    const { email, purpose = 'registration' } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is required',
+      });
+    }
+
+    // Find user
+    const user = await User.findOne({ officialEmail: email.toLowerCase() });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    // Check if already verified
+    if (user.emailVerified && purpose === 'registration') {
+      return res.status(400).json({
+        success: false,
+        message: 'Email already verified',
+      });
+    }
+
+    // Rate limiting - max 3 emails per 15 minutes
+    if (user.lastVerificationEmailSent) {
+      const timeSinceLastEmail = Date.now() - user.lastVerificationEmailSent.getTime();
+      const RATE_LIMIT = 5 * 60 * 1000; // 5 minutes
+      
+      if (timeSinceLastEmail < RATE_LIMIT) {
+        const waitTime = Math.ceil((RATE_LIMIT - timeSinceLastEmail) / 1000 / 60);
+        return res.status(429).json({
+          success: false,
+          message: `Please wait ${waitTime} minute(s) before requesting another verification email`,
+        });
+      }
+    }
+
+    // Generate verification token
+    const verificationToken = generateVerificationToken();
+    const expiryMinutes = parseInt(process.env.EMAIL_VERIFICATION_EXPIRY || '15');
+    const expiryDate = new Date(Date.now() + expiryMinutes * 60 * 1000);
+
+    // Save token to user
+    user.emailVerificationToken = verificationToken;
+    user.emailVerificationExpiry = expiryDate;
+    user.lastVerificationEmailSent = new Date();
+    await user.save();
+
+    // Send verification email
+    await sendVerificationEmail(email, user.fullName, verificationToken, purpose);
+
+    securityLogger('email_verification_sent', {
+      userId: user._id,
+      email: user.officialEmail,
+      purpose,
+    });
+
+    res.json({
+      success: true,
+      message: 'Verification email sent successfully',
+      expiresIn: expiryMinutes,
+    });
+  } catch (error) {
+    console.error('Send verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send verification email',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Verify email with token
+ * GET /api/auth/verify-email/:token
+ */
+router.get('/verify-email/:token', async (req, res) => {
+  try {
+    const { token } = req.params;
+
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        message: 'Verification token is required',
+      });
+    }
+
+    // Find user with this token
+    const user = await User.findOne({
+      emailVerificationToken: token,
+      emailVerificationExpiry: { $gt: new Date() }, // Token not expired
+    });
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid or expired verification token',
+      });
+    }
+
+    // Mark email as verified
+    user.emailVerified = true;
+    user.emailVerificationToken = null;
+    user.emailVerificationExpiry = null;
+    await user.save();
+
+    securityLogger('email_verified', {
+      userId: user._id,
+      email: user.officialEmail,
+    });
+
+    const autoActivated = await activateAfterEmailVerification(user);
+
+    res.json({
+      success: true,
+      message: autoActivated
+        ? 'Email verified successfully. Your account is active.'
+        : 'Email verified successfully. An administrator will review your account.',
+      user: {
+        id: user._id,
+        email: user.officialEmail,
+        emailVerified: true,
+        isActivated: user.isActivated,
+      },
+    });
+  } catch (error) {
+    console.error('Email verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify email',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * Resend verification email
+ * POST /api/auth/resend-verification
+ */
+router.post('/resend-verification', registerLimiter, async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is required',
+      });
+    }
+
+    // Find user
+    const user = await User.findOne({ officialEmail: email.toLowerCase() });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    // Check if already verified
+    if (user.emailVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email already verified',
+      });
+    }
+
+    // Rate limiting
+    if (user.lastVerificationEmailSent) {
+      const timeSinceLastEmail = Date.now() - user.lastVerificationEmailSent.getTime();
+      const RATE_LIMIT = 2 * 60 * 1000; // 2 minutes
+      
+      if (timeSinceLastEmail < RATE_LIMIT) {
+        const waitTime = Math.ceil((RATE_LIMIT - timeSinceLastEmail) / 1000);
+        return res.status(429).json({
+          success: false,
+          message: `Please wait ${waitTime} seconds before resending`,
+        });
+      }
+    }
+
+    // Generate new token
+    const verificationToken = generateVerificationToken();
+    const expiryMinutes = parseInt(process.env.EMAIL_VERIFICATION_EXPIRY || '15');
+    const expiryDate = new Date(Date.now() + expiryMinutes * 60 * 1000);
+
+    user.emailVerificationToken = verificationToken;
+    user.emailVerificationExpiry = expiryDate;
+    user.lastVerificationEmailSent = new Date();
+    await user.save();
+
+    // Send email
+    await sendVerificationEmail(email, user.fullName, verificationToken, 'registration');
+
+    res.json({
+      success: true,
+      message: 'Verification email resent successfully',
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to resend verification email',
+    });
+  }
+});
+
+/**
+ * Get backup code status for the signed-in user
+ * GET /api/auth/backup-codes
+ */
+router.get('/backup-codes', verifyToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId).select('backupCodes');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      remaining: countRemainingBackupCodes(user),
+      total: user.backupCodes.length,
+    });
+  } catch (error) {
+    console.error('Backup code status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve backup code status',
+    });
+  }
+});
+
+/**
+ * Regenerate backup codes; all previous codes stop working
+ * POST /api/auth/backup-codes/regenerate
+ */
+router.post('/backup-codes/regenerate', mfaLimiter, verifyToken, requireRecentAuth(), async (req, res) => {
+  try {
+    const { password } = req.body;
+
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Current password is required',
+      });
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+    if (!isPasswordValid) {
+      securityLogger('backup_codes_regenerate_failed', {
+        userId: user._id,
+        email: user.officialEmail,
+        reason: 'invalid_password',
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Incorrect password',
+      });
+    }
+
+    const codes = generateBackupCodes();
+    user.backupCodes = toBackupCodeRecords(codes);
+    await user.save();
+
+    auditLog('backup_codes_regenerated', user._id, {
+      email: user.officialEmail,
+      count: codes.length,
+    });
+
+    // Plaintext codes are returned exactly once
+    res.json({
+      success: true,
+      codes,
+      remaining: codes.length,
+      message: 'Backup codes regenerated',
+    });
+  } catch (error) {
+    console.error('Backup code regeneration error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to regenerate backup codes',
+    });
+  }
+});
+
+/**
+ * Email a step-up code to the signed-in user (email MFA accounts only)
+ * POST /api/auth/mfa/send-code
+ */
+router.post('/mfa/send-code', otpLimiter, allowPendingMfaEnrollment, verifyToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    if (user.authMethod !== 'email') {
+      return res.status(400).json({
+        success: false,
+        message: {
+          webauthn: 'Use your security key to confirm',
+          hardware_token: 'Use the code from your hardware token',
+        }[user.authMethod] ?? 'Use the code from your authenticator app',
+      });
+    }
+
+    const issued = await issueEmailOtp(user.officialEmail, 'step-up');
+    if (issued.retryAfter) {
+      return res.status(429).json({
+        success: false,
+        message: `Please wait ${issued.retryAfter} seconds before requesting another code`,
+      });
+    }
+
+    await sendOtpEmail(user.officialEmail, user.fullName, issued.code, 'step-up', issued.expiresIn);
+
+    user.activation.lastOtpSentAt = new Date();
+    await user.save();
+
+    securityLogger('otp_sent', {
+      userId: user._id,
+      email: user.officialEmail,
+      purpose: 'step-up',
+    });
+
+    res.json({
+      success: true,
+      message: `OTP sent to ${user.officialEmail}`,
+      expiresIn: issued.expiresIn,
+    });
+  } catch (error) {
+    console.error('Send step-up code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send OTP',
+    });
+  }
+});
+
+/**
+ * Change password for the signed-in user
+ * POST /api/auth/change-password
+ * Requires the current password and a fresh MFA code; other sessions are signed out.
+ */
+router.post('/change-password', mfaLimiter, verifyToken, validateChangePassword, async (req, res) => {
+  try {
+    const { currentPassword, newPassword, mfaMethod, mfaCode, webauthnResponse } = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.passwordHash);
+    if (!isPasswordValid) {
+      securityLogger('password_change_failed', {
+        userId: user._id,
+        email: user.officialEmail,
+        reason: 'invalid_password',
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect',
+      });
+    }
+
+    // Checked before the MFA factor so a rejected password neither consumes a code nor counts as a step-up
+    const policyError = validatePasswordForRole(newPassword, user.role);
+    if (policyError) {
+      return res.status(400).json({
+        success: false,
+        message: policyError,
+      });
+    }
+
+    if (await bcrypt.compare(newPassword, user.passwordHash)) {
+      return res.status(400).json({
+        success: false,
+        message: 'New password must be different from your current password',
+      });
+    }
+
+    const mfaResult = await verifyMfaCode(user, mfaMethod, getMfaFactor(mfaMethod, mfaCode, webauthnResponse), {
+      purpose: 'step-up',
+    });
+    if (!mfaResult.valid) {
+      securityLogger('password_change_failed', {
+        userId: user._id,
+        email: user.officialEmail,
+        reason: mfaResult.reason,
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid verification code',
+      });
+    }
+
+    // The inline MFA check doubles as a step-up for the current session
+    await recordStepUp(req.user.sessionId, mfaMethod);
+
+    const changedAt = new Date();
+    user.passwordHash = await hashPassword(newPassword);
+    user.passwordChangedAt = changedAt;
+    clearMfaChallenge(user);
+    await user.save();
+
+    // Other sessions are revoked; the current one stays signed in with a fresh access token
+    await revokeUserSessions(user._id, 'password_changed', { exceptSessionId: req.user.sessionId });
+    await revokeUserTrustedDevices(user._id, 'password_changed');
+    clearTrustedDeviceCookie(res);
+    const currentSession = await Session.findById(req.user.sessionId);
+
+    securityLogger('password_changed', {
+      userId: user._id,
+      email: user.officialEmail,
+      ip: req.ip,
+    });
+    auditLog('password_changed', user._id, {
+      email: user.officialEmail,
+      mfaMethod,
+      ip: req.ip,
+    });
+
+    await sendPasswordChangedEmail(user.officialEmail, user.fullName, {
+      changedAt,
+      ip: req.ip,
+      method: 'change',
+    });
+
+    // Access tokens issued before the change are now rejected
+    const access = currentSession && !currentSession.revokedAt ? signAccessToken(user, currentSession) : null;
+    res.json({
+      success: true,
+      token: access?.token,
+      expiresAt: access?.expiresAt,
+      message: 'Password changed successfully',
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to change password',
+    });
+  }
+});
+
+/**
+ * Confirm a fresh MFA proof for the current session before a sensitive action
+ * POST /api/auth/step-up
+ */
+router.post('/step-up', mfaLimiter, verifyToken, validateStepUp, async (req, res) => {
+  try {
+    const { mfaMethod, mfaCode, webauthnResponse } = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const mfaResult = await verifyMfaCode(user, mfaMethod, getMfaFactor(mfaMethod, mfaCode, webauthnResponse), {
+      purpose: 'step-up',
+    });
+    if (!mfaResult.valid) {
+      securityLogger('step_up_failed', {
+        userId: user._id,
+        email: user.officialEmail,
+        reason: mfaResult.reason,
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid verification code',
+      });
+    }
+
+    // Persists a consumed backup code or key counter
+    await user.save();
+    const verifiedAt = await recordStepUp(req.user.sessionId, mfaMethod);
+
+    securityLogger('step_up_success', {
+      userId: user._id,
+      sessionId: req.user.sessionId,
+      method: mfaMethod,
+      ip: req.ip,
+    });
+
+    res.json({
+      success: true,
+      verifiedAt,
+      maxAge: getStepUpMaxAgeSeconds(user.role),
+      message: 'Identity confirmed',
+    });
+  } catch (error) {
+    console.error('Step-up verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify identity',
+    });
+  }
+});
+
+/**
+ * Re-verify the signed-in user before changing MFA settings
+ * POST /api/auth/mfa/reverify
+ */
+router.post('/mfa/reverify', mfaLimiter, allowPendingMfaEnrollment, verifyToken, validateMfaReverification, async (req, res) => {
+  try {
+    const { password, mfaMethod, mfaCode, webauthnResponse } = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+    const mfaResult = isPasswordValid
+      ? await verifyMfaCode(user, mfaMethod, getMfaFactor(mfaMethod, mfaCode, webauthnResponse), { purpose: 'step-up' })
+      : { valid: false, reason: 'invalid_password' };
+
+    if (!mfaResult.valid) {
+      securityLogger('mfa_reverify_failed', {
+        userId: user._id,
+        email: user.officialEmail,
+        reason: mfaResult.reason,
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
         success: false,
-        message: 'Invalid or expired verification token',
+        message: isPasswordValid ? 'Invalid verification code' : 'Current password is incorrect',
       });
     }
 
-    // Mark email as verified
-    user.emailVerified = true;
-    user.emailVerificationToken = null;
-    user.emailVerificationExpiry = null;
+    // Persists a consumed backup code or key counter
     await user.save();
+    await recordStepUp(req.user.sessionId, mfaMethod);
 
-    securityLogger('email_verified', {
+    res.json({
+      success: true,
+      mfaUpdateToken: createMfaUpdateToken(user),
+      currentMethod: toClientMfaMethod(user.authMethod),
+      enforcedMethod: ROLE_ENFORCED_MFA_METHODS[user.role] || null,
+    });
+  } catch (error) {
+    console.error('MFA re-verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify identity',
+    });
+  }
+});
+
+/**
+ * Switch MFA method, re-enroll an authenticator, add a security key or activate a hardware token
+ * POST /api/auth/mfa/update
+ * A new authenticator secret, key or token only takes effect once it has been proven.
+ */
+router.post('/mfa/update', mfaLimiter, allowPendingMfaEnrollment, verifyToken, requireRecentAuth(), validateMfaUpdate, async (req, res) => {
+  try {
+    const { mfaUpdateToken, method, totpSecret, totpCode, webauthnResponse, nickname, tokenSerial, hotpCodes } = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user || !checkMfaUpdateToken(mfaUpdateToken, user)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Please verify your identity again before changing MFA settings',
+        reverifyRequired: true,
+      });
+    }
+
+    if (!isMfaMethodAllowedForRole(user.role, method)) {
+      securityLogger('mfa_downgrade_blocked', {
+        userId: user._id,
+        email: user.officialEmail,
+        role: user.role,
+        requestedMethod: method,
+      });
+
+      return res.status(403).json({
+        success: false,
+        message: describeEnforcedMfaMethod(user.role),
+      });
+    }
+
+    // New authenticators always use the role's current parameters
+    const totpParams = getTotpParamsForRole(user.role);
+    const totpStep = method === 'totp' ? verifyTotpCode(totpSecret, totpCode, totpParams) : null;
+    if (method === 'totp' && totpStep === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'The code does not match the new authenticator. Check the app and try again.',
+      });
+    }
+
+    // Only the token an administrator assigned to this user can be activated; the two codes also sync its counter,
+    // which is moved only once the method change below has been written
+    let hardwareToken = null;
+    let resyncCounter = null;
+    if (method === 'hotp') {
+      const token = await findAssignedToken(user._id);
+      resyncCounter = token && token.serial === tokenSerial.trim().toUpperCase()
+        ? findResyncCounter(token, hotpCodes[0], hotpCodes[1])
+        : null;
+
+      if (resyncCounter === null) {
+        securityLogger('hardware_token_activation_failed', {
+          userId: user._id,
+          email: user.officialEmail,
+          serial: tokenSerial,
+          reason: token ? 'codes_invalid' : 'no_hardware_token',
+          ip: req.ip,
+        });
+
+        return res.status(400).json({
+          success: false,
+          message: token
+            ? 'The serial or codes do not match the token assigned to you. Press the button twice and enter both codes.'
+            : 'No hardware token is assigned to your account. Contact an administrator.',
+        });
+      }
+      hardwareToken = token;
+    }
+
+    const previousMethod = toClientMfaMethod(user.authMethod);
+
+    // Keys are added alongside existing ones; switching to another method drops them all
+    let webauthnCredentials = [];
+    if (method === 'webauthn') {
+      const registration = await verifyRegistration(user.officialEmail, webauthnResponse, {
+        nickname: nickname?.trim(),
+      });
+      if (!registration.valid) {
+        securityLogger('webauthn_registration_failed', {
+          userId: user._id,
+          email: user.officialEmail,
+          reason: registration.reason,
+          ip: req.ip,
+        });
+
+        return res.status(400).json({
+          success: false,
+          message: 'Security key registration could not be verified. Please try again.',
+        });
+      }
+
+      webauthnCredentials = previousMethod === 'webauthn'
+        ? [...user.webauthnCredentials.map((credential) => credential.toObject()), registration.credential]
+        : [registration.credential];
+    }
+
+    const changedAt = new Date();
+
+    // Swap method and secret in one write; fails if another MFA change landed first
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id, mfaChangedAt: user.mfaChangedAt },
+      {
+        $set: {
+          authMethod: toStoredAuthMethod(method),
+          totpSecret: method === 'totp' ? totpSecret : null,
+          totpParams: method === 'totp' ? totpParams : { algorithm: null, digits: null, period: null },
+          // The enrollment code cannot be replayed to sign in
+          totpLastUsedStep: totpStep,
+          webauthnCredentials,
+          // Only reachable with a method the role accepts, so this completes any enrollment an MFA reset left pending
+          mfaEnrollmentRequired: false,
+          mfaChangedAt: changedAt,
+          mfaChallenge: { jti: null, expiresAt: null, attempts: 0 },
+        },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        message: 'MFA settings were changed from another session. Please verify again.',
+        reverifyRequired: true,
+      });
+    }
+
+    // Another request moved the counter since the codes were matched; the method change stands and a later resync fixes any drift
+    if (hardwareToken && !await claimResyncCounter(hardwareToken, resyncCounter)) {
+      securityLogger('hardware_token_resync_skipped', {
+        userId: user._id,
+        email: user.officialEmail,
+        serial: hardwareToken.serial,
+        reason: 'counter_moved',
+        ip: req.ip,
+      });
+    }
+
+    // Devices trusted under the old factor must complete MFA again
+    await revokeUserTrustedDevices(user._id, 'mfa_changed');
+    clearTrustedDeviceCookie(res);
+
+    securityLogger('mfa_method_changed', {
       userId: user._id,
       email: user.officialEmail,
+      previousMethod,
+      method,
+      ip: req.ip,
+    });
+    auditLog('mfa_method_changed', user._id, {
+      email: user.officialEmail,
+      previousMethod,
+      method,
+      ...(method === 'webauthn' && { securityKeys: webauthnCredentials.length }),
+      ...(method === 'hotp' && { serial: tokenSerial.trim().toUpperCase() }),
     });
 
+    await sendMfaMethodChangedEmail(user.officialEmail, user.fullName, method, {
+      changedAt,
+      ip: req.ip,
+    });
+
+    const messages = {
+      totp: 'Authenticator app enrolled',
+      email: 'Email OTP enabled',
+      webauthn: 'Security key registered',
+      hotp: 'Hardware token activated',
+    };
+
     res.json({
       success: true,
-      message: 'Email verified successfully',
-      user: {
-        id: user._id,
+      mfaMethod: method,
+      totpDigits: getUserTotpParams(updated).digits,
+      message: messages[method],
+    });
+  } catch (error) {
+    console.error('MFA update error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update MFA settings',
+    });
+  }
+});
+
+/**
+ * Security key registration options during sign-up
+ * POST /api/auth/webauthn/register/options
+ */
+router.post('/webauthn/register/options', registerLimiter, validateWebAuthnRegistrationOptions, async (req, res) => {
+  try {
+    const { email, fullName } = req.body;
+
+    const existingUser = await User.findOne({ officialEmail: email });
+    if (existingUser) {
+      return res.status(400).json({
+        success: false,
+        message: 'User with this email already exists',
+      });
+    }
+
+    const options = await createRegistrationOptions({ email, displayName: fullName?.trim() });
+
+    res.json({
+      success: true,
+      options,
+    });
+  } catch (error) {
+    console.error('WebAuthn registration options error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start security key registration',
+    });
+  }
+});
+
+/**
+ * Security key registration options for a signed-in user adding or switching to a key
+ * POST /api/auth/webauthn/enroll/options
+ * Requires the token from /mfa/reverify.
+ */
+router.post('/webauthn/enroll/options', mfaLimiter, allowPendingMfaEnrollment, verifyToken, async (req, res) => {
+  try {
+    const { mfaUpdateToken } = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user || typeof mfaUpdateToken !== 'string' || !checkMfaUpdateToken(mfaUpdateToken, user)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Please verify your identity again before changing MFA settings',
+        reverifyRequired: true,
+      });
+    }
+
+    const options = await createRegistrationOptions({
+      email: user.officialEmail,
+      displayName: user.fullName,
+      existingCredentials: user.authMethod === 'webauthn' ? user.webauthnCredentials : [],
+    });
+
+    res.json({
+      success: true,
+      options,
+    });
+  } catch (error) {
+    console.error('WebAuthn enrollment options error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start security key registration',
+    });
+  }
+});
+
+/**
+ * Resynchronise a hardware token that has drifted past the look-ahead window
+ * POST /api/auth/hardware-token/resync
+ * Used from the login MFA step; the user still has to enter a fresh code afterwards.
+ */
+router.post('/hardware-token/resync', mfaLimiter, validateHardwareTokenResync, async (req, res) => {
+  try {
+    const { mfaChallenge, hotpCodes } = req.body;
+
+    const challenge = await loadMfaChallenge(mfaChallenge, req);
+    if (!challenge.valid) {
+      securityLogger('mfa_challenge_rejected', {
+        reason: challenge.reason,
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Your verification window has expired. Please sign in again.',
+        challengeExpired: true,
+      });
+    }
+
+    const { user } = challenge;
+
+    if (challenge.method !== 'hotp') {
+      return res.status(400).json({
+        success: false,
+        message: 'MFA method does not match this sign-in challenge',
+      });
+    }
+
+    const token = await findAssignedToken(user._id);
+    const synced = token && await resyncHardwareToken(token, hotpCodes[0], hotpCodes[1]);
+
+    if (!synced) {
+      // Counts against the same attempt budget as wrong codes
+      const attemptsRemaining = await recordFailedChallengeAttempt(user, challenge.jti);
+
+      securityLogger('hardware_token_resync_failed', {
+        userId: user._id,
         email: user.officialEmail,
-        emailVerified: true,
-      },
+        reason: token ? 'codes_invalid' : 'no_hardware_token',
+        attemptsRemaining,
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: attemptsRemaining > 0
+          ? 'The codes could not be matched. Press the button twice and enter both codes in order.'
+          : 'Too many incorrect codes. Please sign in again.',
+        attemptsRemaining,
+        challengeExpired: attemptsRemaining === 0,
+      });
+    }
+
+    securityLogger('hardware_token_resynced', {
+      userId: user._id,
+      serial: token.serial,
+      ip: req.ip,
+    });
+
+    res.json({
+      success: true,
+      message: 'Token resynchronised. Press the button once more and enter the new code.',
     });
   } catch (error) {
-    console.error('Email verification error:', error);
+    console.error('Hardware token resync error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to verify email',
-      error: error.message,
+      message: 'Failed to resynchronise hardware token',
     });
   }
 });
 
 /**
- * Resend verification email
- * POST /api/auth/resend-verification
+ * Security key assertion options for the login MFA step
+ * POST /api/auth/webauthn/login/options
  */
-router.post('/resend-verification', registerLimiter, async (req, res) => {
+router.post('/webauthn/login/options', mfaLimiter, async (req, res) => {
   try {
-    const { email } = req.body;
+    const { mfaChallenge } = req.body;
 
-    if (!email) {
+    const challenge = typeof mfaChallenge === 'string'
+      ? await loadMfaChallenge(mfaChallenge, req)
+      : { valid: false, reason: 'challenge_invalid' };
+
+    if (!challenge.valid) {
+      securityLogger('mfa_challenge_rejected', {
+        reason: challenge.reason,
+        ip: req.ip,
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Your verification window has expired. Please sign in again.',
+        challengeExpired: true,
+      });
+    }
+
+    if (challenge.method !== 'webauthn') {
       return res.status(400).json({
         success: false,
-        message: 'Email is required',
+        message: 'MFA method does not match this sign-in challenge',
       });
     }
 
-    // Find user
-    const user = await User.findOne({ officialEmail: email.toLowerCase() });
+    const options = await createAuthenticationOptions(challenge.user, 'login');
+
+    res.json({
+      success: true,
+      options,
+    });
+  } catch (error) {
+    console.error('WebAuthn login options error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start security key verification',
+    });
+  }
+});
+
+/**
+ * Security key assertion options for signed-in confirmations
+ * POST /api/auth/webauthn/step-up/options
+ */
+router.post('/webauthn/step-up/options', mfaLimiter, verifyToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId);
     if (!user) {
       return res.status(404).json({
         success: false,
@@ -440,50 +2344,63 @@ router.post('/resend-verification', registerLimiter, async (req, res) => {
       });
     }
 
-    // Check if already verified
-    if (user.emailVerified) {
+    if (user.authMethod !== 'webauthn') {
       return res.status(400).json({
         success: false,
-        message: 'Email already verified',
+        message: 'No security key is registered for this account',
       });
     }
 
-    // Rate limiting
-    if (user.lastVerificationEmailSent) {
-      const timeSinceLastEmail = Date.now() - user.lastVerificationEmailSent.getTime();
-      const RATE_LIMIT = 2 * 60 * 1000; // 2 minutes
-      
-      if (timeSinceLastEmail < RATE_LIMIT) {
-        const waitTime = Math.ceil((RATE_LIMIT - timeSinceLastEmail) / 1000);
-        return res.status(429).json({
-          success: false,
-          message: `Please wait ${waitTime} seconds before resending`,
-        });
-      }
-    }
+    const options = await createAuthenticationOptions(user, 'step-up');
 
-    // Generate new token
-    const verificationToken = generateVerificationToken();
-    const expiryMinutes = parseInt(process.env.EMAIL_VERIFICATION_EXPIRY || '15');
-    const expiryDate = new Date(Date.now() + expiryMinutes * 60 * 1000);
+    res.json({
+      success: true,
+      options,
+    });
+  } catch (error) {
+    console.error('WebAuthn step-up options error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start security key verification',
+    });
+  }
+});
 
-    user.emailVerificationToken = verificationToken;
-    user.emailVerificationExpiry = expiryDate;
-    user.lastVerificationEmailSent = new Date();
-    await user.save();
+/**
+ * Security key assertion options for a password reset
+ * POST /api/auth/webauthn/reset/options
+ */
+router.post('/webauthn/reset/options', mfaLimiter, validatePasswordReset, async (req, res) => {
+  try {
+    const { email, verificationToken } = req.body;
 
-    // Send email
-    await sendVerificationEmail(email, user.fullName, verificationToken, 'registration');
+    const user = await User.findOne({ officialEmail: email });
+    if (!user || !checkOtpVerificationToken(verificationToken, email, 'password-reset', user.passwordChangedAt)) {
+      return res.status(401).json({
+        success: false,
+        message: 'Your reset session has expired. Please request a new code.',
+        resetExpired: true,
+      });
+    }
+
+    if (user.authMethod !== 'webauthn') {
+      return res.status(400).json({
+        success: false,
+        message: 'No security key is registered for this account',
+      });
+    }
+
+    const options = await createAuthenticationOptions(user, 'password-reset');
 
     res.json({
       success: true,
-      message: 'Verification email resent successfully',
+      options,
     });
   } catch (error) {
-    console.error('Resend verification error:', error);
+    console.error('WebAuthn reset options error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to resend verification email',
+      message: 'Failed to start security key verification',
     });
   }
 });
@@ -1,6 +1,117 @@
 import express from 'express';
-import { verifyToken, requireRole, requireAdmin } from '../middleware/auth.js';
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import UnlockRequest from '../models/UnlockRequest.js';
+import {
+  verifyToken,
+  requireRole,
+  requirePermission,
+  requireRecentAuth,
+  requireSponsorConfirmation,
+  requireResolvedVerification,
+  allowPendingMfaEnrollment,
+} from '../middleware/auth.js';
 import { auditLog } from '../middleware/logger.js';
+import {
+  validateUnlockReview,
+  validateActivationReview,
+  validateVerificationResolution,
+  validateSponsorRequest,
+  validateSponsorReview,
+  validateHardwareTokenImport,
+  validateRosterPreview,
+  validateRosterApply,
+  validateRolePermissions,
+  validatePermissionOverride,
+  validatePolicyTest,
+  validatePolicyExplain,
+  validatePolicyApply,
+  validateElevationRequest,
+  validateElevationReview,
+  validateOperationReason,
+  validateOperationReview,
+  validateHardwareTokenAssign,
+} from '../middleware/validator.js';
+import { clearLockout } from '../services/lockoutService.js';
+import {
+  listActiveSessions,
+  toSessionSummary,
+  revokeSession,
+  revokeUserSessions,
+} from '../services/sessionService.js';
+import {
+  importHardwareTokens,
+  toHardwareTokenSummary,
+} from '../services/hardwareTokenService.js';
+import { decideActivation, toRegistrationSummary } from '../services/activationService.js';
+import { resolveVerification, toVerificationSummary } from '../services/verificationService.js';
+import {
+  previewRosterImport,
+  applyRosterImport,
+  toRosterVersionSummary,
+} from '../services/rosterService.js';
+import {
+  getDefaultPermissions,
+  getMissingLockedPermissions,
+  getRolePermissions,
+  getEffectivePermissions,
+  listRolePermissions,
+  setPermissionOverride,
+  removePermissionOverride,
+  toUserPermissionsSummary,
+} from '../services/permissionService.js';
+import {
+  POLICY_ATTRIBUTES,
+  EMPTY_POLICY_DOCUMENT,
+  OPERATORS,
+  buildRequestAttributes,
+  parsePolicyDocument,
+  evaluatePolicyDocument,
+  runPolicyTests,
+  getCurrentPolicy,
+  applyPolicyDocument,
+  toPolicyVersionSummary,
+  formatPolicyErrors,
+} from '../services/policyService.js';
+import {
+  ELEVATION_DURATIONS_MINUTES,
+  findOpenElevation,
+  requestElevation,
+  decideElevation,
+  cancelElevation,
+  revokeElevation,
+  toElevationSummary,
+} from '../services/elevationService.js';
+import {
+  FOUR_EYES_ROLES,
+  OPERATION_PERMISSIONS,
+  needsApprovalForOverride,
+  proposeOperation,
+  executeOperation,
+  reviewOperation,
+  cancelOperation,
+  toOperationSummary,
+} from '../services/pendingOperationService.js';
+import {
+  requestSponsorConfirmation,
+  decideSponsorship,
+  toSponsorLinkSummary,
+  toDependentSummary,
+} from '../services/sponsorService.js';
+import Session from '../models/Session.js';
+import HardwareToken from '../models/HardwareToken.js';
+import RosterVersion from '../models/RosterVersion.js';
+import AccessPolicyVersion from '../models/AccessPolicyVersion.js';
+import ElevationRequest from '../models/ElevationRequest.js';
+import PendingOperation from '../models/PendingOperation.js';
+import { PERMISSIONS, ROLE_KEYS, isPermission } from '../../shared/roleRegistry.js';
+import {
+  sendAccountUnlockedEmail,
+  sendActivationDecisionEmail,
+  sendSponsorRequestEmail,
+  sendSponsorDecisionEmail,
+  sendMfaMethodChangedEmail,
+} from '../services/emailService.js';
 
 const router = express.Router();
 
@@ -8,18 +119,29 @@ const router = express.Router();
  * Get user dashboard data
  * Protected route - requires authentication
  */
-router.get('/user', verifyToken, async (req, res) => {
+router.get('/user', allowPendingMfaEnrollment, verifyToken, async (req, res) => {
   try {
     auditLog('dashboard_access', req.user.userId, {
       role: req.user.role,
     });
 
+    const { manualVerification } = await User.findById(req.user.userId).select('manualVerification');
+
     res.json({
       success: true,
       user: {
         fullName: req.user.fullName,
         email: req.user.email,
         role: req.user.role,
+        mfaEnrollmentRequired: req.user.mfaEnrollmentRequired,
+        verification: {
+          status: manualVerification?.status ?? 'not_required',
+          reasons: manualVerification?.reasons ?? [],
+        },
+        permissions: await getEffectivePermissions(req.user),
+        elevation: req.user.elevation
+          ? { permissions: req.user.elevation.permissions, expiresAt: req.user.elevation.expiresAt }
+          : null,
       },
       message: 'Dashboard data retrieved successfully',
     });
@@ -33,110 +155,398 @@ router.get('/user', verifyToken, async (req, res) => {
 });
 
 /**
- * Get officer-specific resources
- * Only accessible to officers and admins
+ * Get Defence Personnel resources
+ * Requires personnel:read (personnel and admins by default)
  */
-router.get('/officer', verifyToken, requireRole('officer', 'admin'), async (req, res) => {
+router.get('/personnel', verifyToken, requirePermission('personnel:read'), requireResolvedVerification, async (req, res) => {
   try {
     res.json({
       success: true,
       data: {
-        operations: [],
-        personnel: [],
-        missions: [],
+        personnelRecords: [],
+        serviceDetails: [],
+        leave: [],
+        trainingAssignments: [],
       },
-      message: 'Officer dashboard data',
+      message: 'Personnel dashboard data',
     });
   } catch (error) {
-    console.error('Officer dashboard error:', error);
+    console.error('Personnel dashboard error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve officer data',
+      message: 'Failed to retrieve personnel data',
     });
   }
 });
 
 /**
- * Get staff-specific resources
- * Only accessible to staff and admins
+ * Get veteran services
+ * Requires veteran:read (veterans and admins by default)
  */
-router.get('/staff', verifyToken, requireRole('staff', 'admin'), async (req, res) => {
+router.get('/veteran', verifyToken, requirePermission('veteran:read'), requireResolvedVerification, async (req, res) => {
   try {
     res.json({
       success: true,
       data: {
-        familyServices: [],
-        benefits: [],
-        announcements: [],
+        pension: [],
+        medicalFacilities: [],
+        veteranServices: [],
+        retirementBenefits: [],
       },
-      message: 'Staff dashboard data',
+      message: 'Veteran dashboard data',
     });
   } catch (error) {
-    console.error('Staff dashboard error:', error);
+    console.error('Veteran dashboard error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve staff data',
+      message: 'Failed to retrieve veteran data',
     });
   }
 });
 
 /**
- * Get analyst-specific resources
- * Only accessible to analysts and admins
+ * Get CERT operations data
+ * Requires cert:read (CERT analysts and admins by default)
  */
-router.get('/analyst', verifyToken, requireRole('analyst', 'admin'), async (req, res) => {
+router.get('/cert', verifyToken, requirePermission('cert:read'), requireResolvedVerification, async (req, res) => {
   try {
     res.json({
       success: true,
       data: {
-        reports: [],
-        analytics: [],
-        threats: [],
+        threatAnalysis: [],
+        incidentReports: [],
+        securityMonitoring: [],
       },
-      message: 'Analyst dashboard data',
+      message: 'CERT dashboard data',
     });
   } catch (error) {
-    console.error('Analyst dashboard error:', error);
+    console.error('CERT dashboard error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve analyst data',
+      message: 'Failed to retrieve CERT data',
     });
   }
 });
 
 /**
- * Get guest-specific resources
- * Only accessible to guests and admins
+ * Get family services
+ * Family members only once their sponsor has confirmed them
  */
-router.get('/guest', verifyToken, requireRole('guest', 'admin'), async (req, res) => {
+router.get('/family', verifyToken, requirePermission('family:read'), requireResolvedVerification, requireSponsorConfirmation, async (req, res) => {
   try {
     res.json({
       success: true,
       data: {
-        publicResources: [],
-        readOnlyData: [],
+        benefits: [],
+        medicalServices: [],
+        educationSupport: [],
+        welfarePrograms: [],
       },
-      message: 'Guest dashboard data',
+      message: 'Family dashboard data',
+    });
+  } catch (error) {
+    console.error('Family dashboard error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve family data',
+    });
+  }
+});
+
+/**
+ * Family member - get the sponsor link and whether it is confirmed
+ * GET /api/dashboard/sponsor
+ */
+router.get('/sponsor', verifyToken, requireRole('family'), async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId)
+      .select('sponsor')
+      .populate('sponsor.user', 'fullName');
+
+    res.json({
+      success: true,
+      sponsor: toSponsorLinkSummary(user, user.sponsor?.user),
+    });
+  } catch (error) {
+    console.error('Sponsor status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve sponsor status',
+    });
+  }
+});
+
+/**
+ * Family member - name a sponsor after a rejection, or for an account registered without one
+ * POST /api/dashboard/sponsor
+ */
+router.post('/sponsor', verifyToken, requireRole('family'), validateSponsorRequest, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId).select('fullName credentialId role sponsor');
+
+    if (['pending', 'confirmed'].includes(user.sponsor?.status)) {
+      return res.status(409).json({
+        success: false,
+        message: user.sponsor.status === 'confirmed'
+          ? 'Your sponsor has already confirmed your account'
+          : 'Your sponsor has not answered the current request yet',
+      });
+    }
+
+    const sponsor = await requestSponsorConfirmation(user, req.body.serviceId);
+    if (!sponsor) {
+      return res.status(404).json({
+        success: false,
+        message: 'Sponsor Service ID not recognised. Your sponsor needs an active Defence Personnel account.',
+      });
+    }
+
+    auditLog('sponsor_confirmation_requested', req.user.userId, {
+      sponsorId: sponsor._id,
+      sponsorServiceId: sponsor.credentialId,
+    });
+
+    await sendSponsorRequestEmail(sponsor.officialEmail, sponsor.fullName, {
+      dependentName: user.fullName,
+      familyId: user.credentialId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Request sent. Your sponsor can confirm it from their dashboard.',
+      sponsor: toSponsorLinkSummary(user),
+    });
+  } catch (error) {
+    console.error('Sponsor request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to request sponsor confirmation',
+    });
+  }
+});
+
+/**
+ * Defence Personnel - list pending sponsor requests and confirmed dependents
+ * GET /api/dashboard/dependents
+ */
+router.get('/dependents', verifyToken, requirePermission('dependents:review'), async (req, res) => {
+  try {
+    const dependents = await User.find({
+      role: 'family',
+      'sponsor.user': req.user.userId,
+      'sponsor.status': { $in: ['pending', 'confirmed'] },
+      // A registration the administrators rejected never needs an answer
+      'activationReview.status': { $ne: 'rejected' },
+    })
+      .sort({ 'sponsor.requestedAt': 1 })
+      .select('fullName officialEmail credentialId isActivated sponsor');
+
+    res.json({
+      success: true,
+      dependents: dependents.map(toDependentSummary),
+    });
+  } catch (error) {
+    console.error('Dependents list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve dependents',
+    });
+  }
+});
+
+/**
+ * Defence Personnel - confirm or reject a family member who named you as sponsor
+ * POST /api/dashboard/dependents/:userId/review
+ */
+router.post('/dependents/:userId/review', verifyToken, requirePermission('dependents:review'), requireResolvedVerification, requireRecentAuth(), validateSponsorReview, async (req, res) => {
+  try {
+    const confirmed = req.body.decision === 'confirm';
+    const reason = req.body.reason?.trim() || null;
+
+    const dependent = mongoose.isValidObjectId(req.params.userId)
+      ? await decideSponsorship(req.user.userId, req.params.userId, { confirmed, reason })
+      : null;
+    if (!dependent) {
+      return res.status(404).json({
+        success: false,
+        message: 'No pending request from this family member',
+      });
+    }
+
+    auditLog(confirmed ? 'sponsor_confirmed' : 'sponsor_rejected', req.user.userId, {
+      dependentId: dependent._id,
+      dependentFamilyId: dependent.credentialId,
+      reason,
+    });
+
+    await sendSponsorDecisionEmail(dependent.officialEmail, dependent.fullName, {
+      confirmed,
+      reason,
+      decidedAt: dependent.sponsor.decidedAt,
+    });
+
+    res.json({
+      success: true,
+      message: confirmed ? 'Dependent confirmed' : 'Request rejected',
+      dependent: toDependentSummary(dependent),
+    });
+  } catch (error) {
+    console.error('Sponsor review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review dependent',
+    });
+  }
+});
+
+// Permissions the user could still ask for: not held already and not denied to them by an override
+const getRequestablePermissions = (user, held) => Object.keys(PERMISSIONS).filter((permission) => !held.includes(permission)
+  && !user.permissionOverrides.some((override) => override.permission === permission && override.effect === 'deny'));
+
+/**
+ * Signed-in user - their pending elevation request or active elevation, and what they can request
+ * GET /api/dashboard/elevation
+ */
+router.get('/elevation', verifyToken, async (req, res) => {
+  try {
+    const open = await findOpenElevation(req.user.userId).populate('reviewedBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      elevation: open ? toElevationSummary(open) : null,
+      requestable: getRequestablePermissions(req.user, await getEffectivePermissions(req.user)),
+      durations: ELEVATION_DURATIONS_MINUTES,
+    });
+  } catch (error) {
+    console.error('Elevation status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve elevation status',
+    });
+  }
+});
+
+/**
+ * Signed-in user - request temporary elevated permissions; an approver has to grant them
+ * POST /api/dashboard/elevation
+ */
+router.post('/elevation', verifyToken, requireResolvedVerification, validateElevationRequest, async (req, res) => {
+  try {
+    const { permissions, durationMinutes } = req.body;
+    const justification = req.body.justification.trim();
+
+    const result = await requestElevation(req.user, { permissions, justification, durationMinutes });
+
+    if (result.alreadyHeld) {
+      return res.status(400).json({
+        success: false,
+        message: `You already hold: ${result.alreadyHeld.join(', ')}`,
+      });
+    }
+
+    if (result.denied) {
+      return res.status(400).json({
+        success: false,
+        message: `Denied to your account by an administrator: ${result.denied.join(', ')}`,
+      });
+    }
+
+    if (result.open) {
+      return res.status(409).json({
+        success: false,
+        message: result.open.status === 'approved'
+          ? 'You already have an active elevation. End it before requesting another.'
+          : 'You already have a pending elevation request.',
+      });
+    }
+
+    auditLog('elevation_requested', req.user.userId, {
+      elevationId: result.request._id,
+      permissions,
+      durationMinutes,
+      justification,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Elevation requested. It applies once an approver grants it.',
+      elevation: toElevationSummary(result.request),
+    });
+  } catch (error) {
+    console.error('Elevation request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to request elevation',
+    });
+  }
+});
+
+/**
+ * Signed-in user - withdraw their pending request, or end their active elevation early
+ * POST /api/dashboard/elevation/cancel
+ */
+router.post('/elevation/cancel', verifyToken, async (req, res) => {
+  try {
+    const cancelled = await cancelElevation(req.user.userId);
+    if (!cancelled) {
+      return res.status(404).json({
+        success: false,
+        message: 'No pending request or active elevation',
+      });
+    }
+
+    const wasActive = Boolean(cancelled.reviewedAt);
+    auditLog('elevation_cancelled', req.user.userId, {
+      elevationId: cancelled._id,
+      permissions: cancelled.permissions,
+      wasActive,
+    });
+
+    res.json({
+      success: true,
+      message: wasActive ? 'Elevation ended' : 'Elevation request withdrawn',
     });
   } catch (error) {
-    console.error('Guest dashboard error:', error);
+    console.error('Elevation cancel error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to retrieve guest data',
+      message: 'Failed to cancel elevation',
     });
   }
 });
 
+// Escape user input before building a case-insensitive search pattern
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 /**
- * Admin dashboard - view all users
- * Only accessible to admins
+ * Admin dashboard - search users by name, email or credential ID
+ * GET /api/dashboard/admin/users?search=
+ * Requires users:read
  */
-router.get('/admin/users', verifyToken, requireAdmin, async (req, res) => {
+router.get('/admin/users', verifyToken, requirePermission('users:read'), async (req, res) => {
   try {
-    // In production, fetch from database
+    const search = typeof req.query.search === 'string' ? req.query.search.trim().slice(0, 100) : '';
+    const pattern = new RegExp(escapeRegExp(search), 'i');
+    const filter = search
+      ? { $or: [{ fullName: pattern }, { officialEmail: pattern }, { credentialId: pattern }] }
+      : {};
+
+    const users = await User.find(filter)
+      .sort({ lastLogin: -1 })
+      .limit(20)
+      .select('fullName officialEmail role credentialId isActivated lastLogin');
+
     res.json({
       success: true,
-      users: [],
+      users: users.map((user) => ({
+        id: user._id,
+        fullName: user.fullName,
+        email: user.officialEmail,
+        role: user.role,
+        credentialId: user.credentialId,
+        isActivated: user.isActivated,
+        lastLogin: user.lastLogin,
+      })),
       message: 'Admin: All users',
     });
   } catch (error) {
@@ -148,4 +558,1699 @@ router.get('/admin/users', verifyToken, requireAdmin, async (req, res) => {
   }
 });
 
+/**
+ * Admin - list account unlock requests
+ * GET /api/dashboard/admin/unlock-requests?status=pending
+ */
+router.get('/admin/unlock-requests', verifyToken, requirePermission('unlock_requests:review'), async (req, res) => {
+  try {
+    const status = ['pending', 'approved', 'rejected'].includes(req.query.status) ? req.query.status : 'pending';
+
+    const requests = await UnlockRequest.find({ status })
+      .sort({ createdAt: status === 'pending' ? 1 : -1 })
+      .limit(100)
+      .populate('user', 'fullName credentialId lockout')
+      .populate('reviewedBy', 'fullName officialEmail');
+
+    res.json({
+      success: true,
+      requests: requests.map((request) => ({
+        id: request._id,
+        email: request.email,
+        role: request.role,
+        fullName: request.user?.fullName ?? null,
+        credentialId: request.user?.credentialId ?? null,
+        reason: request.reason,
+        status: request.status,
+        requestedAt: request.createdAt,
+        lockedUntil: request.user?.lockout?.lockedUntil ?? request.lockedUntil,
+        reviewedBy: request.reviewedBy?.officialEmail ?? null,
+        reviewNote: request.reviewNote,
+        reviewedAt: request.reviewedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Unlock request list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve unlock requests',
+    });
+  }
+});
+
+/**
+ * Admin - approve or reject an unlock request
+ * POST /api/dashboard/admin/unlock-requests/:id/review
+ */
+router.post('/admin/unlock-requests/:id/review', verifyToken, requirePermission('unlock_requests:review'), requireRecentAuth(), validateUnlockReview, async (req, res) => {
+  try {
+    const { decision } = req.body;
+    const note = req.body.note?.trim() || null;
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unlock request not found',
+      });
+    }
+
+    const unlockRequest = await UnlockRequest.findById(req.params.id);
+    if (!unlockRequest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unlock request not found',
+      });
+    }
+
+    if (unlockRequest.status !== 'pending') {
+      return res.status(409).json({
+        success: false,
+        message: `Unlock request was already ${unlockRequest.status}`,
+      });
+    }
+
+    const user = await User.findById(unlockRequest.user);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'The account for this request no longer exists',
+      });
+    }
+
+    unlockRequest.status = decision === 'approve' ? 'approved' : 'rejected';
+    unlockRequest.reviewedBy = req.user.userId;
+    unlockRequest.reviewNote = note;
+    unlockRequest.reviewedAt = new Date();
+
+    if (decision === 'approve') {
+      clearLockout(user);
+      await user.save();
+    }
+    await unlockRequest.save();
+
+    auditLog(decision === 'approve' ? 'account_unlock_approved' : 'account_unlock_rejected', req.user.userId, {
+      requestId: unlockRequest._id,
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+      note,
+    });
+
+    if (decision === 'approve') {
+      await sendAccountUnlockedEmail(user.officialEmail, user.fullName, {
+        unlockedAt: unlockRequest.reviewedAt,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: decision === 'approve' ? 'Account unlocked' : 'Unlock request rejected',
+    });
+  } catch (error) {
+    console.error('Unlock request review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review unlock request',
+    });
+  }
+});
+
+/**
+ * Admin - list registrations awaiting activation, or recently decided ones
+ * GET /api/dashboard/admin/registrations?status=pending
+ */
+router.get('/admin/registrations', verifyToken, requirePermission('registrations:review'), async (req, res) => {
+  try {
+    const status = ['pending', 'approved', 'rejected'].includes(req.query.status) ? req.query.status : 'pending';
+    const filter = {
+      pending: { isActivated: false, 'activationReview.status': { $ne: 'rejected' }, 'deactivation.deactivatedAt': null },
+      approved: { isActivated: true, 'activationReview.status': 'approved' },
+      rejected: { isActivated: false, 'activationReview.status': 'rejected' },
+    }[status];
+
+    const users = await User.find(filter)
+      .sort(status === 'pending' ? { createdAt: 1 } : { 'activationReview.reviewedAt': -1 })
+      .limit(100)
+      .select('fullName officialEmail role credentialId authMethod emailVerified isActivated activationReview createdAt')
+      .populate('activationReview.reviewedBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      registrations: users.map(toRegistrationSummary),
+    });
+  } catch (error) {
+    console.error('Registration list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve registrations',
+    });
+  }
+});
+
+/**
+ * Admin - approve or reject a pending registration
+ * POST /api/dashboard/admin/registrations/:userId/review
+ */
+router.post('/admin/registrations/:userId/review', verifyToken, requirePermission('registrations:review'), requireRecentAuth(), validateActivationReview, async (req, res) => {
+  try {
+    const { decision } = req.body;
+    const reason = req.body.reason?.trim() || null;
+    const approved = decision === 'approve';
+
+    const user = mongoose.isValidObjectId(req.params.userId)
+      ? await User.findById(req.params.userId).select('fullName officialEmail role isActivated activationReview')
+      : null;
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const updated = await decideActivation(user._id, { approved, reason, reviewedBy: req.user.userId });
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        message: `Registration was already ${user.isActivated ? 'approved' : 'rejected'}`,
+      });
+    }
+
+    auditLog(approved ? 'account_activation_approved' : 'account_activation_rejected', req.user.userId, {
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+      role: user.role,
+      reason,
+    });
+
+    await sendActivationDecisionEmail(user.officialEmail, user.fullName, {
+      approved,
+      reason,
+      decidedAt: updated.activationReview.reviewedAt,
+    });
+
+    res.json({
+      success: true,
+      message: approved ? 'Account activated' : 'Registration rejected',
+    });
+  } catch (error) {
+    console.error('Registration review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review registration',
+    });
+  }
+});
+
+// Resolve the :userId route parameter, answering 404 when it does not match a user
+const findTargetUser = async (req, res) => {
+  const user = mongoose.isValidObjectId(req.params.userId)
+    ? await User.findById(req.params.userId).select('fullName officialEmail role isActivated')
+    : null;
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      message: 'User not found',
+    });
+  }
+  return user;
+};
+
+/**
+ * Admin - registrations flagged for manual verification, or recently resolved ones
+ * GET /api/dashboard/admin/verifications?status=pending
+ */
+router.get('/admin/verifications', verifyToken, requirePermission('verifications:resolve'), async (req, res) => {
+  try {
+    const status = ['pending', 'verified', 'rejected'].includes(req.query.status) ? req.query.status : 'pending';
+
+    const users = await User.find({ 'manualVerification.status': status })
+      .sort(status === 'pending' ? { 'manualVerification.flaggedAt': 1 } : { 'manualVerification.resolvedAt': -1 })
+      .limit(100)
+      .select('fullName officialEmail role credentialId isActivated manualVerification')
+      .populate('manualVerification.resolvedBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      verifications: users.map(toVerificationSummary),
+    });
+  } catch (error) {
+    console.error('Verification list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve verifications',
+    });
+  }
+});
+
+/**
+ * Admin - verify or reject a flagged registration
+ * POST /api/dashboard/admin/verifications/:userId/resolve
+ */
+router.post('/admin/verifications/:userId/resolve', verifyToken, requirePermission('verifications:resolve'), requireRecentAuth(), validateVerificationResolution, async (req, res) => {
+  try {
+    const verified = req.body.decision === 'verify';
+    const note = req.body.note.trim();
+
+    const user = await findTargetUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    const updated = await resolveVerification(user._id, { verified, note, resolvedBy: req.user.userId });
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        message: 'Registration is not awaiting verification',
+      });
+    }
+
+    // A rejected registration may not sign in; end anything already open
+    const revoked = verified ? 0 : await revokeUserSessions(user._id, 'verification_rejected');
+
+    auditLog(verified ? 'registration_verified' : 'registration_verification_rejected', req.user.userId, {
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+      reasons: updated.manualVerification.reasons,
+      note,
+      revokedSessions: revoked,
+    });
+
+    res.json({
+      success: true,
+      message: verified ? 'Registration verified' : 'Registration rejected',
+    });
+  } catch (error) {
+    console.error('Verification resolve error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to resolve verification',
+    });
+  }
+});
+
+/**
+ * Admin - list a user's active sessions
+ * GET /api/dashboard/admin/users/:userId/sessions
+ */
+router.get('/admin/users/:userId/sessions', verifyToken, requirePermission('users:read'), async (req, res) => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    const sessions = await listActiveSessions(user._id);
+
+    auditLog('admin_sessions_viewed', req.user.userId, {
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+    });
+
+    res.json({
+      success: true,
+      sessions: sessions.map((session) => toSessionSummary(session, req.user.sessionId)),
+    });
+  } catch (error) {
+    console.error('Admin session list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve sessions',
+    });
+  }
+});
+
+/**
+ * Admin - sign out every session of a user
+ * POST /api/dashboard/admin/users/:userId/sessions/revoke-all
+ */
+router.post('/admin/users/:userId/sessions/revoke-all', verifyToken, requirePermission('sessions:manage'), requireRecentAuth(), async (req, res) => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    // An admin revoking their own sessions keeps the one they are using
+    const exceptSessionId = String(user._id) === String(req.user.userId) ? req.user.sessionId : undefined;
+    const revoked = await revokeUserSessions(user._id, 'revoked_by_admin', { exceptSessionId });
+
+    auditLog('admin_sessions_revoked', req.user.userId, {
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+      revoked,
+    });
+
+    res.json({
+      success: true,
+      revoked,
+      message: revoked === 1 ? 'Signed out 1 session' : `Signed out ${revoked} sessions`,
+    });
+  } catch (error) {
+    console.error('Admin session revoke error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out sessions',
+    });
+  }
+});
+
+/**
+ * Admin - sign out one session of a user
+ * POST /api/dashboard/admin/users/:userId/sessions/:sessionId/revoke
+ */
+router.post('/admin/users/:userId/sessions/:sessionId/revoke', verifyToken, requirePermission('sessions:manage'), requireRecentAuth(), async (req, res) => {
+  try {
+    const user = await findTargetUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    if (String(req.params.sessionId) === String(req.user.sessionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Use Logout to end the current session',
+      });
+    }
+
+    const session = mongoose.isValidObjectId(req.params.sessionId)
+      ? await Session.findOne({ _id: req.params.sessionId, user: user._id })
+      : null;
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found',
+      });
+    }
+
+    await revokeSession(session, 'revoked_by_admin');
+
+    auditLog('admin_session_revoked', req.user.userId, {
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+      sessionId: session._id,
+    });
+
+    res.json({
+      success: true,
+      message: 'Session signed out',
+    });
+  } catch (error) {
+    console.error('Admin session revoke error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to sign out session',
+    });
+  }
+});
+
+// Send a critical operation to the approvals inbox: 202 while it waits, 409 when the same one is already waiting
+const proposeForApproval = async (req, res, type, { targetUser = null, targetRole = null, params = {}, reason }) => {
+  const { operation, duplicate } = await proposeOperation(type, {
+    targetUser,
+    targetRole,
+    params,
+    reason,
+    proposedBy: req.user.userId,
+  });
+
+  if (duplicate) {
+    return res.status(409).json({
+      success: false,
+      message: 'The same operation is already waiting for approval',
+    });
+  }
+
+  auditLog('operation_proposed', req.user.userId, {
+    operationId: operation._id,
+    type,
+    targetUserId: targetUser,
+    targetRole,
+    params,
+    reason,
+    expiresAt: operation.expiresAt,
+  });
+
+  res.status(202).json({
+    success: true,
+    pendingApproval: true,
+    message: `Waiting for a second administrator to approve it (until ${operation.expiresAt.toLocaleString()})`,
+    operation: toOperationSummary(operation),
+  });
+};
+
+// Audit event of each operation once it has run
+const OPERATION_AUDIT_EVENTS = {
+  deactivate_account: 'account_deactivated',
+  reset_mfa: 'mfa_reset_by_admin',
+  set_role_permissions: 'role_permissions_changed',
+  reset_role_permissions: 'role_permissions_reset',
+  set_permission_override: 'permission_override_set',
+  remove_permission_override: 'permission_override_removed',
+};
+
+// approvedBy is null for a change that did not need a second administrator
+const recordExecutedOperation = async (req, operation, { user, result, operationId = null, proposedBy, approvedBy }) => {
+  auditLog(OPERATION_AUDIT_EVENTS[operation.type], approvedBy ?? proposedBy, {
+    operationId,
+    proposedBy,
+    approvedBy,
+    targetUserId: user?._id,
+    targetEmail: user?.officialEmail,
+    role: operation.targetRole ?? undefined,
+    reason: operation.reason,
+    ...result,
+  });
+
+  // The owner learns their factor was dropped even if they did not ask for it
+  if (operation.type === 'reset_mfa') {
+    await sendMfaMethodChangedEmail(user.officialEmail, user.fullName, 'email', {
+      changedAt: user.mfaChangedAt,
+      ip: req.ip,
+    });
+  }
+};
+
+// Deactivation and MFA reset: direct for most accounts, a proposal when the account is in FOUR_EYES_ROLES
+const runAccountOperation = async (req, res, type) => {
+  const target = await findTargetUser(req, res);
+  if (!target) {
+    return;
+  }
+
+  if (String(target._id) === String(req.user.userId)) {
+    return res.status(400).json({
+      success: false,
+      message: type === 'deactivate_account'
+        ? 'You cannot deactivate your own account'
+        : 'Change your own MFA from your security settings',
+    });
+  }
+
+  if (type === 'deactivate_account' && !target.isActivated) {
+    return res.status(409).json({
+      success: false,
+      message: `${target.officialEmail} is not active`,
+    });
+  }
+
+  const reason = req.body.reason.trim();
+  if (FOUR_EYES_ROLES.includes(target.role)) {
+    return proposeForApproval(req, res, type, { targetUser: target._id, reason });
+  }
+
+  const operation = { type, targetUser: target._id, targetRole: null, reason };
+  const outcome = await executeOperation(operation, { proposedBy: req.user.userId });
+  if (outcome.failed) {
+    return res.status(409).json({
+      success: false,
+      message: outcome.failed,
+    });
+  }
+
+  await recordExecutedOperation(req, operation, { ...outcome, proposedBy: req.user.userId, approvedBy: null });
+
+  res.json({
+    success: true,
+    message: type === 'deactivate_account'
+      ? `${target.officialEmail} deactivated and signed out`
+      : `MFA of ${target.officialEmail} reset to email OTP; they have been signed out`,
+  });
+};
+
+/**
+ * Admin - deactivate an account and sign it out; an admin account needs a second administrator
+ * POST /api/dashboard/admin/users/:userId/deactivate
+ */
+router.post('/admin/users/:userId/deactivate', verifyToken, requirePermission('accounts:manage'), requireRecentAuth(), validateOperationReason, async (req, res) => {
+  try {
+    await runAccountOperation(req, res, 'deactivate_account');
+  } catch (error) {
+    console.error('Account deactivation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to deactivate account',
+    });
+  }
+});
+
+/**
+ * Admin - drop a user's MFA factor and backup codes so they sign in with email OTP and enrol again;
+ * an admin account needs a second administrator
+ * POST /api/dashboard/admin/users/:userId/mfa/reset
+ */
+router.post('/admin/users/:userId/mfa/reset', verifyToken, requirePermission('accounts:manage'), requireRecentAuth(), validateOperationReason, async (req, res) => {
+  try {
+    await runAccountOperation(req, res, 'reset_mfa');
+  } catch (error) {
+    console.error('MFA reset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reset MFA',
+    });
+  }
+});
+
+// Resolve the :id route parameter to a hardware token, answering 404 when it does not exist
+const findHardwareToken = async (req, res) => {
+  const token = mongoose.isValidObjectId(req.params.id)
+    ? await HardwareToken.findById(req.params.id)
+    : null;
+  if (!token) {
+    res.status(404).json({
+      success: false,
+      message: 'Hardware token not found',
+    });
+  }
+  return token;
+};
+
+/**
+ * Admin - list hardware tokens
+ * GET /api/dashboard/admin/hardware-tokens?status=&search=
+ */
+router.get('/admin/hardware-tokens', verifyToken, requirePermission('hardware_tokens:manage'), async (req, res) => {
+  try {
+    const search = typeof req.query.search === 'string' ? req.query.search.trim().slice(0, 32) : '';
+    const filter = {
+      ...(['available', 'assigned'].includes(req.query.status) && { status: req.query.status }),
+      ...(search && { serial: new RegExp(escapeRegExp(search), 'i') }),
+    };
+
+    const [tokens, counts] = await Promise.all([
+      HardwareToken.find(filter)
+        .sort({ status: 1, serial: 1 })
+        .limit(100)
+        .populate('assignedTo', 'fullName officialEmail role authMethod'),
+      HardwareToken.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+    ]);
+
+    res.json({
+      success: true,
+      tokens: tokens.map(toHardwareTokenSummary),
+      counts: Object.fromEntries(counts.map((entry) => [entry._id, entry.count])),
+    });
+  } catch (error) {
+    console.error('Hardware token list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve hardware tokens',
+    });
+  }
+});
+
+/**
+ * Admin - bulk import hardware token serials and seeds from CSV
+ * POST /api/dashboard/admin/hardware-tokens/import
+ */
+router.post('/admin/hardware-tokens/import', verifyToken, requirePermission('hardware_tokens:manage'), requireRecentAuth(), validateHardwareTokenImport, async (req, res) => {
+  try {
+    const result = await importHardwareTokens(req.body.csv, req.user.userId);
+
+    auditLog('hardware_tokens_imported', req.user.userId, {
+      imported: result.imported,
+      serials: result.serials,
+      skipped: result.skipped.length,
+    });
+
+    res.json({
+      success: true,
+      ...result,
+      message: result.imported === 1 ? 'Imported 1 token' : `Imported ${result.imported} tokens`,
+    });
+  } catch (error) {
+    console.error('Hardware token import error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import hardware tokens',
+    });
+  }
+});
+
+/**
+ * Admin - assign an available hardware token to a user
+ * POST /api/dashboard/admin/hardware-tokens/:id/assign
+ * The user activates it from MFA settings with two consecutive codes.
+ */
+router.post('/admin/hardware-tokens/:id/assign', verifyToken, requirePermission('hardware_tokens:manage'), requireRecentAuth(), validateHardwareTokenAssign, async (req, res) => {
+  try {
+    const token = await findHardwareToken(req, res);
+    if (!token) {
+      return;
+    }
+
+    const user = mongoose.isValidObjectId(req.body.userId)
+      ? await User.findById(req.body.userId).select('fullName officialEmail role')
+      : null;
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    if (await HardwareToken.exists({ assignedTo: user._id, status: 'assigned' })) {
+      return res.status(409).json({
+        success: false,
+        message: 'This user already has a hardware token. Unassign it first.',
+      });
+    }
+
+    // Claim only if still available so two admins cannot hand out the same token
+    const assigned = await HardwareToken.findOneAndUpdate(
+      { _id: token._id, status: 'available' },
+      {
+        $set: {
+          status: 'assigned',
+          assignedTo: user._id,
+          assignedBy: req.user.userId,
+          assignedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!assigned) {
+      return res.status(409).json({
+        success: false,
+        message: 'Token is already assigned',
+      });
+    }
+
+    auditLog('hardware_token_assigned', req.user.userId, {
+      tokenId: token._id,
+      serial: token.serial,
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+    });
+
+    res.json({
+      success: true,
+      message: `Token ${token.serial} assigned to ${user.fullName}`,
+    });
+  } catch (error) {
+    console.error('Hardware token assign error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to assign hardware token',
+    });
+  }
+});
+
+/**
+ * Admin - return an assigned hardware token to the pool
+ * POST /api/dashboard/admin/hardware-tokens/:id/unassign
+ */
+router.post('/admin/hardware-tokens/:id/unassign', verifyToken, requirePermission('hardware_tokens:manage'), requireRecentAuth(), async (req, res) => {
+  try {
+    const token = await findHardwareToken(req, res);
+    if (!token) {
+      return;
+    }
+
+    if (token.status !== 'assigned') {
+      return res.status(409).json({
+        success: false,
+        message: 'Token is not assigned',
+      });
+    }
+
+    // Pulling a token the user signs in with would leave them with backup codes only
+    const holder = await User.findById(token.assignedTo).select('officialEmail authMethod');
+    if (holder?.authMethod === 'hardware_token') {
+      return res.status(409).json({
+        success: false,
+        message: 'The user signs in with this token. They must switch MFA method before it can be unassigned.',
+      });
+    }
+
+    await HardwareToken.updateOne(
+      { _id: token._id },
+      { $set: { status: 'available', assignedTo: null, assignedBy: null, assignedAt: null } }
+    );
+
+    auditLog('hardware_token_unassigned', req.user.userId, {
+      tokenId: token._id,
+      serial: token.serial,
+      targetUserId: token.assignedTo,
+      targetEmail: holder?.officialEmail ?? null,
+    });
+
+    res.json({
+      success: true,
+      message: `Token ${token.serial} returned to the pool`,
+    });
+  } catch (error) {
+    console.error('Hardware token unassign error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to unassign hardware token',
+    });
+  }
+});
+
+/**
+ * Admin - current credential roster of each role
+ * GET /api/dashboard/admin/rosters
+ */
+router.get('/admin/rosters', verifyToken, requirePermission('rosters:manage'), async (req, res) => {
+  try {
+    const current = await Promise.all(ROLE_KEYS.map((role) => RosterVersion.findOne({ role })
+      .sort({ version: -1 })
+      .select('-entries')
+      .populate('importedBy', 'officialEmail')));
+
+    res.json({
+      success: true,
+      rosters: ROLE_KEYS.map((role, index) => ({
+        role,
+        current: current[index] ? toRosterVersionSummary(current[index]) : null,
+      })),
+    });
+  } catch (error) {
+    console.error('Roster list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve rosters',
+    });
+  }
+});
+
+/**
+ * Admin - import history of a role's roster, newest first
+ * GET /api/dashboard/admin/rosters/:role/versions
+ */
+router.get('/admin/rosters/:role/versions', verifyToken, requirePermission('rosters:manage'), async (req, res) => {
+  try {
+    const versions = await RosterVersion.find({ role: req.params.role })
+      .sort({ version: -1 })
+      .limit(50)
+      .select('-entries')
+      .populate('importedBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      versions: versions.map(toRosterVersionSummary),
+    });
+  } catch (error) {
+    console.error('Roster history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve roster history',
+    });
+  }
+});
+
+/**
+ * Admin - preview a roster import: entries added, removed and changed, and lines to fix
+ * POST /api/dashboard/admin/rosters/:role/preview
+ */
+router.post('/admin/rosters/:role/preview', verifyToken, requirePermission('rosters:manage'), validateRosterPreview, async (req, res) => {
+  try {
+    const preview = await previewRosterImport(req.params.role, req.body.format, req.body.content);
+
+    res.json({
+      success: true,
+      preview,
+    });
+  } catch (error) {
+    console.error('Roster preview error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to preview roster',
+    });
+  }
+});
+
+/**
+ * Admin - apply a previewed roster as the role's next version
+ * POST /api/dashboard/admin/rosters/:role/apply
+ */
+router.post('/admin/rosters/:role/apply', verifyToken, requirePermission('rosters:manage'), requireRecentAuth(), validateRosterApply, async (req, res) => {
+  try {
+    const { role } = req.params;
+    const { format, content, baseVersion } = req.body;
+
+    const result = await applyRosterImport(role, format, content, {
+      baseVersion,
+      fileName: req.body.fileName?.trim() || null,
+      note: req.body.note?.trim() || null,
+      importedBy: req.user.userId,
+    });
+
+    if (result.errors) {
+      return res.status(400).json({
+        success: false,
+        message: `Fix ${result.errors.length} ${result.errors.length === 1 ? 'line' : 'lines'} before applying this roster`,
+        errors: result.errors,
+      });
+    }
+
+    if (result.conflict) {
+      return res.status(409).json({
+        success: false,
+        message: `The ${role} roster changed since the preview (now version ${result.currentVersion}). Preview again.`,
+      });
+    }
+
+    const { roster } = result;
+    auditLog('roster_imported', req.user.userId, {
+      role,
+      version: roster.version,
+      entryCount: roster.entryCount,
+      changes: roster.changes,
+      format,
+      fileName: roster.fileName,
+    });
+
+    res.json({
+      success: true,
+      message: `Roster version ${roster.version} applied (${roster.entryCount} entries)`,
+      version: { ...toRosterVersionSummary(roster), importedBy: req.user.email },
+    });
+  } catch (error) {
+    console.error('Roster apply error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to apply roster',
+    });
+  }
+});
+
+/**
+ * Admin - permission catalogue and the grant list of every role
+ * GET /api/dashboard/admin/permissions
+ */
+router.get('/admin/permissions', verifyToken, requirePermission('permissions:manage'), async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      permissions: Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description })),
+      roles: await listRolePermissions(),
+    });
+  } catch (error) {
+    console.error('Permission list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve permissions',
+    });
+  }
+});
+
+/**
+ * Admin - propose a new grant list for a role; it applies once a second administrator approves it
+ * POST /api/dashboard/admin/permissions/roles/:role
+ */
+router.post('/admin/permissions/roles/:role', verifyToken, requirePermission('permissions:manage'), requireRecentAuth(), validateRolePermissions, async (req, res) => {
+  try {
+    const { role } = req.params;
+    const permissions = Object.keys(PERMISSIONS).filter((permission) => req.body.permissions.includes(permission));
+
+    const missingLocked = getMissingLockedPermissions(role, permissions);
+    if (missingLocked.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `The ${role} role must keep ${missingLocked.join(', ')}`,
+      });
+    }
+
+    const previous = await getRolePermissions(role);
+    if (permissions.length === previous.length && permissions.every((permission) => previous.includes(permission))) {
+      return res.status(400).json({
+        success: false,
+        message: `The ${role} role already has exactly these permissions`,
+      });
+    }
+
+    await proposeForApproval(req, res, 'set_role_permissions', {
+      targetRole: role,
+      params: { permissions, previous },
+      reason: req.body.reason.trim(),
+    });
+  } catch (error) {
+    console.error('Role permission update error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update role permissions',
+    });
+  }
+});
+
+/**
+ * Admin - propose returning a role to the default permissions of the role registry; needs a second administrator
+ * POST /api/dashboard/admin/permissions/roles/:role/reset
+ */
+router.post('/admin/permissions/roles/:role/reset', verifyToken, requirePermission('permissions:manage'), requireRecentAuth(), validateOperationReason, async (req, res) => {
+  try {
+    const { role } = req.params;
+    if (!ROLE_KEYS.includes(role)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Role not found',
+      });
+    }
+
+    await proposeForApproval(req, res, 'reset_role_permissions', {
+      targetRole: role,
+      params: { permissions: getDefaultPermissions(role), previous: await getRolePermissions(role) },
+      reason: req.body.reason.trim(),
+    });
+  } catch (error) {
+    console.error('Role permission reset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reset role permissions',
+    });
+  }
+});
+
+/**
+ * Admin - a user's role grants, overrides and effective permissions
+ * GET /api/dashboard/admin/users/:userId/permissions
+ */
+router.get('/admin/users/:userId/permissions', verifyToken, requirePermission('permissions:manage'), async (req, res) => {
+  try {
+    const target = await findTargetUser(req, res);
+    if (!target) {
+      return;
+    }
+
+    const user = await User.findById(target._id)
+      .select('fullName officialEmail role permissionOverrides')
+      .populate('permissionOverrides.grantedBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      ...(await toUserPermissionsSummary(user)),
+    });
+  } catch (error) {
+    console.error('User permission list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve user permissions',
+    });
+  }
+});
+
+/**
+ * Admin - grant or deny one permission to a user regardless of their role
+ * POST /api/dashboard/admin/users/:userId/permissions/overrides
+ * 202 with the proposal when the user is an admin or the permission is admin-level; a second admin must approve it
+ */
+router.post('/admin/users/:userId/permissions/overrides', verifyToken, requirePermission('permissions:manage'), requireRecentAuth(), validatePermissionOverride, async (req, res) => {
+  try {
+    const { permission, effect } = req.body;
+    const reason = req.body.reason.trim();
+
+    const user = await findTargetUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    if (String(user._id) === String(req.user.userId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot change your own permissions',
+      });
+    }
+
+    if (needsApprovalForOverride(user.role, permission)) {
+      return proposeForApproval(req, res, 'set_permission_override', {
+        targetUser: user._id,
+        params: { permission, effect },
+        reason,
+      });
+    }
+
+    const updated = await setPermissionOverride(user._id, { permission, effect, reason, grantedBy: req.user.userId });
+    await updated.populate('permissionOverrides.grantedBy', 'officialEmail');
+
+    auditLog('permission_override_set', req.user.userId, {
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+      permission,
+      effect,
+      reason,
+    });
+
+    res.json({
+      success: true,
+      message: `${permission} ${effect === 'grant' ? 'granted to' : 'denied for'} ${user.officialEmail}`,
+      ...(await toUserPermissionsSummary(updated)),
+    });
+  } catch (error) {
+    console.error('Permission override error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to set permission override',
+    });
+  }
+});
+
+/**
+ * Admin - remove a user's override so the role grants apply again
+ * POST /api/dashboard/admin/users/:userId/permissions/overrides/:permission/remove
+ * 202 with the proposal when the user is an admin or the permission is admin-level; a second admin must approve it
+ */
+router.post('/admin/users/:userId/permissions/overrides/:permission/remove', verifyToken, requirePermission('permissions:manage'), requireRecentAuth(), validateOperationReason, async (req, res) => {
+  try {
+    const { permission } = req.params;
+    const reason = req.body.reason.trim();
+
+    const user = await findTargetUser(req, res);
+    if (!user) {
+      return;
+    }
+
+    if (String(user._id) === String(req.user.userId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot change your own permissions',
+      });
+    }
+
+    const hasOverride = isPermission(permission)
+      && await User.exists({ _id: user._id, 'permissionOverrides.permission': permission });
+    if (!hasOverride) {
+      return res.status(404).json({
+        success: false,
+        message: 'Override not found',
+      });
+    }
+
+    if (needsApprovalForOverride(user.role, permission)) {
+      return proposeForApproval(req, res, 'remove_permission_override', {
+        targetUser: user._id,
+        params: { permission },
+        reason,
+      });
+    }
+
+    // Removed by another request since the check above
+    const updated = await removePermissionOverride(user._id, permission);
+    if (!updated) {
+      return res.status(404).json({
+        success: false,
+        message: 'Override not found',
+      });
+    }
+    await updated.populate('permissionOverrides.grantedBy', 'officialEmail');
+
+    auditLog('permission_override_removed', req.user.userId, {
+      targetUserId: user._id,
+      targetEmail: user.officialEmail,
+      permission,
+      reason,
+    });
+
+    res.json({
+      success: true,
+      message: `Override of ${permission} removed`,
+      ...(await toUserPermissionsSummary(updated)),
+    });
+  } catch (error) {
+    console.error('Permission override removal error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove permission override',
+    });
+  }
+});
+
+/**
+ * Admin - current access policy document, the attributes and operators it can use
+ * GET /api/dashboard/admin/policies
+ */
+router.get('/admin/policies', verifyToken, requirePermission('policies:manage'), async (req, res) => {
+  try {
+    const current = await getCurrentPolicy().populate('createdBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      current: current ? { ...toPolicyVersionSummary(current), document: current.document } : null,
+      attributes: Object.entries(POLICY_ATTRIBUTES).map(([name, description]) => ({ name, description })),
+      operators: Object.entries(OPERATORS).map(([name, { expects }]) => ({ name, expects })),
+    });
+  } catch (error) {
+    console.error('Policy retrieval error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve access policy',
+    });
+  }
+});
+
+/**
+ * Admin - applied policy versions, newest first
+ * GET /api/dashboard/admin/policies/versions
+ */
+router.get('/admin/policies/versions', verifyToken, requirePermission('policies:manage'), async (req, res) => {
+  try {
+    const versions = await AccessPolicyVersion.find()
+      .sort({ version: -1 })
+      .limit(50)
+      .populate('createdBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      versions: versions.map(toPolicyVersionSummary),
+    });
+  } catch (error) {
+    console.error('Policy history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve policy history',
+    });
+  }
+});
+
+/**
+ * Admin - the document of one applied version, e.g. to roll back to it
+ * GET /api/dashboard/admin/policies/versions/:version
+ */
+router.get('/admin/policies/versions/:version', verifyToken, requirePermission('policies:manage'), async (req, res) => {
+  try {
+    const version = Number(req.params.version);
+    const policy = Number.isInteger(version)
+      ? await AccessPolicyVersion.findOne({ version }).populate('createdBy', 'officialEmail')
+      : null;
+
+    if (!policy) {
+      return res.status(404).json({
+        success: false,
+        message: 'Policy version not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      version: { ...toPolicyVersionSummary(policy), document: policy.document },
+    });
+  } catch (error) {
+    console.error('Policy version error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve policy version',
+    });
+  }
+});
+
+/**
+ * Admin - check a policy document and run its test cases without applying it
+ * POST /api/dashboard/admin/policies/test
+ */
+router.post('/admin/policies/test', verifyToken, requirePermission('policies:manage'), validatePolicyTest, async (req, res) => {
+  try {
+    const { document, errors } = parsePolicyDocument(req.body.document);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Policy document has errors',
+        errors: formatPolicyErrors(errors),
+      });
+    }
+
+    const results = runPolicyTests(document);
+    const failed = results.filter((result) => !result.passed).length;
+
+    res.json({
+      success: true,
+      message: results.length === 0
+        ? 'Policy document is valid; it has no tests'
+        : `${results.length - failed} of ${results.length} tests passed`,
+      results,
+      passed: failed === 0,
+    });
+  } catch (error) {
+    console.error('Policy test error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to test policy document',
+    });
+  }
+});
+
+/**
+ * Admin - dry run: would a request for an action be allowed, and which policies decide it.
+ * Subject attributes come from userId (default: the caller); time, network and MFA from the caller's request.
+ * attributes overrides any of them, e.g. { "environment.network": "external" }.
+ * POST /api/dashboard/admin/policies/explain
+ */
+router.post('/admin/policies/explain', verifyToken, requirePermission('policies:manage'), validatePolicyExplain, async (req, res) => {
+  try {
+    const { action, userId } = req.body;
+
+    let subject = req.user;
+    if (userId) {
+      subject = await User.findById(userId).select('role credentialId');
+      if (!subject) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+      }
+    }
+
+    let document;
+    let version = null;
+    if (req.body.document) {
+      const parsed = parsePolicyDocument(req.body.document);
+      if (parsed.errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Policy document has errors',
+          errors: formatPolicyErrors(parsed.errors),
+        });
+      }
+      document = parsed.document;
+    } else {
+      const current = await getCurrentPolicy();
+      document = current?.document ?? EMPTY_POLICY_DOCUMENT;
+      version = current?.version ?? 0;
+    }
+
+    const attributes = {
+      ...buildRequestAttributes({ subject, session: req.user, ip: req.ip }),
+      ...Object.fromEntries(Object.entries(req.body.attributes ?? {}).filter(([name]) => (
+        Object.hasOwn(POLICY_ATTRIBUTES, name) && name !== 'action'
+      ))),
+    };
+
+    res.json({
+      success: true,
+      // null when a draft document was explained
+      version,
+      ...evaluatePolicyDocument(document, action, attributes),
+    });
+  } catch (error) {
+    console.error('Policy explain error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to explain policy decision',
+    });
+  }
+});
+
+/**
+ * Admin - apply a policy document as the next version; it must pass its own tests
+ * POST /api/dashboard/admin/policies/apply
+ */
+router.post('/admin/policies/apply', verifyToken, requirePermission('policies:manage'), requireRecentAuth(), validatePolicyApply, async (req, res) => {
+  try {
+    const { baseVersion } = req.body;
+
+    const result = await applyPolicyDocument(req.body.document, {
+      baseVersion,
+      note: req.body.note?.trim() || null,
+      createdBy: req.user.userId,
+      guard: buildRequestAttributes({ subject: req.user, session: req.user, ip: req.ip }),
+    });
+
+    if (result.errors) {
+      return res.status(400).json({
+        success: false,
+        message: 'Policy document has errors',
+        errors: formatPolicyErrors(result.errors),
+      });
+    }
+
+    if (result.lockout) {
+      return res.status(400).json({
+        success: false,
+        message: `This version would deny you policies:manage from this session (${result.lockout.reason})`,
+      });
+    }
+
+    if (result.testResults) {
+      const failed = result.testResults.filter((test) => !test.passed);
+      return res.status(400).json({
+        success: false,
+        message: `${failed.length} of ${result.testResults.length} policy tests failed`,
+        results: result.testResults,
+      });
+    }
+
+    if (result.conflict) {
+      return res.status(409).json({
+        success: false,
+        message: `The access policy changed since you loaded it (now version ${result.currentVersion}). Reload and apply again.`,
+      });
+    }
+
+    const { policy } = result;
+    auditLog('access_policy_applied', req.user.userId, {
+      version: policy.version,
+      baseVersion,
+      policyCount: policy.policyCount,
+      testCount: policy.testCount,
+      note: policy.note,
+    });
+
+    res.json({
+      success: true,
+      message: `Access policy version ${policy.version} applied (${policy.policyCount} policies)`,
+      version: { ...toPolicyVersionSummary(policy), createdBy: req.user.email },
+    });
+  } catch (error) {
+    console.error('Policy apply error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to apply access policy',
+    });
+  }
+});
+
+/**
+ * Admin - list elevation requests; approved lists the elevations still active
+ * GET /api/dashboard/admin/elevations?status=pending
+ */
+router.get('/admin/elevations', verifyToken, requirePermission('elevations:approve'), async (req, res) => {
+  try {
+    const statuses = ['pending', 'approved', 'rejected', 'cancelled', 'expired', 'revoked'];
+    const status = statuses.includes(req.query.status) ? req.query.status : 'pending';
+
+    const filter = status === 'approved' ? { status, expiresAt: { $gt: new Date() } } : { status };
+    const requests = await ElevationRequest.find(filter)
+      .sort({ createdAt: status === 'pending' ? 1 : -1 })
+      .limit(100)
+      .populate('user', 'fullName officialEmail role credentialId')
+      .populate('reviewedBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      requests: requests.map(toElevationSummary),
+    });
+  } catch (error) {
+    console.error('Elevation list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve elevation requests',
+    });
+  }
+});
+
+/**
+ * Admin - grant or reject an elevation request; a grant starts the clock
+ * POST /api/dashboard/admin/elevations/:id/review
+ */
+router.post('/admin/elevations/:id/review', verifyToken, requirePermission('elevations:approve'), requireRecentAuth(), validateElevationReview, async (req, res) => {
+  try {
+    const { decision } = req.body;
+    const note = req.body.note?.trim() || null;
+
+    // Approvers vouch with their own standing permissions, not with an elevation of their own
+    const reviewer = {
+      userId: req.user.userId,
+      permissions: req.user.permissions.filter((permission) => !req.user.elevatedPermissions.includes(permission)),
+    };
+    const result = mongoose.isValidObjectId(req.params.id)
+      ? await decideElevation(req.params.id, reviewer, { decision, note })
+      : null;
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Elevation request not found',
+      });
+    }
+
+    if (result.notPending) {
+      return res.status(409).json({
+        success: false,
+        message: `Elevation request was already ${result.notPending}`,
+      });
+    }
+
+    if (result.selfReview) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot review your own elevation request',
+      });
+    }
+
+    if (result.reviewerMissing) {
+      return res.status(403).json({
+        success: false,
+        message: `You can only grant permissions you hold yourself. Missing: ${result.reviewerMissing.join(', ')}`,
+      });
+    }
+
+    const { request } = result;
+    auditLog(decision === 'approve' ? 'elevation_granted' : 'elevation_rejected', req.user.userId, {
+      elevationId: request._id,
+      targetUserId: request.user,
+      permissions: request.permissions,
+      durationMinutes: request.durationMinutes,
+      expiresAt: request.expiresAt,
+      note,
+    });
+
+    res.json({
+      success: true,
+      message: decision === 'approve'
+        ? `Elevation granted until ${request.expiresAt.toISOString()}`
+        : 'Elevation request rejected',
+    });
+  } catch (error) {
+    console.error('Elevation review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review elevation request',
+    });
+  }
+});
+
+/**
+ * Admin - end an active elevation before it expires
+ * POST /api/dashboard/admin/elevations/:id/revoke
+ */
+router.post('/admin/elevations/:id/revoke', verifyToken, requirePermission('elevations:approve'), requireRecentAuth(), async (req, res) => {
+  try {
+    const revoked = mongoose.isValidObjectId(req.params.id)
+      ? await revokeElevation(req.params.id, req.user.userId)
+      : null;
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        message: 'No active elevation with this id',
+      });
+    }
+
+    auditLog('elevation_revoked', req.user.userId, {
+      elevationId: revoked._id,
+      targetUserId: revoked.user,
+      permissions: revoked.permissions,
+      expiresAt: revoked.expiresAt,
+    });
+
+    res.json({
+      success: true,
+      message: 'Elevation revoked',
+    });
+  } catch (error) {
+    console.error('Elevation revoke error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to revoke elevation',
+    });
+  }
+});
+
+/**
+ * Admin - approvals inbox: operations waiting for a second administrator, or recently closed ones.
+ * Lists only operations whose required permission the caller holds.
+ * GET /api/dashboard/admin/operations?status=pending
+ */
+router.get('/admin/operations', verifyToken, async (req, res) => {
+  try {
+    const statuses = ['pending', 'executed', 'failed', 'rejected', 'cancelled', 'expired'];
+    const status = statuses.includes(req.query.status) ? req.query.status : 'pending';
+
+    req.user.permissions ??= await getEffectivePermissions(req.user);
+    const approvable = [...new Set(Object.values(OPERATION_PERMISSIONS))]
+      .filter((permission) => req.user.permissions.includes(permission));
+    if (approvable.length === 0) {
+      return res.status(403).json({
+        success: false,
+        message: `Access denied. Required permission: ${[...new Set(Object.values(OPERATION_PERMISSIONS))].join(' or ')}`,
+      });
+    }
+
+    const operations = await PendingOperation.find({ status, requiredPermission: { $in: approvable } })
+      .sort({ createdAt: status === 'pending' ? 1 : -1 })
+      .limit(100)
+      .populate('targetUser', 'fullName officialEmail role')
+      .populate('proposedBy', 'officialEmail')
+      .populate('reviewedBy', 'officialEmail');
+
+    res.json({
+      success: true,
+      operations: operations.map((operation) => ({
+        ...toOperationSummary(operation),
+        proposedByMe: String(operation.proposedBy?._id) === String(req.user.userId),
+      })),
+    });
+  } catch (error) {
+    console.error('Operation list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve pending operations',
+    });
+  }
+});
+
+// Resolve :id to a pending operation as req.operation, answering 404 when it does not exist
+const loadOperation = async (req, res, next) => {
+  try {
+    req.operation = mongoose.isValidObjectId(req.params.id) ? await PendingOperation.findById(req.params.id) : null;
+  } catch (error) {
+    console.error('Operation lookup error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load operation',
+    });
+  }
+
+  if (!req.operation) {
+    return res.status(404).json({
+      success: false,
+      message: 'Operation not found',
+    });
+  }
+  next();
+};
+
+// Grants and access policies apply to the reviewer as they would to the operation's own route
+const requireOperationPermission = (req, res, next) => requirePermission(req.operation.requiredPermission)(req, res, next);
+
+/**
+ * Admin - approve or reject an operation proposed by another administrator; approving runs it
+ * POST /api/dashboard/admin/operations/:id/review
+ */
+router.post('/admin/operations/:id/review', verifyToken, loadOperation, requireOperationPermission, requireRecentAuth(), validateOperationReview, async (req, res) => {
+  try {
+    const { decision } = req.body;
+    const note = req.body.note?.trim() || null;
+
+    // Approvers vouch with their own role and standing permissions, not with an elevation
+    const reviewer = {
+      userId: req.user.userId,
+      role: req.user.role,
+      permissions: req.user.permissions.filter((permission) => !req.user.elevatedPermissions.includes(permission)),
+    };
+    const result = await reviewOperation(req.operation, reviewer, { decision, note });
+
+    if (result.notPending) {
+      return res.status(409).json({
+        success: false,
+        message: `Operation was already ${result.notPending}`,
+      });
+    }
+
+    if (result.sameAdmin) {
+      return res.status(403).json({
+        success: false,
+        message: 'You proposed this operation; a second administrator has to review it',
+      });
+    }
+
+    if (result.ownAccount) {
+      return res.status(403).json({
+        success: false,
+        message: 'This operation targets your own account; another administrator has to review it',
+      });
+    }
+
+    if (result.notAdmin) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only an administrator can approve this; it needs a second admin account',
+      });
+    }
+
+    if (result.missingPermission) {
+      return res.status(403).json({
+        success: false,
+        message: `Approving this needs ${result.missingPermission} on your own account; an elevation does not count`,
+      });
+    }
+
+    const { operation } = result;
+    const details = {
+      operationId: operation._id,
+      type: operation.type,
+      proposedBy: operation.proposedBy,
+      reviewedBy: req.user.userId,
+      note,
+    };
+
+    if (decision === 'reject') {
+      auditLog('operation_rejected', req.user.userId, details);
+      return res.json({
+        success: true,
+        message: 'Operation rejected',
+      });
+    }
+
+    if (operation.status === 'failed') {
+      auditLog('operation_failed', req.user.userId, { ...details, failureReason: operation.failureReason });
+      return res.status(409).json({
+        success: false,
+        message: `Approved, but it could not be carried out: ${operation.failureReason}`,
+      });
+    }
+
+    auditLog('operation_approved', req.user.userId, details);
+    await recordExecutedOperation(req, operation, {
+      user: result.user,
+      result: operation.result,
+      operationId: operation._id,
+      proposedBy: operation.proposedBy,
+      approvedBy: req.user.userId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Approved and carried out',
+    });
+  } catch (error) {
+    console.error('Operation review error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review operation',
+    });
+  }
+});
+
+/**
+ * Admin - withdraw an operation you proposed, before anyone reviews it
+ * POST /api/dashboard/admin/operations/:id/cancel
+ */
+router.post('/admin/operations/:id/cancel', verifyToken, async (req, res) => {
+  try {
+    const operation = mongoose.isValidObjectId(req.params.id)
+      ? await cancelOperation(req.params.id, req.user.userId)
+      : null;
+    if (!operation) {
+      return res.status(404).json({
+        success: false,
+        message: 'No pending operation of yours with this id',
+      });
+    }
+
+    auditLog('operation_cancelled', req.user.userId, {
+      operationId: operation._id,
+      type: operation.type,
+    });
+
+    res.json({
+      success: true,
+      message: 'Operation withdrawn',
+    });
+  } catch (error) {
+    console.error('Operation cancel error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to withdraw operation',
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,73 @@
+/**
+ * Activate a registered account from the command line.
+ * Needed once per deployment: the first administrator has nobody to approve them.
+ *
+ * Usage:
+ *   npm run activate-account -- admin@mod.gov.in
+ */
+import mongoose from 'mongoose';
+import connectDB from '../config/database.js';
+import User from '../models/User.js';
+import { securityLogger, auditLog } from '../middleware/logger.js';
+
+const email = process.argv[2]?.trim().toLowerCase();
+
+const activate = async () => {
+  await connectDB();
+
+  const user = await User.findOne({ officialEmail: email });
+  if (!user) {
+    throw new Error(`No account registered for ${email}`);
+  }
+
+  if (!user.emailVerified) {
+    throw new Error(`${email} has not verified its email address yet`);
+  }
+
+  if (user.isActivated) {
+    console.log(`${email} is already active`);
+    return;
+  }
+
+  user.isActivated = true;
+  user.activationReview = {
+    status: 'approved',
+    reason: 'Activated from the command line',
+    reviewedBy: null,
+    reviewedAt: new Date(),
+    autoApproved: false,
+  };
+  await user.save();
+
+  securityLogger('account_activated_from_cli', {
+    userId: user._id,
+    email: user.officialEmail,
+    role: user.role,
+  });
+  auditLog('account_activation_approved', user._id, {
+    targetUserId: user._id,
+    targetEmail: user.officialEmail,
+    via: 'cli',
+  });
+
+  console.log(`Activated ${email} (${user.role})`);
+};
+
+const main = async () => {
+  if (!email) {
+    console.error('Usage: npm run activate-account -- <email>');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    await activate();
+  } catch (error) {
+    console.error('Activation failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+main();
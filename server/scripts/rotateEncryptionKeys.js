@@ -0,0 +1,117 @@
+/**
+ * Re-wrap encrypted User and HardwareToken fields under the current master key and encrypt any plaintext left
+ * from before field encryption was enabled.
+ *
+ * Usage:
+ *   npm run rotate-keys                      re-wrap every record
+ *   npm run rotate-keys -- --dry-run         count what would change without writing
+ *   npm run rotate-keys -- --generate-key    print a new random master key
+ *
+ * To rotate: add the new key under a higher version, restart the server, run this command,
+ * then remove the old version once it reports nothing left to re-wrap.
+ */
+import mongoose from 'mongoose';
+import User from '../models/User.js';
+import HardwareToken from '../models/HardwareToken.js';
+import { securityLogger } from '../middleware/logger.js';
+import {
+  rewrapField,
+  getCurrentKeyVersion,
+  assertFieldEncryptionReady,
+  generateMasterKey,
+} from '../services/fieldEncryptionService.js';
+
+const args = process.argv.slice(2);
+
+// Work on raw documents so model getters and setters don't decrypt or re-encrypt along the way
+const rewrapUser = (doc) => {
+  const update = {};
+
+  const totpSecret = rewrapField(doc.totpSecret);
+  if (totpSecret) {
+    update.totpSecret = totpSecret;
+  }
+
+  let backupCodesChanged = false;
+  const backupCodes = (doc.backupCodes || []).map((entry) => {
+    const codeHash = rewrapField(entry.codeHash);
+    if (!codeHash) {
+      return entry;
+    }
+    backupCodesChanged = true;
+    return { ...entry, codeHash };
+  });
+  if (backupCodesChanged) {
+    update.backupCodes = backupCodes;
+  }
+
+  return update;
+};
+
+const rewrapHardwareToken = (doc) => {
+  const seed = rewrapField(doc.seed);
+  return seed ? { seed } : {};
+};
+
+// Returns how many documents were scanned and how many needed re-wrapping
+const rewrapCollection = async (collection, projection, rewrap, { dryRun }) => {
+  let scanned = 0;
+  let updated = 0;
+
+  const cursor = collection.find({}, { projection });
+  for await (const doc of cursor) {
+    scanned += 1;
+    const update = rewrap(doc);
+    if (Object.keys(update).length === 0) {
+      continue;
+    }
+
+    updated += 1;
+    if (!dryRun) {
+      await collection.updateOne({ _id: doc._id }, { $set: update });
+    }
+  }
+
+  return { scanned, updated };
+};
+
+const rotate = async ({ dryRun }) => {
+  // Loaded here so --generate-key works without MONGODB_URI; it also reads .env before the key check
+  const { default: connectDB } = await import('../config/database.js');
+  assertFieldEncryptionReady();
+  await connectDB();
+
+  const currentVersion = getCurrentKeyVersion();
+  const users = await rewrapCollection(User.collection, { totpSecret: 1, backupCodes: 1 }, rewrapUser, { dryRun });
+  const tokens = await rewrapCollection(HardwareToken.collection, { seed: 1 }, rewrapHardwareToken, { dryRun });
+
+  const verb = dryRun ? 'to re-wrap' : 're-wrapped';
+  console.log(`${dryRun ? '[dry run] ' : ''}Scanned ${users.scanned} users, ${users.updated} ${verb}; `
+    + `${tokens.scanned} hardware tokens, ${tokens.updated} ${verb} under key version ${currentVersion}`);
+
+  if (!dryRun) {
+    securityLogger('encryption_keys_rotated', {
+      keyVersion: currentVersion,
+      scanned: users.scanned + tokens.scanned,
+      updated: users.updated + tokens.updated,
+    });
+  }
+};
+
+const main = async () => {
+  if (args.includes('--generate-key')) {
+    console.log(generateMasterKey());
+    return;
+  }
+
+  try {
+    await rotate({ dryRun: args.includes('--dry-run') });
+  } catch (error) {
+    console.error('Key rotation failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+main();
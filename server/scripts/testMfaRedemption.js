@@ -0,0 +1,134 @@
+/**
+ * Check that single-use second factors stay single-use when the same one is presented twice at once, and that a
+ * password reset the policy rejects leaves the factor sent with it unused.
+ * Needs a MongoDB it may write to: it creates a throwaway admin account, redeems its factors and deletes it again.
+ *
+ * Usage:
+ *   MONGODB_URI=mongodb://localhost:27017/securedefence-checks npm run test-mfa-redemption
+ */
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import express from 'express';
+import mongoose from 'mongoose';
+import connectDB from '../config/database.js';
+import User from '../models/User.js';
+import authRoutes from '../routes/auth.js';
+import { generateBackupCodes, toBackupCodeRecords, verifyBackupCode } from '../services/backupCodeService.js';
+import { createOtpVerificationToken } from '../services/otpService.js';
+import { hashPassword } from '../services/passwordPolicyService.js';
+
+const INITIAL_PASSWORD = 'Initial#Passw0rd';
+
+const results = [];
+
+const check = (name, passed, detail = '') => {
+  results.push(passed);
+  console.log(`  ${passed ? 'PASS' : 'FAIL'} ${name}`);
+  if (!passed && detail) {
+    console.log(`       ${detail}`);
+  }
+};
+
+const createAccount = async (backupCodes) => {
+  const suffix = crypto.randomBytes(4).toString('hex');
+  return User.create({
+    fullName: 'Redemption Check',
+    mobileNumber: '9000000000',
+    officialEmail: `redemption-check-${suffix}@mod.gov.in`,
+    role: 'admin',
+    credentialId: `MOD-HQ-${crypto.randomInt(1000, 10000)}`,
+    authMethod: 'authenticator',
+    passwordHash: await hashPassword(INITIAL_PASSWORD),
+    isActivated: true,
+    emailVerified: true,
+    backupCodes: toBackupCodeRecords(backupCodes),
+  });
+};
+
+const countUsedBackupCodes = async (account) => {
+  const stored = await User.findById(account._id).select('backupCodes');
+  return stored.backupCodes.filter((entry) => entry.used).length;
+};
+
+const checkBackupCodes = async (account, [code]) => {
+  console.log('Backup codes');
+
+  // Each request loads its own copy of the account, as two concurrent /verify-mfa calls would
+  const copies = await Promise.all([User.findById(account._id), User.findById(account._id)]);
+  const redeemed = await Promise.all(copies.map((copy) => verifyBackupCode(copy, code)));
+  const accepted = redeemed.filter(Boolean).length;
+  check('the same code presented twice at once is accepted once', accepted === 1, `accepted ${accepted} times`);
+
+  const used = await countUsedBackupCodes(account);
+  check('exactly that code is stored as used', used === 1, `${used} codes marked used`);
+
+  const later = await verifyBackupCode(await User.findById(account._id), code);
+  check('a later attempt with it is refused', !later);
+};
+
+// Serve the auth routes on a free local port, for checks that have to go through a route
+const startAuthServer = () => new Promise((resolve) => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  const server = app.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+const checkPasswordReset = async (account, code) => {
+  console.log('Password reset');
+
+  const server = await startAuthServer();
+  try {
+    const usedBefore = await countUsedBackupCodes(account);
+    const response = await fetch(`http://127.0.0.1:${server.address().port}/api/auth/reset-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        email: account.officialEmail,
+        verificationToken: createOtpVerificationToken(account.officialEmail, 'password-reset'),
+        newPassword: 'short',
+        mfaMethod: 'backup',
+        mfaCode: code,
+      }),
+    });
+    check('a new password the policy rejects is refused', response.status === 400, `answered ${response.status}`);
+
+    const usedAfter = await countUsedBackupCodes(account);
+    check('the backup code sent with it is left unused', usedAfter === usedBefore, `${usedAfter - usedBefore} codes used`);
+
+    const stored = await User.findById(account._id).select('passwordHash');
+    check('the password is unchanged', await bcrypt.compare(INITIAL_PASSWORD, stored.passwordHash));
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+};
+
+const main = async () => {
+  let account = null;
+
+  try {
+    await connectDB();
+
+    const backupCodes = generateBackupCodes();
+    account = await createAccount(backupCodes);
+
+    await checkBackupCodes(account, backupCodes);
+    await checkPasswordReset(account, backupCodes[1]);
+  } catch (error) {
+    console.error('MFA redemption check failed to run:', error.message);
+    process.exitCode = 1;
+  } finally {
+    if (account) {
+      await User.deleteOne({ _id: account._id });
+    }
+    await mongoose.disconnect();
+  }
+
+  const failed = results.filter((passed) => !passed).length;
+  if (failed > 0) {
+    console.error(`MFA redemption check failed: ${failed} of ${results.length}`);
+    process.exitCode = 1;
+  }
+};
+
+main();
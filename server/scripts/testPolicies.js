@@ -0,0 +1,55 @@
+/**
+ * Check access policy documents and run their test cases, without a database.
+ * Run it on a policy before applying it from the Dashboard, or in CI on the policy files kept in the repository.
+ *
+ * Usage:
+ *   npm run test-policies                                   check server/policies/baseline.json
+ *   npm run test-policies -- policies/a.json policies/b.json
+ */
+import fs from 'fs';
+import { parsePolicyDocument, runPolicyTests, formatPolicyErrors } from '../services/policyService.js';
+
+const files = process.argv.slice(2);
+
+const checkFile = (file) => {
+  let input;
+  try {
+    input = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    console.error(`${file}: ${error.message}`);
+    return false;
+  }
+
+  const { document, errors } = parsePolicyDocument(input);
+  if (errors.length > 0) {
+    console.error(`${file}: ${errors.length} ${errors.length === 1 ? 'error' : 'errors'}`);
+    for (const error of formatPolicyErrors(errors)) {
+      console.error(`  ${error}`);
+    }
+    return false;
+  }
+
+  const results = runPolicyTests(document);
+  console.log(`${file}: ${document.policies.length} policies, ${results.length} tests`);
+  for (const result of results) {
+    const decidedBy = result.decidedBy.length > 0 ? result.decidedBy.join(', ') : 'default effect';
+    console.log(`  ${result.passed ? 'PASS' : 'FAIL'} ${result.name}`);
+    if (!result.passed) {
+      console.log(`       ${result.action}: expected ${result.expect}, got ${result.decision} (${decidedBy})`);
+    }
+  }
+
+  return results.every((result) => result.passed);
+};
+
+const main = () => {
+  const targets = files.length > 0 ? files : ['server/policies/baseline.json'];
+  const failed = targets.filter((file) => !checkFile(file));
+
+  if (failed.length > 0) {
+    console.error(`Policy check failed: ${failed.join(', ')}`);
+    process.exitCode = 1;
+  }
+};
+
+main();
@@ -0,0 +1,209 @@
+/**
+ * Check role MFA minimums and the security key ceremony with a software authenticator, without a database.
+ * Covers the WebAuthn-required path: weaker methods are refused, a key registered and used through the server's
+ * own verification code is accepted, and a wrong challenge, a foreign origin or a replayed assertion is refused.
+ *
+ * Usage:
+ *   npm run test-webauthn
+ */
+import crypto from 'crypto';
+import { isoBase64URL, isoCBOR } from '@simplewebauthn/server/helpers';
+import {
+  ROLE_ENFORCED_MFA_METHODS,
+  isMfaMethodAllowedForRole,
+  meetsMfaMinimum,
+} from '../services/mfaService.js';
+import { getRelyingParty, checkRegistrationResponse, checkAuthenticationResponse } from '../services/webauthnService.js';
+import { ROLE_KEYS } from '../../shared/roleRegistry.js';
+
+const MFA_METHODS = ['email', 'totp', 'hotp', 'webauthn'];
+
+// Methods each minimum must accept
+const EXPECTED_ALLOWED = {
+  none: MFA_METHODS,
+  email: MFA_METHODS,
+  totp: ['totp', 'hotp', 'webauthn'],
+  hotp: ['totp', 'hotp', 'webauthn'],
+  webauthn: ['webauthn'],
+};
+
+const results = [];
+
+const check = (name, passed, detail = '') => {
+  results.push(passed);
+  console.log(`  ${passed ? 'PASS' : 'FAIL'} ${name}`);
+  if (!passed && detail) {
+    console.log(`       ${detail}`);
+  }
+};
+
+// The service logs the rejections these checks provoke on purpose
+const quietly = async (run) => {
+  const { error } = console;
+  console.error = () => {};
+  try {
+    return await run();
+  } finally {
+    console.error = error;
+  }
+};
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest();
+
+const toBase64URL = (bytes) => isoBase64URL.fromBuffer(new Uint8Array(bytes));
+
+const newChallenge = () => toBase64URL(crypto.randomBytes(32));
+
+/**
+ * A P-256 authenticator kept in memory: "none" attestation, user presence only, and a signature counter
+ * that goes up on every assertion like a hardware key's.
+ */
+const createSoftwareAuthenticator = (rpID) => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const { x, y } = publicKey.export({ format: 'jwk' });
+  const credentialId = crypto.randomBytes(16);
+  let counter = 0;
+
+  const authenticatorData = (attestedCredential = Buffer.alloc(0)) => {
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(counter);
+    // 0x01 user present, 0x40 attested credential data included
+    const flags = Buffer.from([attestedCredential.length > 0 ? 0x41 : 0x01]);
+    return Buffer.concat([sha256(rpID), flags, signCount, attestedCredential]);
+  };
+
+  const clientData = (type, challenge, origin) => Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+
+  const register = (challenge, origin) => {
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(credentialId.length);
+    const coseKey = isoCBOR.encode(new Map([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, isoBase64URL.toBuffer(x)],
+      [-3, isoBase64URL.toBuffer(y)],
+    ]));
+    const attested = Buffer.concat([Buffer.alloc(16), idLength, credentialId, Buffer.from(coseKey)]);
+    const attestationObject = isoCBOR.encode(new Map([
+      ['fmt', 'none'],
+      ['attStmt', new Map()],
+      ['authData', new Uint8Array(authenticatorData(attested))],
+    ]));
+
+    return {
+      id: toBase64URL(credentialId),
+      rawId: toBase64URL(credentialId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64URL(clientData('webauthn.create', challenge, origin)),
+        attestationObject: toBase64URL(attestationObject),
+        transports: ['usb'],
+      },
+      clientExtensionResults: {},
+    };
+  };
+
+  const assert = (challenge, origin) => {
+    counter += 1;
+    const data = authenticatorData();
+    const clientDataJSON = clientData('webauthn.get', challenge, origin);
+    const signature = crypto.sign('sha256', Buffer.concat([data, sha256(clientDataJSON)]), privateKey);
+
+    return {
+      id: toBase64URL(credentialId),
+      rawId: toBase64URL(credentialId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64URL(clientDataJSON),
+        authenticatorData: toBase64URL(data),
+        signature: toBase64URL(signature),
+      },
+      clientExtensionResults: {},
+    };
+  };
+
+  return { register, assert };
+};
+
+const checkMinimums = () => {
+  console.log('Role MFA minimums (shared/roleRegistry.js)');
+  for (const role of ROLE_KEYS) {
+    const enforced = ROLE_ENFORCED_MFA_METHODS[role] ?? 'none';
+    const allowed = MFA_METHODS.filter((method) => isMfaMethodAllowedForRole(role, method));
+    const expected = EXPECTED_ALLOWED[enforced] ?? [];
+    check(
+      `${role} (minimum ${enforced}) accepts ${allowed.join(', ') || 'nothing'}`,
+      allowed.length === expected.length && expected.every((method) => allowed.includes(method)),
+      `expected ${expected.join(', ')}`
+    );
+  }
+
+  console.log('WebAuthn-required minimum');
+  for (const method of MFA_METHODS) {
+    const shouldPass = method === 'webauthn';
+    check(`${method} ${shouldPass ? 'accepted' : 'refused'}`, meetsMfaMinimum(method, 'webauthn') === shouldPass);
+  }
+};
+
+const checkCeremony = async () => {
+  const { rpID, origins } = getRelyingParty();
+  const [origin] = origins;
+  const authenticator = createSoftwareAuthenticator(rpID);
+
+  console.log(`Software authenticator (${rpID}, ${origin})`);
+
+  const mismatched = await quietly(() => checkRegistrationResponse(authenticator.register(newChallenge(), origin), newChallenge()));
+  check('registration for another challenge refused', !mismatched.valid);
+
+  const challenge = newChallenge();
+  const registration = await checkRegistrationResponse(authenticator.register(challenge, origin), challenge, {
+    nickname: 'Software key',
+  });
+  check('registration accepted', registration.valid, registration.reason);
+  if (!registration.valid) {
+    return;
+  }
+  const credentials = [registration.credential];
+
+  const loginChallenge = newChallenge();
+  const assertion = authenticator.assert(loginChallenge, origin);
+  const signedIn = await checkAuthenticationResponse(credentials, assertion, loginChallenge);
+  check('assertion accepted and counter stored', signedIn.valid && credentials[0].counter === 1, signedIn.reason);
+
+  const replayed = await quietly(() => checkAuthenticationResponse(credentials, assertion, loginChallenge));
+  check('replayed assertion refused', !replayed.valid);
+
+  const wrongChallenge = await quietly(() => checkAuthenticationResponse(
+    credentials,
+    authenticator.assert(newChallenge(), origin),
+    newChallenge()
+  ));
+  check('assertion for another challenge refused', !wrongChallenge.valid);
+
+  const foreignChallenge = newChallenge();
+  const foreignOrigin = await quietly(() => checkAuthenticationResponse(
+    credentials,
+    authenticator.assert(foreignChallenge, 'https://phishing.example'),
+    foreignChallenge
+  ));
+  check('assertion from a foreign origin refused', !foreignOrigin.valid);
+
+  const otherKey = createSoftwareAuthenticator(rpID);
+  const otherChallenge = newChallenge();
+  const unknown = await checkAuthenticationResponse(credentials, otherKey.assert(otherChallenge, origin), otherChallenge);
+  check('assertion from an unregistered key refused', unknown.reason === 'webauthn_unknown_credential');
+};
+
+const main = async () => {
+  checkMinimums();
+  await checkCeremony();
+
+  const failed = results.filter((passed) => !passed).length;
+  if (failed > 0) {
+    console.error(`WebAuthn check failed: ${failed} of ${results.length}`);
+    process.exitCode = 1;
+  }
+};
+
+main();
@@ -0,0 +1,138 @@
+import User from '../models/User.js';
+import { EMAIL_PATTERNS } from '../../shared/roleRegistry.js';
+
+const PUBLIC_EMAIL_DOMAINS = ['gmail.com', 'yahoo.com', 'outlook.com', 'hotmail.com', 'rediffmail.com'];
+
+// Privileged roles always wait for an administrator, whatever AUTO_ACTIVATE_ROLES says
+const ROLES_REQUIRING_APPROVAL = ['cert', 'admin'];
+
+const getAutoActivateRoles = () => (process.env.AUTO_ACTIVATE_ROLES || '')
+  .split(',')
+  .map((role) => role.trim())
+  .filter((role) => role && !ROLES_REQUIRING_APPROVAL.includes(role));
+
+/**
+ * Reasons an applicant's email deserves a closer look before activation.
+ * An empty list means the domain fits the role.
+ */
+const getEmailDomainFlags = (email, role) => {
+  const domain = String(email).split('@').pop().toLowerCase();
+  const flags = [];
+
+  const isPublic = PUBLIC_EMAIL_DOMAINS.includes(domain);
+  if (isPublic) {
+    flags.push('public_email_provider');
+  }
+
+  // Domains run by the MoD, the services and government mail, from the shared role registry
+  if (isPublic || !(EMAIL_PATTERNS.defence.test(email) || EMAIL_PATTERNS.admin.test(email))) {
+    flags.push('non_defence_domain');
+  }
+
+  if (role === 'admin' && !EMAIL_PATTERNS.admin.test(email)) {
+    flags.push('admin_domain_mismatch');
+  }
+
+  return flags;
+};
+
+// Verified email, a role configured for it, nothing unusual about the domain and no open manual verification
+const isEligibleForAutoActivation = (user) => user.emailVerified
+  && !user.isActivated
+  && user.activationReview?.status !== 'rejected'
+  && !['pending', 'rejected'].includes(user.manualVerification?.status)
+  && getAutoActivateRoles().includes(user.role)
+  && getEmailDomainFlags(user.officialEmail, user.role).length === 0;
+
+/**
+ * Activate a registration without review when its role allows it.
+ * Returns true when the account was activated.
+ */
+const autoActivateIfEligible = async (user) => {
+  if (!isEligibleForAutoActivation(user)) {
+    return false;
+  }
+
+  const reviewedAt = new Date();
+  const result = await User.updateOne(
+    { _id: user._id, isActivated: false },
+    {
+      $set: {
+        isActivated: true,
+        activationReview: { status: 'approved', reason: null, reviewedBy: null, reviewedAt, autoApproved: true },
+      },
+    }
+  );
+  if (result.modifiedCount === 0) {
+    return false;
+  }
+
+  user.isActivated = true;
+  user.activationReview = { status: 'approved', reason: null, reviewedBy: null, reviewedAt, autoApproved: true };
+  return true;
+};
+
+/**
+ * Record an administrator's decision on a pending registration.
+ * Returns the updated user, or null if the registration was already decided.
+ */
+const decideActivation = (userId, { approved, reason, reviewedBy }) => User.findOneAndUpdate(
+  { _id: userId, isActivated: false, 'activationReview.status': { $ne: 'rejected' }, 'deactivation.deactivatedAt': null },
+  {
+    $set: {
+      isActivated: approved,
+      activationReview: {
+        status: approved ? 'approved' : 'rejected',
+        reason,
+        reviewedBy,
+        reviewedAt: new Date(),
+        autoApproved: false,
+      },
+    },
+  },
+  { new: true }
+);
+
+/**
+ * Deactivate an active account; its sessions are revoked by the caller.
+ * approvedBy is the second administrator when the account is an admin's.
+ * Returns the updated user, or null if the account was not active.
+ */
+const deactivateAccount = (userId, { reason, deactivatedBy, approvedBy = null }) => User.findOneAndUpdate(
+  { _id: userId, isActivated: true },
+  {
+    $set: {
+      isActivated: false,
+      deactivation: { deactivatedAt: new Date(), reason, deactivatedBy, approvedBy },
+    },
+  },
+  { new: true }
+);
+
+const toRegistrationSummary = (user) => ({
+  id: user._id,
+  fullName: user.fullName,
+  email: user.officialEmail,
+  role: user.role,
+  credentialId: user.credentialId,
+  mfaMethod: user.authMethod,
+  emailVerified: user.emailVerified,
+  emailFlags: getEmailDomainFlags(user.officialEmail, user.role),
+  status: user.isActivated ? 'approved' : user.activationReview?.status === 'rejected' ? 'rejected' : 'pending',
+  reason: user.activationReview?.reason ?? null,
+  reviewedBy: user.activationReview?.reviewedBy?.officialEmail ?? null,
+  reviewedAt: user.activationReview?.reviewedAt ?? null,
+  autoApproved: Boolean(user.activationReview?.autoApproved),
+  verificationStatus: user.manualVerification?.status ?? 'not_required',
+  registeredAt: user.createdAt,
+});
+
+export {
+  ROLES_REQUIRING_APPROVAL,
+  getAutoActivateRoles,
+  getEmailDomainFlags,
+  autoActivateIfEligible,
+  decideActivation,
+  deactivateAccount,
+  toRegistrationSummary,
+};
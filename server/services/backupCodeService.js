@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import User from '../models/User.js';
+import { hashOtp, safeEqual } from './otpService.js';
+
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_PATTERN = /^\d{4}-?\d{4}$/;
+
+const normalizeBackupCode = (code) => String(code).replace(/[^0-9]/g, '');
+
+const isValidBackupCodeFormat = (code) => typeof code === 'string' && BACKUP_CODE_PATTERN.test(code.trim());
+
+// Backup codes are stored as keyed hashes, never in plaintext
+const hashBackupCode = (code) => hashOtp(`backup:${normalizeBackupCode(code)}`);
+
+// Generate XXXX-XXXX recovery codes from a cryptographically secure source
+const generateBackupCodes = (count = BACKUP_CODE_COUNT) => Array.from({ length: count }, () => {
+  const code = crypto.randomInt(0, 100000000).toString().padStart(8, '0');
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+});
+
+// Convert plaintext codes into the records stored on User.backupCodes
+const toBackupCodeRecords = (codes) => codes.map((code) => ({
+  codeHash: hashBackupCode(code),
+  used: false,
+  usedAt: null,
+}));
+
+const countRemainingBackupCodes = (user) => (user.backupCodes || []).filter((entry) => !entry.used).length;
+
+/**
+ * Check a backup code and mark it used.
+ * The code is claimed in one conditional write, so two requests presenting it at once cannot both succeed.
+ */
+const verifyBackupCode = async (user, code) => {
+  const candidate = hashBackupCode(code);
+
+  const match = (user.backupCodes || []).find(
+    (entry) => !entry.used && entry.codeHash && safeEqual(entry.codeHash, candidate)
+  );
+
+  if (!match) {
+    return false;
+  }
+
+  const usedAt = new Date();
+  const claimed = await User.updateOne(
+    { _id: user._id, backupCodes: { $elemMatch: { _id: match._id, used: false } } },
+    { $set: { 'backupCodes.$.used': true, 'backupCodes.$.usedAt': usedAt } }
+  );
+  if (claimed.modifiedCount !== 1) {
+    return false;
+  }
+
+  // Keep the loaded document in step for countRemainingBackupCodes
+  match.used = true;
+  match.usedAt = usedAt;
+  return true;
+};
+
+export {
+  BACKUP_CODE_COUNT,
+  isValidBackupCodeFormat,
+  hashBackupCode,
+  generateBackupCodes,
+  toBackupCodeRecords,
+  countRemainingBackupCodes,
+  verifyBackupCode,
+};
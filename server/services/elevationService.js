@@ -0,0 +1,224 @@
+import ElevationRequest from '../models/ElevationRequest.js';
+import { getEffectivePermissions } from './permissionService.js';
+
+// Lengths a user can ask for; the Dashboard offers the list from GET /api/dashboard/elevation
+const ELEVATION_DURATIONS_MINUTES = [15, 30, 60, 120, 240];
+
+// A request nobody has decided on by then lapses and has to be made again
+const PENDING_ELEVATION_TTL_HOURS = 24;
+
+// Interval of the expiry sweep started in server/index.js
+const ELEVATION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const getPendingCutoff = (now) => new Date(now.getTime() - PENDING_ELEVATION_TTL_HOURS * 60 * 60 * 1000);
+
+const isElevationActive = (request, now = new Date()) => request?.status === 'approved' && request.expiresAt > now;
+
+// The user's pending request or approved elevation, if any
+const findOpenElevation = (userId) => ElevationRequest.findOne({ user: userId, status: { $in: ['pending', 'approved'] } });
+
+/**
+ * Mark an elevation expired unless something else already ended it.
+ * Returns the expired request, or null if it was no longer open (so each expiry is recorded once).
+ */
+const markElevationExpired = (request, now = new Date()) => ElevationRequest.findOneAndUpdate(
+  { _id: request._id, status: request.status },
+  { $set: { status: 'expired', endedAt: request.status === 'approved' ? request.expiresAt : now } },
+  { new: true }
+);
+
+/**
+ * The user's elevation as of now, for verifyToken.
+ * An approved elevation past its expiry is ended here and returned as expired, so the caller can record it.
+ */
+const resolveElevation = async (userId, now = new Date()) => {
+  const request = await ElevationRequest.findOne({ user: userId, status: 'approved' });
+  if (!request) {
+    return { elevation: null, expired: null };
+  }
+  if (isElevationActive(request, now)) {
+    return { elevation: request, expired: null };
+  }
+  return { elevation: null, expired: await markElevationExpired(request, now) };
+};
+
+/**
+ * Ask for extra permissions for durationMinutes once approved.
+ * Returns { alreadyHeld } or { denied } for permissions that cannot be requested, { open } when the user already
+ * has a pending request or an active elevation, otherwise { request }.
+ */
+const requestElevation = async (user, { permissions, justification, durationMinutes }) => {
+  const current = await getEffectivePermissions({ role: user.role, permissionOverrides: user.permissionOverrides });
+  const alreadyHeld = permissions.filter((permission) => current.includes(permission));
+  if (alreadyHeld.length > 0) {
+    return { alreadyHeld };
+  }
+
+  // An administrator's deny override is deliberate; elevation does not get around it
+  const denied = permissions.filter((permission) => (user.permissionOverrides ?? [])
+    .some((override) => override.permission === permission && override.effect === 'deny'));
+  if (denied.length > 0) {
+    return { denied };
+  }
+
+  const open = await findOpenElevation(user.userId);
+  if (open) {
+    return { open };
+  }
+
+  try {
+    const request = await ElevationRequest.create({
+      user: user.userId,
+      permissions,
+      justification,
+      durationMinutes,
+    });
+    return { request };
+  } catch (error) {
+    // Another request from the same user landed first
+    if (error.code === 11000) {
+      return { open: await findOpenElevation(user.userId) };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Approve or reject a pending request.
+ * reviewer holds the approver's id and the permissions they hold without elevation of their own.
+ * Returns null if there is no such request, { notPending: status }, { selfReview }, { reviewerMissing } when the
+ * approver lacks some of the requested permissions, otherwise { request }.
+ */
+const decideElevation = async (requestId, reviewer, { decision, note }) => {
+  const request = await ElevationRequest.findById(requestId);
+  if (!request) {
+    return null;
+  }
+
+  const now = new Date();
+  if (request.status === 'pending' && request.createdAt <= getPendingCutoff(now)) {
+    await markElevationExpired(request, now);
+    return { notPending: 'expired' };
+  }
+  if (request.status !== 'pending') {
+    return { notPending: request.status };
+  }
+
+  if (String(request.user) === String(reviewer.userId)) {
+    return { selfReview: true };
+  }
+
+  if (decision === 'approve') {
+    const reviewerMissing = request.permissions.filter((permission) => !reviewer.permissions.includes(permission));
+    if (reviewerMissing.length > 0) {
+      return { reviewerMissing };
+    }
+  }
+
+  const approved = decision === 'approve';
+  const decided = await ElevationRequest.findOneAndUpdate(
+    { _id: request._id, status: 'pending' },
+    {
+      $set: {
+        status: approved ? 'approved' : 'rejected',
+        reviewedBy: reviewer.userId,
+        reviewNote: note,
+        reviewedAt: now,
+        expiresAt: approved ? new Date(now.getTime() + request.durationMinutes * 60 * 1000) : null,
+      },
+    },
+    { new: true }
+  );
+
+  // Cancelled or decided by someone else in the meantime
+  if (!decided) {
+    const current = await ElevationRequest.findById(request._id).select('status');
+    return { notPending: current?.status ?? 'cancelled' };
+  }
+
+  return { request: decided };
+};
+
+/**
+ * Withdraw the user's own pending request, or give up their active elevation early.
+ * Returns the cancelled request, or null if there was nothing open.
+ */
+const cancelElevation = async (userId) => {
+  const open = await findOpenElevation(userId);
+  if (!open) {
+    return null;
+  }
+
+  return ElevationRequest.findOneAndUpdate(
+    { _id: open._id, status: open.status },
+    { $set: { status: 'cancelled', endedAt: new Date(), endedBy: userId } },
+    { new: true }
+  );
+};
+
+/**
+ * End someone's active elevation before it expires.
+ * Returns the revoked request, or null if it was not active.
+ */
+const revokeElevation = (requestId, revokedBy) => ElevationRequest.findOneAndUpdate(
+  { _id: requestId, status: 'approved', expiresAt: { $gt: new Date() } },
+  { $set: { status: 'revoked', endedAt: new Date(), endedBy: revokedBy } },
+  { new: true }
+);
+
+// Written on every use; elevated routes are few and the approver screen shows it
+const recordElevationUse = (requestId) => ElevationRequest.updateOne(
+  { _id: requestId },
+  { $set: { lastUsedAt: new Date() } }
+);
+
+/**
+ * Expire approved elevations past expiresAt, and pending requests older than PENDING_ELEVATION_TTL_HOURS.
+ * Returns the requests this call expired.
+ */
+const expireElevations = async (now = new Date()) => {
+  const lapsed = await ElevationRequest.find({
+    $or: [
+      { status: 'approved', expiresAt: { $lte: now } },
+      { status: 'pending', createdAt: { $lte: getPendingCutoff(now) } },
+    ],
+  });
+
+  const expired = await Promise.all(lapsed.map((request) => markElevationExpired(request, now)));
+  return expired.filter(Boolean);
+};
+
+// User fields are present when the request was loaded with populate('user')
+const toElevationSummary = (request) => ({
+  id: request._id,
+  fullName: request.user?.fullName ?? null,
+  email: request.user?.officialEmail ?? null,
+  role: request.user?.role ?? null,
+  credentialId: request.user?.credentialId ?? null,
+  permissions: request.permissions,
+  justification: request.justification,
+  durationMinutes: request.durationMinutes,
+  status: request.status,
+  requestedAt: request.createdAt,
+  reviewedBy: request.reviewedBy?.officialEmail ?? null,
+  reviewNote: request.reviewNote ?? null,
+  reviewedAt: request.reviewedAt ?? null,
+  expiresAt: request.expiresAt ?? null,
+  lastUsedAt: request.lastUsedAt ?? null,
+  endedAt: request.endedAt ?? null,
+});
+
+export {
+  ELEVATION_DURATIONS_MINUTES,
+  PENDING_ELEVATION_TTL_HOURS,
+  ELEVATION_SWEEP_INTERVAL_MS,
+  findOpenElevation,
+  resolveElevation,
+  requestElevation,
+  decideElevation,
+  cancelElevation,
+  revokeElevation,
+  recordElevationUse,
+  expireElevations,
+  toElevationSummary,
+};
@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import crypto from 'crypto';
+import validator from 'validator';
 
 // Create reusable transporter
 const createTransporter = () => {
@@ -228,8 +229,556 @@ Defence Cyber Security Team
   }
 };
 
+// Send one-time passcode email
+const sendOtpEmail = async (email, userName, code, purpose = 'login', expiresInSeconds = 60) => {
+  const purposeText = {
+    login: 'complete your login',
+    registration: 'verify your email for registration',
+    'password-reset': 'reset your password',
+    'step-up': 'confirm a sensitive change to your account',
+  }[purpose] || 'verify your request';
+  const expiryText = expiresInSeconds >= 60
+    ? `${Math.round(expiresInSeconds / 60)} minute(s)`
+    : `${expiresInSeconds} seconds`;
+
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: `🔐 Your Defence Portal verification code: ${code}`,
+      text: `
+Hello ${userName},
+
+Use the following one-time code to ${purposeText} on the Defence Incident Sentinel Portal:
+
+${code}
+
+⏰ IMPORTANT: This code will expire in ${expiryText} and can only be used once.
+
+Never share this code with anyone. Defence Portal staff will never ask for it.
+If you did not request this code, please contact your security officer.
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>🔐 Your Verification Code</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p>Use the following one-time code to ${purposeText} on the Defence Incident Sentinel Portal:</p>
+          <div style="background: white; border: 2px dashed #cbd5e1; padding: 20px; margin: 20px 0; text-align: center; font-family: monospace; font-size: 32px; letter-spacing: 8px; border-radius: 6px;">
+            <strong>${code}</strong>
+          </div>
+          <p><strong>⏰ Important:</strong> This code will expire in <strong>${expiryText}</strong> and can only be used once.</p>
+          <p style="color: #dc2626;"><strong>Never share this code with anyone. If you did not request it, contact your security officer.</strong></p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== OTP EMAIL =====');
+      console.log('To:', email);
+      console.log('Purpose:', purpose);
+      console.log('Code:', code);
+      console.log('=======================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ OTP email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending OTP email:', error);
+    throw new Error('Failed to send OTP email: ' + error.message);
+  }
+};
+
+// Send password reset code
+const sendPasswordResetEmail = async (email, userName, code, expiresInSeconds = 60) => {
+  const expiryText = expiresInSeconds >= 60
+    ? `${Math.round(expiresInSeconds / 60)} minute(s)`
+    : `${expiresInSeconds} seconds`;
+
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: '🔑 Defence Portal password reset request',
+      text: `
+Hello ${userName},
+
+We received a request to reset the password for your Defence Incident Sentinel Portal account.
+
+Your password reset code is:
+
+${code}
+
+⏰ IMPORTANT: This code will expire in ${expiryText} and can only be used once.
+You will also be asked for your authenticator code (or a backup code) if your account uses one.
+
+If you did not request a password reset, do not share this code. Your password has not been changed,
+but someone may be trying to access your account - please inform your security officer.
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>🔑 Password Reset Request</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p>We received a request to reset the password for your Defence Incident Sentinel Portal account.</p>
+          <p>Your password reset code is:</p>
+          <div style="background: white; border: 2px dashed #cbd5e1; padding: 20px; margin: 20px 0; text-align: center; font-family: monospace; font-size: 32px; letter-spacing: 8px; border-radius: 6px;">
+            <strong>${code}</strong>
+          </div>
+          <p><strong>⏰ Important:</strong> This code will expire in <strong>${expiryText}</strong> and can only be used once.</p>
+          <p>You will also be asked for your authenticator code (or a backup code) if your account uses one.</p>
+          <p style="color: #dc2626;"><strong>If you did not request a password reset, do not share this code. Your password has not been changed, but someone may be trying to access your account - please inform your security officer.</strong></p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== PASSWORD RESET EMAIL =====');
+      console.log('To:', email);
+      console.log('Code:', code);
+      console.log('==================================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Password reset email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending password reset email:', error);
+    throw new Error('Failed to send password reset email: ' + error.message);
+  }
+};
+
+// Send "your password was changed" notification
+const sendPasswordChangedEmail = async (email, userName, { changedAt = new Date(), ip = 'unknown', method = 'reset' } = {}) => {
+  const howText = method === 'reset' ? 'using the password reset flow' : 'from your account settings';
+
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: '⚠️ Your Defence Portal password was changed',
+      text: `
+Hello ${userName},
+
+The password for your Defence Incident Sentinel Portal account was changed ${howText}.
+
+Time: ${changedAt.toUTCString()}
+IP address: ${ip}
+
+All existing sessions have been signed out.
+
+If you did not make this change, contact the system administrator immediately.
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>⚠️ Your Password Was Changed</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p>The password for your Defence Incident Sentinel Portal account was changed ${howText}.</p>
+          <ul>
+            <li><strong>Time:</strong> ${changedAt.toUTCString()}</li>
+            <li><strong>IP address:</strong> ${ip}</li>
+          </ul>
+          <p>All existing sessions have been signed out.</p>
+          <p style="color: #dc2626;"><strong>If you did not make this change, contact the system administrator immediately.</strong></p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== PASSWORD CHANGED EMAIL =====');
+      console.log('To:', email);
+      console.log('Subject:', mailOptions.subject);
+      console.log('====================================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Password changed email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending password changed email:', error);
+    // Don't throw - this is a non-critical notification
+    return { success: false, error: error.message };
+  }
+};
+
+// Send MFA method change notification
+const sendMfaMethodChangedEmail = async (email, userName, method, { changedAt = new Date(), ip = 'unknown' } = {}) => {
+  const methodTexts = {
+    totp: 'an authenticator app',
+    email: 'email one-time codes',
+    webauthn: 'a registered security key',
+    hotp: 'your assigned hardware token',
+  };
+  const methodText = methodTexts[method] || methodTexts.email;
+
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: '⚠️ Your Defence Portal MFA settings were changed',
+      text: `
+Hello ${userName},
+
+The multi-factor authentication settings for your Defence Incident Sentinel Portal account were changed.
+Sign-in now requires ${methodText}.
+
+Time: ${changedAt.toUTCString()}
+IP address: ${ip}
+
+If you did not make this change, contact the system administrator immediately.
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>⚠️ Your MFA Settings Were Changed</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p>The multi-factor authentication settings for your Defence Incident Sentinel Portal account were changed.
+          Sign-in now requires <strong>${methodText}</strong>.</p>
+          <ul>
+            <li><strong>Time:</strong> ${changedAt.toUTCString()}</li>
+            <li><strong>IP address:</strong> ${ip}</li>
+          </ul>
+          <p style="color: #dc2626;"><strong>If you did not make this change, contact the system administrator immediately.</strong></p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== MFA CHANGED EMAIL =====');
+      console.log('To:', email);
+      console.log('Method:', method);
+      console.log('===============================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ MFA changed email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending MFA changed email:', error);
+    // Don't throw - this is a non-critical notification
+    return { success: false, error: error.message };
+  }
+};
+
+// Send account locked notification
+const sendAccountLockedEmail = async (email, userName, { lockedUntil, ip = 'unknown' } = {}) => {
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: '🔒 Your Defence Portal account has been locked',
+      text: `
+Hello ${userName},
+
+Your Defence Incident Sentinel Portal account was locked after too many failed sign-in attempts.
+
+Last attempt from IP address: ${ip}
+Locked until: ${lockedUntil.toUTCString()}
+
+The account unlocks automatically at the time above. If you need access sooner,
+use "Request Unlock" on the sign-in page and an administrator will review the request.
+
+If these attempts were not made by you, contact the system administrator immediately.
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>🔒 Your Account Has Been Locked</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p>Your Defence Incident Sentinel Portal account was locked after too many failed sign-in attempts.</p>
+          <ul>
+            <li><strong>Last attempt from IP address:</strong> ${ip}</li>
+            <li><strong>Locked until:</strong> ${lockedUntil.toUTCString()}</li>
+          </ul>
+          <p>The account unlocks automatically at the time above. If you need access sooner,
+          use <strong>Request Unlock</strong> on the sign-in page and an administrator will review the request.</p>
+          <p style="color: #dc2626;"><strong>If these attempts were not made by you, contact the system administrator immediately.</strong></p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== ACCOUNT LOCKED EMAIL =====');
+      console.log('To:', email);
+      console.log('Locked until:', lockedUntil.toUTCString());
+      console.log('==================================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Account locked email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending account locked email:', error);
+    // Don't throw - this is a non-critical notification
+    return { success: false, error: error.message };
+  }
+};
+
+// Send account unlocked notification after an administrator approves an unlock request
+const sendAccountUnlockedEmail = async (email, userName, { unlockedAt = new Date() } = {}) => {
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: '🔓 Your Defence Portal account has been unlocked',
+      text: `
+Hello ${userName},
+
+An administrator approved your unlock request. You can sign in to the Defence Incident Sentinel Portal again.
+
+Time: ${unlockedAt.toUTCString()}
+
+If you did not request this, contact the system administrator immediately.
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>🔓 Your Account Has Been Unlocked</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p>An administrator approved your unlock request. You can sign in to the Defence Incident Sentinel Portal again.</p>
+          <ul>
+            <li><strong>Time:</strong> ${unlockedAt.toUTCString()}</li>
+          </ul>
+          <p style="color: #dc2626;"><strong>If you did not request this, contact the system administrator immediately.</strong></p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== ACCOUNT UNLOCKED EMAIL =====');
+      console.log('To:', email);
+      console.log('====================================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Account unlocked email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending account unlocked email:', error);
+    // Don't throw - this is a non-critical notification
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Tell an applicant whether an administrator approved their registration
+ */
+const sendActivationDecisionEmail = async (email, userName, { approved, reason = null, decidedAt = new Date() }) => {
+  const headline = approved ? '✅ Your Defence Portal account is active' : 'Your Defence Portal registration was not approved';
+  const summary = approved
+    ? 'An administrator approved your registration. You can now sign in to the Defence Incident Sentinel Portal.'
+    : 'An administrator reviewed your registration and did not approve it.';
+  // The reason is typed by an administrator; escape it before it goes into HTML
+  const safeReason = reason ? validator.escape(reason) : null;
+
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: headline,
+      text: `
+Hello ${userName},
+
+${summary}
+${reason ? `\nReason: ${reason}\n` : ''}
+Time: ${decidedAt.toUTCString()}
+
+${approved ? 'Sign in with the credentials and MFA method you registered.' : 'If you believe this is a mistake, contact the system administrator.'}
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${headline}</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p>${summary}</p>
+          <ul>
+            ${safeReason ? `<li><strong>Reason:</strong> ${safeReason}</li>` : ''}
+            <li><strong>Time:</strong> ${decidedAt.toUTCString()}</li>
+          </ul>
+          <p>${approved ? 'Sign in with the credentials and MFA method you registered.' : 'If you believe this is a mistake, contact the system administrator.'}</p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== ACTIVATION DECISION EMAIL =====');
+      console.log('To:', email);
+      console.log('Approved:', approved);
+      console.log('========================================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Activation decision email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending activation decision email:', error);
+    // Don't throw - this is a non-critical notification
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Ask a Defence Personnel account to confirm a family member who named them as sponsor
+ */
+const sendSponsorRequestEmail = async (email, userName, { dependentName, familyId }) => {
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: 'Confirm a dependent who named you as sponsor',
+      text: `
+Hello ${userName},
+
+${dependentName} (${familyId}) registered on the Defence Incident Sentinel Portal as your family member / dependent.
+
+Sign in and open your dashboard to confirm or reject the link. Their account keeps limited capabilities until you confirm it.
+
+If you do not know this person, reject the request.
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Confirm your dependent</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p><strong>${dependentName}</strong> (${familyId}) registered on the Defence Incident Sentinel Portal as your family member / dependent.</p>
+          <p>Sign in and open your dashboard to confirm or reject the link. Their account keeps limited capabilities until you confirm it.</p>
+          <p>If you do not know this person, reject the request.</p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== SPONSOR REQUEST EMAIL =====');
+      console.log('To:', email);
+      console.log('Dependent:', familyId);
+      console.log('====================================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Sponsor request email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending sponsor request email:', error);
+    // Don't throw - this is a non-critical notification
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Tell a family member whether their sponsor confirmed the link
+ */
+const sendSponsorDecisionEmail = async (email, userName, { confirmed, reason = null, decidedAt = new Date() }) => {
+  const headline = confirmed ? '✅ Your sponsor confirmed your account' : 'Your sponsor did not confirm your account';
+  const summary = confirmed
+    ? 'Your sponsor confirmed you as their dependent. Family services are now available in the portal.'
+    : 'The Defence Personnel account you named as sponsor did not confirm you as their dependent.';
+  // The reason is typed by the sponsor; escape it before it goes into HTML
+  const safeReason = reason ? validator.escape(reason) : null;
+
+  try {
+    const mailOptions = {
+      from: process.env.FROM_EMAIL || process.env.GMAIL_USER || '"Defence Portal" <noreply@defence.gov.in>',
+      to: email,
+      subject: headline,
+      text: `
+Hello ${userName},
+
+${summary}
+${reason ? `\nReason: ${reason}\n` : ''}
+Time: ${decidedAt.toUTCString()}
+
+${confirmed ? 'Sign in to use family services.' : 'You can name a different sponsor from your dashboard.'}
+
+Thank you,
+Defence Cyber Security Team
+      `,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${headline}</h2>
+          <p>Hello <strong>${userName}</strong>,</p>
+          <p>${summary}</p>
+          <ul>
+            ${safeReason ? `<li><strong>Reason:</strong> ${safeReason}</li>` : ''}
+            <li><strong>Time:</strong> ${decidedAt.toUTCString()}</li>
+          </ul>
+          <p>${confirmed ? 'Sign in to use family services.' : 'You can name a different sponsor from your dashboard.'}</p>
+          <p>Thank you,<br><strong>Defence Cyber Security Team</strong></p>
+        </div>
+      `
+    };
+
+    if (!transporter) {
+      console.log('\n📧 ===== SPONSOR DECISION EMAIL =====');
+      console.log('To:', email);
+      console.log('Confirmed:', confirmed);
+      console.log('=====================================\n');
+      return { success: true, message: 'Email logged to console (dev mode)' };
+    }
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Sponsor decision email sent:', info.messageId);
+
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending sponsor decision email:', error);
+    // Don't throw - this is a non-critical notification
+    return { success: false, error: error.message };
+  }
+};
+
 export {
   generateVerificationToken,
   sendVerificationEmail,
-  sendTotpSetupEmail
+  sendTotpSetupEmail,
+  sendOtpEmail,
+  sendPasswordResetEmail,
+  sendPasswordChangedEmail,
+  sendMfaMethodChangedEmail,
+  sendAccountLockedEmail,
+  sendAccountUnlockedEmail,
+  sendActivationDecisionEmail,
+  sendSponsorRequestEmail,
+  sendSponsorDecisionEmail
 };
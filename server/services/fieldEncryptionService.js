@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import fs from 'fs';
+
+/**
+ * Envelope encryption for sensitive User fields (authenticator seeds, backup code hashes).
+ *
+ * Every encrypted value carries its own random data key, wrapped by a versioned master key:
+ *   enc:<masterKeyVersion>:<wrapped data key>:<encrypted value>
+ * Both parts are base64url(iv | auth tag | ciphertext) under AES-256-GCM.
+ * Rotating the master key only re-wraps the data keys; the field ciphertext is untouched.
+ *
+ * Master keys come from FIELD_ENCRYPTION_KEY_FILE (JSON: { "currentVersion": 2, "keys": { "1": "...", "2": "..." } })
+ * or FIELD_ENCRYPTION_KEYS ("2:<base64 key>,1:<base64 key>"). Each key is 32 random bytes, base64 encoded.
+ */
+
+const ENCRYPTED_PREFIX = 'enc';
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// Development-only fallback so a fresh checkout works without a key file
+const DEV_KEY_VERSION = 0;
+
+let cachedKeyring = null;
+
+const parseKey = (version, encoded) => {
+  const key = Buffer.from(String(encoded).trim(), 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Field encryption key version ${version} must be ${KEY_LENGTH} bytes (base64 encoded)`);
+  }
+  return key;
+};
+
+const readConfiguredKeys = () => {
+  if (process.env.FIELD_ENCRYPTION_KEY_FILE) {
+    const file = JSON.parse(fs.readFileSync(process.env.FIELD_ENCRYPTION_KEY_FILE, 'utf8'));
+    return {
+      keys: Object.entries(file.keys || {}),
+      currentVersion: file.currentVersion,
+    };
+  }
+
+  if (process.env.FIELD_ENCRYPTION_KEYS) {
+    return {
+      keys: process.env.FIELD_ENCRYPTION_KEYS.split(',')
+        .filter((entry) => entry.trim())
+        .map((entry) => {
+          const [version, ...key] = entry.trim().split(':');
+          return [version, key.join(':')];
+        }),
+      currentVersion: process.env.FIELD_ENCRYPTION_CURRENT_VERSION,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Load the master keyring once. The current version encrypts; every listed version can decrypt.
+ * Defaults to the highest version when no current version is named.
+ */
+const getKeyring = () => {
+  if (cachedKeyring) {
+    return cachedKeyring;
+  }
+
+  const configured = readConfiguredKeys();
+
+  if (!configured || configured.keys.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Field encryption keys are not configured. Set FIELD_ENCRYPTION_KEY_FILE or FIELD_ENCRYPTION_KEYS.');
+    }
+
+    console.warn('⚠️  No field encryption keys configured - deriving a development key from JWT_SECRET');
+    const devKey = crypto.createHash('sha256').update(`field-encryption:${process.env.JWT_SECRET}`).digest();
+    cachedKeyring = { keys: new Map([[DEV_KEY_VERSION, devKey]]), currentVersion: DEV_KEY_VERSION };
+    return cachedKeyring;
+  }
+
+  const keys = new Map(configured.keys.map(([version, key]) => {
+    const parsedVersion = parseInt(version);
+    if (!Number.isInteger(parsedVersion) || parsedVersion < 1) {
+      throw new Error(`Invalid field encryption key version "${version}"`);
+    }
+    return [parsedVersion, parseKey(parsedVersion, key)];
+  }));
+
+  const currentVersion = configured.currentVersion !== undefined
+    ? parseInt(configured.currentVersion)
+    : Math.max(...keys.keys());
+
+  if (!keys.has(currentVersion)) {
+    throw new Error(`Current field encryption key version ${currentVersion} is not in the keyring`);
+  }
+
+  cachedKeyring = { keys, currentVersion };
+  return cachedKeyring;
+};
+
+const getCurrentKeyVersion = () => getKeyring().currentVersion;
+
+const getMasterKey = (version) => {
+  const key = getKeyring().keys.get(version);
+  if (!key) {
+    throw new Error(`Field encryption key version ${version} is not available`);
+  }
+  return key;
+};
+
+const seal = (key, plaintext) => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+};
+
+const open = (key, sealed) => {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = crypto.createDecipheriv(CIPHER, key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+const isEncryptedValue = (value) => typeof value === 'string' && value.startsWith(`${ENCRYPTED_PREFIX}:`);
+
+const parseEncryptedValue = (value) => {
+  const [, version, wrappedKey, payload] = value.split(':');
+  if (!wrappedKey || !payload) {
+    throw new Error('Malformed encrypted field');
+  }
+  return { version: parseInt(version), wrappedKey, payload };
+};
+
+/**
+ * Encrypt a string with a fresh data key. null and already-encrypted values pass through.
+ */
+const encryptField = (value) => {
+  if (value === null || value === undefined || value === '' || isEncryptedValue(value)) {
+    return value;
+  }
+
+  const version = getCurrentKeyVersion();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(getMasterKey(version), dataKey);
+  const payload = seal(dataKey, Buffer.from(String(value), 'utf8'));
+
+  return `${ENCRYPTED_PREFIX}:${version}:${wrappedKey}:${payload}`;
+};
+
+/**
+ * Decrypt a value produced by encryptField. Plaintext written before encryption was
+ * enabled is returned unchanged until the rotation command migrates it.
+ */
+const decryptField = (value) => {
+  if (!isEncryptedValue(value)) {
+    return value;
+  }
+
+  const { version, wrappedKey, payload } = parseEncryptedValue(value);
+  const dataKey = open(getMasterKey(version), wrappedKey);
+  return open(dataKey, payload).toString('utf8');
+};
+
+/**
+ * Re-wrap a value's data key under the current master key (plaintext values are encrypted).
+ * Returns the new stored value, or null when it is already current.
+ */
+const rewrapField = (value) => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  if (!isEncryptedValue(value)) {
+    return encryptField(value);
+  }
+
+  const { version, wrappedKey, payload } = parseEncryptedValue(value);
+  const currentVersion = getCurrentKeyVersion();
+  if (version === currentVersion) {
+    return null;
+  }
+
+  const dataKey = open(getMasterKey(version), wrappedKey);
+  return `${ENCRYPTED_PREFIX}:${currentVersion}:${seal(getMasterKey(currentVersion), dataKey)}:${payload}`;
+};
+
+// Fail at startup rather than on the first sign-in when production keys are missing or malformed
+const assertFieldEncryptionReady = () => {
+  getKeyring();
+};
+
+const generateMasterKey = () => crypto.randomBytes(KEY_LENGTH).toString('base64');
+
+export {
+  encryptField,
+  decryptField,
+  rewrapField,
+  isEncryptedValue,
+  getCurrentKeyVersion,
+  assertFieldEncryptionReady,
+  generateMasterKey,
+};
@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import * as OTPAuth from 'otpauth';
+import HardwareToken from '../models/HardwareToken.js';
+
+const HOTP_ALGORITHMS = ['SHA1', 'SHA256', 'SHA512'];
+const SERIAL_PATTERN = /^[A-Z0-9-]{4,32}$/;
+const MAX_IMPORT_ROWS = 1000;
+
+// Codes the token may have generated without being used (button presses), accepted on sign-in
+const getLookAheadWindow = () => parseInt(process.env.HOTP_LOOK_AHEAD_WINDOW || '10');
+
+// How far ahead a resync with two consecutive codes searches
+const getResyncWindow = () => parseInt(process.env.HOTP_RESYNC_WINDOW || '200');
+
+const generateCode = (token, counter) => new OTPAuth.HOTP({
+  algorithm: token.algorithm,
+  digits: token.digits,
+  secret: OTPAuth.Secret.fromBase32(token.seed),
+}).generate({ counter });
+
+const codesMatch = (a, b) => a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+// First counter in [from, from + window] whose code matches, or null
+const findCounter = (token, code, from, window) => {
+  for (let counter = from; counter <= from + window; counter += 1) {
+    if (codesMatch(generateCode(token, counter), code)) {
+      return counter;
+    }
+  }
+  return null;
+};
+
+// Move the counter past a matched code; fails if another request moved it first
+const claimCounter = async (token, nextCounter, extra = {}) => {
+  const result = await HardwareToken.updateOne(
+    { _id: token._id, counter: token.counter },
+    { $set: { counter: nextCounter, ...extra } }
+  );
+  if (result.modifiedCount === 0) {
+    return false;
+  }
+  token.counter = nextCounter;
+  return true;
+};
+
+const findAssignedToken = (userId) => HardwareToken.findOne({ assignedTo: userId, status: 'assigned' });
+
+/**
+ * Verify a code from the user's hardware token.
+ * Accepts codes up to the look-ahead window past the stored counter; each counter is used once.
+ */
+const verifyHotpCode = async (user, code) => {
+  const token = await findAssignedToken(user._id);
+  if (!token) {
+    return { valid: false, reason: 'no_hardware_token' };
+  }
+
+  const counter = findCounter(token, String(code), token.counter, getLookAheadWindow());
+  if (counter === null) {
+    return { valid: false, reason: 'invalid_hotp' };
+  }
+
+  const claimed = await claimCounter(token, counter + 1, { lastUsedAt: new Date() });
+  return claimed ? { valid: true } : { valid: false, reason: 'hotp_replayed' };
+};
+
+/**
+ * Find where two consecutive codes sit inside the resync window, without moving the counter.
+ * Returns the counter of the first code, or null.
+ */
+const findResyncCounter = (token, firstCode, secondCode) => {
+  const window = getResyncWindow();
+  let from = token.counter;
+
+  while (from <= token.counter + window) {
+    const counter = findCounter(token, String(firstCode), from, token.counter + window - from);
+    if (counter === null) {
+      return null;
+    }
+    if (codesMatch(generateCode(token, counter + 1), String(secondCode))) {
+      return counter;
+    }
+    from = counter + 1;
+  }
+
+  return null;
+};
+
+// Move the counter past a pair found by findResyncCounter; fails if another request moved it first
+const claimResyncCounter = (token, counter) => claimCounter(token, counter + 2, { lastResyncAt: new Date() });
+
+/**
+ * Resynchronise a drifted token from two consecutive codes.
+ * Returns true when both codes match adjacent counters inside the resync window.
+ */
+const resyncHardwareToken = async (token, firstCode, secondCode) => {
+  const counter = findResyncCounter(token, firstCode, secondCode);
+  return counter !== null && claimResyncCounter(token, counter);
+};
+
+// Seeds arrive as hex (most vendor files) or base32; stored as base32
+const parseSeed = (seed, format) => {
+  const value = String(seed).trim().replace(/\s+/g, '');
+  if (format === 'base32') {
+    return /^[A-Z2-7]+=*$/i.test(value) ? OTPAuth.Secret.fromBase32(value.toUpperCase()).base32 : null;
+  }
+  return /^([0-9a-f]{2})+$/i.test(value) ? OTPAuth.Secret.fromHex(value).base32 : null;
+};
+
+/**
+ * Parse a token CSV.
+ * Header row required: serial,seed and optionally format (hex|base32), digits (6|8), algorithm, counter.
+ * Returns parsed rows plus per-line errors; nothing is written.
+ */
+const parseTokenCsv = (csv) => {
+  const lines = String(csv).split(/\r?\n/).map((line) => line.trim());
+  const headerIndex = lines.findIndex((line) => line && !line.startsWith('#'));
+  if (headerIndex === -1) {
+    return { rows: [], errors: [{ line: 1, reason: 'File is empty' }] };
+  }
+
+  const header = lines[headerIndex].split(',').map((column) => column.trim().toLowerCase());
+  if (!header.includes('serial') || !header.includes('seed')) {
+    return { rows: [], errors: [{ line: headerIndex + 1, reason: 'Header must include serial and seed columns' }] };
+  }
+
+  const rows = [];
+  const errors = [];
+  const seenSerials = new Set();
+
+  lines.slice(headerIndex + 1).forEach((line, index) => {
+    const lineNumber = headerIndex + index + 2;
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const values = line.split(',').map((value) => value.trim());
+    const record = Object.fromEntries(header.map((column, columnIndex) => [column, values[columnIndex] ?? '']));
+    const serial = record.serial.toUpperCase();
+    const digits = record.digits ? parseInt(record.digits) : 6;
+    const algorithm = record.algorithm ? record.algorithm.toUpperCase() : 'SHA1';
+    const counter = record.counter ? parseInt(record.counter) : 0;
+    const seed = parseSeed(record.seed, record.format?.toLowerCase() === 'base32' ? 'base32' : 'hex');
+
+    let reason = null;
+    if (!SERIAL_PATTERN.test(serial)) {
+      reason = 'Serial must be 4-32 letters, digits or dashes';
+    } else if (seenSerials.has(serial)) {
+      reason = 'Duplicate serial in file';
+    } else if (!seed) {
+      reason = 'Seed is not valid hex or base32';
+    } else if (![6, 8].includes(digits)) {
+      reason = 'Digits must be 6 or 8';
+    } else if (!HOTP_ALGORITHMS.includes(algorithm)) {
+      reason = 'Algorithm must be SHA1, SHA256 or SHA512';
+    } else if (!Number.isInteger(counter) || counter < 0) {
+      reason = 'Counter must be a non-negative integer';
+    }
+
+    if (reason) {
+      errors.push({ line: lineNumber, serial: serial || null, reason });
+      return;
+    }
+
+    seenSerials.add(serial);
+    rows.push({ line: lineNumber, serial, seed, digits, algorithm, counter });
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], errors: [{ line: headerIndex + 1, reason: `At most ${MAX_IMPORT_ROWS} tokens per import` }] };
+  }
+
+  return { rows, errors };
+};
+
+/**
+ * Import tokens from CSV. Serials that already exist are skipped, never overwritten.
+ */
+const importHardwareTokens = async (csv, importedBy) => {
+  const { rows, errors } = parseTokenCsv(csv);
+
+  const existing = new Set((await HardwareToken.find({ serial: { $in: rows.map((row) => row.serial) } }).select('serial'))
+    .map((token) => token.serial));
+
+  const skipped = [...errors];
+  const toCreate = [];
+  for (const row of rows) {
+    if (existing.has(row.serial)) {
+      skipped.push({ line: row.line, serial: row.serial, reason: 'Serial already imported' });
+    } else {
+      toCreate.push({
+        serial: row.serial,
+        seed: row.seed,
+        digits: row.digits,
+        algorithm: row.algorithm,
+        counter: row.counter,
+        importedBy,
+      });
+    }
+  }
+
+  const created = toCreate.length > 0 ? await HardwareToken.insertMany(toCreate) : [];
+
+  return {
+    imported: created.length,
+    serials: created.map((token) => token.serial),
+    skipped: skipped.sort((a, b) => a.line - b.line),
+  };
+};
+
+const toHardwareTokenSummary = (token) => ({
+  id: token._id,
+  serial: token.serial,
+  algorithm: token.algorithm,
+  digits: token.digits,
+  status: token.status,
+  assignedTo: token.assignedTo?._id
+    ? {
+      id: token.assignedTo._id,
+      fullName: token.assignedTo.fullName,
+      email: token.assignedTo.officialEmail,
+      role: token.assignedTo.role,
+      inUse: token.assignedTo.authMethod === 'hardware_token',
+    }
+    : null,
+  assignedAt: token.assignedAt,
+  lastUsedAt: token.lastUsedAt,
+  lastResyncAt: token.lastResyncAt,
+  importedAt: token.createdAt,
+});
+
+export {
+  getLookAheadWindow,
+  getResyncWindow,
+  findAssignedToken,
+  verifyHotpCode,
+  resyncHardwareToken,
+  findResyncCounter,
+  claimResyncCounter,
+  parseTokenCsv,
+  importHardwareTokens,
+  toHardwareTokenSummary,
+};
@@ -0,0 +1,86 @@
+import User from '../models/User.js';
+
+const getMaxFailedAttempts = () => parseInt(process.env.LOCKOUT_MAX_ATTEMPTS || '3');
+
+const getLockoutDurationMinutes = () => parseInt(process.env.LOCKOUT_DURATION_MINUTES || '60');
+
+const isAccountLocked = (user) => Boolean(
+  user.lockout?.lockedUntil && user.lockout.lockedUntil.getTime() > Date.now()
+);
+
+// An expired lock leaves failedAttempts at the limit; the next failure starts a fresh count
+const countFailedAttempts = (user) => (user.lockout?.lockedUntil ? 0 : user.lockout?.failedAttempts || 0);
+
+/**
+ * Lock state as returned to the client.
+ * attemptsRemaining counts password failures left before the account locks.
+ */
+const getLockoutState = (user) => {
+  if (isAccountLocked(user)) {
+    return {
+      locked: true,
+      lockedUntil: user.lockout.lockedUntil,
+      attemptsRemaining: 0,
+    };
+  }
+
+  return {
+    locked: false,
+    lockedUntil: null,
+    attemptsRemaining: Math.max(0, getMaxFailedAttempts() - countFailedAttempts(user)),
+  };
+};
+
+/**
+ * Count a failed password against the account and lock it once attempts run out.
+ * The count is incremented in the database, so parallel failures cannot overwrite each other's attempts.
+ * Returns the new lock state plus justLocked when this attempt triggered the lock.
+ */
+const recordFailedLogin = async (user) => {
+  const now = new Date();
+
+  // An expired lock starts a fresh count
+  await User.updateOne(
+    { _id: user._id, 'lockout.lockedUntil': { $ne: null, $lte: now } },
+    { $set: { 'lockout.failedAttempts': 0, 'lockout.lockedAt': null, 'lockout.lockedUntil': null } }
+  );
+
+  const counted = await User.findOneAndUpdate(
+    { _id: user._id },
+    { $inc: { 'lockout.failedAttempts': 1 } },
+    { new: true, projection: { lockout: 1 } }
+  );
+  if (!counted || counted.lockout.failedAttempts < getMaxFailedAttempts() || counted.lockout.lockedUntil) {
+    return { ...getLockoutState(counted ?? user), justLocked: false };
+  }
+
+  // Only the failure that reaches the limit sets the lock, so it is reported (and emailed) once
+  const locked = await User.findOneAndUpdate(
+    { _id: user._id, 'lockout.lockedUntil': null },
+    { $set: { 'lockout.lockedAt': now, 'lockout.lockedUntil': new Date(now.getTime() + getLockoutDurationMinutes() * 60 * 1000) } },
+    { new: true, projection: { lockout: 1 } }
+  );
+  if (!locked) {
+    return { ...getLockoutState(await User.findById(user._id).select('lockout')), justLocked: false };
+  }
+
+  return { ...getLockoutState(locked), justLocked: true };
+};
+
+// Reset after a successful password check or an approved unlock
+const clearLockout = (user) => {
+  user.lockout = {
+    failedAttempts: 0,
+    lockedAt: null,
+    lockedUntil: null,
+  };
+};
+
+export {
+  getMaxFailedAttempts,
+  getLockoutDurationMinutes,
+  isAccountLocked,
+  getLockoutState,
+  recordFailedLogin,
+  clearLockout,
+};
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import User from '../models/User.js';
+import { toClientMfaMethod } from './mfaService.js';
+
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const getChallengeTtlSeconds = () => parseInt(process.env.MFA_CHALLENGE_TTL_SECONDS || '300');
+
+// Bind a challenge to the client that passed the password step
+const getClientFingerprint = (req) => crypto
+  .createHash('sha256')
+  .update(`${req.ip}|${req.get('user-agent') || ''}`)
+  .digest('hex');
+
+/**
+ * Issue a signed, single-use MFA challenge after a successful password check.
+ * Only the latest challenge per user is redeemable. Caller is responsible for saving the user.
+ */
+const issueMfaChallenge = (user, req) => {
+  const ttlSeconds = getChallengeTtlSeconds();
+  const jti = crypto.randomBytes(16).toString('hex');
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+  user.mfaChallenge = {
+    jti,
+    expiresAt,
+    attempts: 0,
+  };
+
+  const token = jwt.sign(
+    {
+      type: 'mfa_challenge',
+      method: toClientMfaMethod(user.authMethod),
+      client: getClientFingerprint(req),
+    },
+    process.env.JWT_SECRET,
+    {
+      subject: String(user._id),
+      jwtid: jti,
+      expiresIn: ttlSeconds,
+    }
+  );
+
+  return { token, expiresAt };
+};
+
+/**
+ * Resolve an MFA challenge token to its user without consuming it.
+ * Returns { valid: true, user, method, jti } or { valid: false, reason }.
+ */
+const loadMfaChallenge = async (token, req) => {
+  let claims;
+  try {
+    claims = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (error) {
+    return { valid: false, reason: error.name === 'TokenExpiredError' ? 'challenge_expired' : 'challenge_invalid' };
+  }
+
+  if (claims.type !== 'mfa_challenge') {
+    return { valid: false, reason: 'challenge_invalid' };
+  }
+
+  if (claims.client !== getClientFingerprint(req)) {
+    return { valid: false, reason: 'client_mismatch' };
+  }
+
+  const user = await User.findById(claims.sub);
+  if (!user || !user.mfaChallenge?.jti || user.mfaChallenge.jti !== claims.jti) {
+    // Already redeemed, superseded by a newer login, or revoked after too many attempts
+    return { valid: false, reason: 'challenge_used' };
+  }
+
+  if (!user.mfaChallenge.expiresAt || user.mfaChallenge.expiresAt.getTime() <= Date.now()) {
+    return { valid: false, reason: 'challenge_expired' };
+  }
+
+  return { valid: true, user, method: claims.method, jti: claims.jti };
+};
+
+/**
+ * Redeem the challenge in one conditional write, so two requests carrying the same token cannot both pass.
+ * Returns false when it was already redeemed, superseded by a newer login or revoked.
+ */
+const consumeMfaChallenge = async (user, jti) => {
+  const { modifiedCount } = await User.updateOne(
+    { _id: user._id, 'mfaChallenge.jti': jti },
+    { $unset: { mfaChallenge: 1 } }
+  );
+  return modifiedCount === 1;
+};
+
+// Count a failed code against the challenge; revokes it once attempts run out
+const recordFailedChallengeAttempt = async (user, jti) => {
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id, 'mfaChallenge.jti': jti },
+    { $inc: { 'mfaChallenge.attempts': 1 } },
+    { new: true, projection: { mfaChallenge: 1 } }
+  );
+  const attemptsRemaining = updated ? Math.max(0, MAX_CHALLENGE_ATTEMPTS - updated.mfaChallenge.attempts) : 0;
+
+  if (attemptsRemaining === 0) {
+    await consumeMfaChallenge(user, jti);
+  }
+
+  return attemptsRemaining;
+};
+
+// Drop any outstanding challenge, e.g. after a password change; caller is responsible for saving the user
+const clearMfaChallenge = (user) => {
+  user.mfaChallenge = {
+    jti: null,
+    expiresAt: null,
+    attempts: 0,
+  };
+};
+
+export {
+  getClientFingerprint,
+  issueMfaChallenge,
+  loadMfaChallenge,
+  consumeMfaChallenge,
+  recordFailedChallengeAttempt,
+  clearMfaChallenge,
+};
@@ -0,0 +1,215 @@
+import * as OTPAuth from 'otpauth';
+import jwt from 'jsonwebtoken';
+import { verifyEmailOtp } from './otpService.js';
+import { verifyBackupCode } from './backupCodeService.js';
+import { verifyAuthentication } from './webauthnService.js';
+import { verifyHotpCode } from './hardwareTokenService.js';
+import User from '../models/User.js';
+import { DEFAULT_TOTP_PARAMS, ROLE_REGISTRY } from '../../shared/roleRegistry.js';
+
+// Weakest method each role accepts, from enforcedMfaMethod in the shared role registry
+const ROLE_ENFORCED_MFA_METHODS = Object.fromEntries(Object.values(ROLE_REGISTRY)
+  .filter((role) => role.enforcedMfaMethod)
+  .map((role) => [role.key, role.enforcedMfaMethod]));
+
+// Relative assurance of each method; a role's enforced method is a minimum, not an exact match
+const MFA_METHOD_STRENGTH = {
+  email: 1,
+  totp: 2,
+  hotp: 2,
+  webauthn: 3,
+};
+
+// Authenticator parameters for new enrollments, from totp in the shared role registry
+const ROLE_TOTP_PARAMS = Object.fromEntries(Object.values(ROLE_REGISTRY)
+  .filter((role) => role.totp)
+  .map((role) => [role.key, role.totp]));
+
+const MFA_UPDATE_TOKEN_TTL = '10m';
+
+// Map the stored authMethod onto the method names used by the client
+const toClientMfaMethod = (authMethod) => {
+  if (authMethod === 'authenticator') {
+    return 'totp';
+  }
+  if (authMethod === 'hardware_token') {
+    return 'hotp';
+  }
+  return authMethod === 'webauthn' ? 'webauthn' : 'email';
+};
+
+// Map a client method name onto the stored authMethod
+const toStoredAuthMethod = (method) => {
+  if (method === 'totp') {
+    return 'authenticator';
+  }
+  if (method === 'hotp') {
+    return 'hardware_token';
+  }
+  return method === 'webauthn' ? 'webauthn' : 'email';
+};
+
+// Whether method is at least as strong as the enforced minimum (none enforced accepts every method)
+const meetsMfaMinimum = (method, enforced) => !enforced
+  || (MFA_METHOD_STRENGTH[method] ?? 0) >= MFA_METHOD_STRENGTH[enforced];
+
+const isMfaMethodAllowedForRole = (role, method) => meetsMfaMinimum(method, ROLE_ENFORCED_MFA_METHODS[role]);
+
+// Message shown when a role's minimum is not met
+const describeEnforcedMfaMethod = (role) => (ROLE_ENFORCED_MFA_METHODS[role] === 'webauthn'
+  ? `Security key (WebAuthn) MFA is required for the ${role} role`
+  : `Authenticator-based MFA is required for the ${role} role`);
+
+const getTotpParamsForRole = (role) => ({ ...DEFAULT_TOTP_PARAMS, ...ROLE_TOTP_PARAMS[role] });
+
+// Parameters the user's authenticator was enrolled with
+const getUserTotpParams = (user) => (user.totpParams?.algorithm
+  ? { algorithm: user.totpParams.algorithm, digits: user.totpParams.digits, period: user.totpParams.period }
+  : DEFAULT_TOTP_PARAMS);
+
+/**
+ * Verify a TOTP code against a base32 secret.
+ * Returns the time step the code belongs to, or null when it does not match.
+ */
+const verifyTotpCode = (secretBase32, code, params = DEFAULT_TOTP_PARAMS) => {
+  if (!secretBase32) {
+    return null;
+  }
+
+  try {
+    const totp = new OTPAuth.TOTP({
+      ...params,
+      secret: OTPAuth.Secret.fromBase32(secretBase32),
+    });
+
+    // Allow one step of clock drift either side
+    const timestamp = Date.now();
+    const delta = totp.validate({ token: code, timestamp, window: 1 });
+    return delta === null ? null : totp.counter({ timestamp }) + delta;
+  } catch (error) {
+    console.error('TOTP verification error:', error);
+    return null;
+  }
+};
+
+// Each time step is accepted once: the step is claimed atomically so two requests cannot share a code
+const redeemTotpCode = async (user, code) => {
+  const step = verifyTotpCode(user.totpSecret, code, getUserTotpParams(user));
+  if (step === null) {
+    return { valid: false, reason: 'invalid_totp' };
+  }
+
+  const claimed = await User.updateOne(
+    { _id: user._id, $or: [{ totpLastUsedStep: null }, { totpLastUsedStep: { $lt: step } }] },
+    { $set: { totpLastUsedStep: step } }
+  );
+  if (claimed.modifiedCount === 0) {
+    return { valid: false, reason: 'totp_replayed' };
+  }
+
+  user.totpLastUsedStep = step;
+  return { valid: true };
+};
+
+/**
+ * Verify a second factor for a user.
+ * method is one of 'totp', 'hotp', 'email', 'webauthn' or 'backup'; all but backup must match the enrolled method.
+ * For 'webauthn', code is the assertion response from the browser.
+ * purpose selects which outstanding email OTP or security key challenge to redeem
+ * ('login', 'step-up' or 'password-reset').
+ */
+const verifyMfaCode = async (user, method, code, { purpose = 'login' } = {}) => {
+  if (method === 'backup') {
+    return await verifyBackupCode(user, code)
+      ? { valid: true }
+      : { valid: false, reason: 'invalid_backup_code' };
+  }
+
+  if (method !== toClientMfaMethod(user.authMethod)) {
+    return { valid: false, reason: 'method_not_enrolled' };
+  }
+
+  if (method === 'totp') {
+    return redeemTotpCode(user, code);
+  }
+
+  if (method === 'hotp') {
+    return verifyHotpCode(user, code);
+  }
+
+  if (method === 'webauthn') {
+    return verifyAuthentication(user, code, purpose);
+  }
+
+  return verifyEmailOtp(user.officialEmail, purpose, code);
+};
+
+/**
+ * Drop a user's enrolled factor and backup codes after they lost them; they sign in with email OTP to their
+ * official mailbox and enrol a new factor from MFA settings. When email OTP is below the role's minimum the
+ * account is left pending enrollment, so that sign-in reaches nothing but MFA settings until a compliant
+ * factor is enrolled. Sessions and trusted devices are revoked by the caller.
+ * Returns the updated user, or null if the user does not exist.
+ */
+const resetUserMfa = async (userId) => {
+  const user = await User.findById(userId).select('role');
+  if (!user) {
+    return null;
+  }
+
+  return User.findByIdAndUpdate(
+    userId,
+    {
+      $set: {
+        authMethod: 'email',
+        mfaEnrollmentRequired: !isMfaMethodAllowedForRole(user.role, 'email'),
+        totpSecret: null,
+        totpParams: { algorithm: null, digits: null, period: null },
+        totpLastUsedStep: null,
+        webauthnCredentials: [],
+        backupCodes: [],
+        mfaChangedAt: new Date(),
+        mfaChallenge: { jti: null, expiresAt: null, attempts: 0 },
+      },
+    },
+    { new: true }
+  );
+};
+
+/**
+ * Short-lived proof that a signed-in user re-verified before changing MFA settings.
+ * Any MFA change (which bumps mfaChangedAt) voids outstanding tokens.
+ */
+const createMfaUpdateToken = (user) => jwt.sign(
+  { type: 'mfa_update' },
+  process.env.JWT_SECRET,
+  { subject: String(user._id), expiresIn: MFA_UPDATE_TOKEN_TTL }
+);
+
+const checkMfaUpdateToken = (token, user) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    return decoded.type === 'mfa_update'
+      && decoded.sub === String(user._id)
+      && (!user.mfaChangedAt || decoded.iat > Math.floor(user.mfaChangedAt.getTime() / 1000));
+  } catch {
+    return false;
+  }
+};
+
+export {
+  ROLE_ENFORCED_MFA_METHODS,
+  MFA_METHOD_STRENGTH,
+  toClientMfaMethod,
+  toStoredAuthMethod,
+  meetsMfaMinimum,
+  isMfaMethodAllowedForRole,
+  describeEnforcedMfaMethod,
+  getTotpParamsForRole,
+  getUserTotpParams,
+  verifyTotpCode,
+  verifyMfaCode,
+  resetUserMfa,
+  createMfaUpdateToken,
+  checkMfaUpdateToken,
+};
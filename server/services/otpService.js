@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import OtpCode from '../models/OtpCode.js';
+
+const MAX_OTP_ATTEMPTS = 5;
+const OTP_RESEND_COOLDOWN_SECONDS = 30;
+
+const getOtpExpirySeconds = () => parseInt(process.env.OTP_EXPIRY_SECONDS || '60');
+
+// Hash OTP with a server-side key so a database dump cannot be brute-forced offline
+const hashOtp = (code) => {
+  const key = process.env.OTP_SECRET || process.env.JWT_SECRET;
+  return crypto.createHmac('sha256', key).update(String(code)).digest('hex');
+};
+
+const safeEqual = (a, b) => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+// Generate a cryptographically secure 6-digit code
+const generateOtp = () => crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+/**
+ * Issue a new OTP for an email/purpose pair.
+ * Any outstanding code for the same pair is invalidated.
+ * Returns { code, expiresIn } or { retryAfter } when requested again too quickly.
+ */
+const issueEmailOtp = async (email, purpose) => {
+  const normalizedEmail = email.toLowerCase();
+
+  const latest = await OtpCode.findOne({ email: normalizedEmail, purpose }).sort({ createdAt: -1 });
+  if (latest) {
+    const secondsSinceLast = (Date.now() - latest.createdAt.getTime()) / 1000;
+    if (secondsSinceLast < OTP_RESEND_COOLDOWN_SECONDS) {
+      return { retryAfter: Math.ceil(OTP_RESEND_COOLDOWN_SECONDS - secondsSinceLast) };
+    }
+  }
+
+  await OtpCode.deleteMany({ email: normalizedEmail, purpose });
+
+  const code = generateOtp();
+  const expiresIn = getOtpExpirySeconds();
+
+  await OtpCode.create({
+    email: normalizedEmail,
+    purpose,
+    codeHash: hashOtp(code),
+    expiresAt: new Date(Date.now() + expiresIn * 1000),
+  });
+
+  return { code, expiresIn };
+};
+
+// Verify and consume the latest outstanding OTP for an email/purpose pair
+const verifyEmailOtp = async (email, purpose, code) => {
+  const otp = await OtpCode.findOne({
+    email: email.toLowerCase(),
+    purpose,
+    consumedAt: null,
+    expiresAt: { $gt: new Date() },
+  }).sort({ createdAt: -1 });
+
+  if (!otp) {
+    return { valid: false, reason: 'otp_not_found' };
+  }
+
+  if (otp.attempts >= MAX_OTP_ATTEMPTS) {
+    return { valid: false, reason: 'too_many_attempts' };
+  }
+
+  if (!safeEqual(otp.codeHash, hashOtp(code))) {
+    await OtpCode.updateOne({ _id: otp._id }, { $inc: { attempts: 1 } });
+    return { valid: false, reason: 'invalid_code' };
+  }
+
+  // Consumed in one conditional write; a concurrent request with the same code finds it already used
+  const consumed = await OtpCode.findOneAndUpdate(
+    { _id: otp._id, consumedAt: null, attempts: { $lt: MAX_OTP_ATTEMPTS } },
+    { $set: { consumedAt: new Date() } }
+  );
+  if (!consumed) {
+    return { valid: false, reason: 'otp_already_used' };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Short-lived proof that an email/purpose OTP was verified.
+ * Presented to follow-up endpoints (e.g. /register) instead of the consumed code.
+ */
+const createOtpVerificationToken = (email, purpose) => jwt.sign(
+  { email: email.toLowerCase(), purpose, type: 'otp_verification' },
+  process.env.JWT_SECRET,
+  { expiresIn: '30m' }
+);
+
+/**
+ * Returns true when the token proves verification of this email for this purpose.
+ * Pass notBefore to reject tokens issued before a given moment (e.g. the last password change).
+ */
+const checkOtpVerificationToken = (token, email, purpose, notBefore = null) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    return decoded.type === 'otp_verification'
+      && decoded.purpose === purpose
+      && decoded.email === email.toLowerCase()
+      && (!notBefore || decoded.iat > Math.floor(notBefore.getTime() / 1000));
+  } catch {
+    return false;
+  }
+};
+
+export {
+  getOtpExpirySeconds,
+  hashOtp,
+  safeEqual,
+  generateOtp,
+  issueEmailOtp,
+  verifyEmailOtp,
+  createOtpVerificationToken,
+  checkOtpVerificationToken,
+};
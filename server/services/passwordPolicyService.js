@@ -0,0 +1,51 @@
+import bcrypt from 'bcryptjs';
+import { ROLE_REGISTRY } from '../../shared/roleRegistry.js';
+
+const BASE_PASSWORD_POLICY = 'Minimum 12 characters, at least one uppercase letter, one number, and one special character.';
+const PASSWORD_POLICY_REGEX = /^(?=.*[A-Z])(?=.*[0-9])(?=.*[^A-Za-z0-9]).{12,}$/;
+
+// Per-role overrides, from passwordPolicy in the shared role registry
+const ROLE_PASSWORD_POLICIES = Object.fromEntries(Object.values(ROLE_REGISTRY)
+  .filter((role) => role.passwordPolicy)
+  .map((role) => [role.key, role.passwordPolicy]));
+
+/**
+ * Check a new password against the baseline policy and the role's policy.
+ * Returns an error message, or null when the password is acceptable.
+ */
+const validatePasswordForRole = (password, role) => {
+  if (!password || typeof password !== 'string' || !password.trim()) {
+    return 'Create a password that meets the listed policy.';
+  }
+
+  if (!PASSWORD_POLICY_REGEX.test(password)) {
+    return BASE_PASSWORD_POLICY;
+  }
+
+  const policy = ROLE_PASSWORD_POLICIES[role];
+  if (!policy) {
+    return null;
+  }
+
+  if (password.length < Math.max(12, policy.minLength)) {
+    return policy.message;
+  }
+
+  if (policy.requireSpecialCharacter && !/[^A-Za-z0-9]/.test(password)) {
+    return policy.message;
+  }
+
+  return null;
+};
+
+const hashPassword = async (password) => {
+  const salt = await bcrypt.genSalt(10);
+  return bcrypt.hash(password, salt);
+};
+
+export {
+  BASE_PASSWORD_POLICY,
+  ROLE_PASSWORD_POLICIES,
+  validatePasswordForRole,
+  hashPassword,
+};
@@ -0,0 +1,303 @@
+import User from '../models/User.js';
+import PendingOperation from '../models/PendingOperation.js';
+import { deactivateAccount } from './activationService.js';
+import { resetUserMfa, toClientMfaMethod } from './mfaService.js';
+import {
+  getRolePermissions,
+  setRolePermissions,
+  resetRolePermissions,
+  setPermissionOverride,
+  removePermissionOverride,
+} from './permissionService.js';
+import { revokeUserSessions } from './sessionService.js';
+import { revokeUserTrustedDevices } from './trustedDeviceService.js';
+import { PERMISSIONS, ROLE_REGISTRY } from '../../shared/roleRegistry.js';
+
+// Accounts whose deactivation, MFA reset or permission overrides need a second administrator, who must hold
+// one of these roles too; other accounts are changed directly
+const FOUR_EYES_ROLES = ['admin'];
+
+// Permissions no role outside FOUR_EYES_ROLES has by default; an override of one always needs a second administrator
+const ADMIN_LEVEL_PERMISSIONS = Object.keys(PERMISSIONS).filter((permission) => Object.values(ROLE_REGISTRY).every(
+  (role) => FOUR_EYES_ROLES.includes(role.key) || !role.defaultPermissions.includes(permission)
+));
+
+// Permission the approver must hold for each operation type
+const OPERATION_PERMISSIONS = {
+  deactivate_account: 'accounts:manage',
+  reset_mfa: 'accounts:manage',
+  set_role_permissions: 'permissions:manage',
+  reset_role_permissions: 'permissions:manage',
+  set_permission_override: 'permissions:manage',
+  remove_permission_override: 'permissions:manage',
+};
+
+// Interval of the expiry sweep started in server/index.js
+const OPERATION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// How long a proposal waits for a second administrator
+const getApprovalWindowHours = () => parseInt(process.env.FOUR_EYES_WINDOW_HOURS || '24');
+
+// Setting or removing an override on an account in FOUR_EYES_ROLES, or of an admin-level permission on anyone
+const needsApprovalForOverride = (targetRole, permission) => (
+  FOUR_EYES_ROLES.includes(targetRole) || ADMIN_LEVEL_PERMISSIONS.includes(permission)
+);
+
+const isSamePermissionList = (a, b) => a.length === b.length && a.every((permission) => b.includes(permission));
+
+// A proposal is claimed by setting reviewedBy; only unclaimed ones can be cancelled or expire
+const isOpen = (operation) => operation.status === 'pending' && !operation.reviewedBy;
+
+const markOperationExpired = (operation) => PendingOperation.findOneAndUpdate(
+  { _id: operation._id, status: 'pending', reviewedBy: null },
+  { $set: { status: 'expired' } },
+  { new: true }
+);
+
+/**
+ * Propose an operation for a second administrator to approve within the approval window.
+ * Returns { duplicate } when the same operation on the same target is already waiting, otherwise { operation }.
+ */
+const proposeOperation = async (type, { targetUser = null, targetRole = null, params = {}, reason, proposedBy }) => {
+  const key = [type, targetUser ?? targetRole, params.permission].filter(Boolean).join(':');
+
+  const existing = await PendingOperation.findOne({ key, status: 'pending' });
+  if (existing && (existing.expiresAt > new Date() || !isOpen(existing))) {
+    return { duplicate: existing };
+  }
+  // Past its window but not swept yet; it must not hold up a fresh proposal
+  if (existing) {
+    await markOperationExpired(existing);
+  }
+
+  try {
+    const operation = await PendingOperation.create({
+      type,
+      key,
+      requiredPermission: OPERATION_PERMISSIONS[type],
+      targetUser,
+      targetRole,
+      params,
+      reason,
+      proposedBy,
+      expiresAt: new Date(Date.now() + getApprovalWindowHours() * 60 * 60 * 1000),
+    });
+    return { operation };
+  } catch (error) {
+    // Someone proposed the same thing at the same moment
+    if (error.code === 11000) {
+      return { duplicate: await PendingOperation.findOne({ key, status: 'pending' }) };
+    }
+    throw error;
+  }
+};
+
+// The role's grants must still be the ones the proposer saw
+const runRolePermissionChange = async ({ type, targetRole, params }, updatedBy) => {
+  const current = await getRolePermissions(targetRole);
+  if (!isSamePermissionList(current, params.previous)) {
+    return { failed: `The ${targetRole} role's permissions changed after this was proposed` };
+  }
+
+  const result = type === 'reset_role_permissions'
+    ? await resetRolePermissions(targetRole)
+    : await setRolePermissions(targetRole, params.permissions, updatedBy);
+  if (result.missingLocked) {
+    return { failed: `The ${targetRole} role must keep ${result.missingLocked.join(', ')}` };
+  }
+
+  return { result: { permissions: result.permissions, added: result.added, removed: result.removed } };
+};
+
+/**
+ * Run an operation: an approved proposal, or a direct change to an account outside FOUR_EYES_ROLES.
+ * operation needs type, targetUser or targetRole, params and reason; approvedBy is null for direct changes.
+ * Returns { failed } with a reason, or { result } and, for account operations, the updated user.
+ */
+const executeOperation = async (operation, { proposedBy, approvedBy = null }) => {
+  const { type, targetUser, reason } = operation;
+
+  if (type === 'deactivate_account') {
+    const user = await deactivateAccount(targetUser, { reason, deactivatedBy: proposedBy, approvedBy });
+    if (!user) {
+      return { failed: 'The account is not active' };
+    }
+    const sessionsRevoked = await revokeUserSessions(user._id, 'account_deactivated');
+    await revokeUserTrustedDevices(user._id, 'account_deactivated');
+    return { user, result: { sessionsRevoked } };
+  }
+
+  if (type === 'reset_mfa') {
+    const previous = await User.findById(targetUser).select('authMethod');
+    const user = previous ? await resetUserMfa(targetUser) : null;
+    if (!user) {
+      return { failed: 'The account no longer exists' };
+    }
+    const sessionsRevoked = await revokeUserSessions(user._id, 'mfa_reset');
+    await revokeUserTrustedDevices(user._id, 'mfa_reset');
+    return { user, result: { previousMethod: toClientMfaMethod(previous.authMethod), sessionsRevoked } };
+  }
+
+  if (type === 'set_permission_override') {
+    const { permission, effect } = operation.params;
+    const user = await setPermissionOverride(targetUser, { permission, effect, reason, grantedBy: proposedBy });
+    if (!user) {
+      return { failed: 'The account no longer exists' };
+    }
+    return { user, result: { permission, effect } };
+  }
+
+  if (type === 'remove_permission_override') {
+    const { permission } = operation.params;
+    const user = await removePermissionOverride(targetUser, permission);
+    if (!user) {
+      return { failed: `The ${permission} override no longer exists` };
+    }
+    return { user, result: { permission } };
+  }
+
+  return runRolePermissionChange(operation, proposedBy);
+};
+
+/**
+ * Approve (and run) or reject a pending operation.
+ * reviewer holds the approver's id, role and the permissions they hold without elevation.
+ * Returns { notPending: status }, { sameAdmin }, { ownAccount }, { notAdmin }, { missingPermission }, or
+ * { operation } with its final state, plus the updated user when an account operation ran.
+ */
+const reviewOperation = async (operation, reviewer, { decision, note }) => {
+  if (isOpen(operation) && operation.expiresAt <= new Date()) {
+    await markOperationExpired(operation);
+    return { notPending: 'expired' };
+  }
+  if (!isOpen(operation)) {
+    return { notPending: operation.reviewedBy && operation.status === 'pending' ? 'being approved' : operation.status };
+  }
+
+  if (String(operation.proposedBy) === String(reviewer.userId)) {
+    return { sameAdmin: true };
+  }
+
+  if (operation.targetUser && String(operation.targetUser) === String(reviewer.userId)) {
+    return { ownAccount: true };
+  }
+
+  // The permission alone may come from an override; the second pair of eyes must be another administrator
+  if (!FOUR_EYES_ROLES.includes(reviewer.role)) {
+    return { notAdmin: true };
+  }
+
+  if (!reviewer.permissions.includes(operation.requiredPermission)) {
+    return { missingPermission: operation.requiredPermission };
+  }
+
+  const approved = decision === 'approve';
+  const claimed = await PendingOperation.findOneAndUpdate(
+    { _id: operation._id, status: 'pending', reviewedBy: null, expiresAt: { $gt: new Date() } },
+    {
+      $set: {
+        ...(!approved && { status: 'rejected' }),
+        reviewedBy: reviewer.userId,
+        reviewNote: note,
+        reviewedAt: new Date(),
+      },
+    },
+    { new: true }
+  );
+
+  // Cancelled, expired or reviewed by someone else in the meantime
+  if (!claimed) {
+    const current = await PendingOperation.findById(operation._id).select('status');
+    return { notPending: current?.status ?? 'cancelled' };
+  }
+
+  if (!approved) {
+    return { operation: claimed };
+  }
+
+  let outcome;
+  try {
+    outcome = await executeOperation(claimed, { proposedBy: claimed.proposedBy, approvedBy: reviewer.userId });
+  } catch (error) {
+    await PendingOperation.updateOne(
+      { _id: claimed._id },
+      { $set: { status: 'failed', failureReason: 'The server could not run the operation', executedAt: new Date() } }
+    );
+    throw error;
+  }
+
+  const finished = await PendingOperation.findByIdAndUpdate(
+    claimed._id,
+    {
+      $set: outcome.failed
+        ? { status: 'failed', failureReason: outcome.failed, executedAt: new Date() }
+        : { status: 'executed', result: outcome.result, executedAt: new Date() },
+    },
+    { new: true }
+  );
+
+  return { operation: finished, user: outcome.user ?? null };
+};
+
+/**
+ * Withdraw your own proposal before anyone reviews it.
+ * Returns the cancelled operation, or null if it was not yours or no longer open.
+ */
+const cancelOperation = (operationId, userId) => PendingOperation.findOneAndUpdate(
+  { _id: operationId, proposedBy: userId, status: 'pending', reviewedBy: null },
+  { $set: { status: 'cancelled' } },
+  { new: true }
+);
+
+/**
+ * Expire proposals nobody reviewed within the approval window.
+ * Returns the operations this call expired.
+ */
+const expireOperations = async (now = new Date()) => {
+  const lapsed = await PendingOperation.find({ status: 'pending', reviewedBy: null, expiresAt: { $lte: now } });
+  const expired = await Promise.all(lapsed.map(markOperationExpired));
+  return expired.filter(Boolean);
+};
+
+// Target, proposer and reviewer fields are present when loaded with populate
+const toOperationSummary = (operation) => ({
+  id: operation._id,
+  type: operation.type,
+  requiredPermission: operation.requiredPermission,
+  targetUser: operation.targetUser?.officialEmail
+    ? {
+      id: operation.targetUser._id,
+      fullName: operation.targetUser.fullName,
+      email: operation.targetUser.officialEmail,
+      role: operation.targetUser.role,
+    }
+    : null,
+  targetRole: operation.targetRole ?? null,
+  params: operation.params ?? {},
+  reason: operation.reason,
+  status: operation.status,
+  proposedBy: operation.proposedBy?.officialEmail ?? null,
+  proposedAt: operation.createdAt,
+  expiresAt: operation.expiresAt,
+  reviewedBy: operation.reviewedBy?.officialEmail ?? null,
+  reviewNote: operation.reviewNote ?? null,
+  reviewedAt: operation.reviewedAt ?? null,
+  executedAt: operation.executedAt ?? null,
+  result: operation.result ?? null,
+  failureReason: operation.failureReason ?? null,
+});
+
+export {
+  FOUR_EYES_ROLES,
+  ADMIN_LEVEL_PERMISSIONS,
+  OPERATION_PERMISSIONS,
+  OPERATION_SWEEP_INTERVAL_MS,
+  getApprovalWindowHours,
+  needsApprovalForOverride,
+  proposeOperation,
+  executeOperation,
+  reviewOperation,
+  cancelOperation,
+  expireOperations,
+  toOperationSummary,
+};
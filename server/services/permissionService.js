@@ -0,0 +1,187 @@
+import User from '../models/User.js';
+import RolePermission from '../models/RolePermission.js';
+import { PERMISSIONS, ROLE_KEYS, ROLE_REGISTRY, isPermission } from '../../shared/roleRegistry.js';
+
+const PERMISSION_NAMES = Object.keys(PERMISSIONS);
+
+// Grants that keep the permission screens reachable; an update that drops one is refused
+const LOCKED_ROLE_PERMISSIONS = {
+  admin: ['permissions:manage'],
+};
+
+// Catalogue order, without duplicates or names the registry no longer has
+const toPermissionList = (permissions) => PERMISSION_NAMES.filter((permission) => permissions.includes(permission));
+
+const getDefaultPermissions = (role) => [...(ROLE_REGISTRY[role]?.defaultPermissions ?? [])];
+
+/**
+ * Permissions granted to a role: the stored grant list, or the registry defaults until an admin changes them
+ */
+const getRolePermissions = async (role) => {
+  const grant = await RolePermission.findOne({ role }).select('permissions');
+  return grant ? toPermissionList(grant.permissions) : getDefaultPermissions(role);
+};
+
+// Role grants and any elevation, then the user's overrides; a deny removes the permission even when granted
+const resolvePermissions = (rolePermissions, overrides = [], elevated = []) => {
+  const effective = new Set([...rolePermissions, ...elevated]);
+  for (const { permission, effect } of overrides) {
+    if (effect === 'deny') {
+      effective.delete(permission);
+    } else {
+      effective.add(permission);
+    }
+  }
+  return toPermissionList([...effective]);
+};
+
+/**
+ * Effective permissions of a user (a User document or req.user with role and permissionOverrides).
+ * req.user also carries the active elevation, whose permissions count until it expires.
+ */
+const getEffectivePermissions = async ({ role, permissionOverrides, elevation }) => resolvePermissions(
+  await getRolePermissions(role),
+  permissionOverrides,
+  elevation?.permissions
+);
+
+/**
+ * Permissions req.user holds only because of their active elevation
+ */
+const getElevatedPermissions = async ({ role, permissionOverrides, elevation }) => {
+  if (!elevation) {
+    return [];
+  }
+
+  const rolePermissions = await getRolePermissions(role);
+  const standing = resolvePermissions(rolePermissions, permissionOverrides);
+  return resolvePermissions(rolePermissions, permissionOverrides, elevation.permissions)
+    .filter((permission) => !standing.includes(permission));
+};
+
+/**
+ * Grant list of every role for the admin screen, with who changed it last
+ */
+const listRolePermissions = async () => {
+  const grants = await RolePermission.find().populate('updatedBy', 'officialEmail');
+
+  return ROLE_KEYS.map((role) => {
+    const grant = grants.find((item) => item.role === role);
+    return {
+      role,
+      permissions: grant ? toPermissionList(grant.permissions) : getDefaultPermissions(role),
+      defaultPermissions: getDefaultPermissions(role),
+      customized: Boolean(grant),
+      updatedBy: grant?.updatedBy?.officialEmail ?? null,
+      updatedAt: grant?.updatedAt ?? null,
+    };
+  });
+};
+
+// Locked grants the new list would drop
+const getMissingLockedPermissions = (role, permissions) => (LOCKED_ROLE_PERMISSIONS[role] ?? [])
+  .filter((permission) => !permissions.includes(permission));
+
+const diffPermissions = (previous, next) => ({
+  added: next.filter((permission) => !previous.includes(permission)),
+  removed: previous.filter((permission) => !next.includes(permission)),
+});
+
+/**
+ * Replace a role's grant list.
+ * Returns { missingLocked } when it would drop a locked grant, otherwise the new list and what changed.
+ */
+const setRolePermissions = async (role, permissions, updatedBy) => {
+  const next = toPermissionList(permissions);
+  const missingLocked = getMissingLockedPermissions(role, next);
+  if (missingLocked.length > 0) {
+    return { missingLocked };
+  }
+
+  const previous = await getRolePermissions(role);
+  await RolePermission.findOneAndUpdate(
+    { role },
+    { $set: { permissions: next, updatedBy } },
+    { upsert: true, runValidators: true }
+  );
+
+  return { permissions: next, ...diffPermissions(previous, next) };
+};
+
+/**
+ * Drop a role's stored grant list so the registry defaults apply again
+ */
+const resetRolePermissions = async (role) => {
+  const previous = await getRolePermissions(role);
+  await RolePermission.deleteOne({ role });
+
+  const next = getDefaultPermissions(role);
+  return { permissions: next, ...diffPermissions(previous, next) };
+};
+
+/**
+ * Grant or deny one permission to a user, replacing any earlier override of the same permission.
+ * Returns the updated user, or null if the user does not exist.
+ */
+const setPermissionOverride = async (userId, { permission, effect, reason, grantedBy }) => {
+  await User.updateOne({ _id: userId }, { $pull: { permissionOverrides: { permission } } });
+
+  return User.findByIdAndUpdate(
+    userId,
+    { $push: { permissionOverrides: { permission, effect, reason, grantedBy, createdAt: new Date() } } },
+    { new: true, runValidators: true }
+  );
+};
+
+/**
+ * Remove a user's override of one permission.
+ * Returns the updated user, or null if there was no such override.
+ */
+const removePermissionOverride = (userId, permission) => User.findOneAndUpdate(
+  { _id: userId, 'permissionOverrides.permission': permission },
+  { $pull: { permissionOverrides: { permission } } },
+  { new: true }
+);
+
+const toPermissionOverrideSummary = (override) => ({
+  permission: override.permission,
+  effect: override.effect,
+  reason: override.reason,
+  grantedBy: override.grantedBy?.officialEmail ?? null,
+  createdAt: override.createdAt,
+});
+
+/**
+ * A user's role grants, overrides and the resulting permissions, for the admin screen
+ */
+const toUserPermissionsSummary = async (user) => {
+  const rolePermissions = await getRolePermissions(user.role);
+  const overrides = (user.permissionOverrides ?? []).filter((override) => isPermission(override.permission));
+
+  return {
+    user: {
+      id: user._id,
+      fullName: user.fullName,
+      email: user.officialEmail,
+      role: user.role,
+    },
+    rolePermissions,
+    overrides: overrides.map(toPermissionOverrideSummary),
+    effective: resolvePermissions(rolePermissions, overrides),
+  };
+};
+
+export {
+  LOCKED_ROLE_PERMISSIONS,
+  getDefaultPermissions,
+  getMissingLockedPermissions,
+  getRolePermissions,
+  getEffectivePermissions,
+  getElevatedPermissions,
+  listRolePermissions,
+  setRolePermissions,
+  resetRolePermissions,
+  setPermissionOverride,
+  removePermissionOverride,
+  toUserPermissionsSummary,
+};
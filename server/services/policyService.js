@@ -0,0 +1,546 @@
+import net from 'net';
+import AccessPolicyVersion from '../models/AccessPolicyVersion.js';
+import { ROLE_KEYS, isPermission } from '../../shared/roleRegistry.js';
+import { MFA_METHOD_STRENGTH } from './mfaService.js';
+
+const MAX_POLICIES = 200;
+const MAX_POLICY_TESTS = 500;
+const MAX_CONDITION_DEPTH = 8;
+const POLICY_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
+const DEFAULT_INTERNAL_NETWORKS = '10.0.0.0/8,172.16.0.0/12,192.168.0.0/16,127.0.0.0/8,::1/128';
+
+// Service ID prefixes (see the personnel idRule in shared/roleRegistry.js)
+const SERVICE_BRANCHES = ['ARMY', 'NAVY', 'AIRF', 'DRDO'];
+const MOD_UNIT_PATTERN = /^MOD-([A-Z]{2,4})-\d{4}$/;
+
+// Attributes a policy condition can test, with the description shown to administrators
+const POLICY_ATTRIBUTES = {
+  action: 'Permission the request needs, e.g. cert:read',
+  'subject.role': `Role key (${ROLE_KEYS.join(', ')})`,
+  'subject.branch': 'Service branch from the Service ID prefix (ARMY, NAVY, AIRF, DRDO); null for other roles',
+  'subject.unit': 'Unit code of an MOD-UNIT-#### credential; null for other roles',
+  'environment.hour': 'Hour of day, 0-23, in POLICY_TIMEZONE',
+  'environment.weekday': 'Day of week in POLICY_TIMEZONE: sun, mon, tue, wed, thu, fri or sat',
+  'environment.network': 'internal when the client IP is in POLICY_INTERNAL_NETWORKS, otherwise external',
+  'environment.ip': 'Client IP address',
+  'session.mfaMethod': 'Factor of the last MFA check (totp, hotp, email, webauthn, backup); null after a trusted-device sign-in',
+  'session.mfaStrength': '0 no MFA check, 1 email OTP or backup code, 2 authenticator app or hardware token, 3 security key',
+  'session.mfaAge': 'Seconds since the last MFA check; null if there was none',
+};
+
+const POLICY_ATTRIBUTE_NAMES = Object.keys(POLICY_ATTRIBUTES);
+
+// In effect until the first version is applied: every permitted request passes
+const EMPTY_POLICY_DOCUMENT = { defaultEffect: 'allow', policies: [], tests: [] };
+
+const isScalar = (value) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+const isNumberPair = (value) => Array.isArray(value) && value.length === 2 && value.every(Number.isFinite);
+
+// 10.0.0.0/8 or fd00::/8; null if malformed
+const parseCidr = (value) => {
+  const [address, prefixText, extra] = String(value).split('/');
+  const family = net.isIP(address);
+  const prefix = Number(prefixText);
+  if (!family || extra !== undefined || !/^\d+$/.test(prefixText ?? '') || prefix > (family === 4 ? 32 : 128)) {
+    return null;
+  }
+  return { address, prefix, type: family === 4 ? 'ipv4' : 'ipv6' };
+};
+
+const toBlockList = (cidrs) => {
+  const list = new net.BlockList();
+  for (const { address, prefix, type } of cidrs.map(parseCidr)) {
+    list.addSubnet(address, prefix, type);
+  }
+  return list;
+};
+
+// IPv4 clients reach a dual-stack listener as ::ffff:a.b.c.d
+const normalizeIp = (ip) => {
+  const value = String(ip ?? '');
+  return value.startsWith('::ffff:') && net.isIPv4(value.slice(7)) ? value.slice(7) : value;
+};
+
+const isInNetworks = (ip, list) => {
+  const address = normalizeIp(ip);
+  const family = net.isIP(address);
+  return family !== 0 && list.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Condition operators: the check, and what the value in the document must look like
+ */
+const OPERATORS = {
+  equals: {
+    test: (actual, value) => actual === value,
+    accepts: isScalar,
+    expects: 'a string, number, boolean or null',
+  },
+  notEquals: {
+    test: (actual, value) => actual !== value,
+    accepts: isScalar,
+    expects: 'a string, number, boolean or null',
+  },
+  in: {
+    test: (actual, value) => value.includes(actual),
+    accepts: (value) => Array.isArray(value) && value.length > 0 && value.every(isScalar),
+    expects: 'a non-empty list',
+  },
+  notIn: {
+    test: (actual, value) => !value.includes(actual),
+    accepts: (value) => Array.isArray(value) && value.length > 0 && value.every(isScalar),
+    expects: 'a non-empty list',
+  },
+  gt: {
+    test: (actual, value) => typeof actual === 'number' && actual > value,
+    accepts: Number.isFinite,
+    expects: 'a number',
+  },
+  gte: {
+    test: (actual, value) => typeof actual === 'number' && actual >= value,
+    accepts: Number.isFinite,
+    expects: 'a number',
+  },
+  lt: {
+    test: (actual, value) => typeof actual === 'number' && actual < value,
+    accepts: Number.isFinite,
+    expects: 'a number',
+  },
+  lte: {
+    test: (actual, value) => typeof actual === 'number' && actual <= value,
+    accepts: Number.isFinite,
+    expects: 'a number',
+  },
+  // [from, to): from inclusive, to exclusive; wraps past midnight when from > to, e.g. [22, 6]
+  between: {
+    test: (actual, [from, to]) => typeof actual === 'number'
+      && (from <= to ? actual >= from && actual < to : actual >= from || actual < to),
+    accepts: isNumberPair,
+    expects: 'a [from, to] pair of numbers',
+  },
+  inNetwork: {
+    test: (actual, value) => isInNetworks(actual, toBlockList(value)),
+    accepts: (value) => Array.isArray(value) && value.length > 0 && value.every((cidr) => parseCidr(cidr) !== null),
+    expects: 'a non-empty list of CIDR ranges',
+  },
+};
+
+const getPolicyTimeZone = () => process.env.POLICY_TIMEZONE || 'Asia/Kolkata';
+
+const getInternalNetworks = () => (process.env.POLICY_INTERNAL_NETWORKS || DEFAULT_INTERNAL_NETWORKS)
+  .split(',')
+  .map((cidr) => cidr.trim())
+  .filter(Boolean);
+
+/**
+ * Refuse to start with a time zone or network list that every policy check would trip over
+ */
+const assertPolicyConfigReady = () => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: getPolicyTimeZone() });
+  } catch {
+    throw new Error(`POLICY_TIMEZONE "${getPolicyTimeZone()}" is not a valid IANA time zone`);
+  }
+
+  const invalid = getInternalNetworks().filter((cidr) => parseCidr(cidr) === null);
+  if (invalid.length > 0) {
+    throw new Error(`POLICY_INTERNAL_NETWORKS has invalid CIDR ranges: ${invalid.join(', ')}`);
+  }
+};
+
+const getClockAttributes = (date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: getPolicyTimeZone(),
+    hour: 'numeric',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  return {
+    hour: Number(parts.find((part) => part.type === 'hour').value),
+    weekday: parts.find((part) => part.type === 'weekday').value.toLowerCase(),
+  };
+};
+
+const getBranch = (role, credentialId) => (role === 'personnel'
+  ? SERVICE_BRANCHES.find((branch) => String(credentialId ?? '').toUpperCase().startsWith(branch)) ?? null
+  : null);
+
+const getUnit = (role, credentialId) => (role === 'admin'
+  ? MOD_UNIT_PATTERN.exec(String(credentialId ?? '').toUpperCase())?.[1] ?? null
+  : null);
+
+// A backup code is a recovery path, graded like email OTP
+const getMfaStrength = (mfaMethod) => (mfaMethod === 'backup' ? 1 : MFA_METHOD_STRENGTH[mfaMethod] ?? 0);
+
+/**
+ * Attributes of a request for policy evaluation, keyed by attribute name (see POLICY_ATTRIBUTES).
+ * subject is req.user or a user with role and credentialId; session and ip come from the request.
+ */
+const buildRequestAttributes = ({ subject, session, ip, now = new Date() }) => {
+  const clock = getClockAttributes(now);
+  const verifiedAt = session?.mfaVerifiedAt ? new Date(session.mfaVerifiedAt).getTime() : null;
+
+  return {
+    action: null,
+    'subject.role': subject.role,
+    'subject.branch': getBranch(subject.role, subject.credentialId),
+    'subject.unit': getUnit(subject.role, subject.credentialId),
+    'environment.hour': clock.hour,
+    'environment.weekday': clock.weekday,
+    'environment.network': isInNetworks(ip, toBlockList(getInternalNetworks())) ? 'internal' : 'external',
+    'environment.ip': normalizeIp(ip),
+    'session.mfaMethod': verifiedAt ? session.mfaMethod ?? null : null,
+    'session.mfaStrength': verifiedAt ? getMfaStrength(session.mfaMethod) : 0,
+    'session.mfaAge': verifiedAt ? Math.max(0, Math.floor((now.getTime() - verifiedAt) / 1000)) : null,
+  };
+};
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const getConditionErrors = (condition, path, depth) => {
+  if (!isPlainObject(condition)) {
+    return [{ path, reason: 'Condition must be an object' }];
+  }
+  if (depth > MAX_CONDITION_DEPTH) {
+    return [{ path, reason: `Conditions may nest at most ${MAX_CONDITION_DEPTH} levels` }];
+  }
+
+  const keys = Object.keys(condition);
+  for (const group of ['all', 'any']) {
+    if (keys.includes(group)) {
+      if (keys.length !== 1) {
+        return [{ path, reason: `"${group}" cannot be combined with other keys` }];
+      }
+      if (!Array.isArray(condition[group]) || condition[group].length === 0) {
+        return [{ path: `${path}.${group}`, reason: 'Must be a non-empty list of conditions' }];
+      }
+      return condition[group].flatMap((child, index) => getConditionErrors(child, `${path}.${group}[${index}]`, depth + 1));
+    }
+  }
+
+  if (keys.includes('not')) {
+    return keys.length === 1
+      ? getConditionErrors(condition.not, `${path}.not`, depth + 1)
+      : [{ path, reason: '"not" cannot be combined with other keys' }];
+  }
+
+  const errors = [];
+  const unknownKeys = keys.filter((key) => !['attribute', 'operator', 'value'].includes(key));
+  if (unknownKeys.length > 0) {
+    errors.push({ path, reason: `Unknown keys: ${unknownKeys.join(', ')}` });
+  }
+  if (!POLICY_ATTRIBUTE_NAMES.includes(condition.attribute)) {
+    errors.push({ path: `${path}.attribute`, reason: `Unknown attribute; use one of ${POLICY_ATTRIBUTE_NAMES.join(', ')}` });
+  }
+  const operator = OPERATORS[condition.operator];
+  if (!operator) {
+    errors.push({ path: `${path}.operator`, reason: `Unknown operator; use one of ${Object.keys(OPERATORS).join(', ')}` });
+  } else if (!operator.accepts(condition.value)) {
+    errors.push({ path: `${path}.value`, reason: `${condition.operator} needs ${operator.expects}` });
+  }
+  return errors;
+};
+
+const getPolicyErrors = (policy, path, seenIds) => {
+  if (!isPlainObject(policy)) {
+    return [{ path, reason: 'Policy must be an object' }];
+  }
+
+  const errors = [];
+  const unknownKeys = Object.keys(policy).filter((key) => !['id', 'description', 'effect', 'actions', 'condition'].includes(key));
+  if (unknownKeys.length > 0) {
+    errors.push({ path, reason: `Unknown keys: ${unknownKeys.join(', ')}` });
+  }
+  if (typeof policy.id !== 'string' || !POLICY_ID_PATTERN.test(policy.id)) {
+    errors.push({ path: `${path}.id`, reason: 'Id must be 1-64 letters, digits, dots, dashes or underscores' });
+  } else if (seenIds.has(policy.id)) {
+    errors.push({ path: `${path}.id`, reason: `Duplicate policy id "${policy.id}"` });
+  }
+  seenIds.add(policy.id);
+  if (policy.description !== undefined && (typeof policy.description !== 'string' || policy.description.length > 300)) {
+    errors.push({ path: `${path}.description`, reason: 'Description must be text of at most 300 characters' });
+  }
+  if (!['allow', 'deny'].includes(policy.effect)) {
+    errors.push({ path: `${path}.effect`, reason: 'Effect must be allow or deny' });
+  }
+  if (!Array.isArray(policy.actions) || policy.actions.length === 0) {
+    errors.push({ path: `${path}.actions`, reason: 'Actions must be a non-empty list of permission names or "*"' });
+  } else {
+    const unknown = policy.actions.filter((action) => action !== '*' && !isPermission(action));
+    if (unknown.length > 0) {
+      errors.push({ path: `${path}.actions`, reason: `Unknown permissions: ${unknown.map(String).join(', ')}` });
+    }
+  }
+  if (policy.condition !== undefined) {
+    errors.push(...getConditionErrors(policy.condition, `${path}.condition`, 1));
+  }
+  return errors;
+};
+
+const getTestErrors = (test, path) => {
+  if (!isPlainObject(test)) {
+    return [{ path, reason: 'Test must be an object' }];
+  }
+
+  const errors = [];
+  if (typeof test.name !== 'string' || test.name.trim().length === 0 || test.name.length > 120) {
+    errors.push({ path: `${path}.name`, reason: 'Name must be 1-120 characters' });
+  }
+  if (!isPermission(test.action)) {
+    errors.push({ path: `${path}.action`, reason: 'Action must be a permission name' });
+  }
+  if (test.attributes !== undefined && !isPlainObject(test.attributes)) {
+    errors.push({ path: `${path}.attributes`, reason: 'Attributes must be an object of attribute name to value' });
+  } else {
+    for (const [name, value] of Object.entries(test.attributes ?? {})) {
+      if (!POLICY_ATTRIBUTE_NAMES.includes(name) || name === 'action') {
+        errors.push({ path: `${path}.attributes`, reason: `Unknown attribute "${name}"` });
+      } else if (!isScalar(value)) {
+        errors.push({ path: `${path}.attributes.${name}`, reason: 'Must be a string, number, boolean or null' });
+      }
+    }
+  }
+  if (!['allow', 'deny'].includes(test.expect)) {
+    errors.push({ path: `${path}.expect`, reason: 'Expect must be allow or deny' });
+  }
+  return errors;
+};
+
+/**
+ * Check a policy document and return it in stored form.
+ * Returns { document, errors }; errors lists { path, reason } and callers refuse a document with any.
+ */
+const parsePolicyDocument = (input) => {
+  if (!isPlainObject(input)) {
+    return { document: null, errors: [{ path: '$', reason: 'Policy document must be a JSON object' }] };
+  }
+
+  const errors = [];
+  const unknownKeys = Object.keys(input).filter((key) => !['defaultEffect', 'policies', 'tests'].includes(key));
+  if (unknownKeys.length > 0) {
+    errors.push({ path: '$', reason: `Unknown keys: ${unknownKeys.join(', ')}` });
+  }
+  if (input.defaultEffect !== undefined && !['allow', 'deny'].includes(input.defaultEffect)) {
+    errors.push({ path: 'defaultEffect', reason: 'Default effect must be allow or deny' });
+  }
+
+  const policies = input.policies ?? [];
+  const tests = input.tests ?? [];
+  if (!Array.isArray(policies) || policies.length > MAX_POLICIES) {
+    errors.push({ path: 'policies', reason: `Policies must be a list of at most ${MAX_POLICIES}` });
+  } else {
+    const seenIds = new Set();
+    policies.forEach((policy, index) => errors.push(...getPolicyErrors(policy, `policies[${index}]`, seenIds)));
+  }
+  if (!Array.isArray(tests) || tests.length > MAX_POLICY_TESTS) {
+    errors.push({ path: 'tests', reason: `Tests must be a list of at most ${MAX_POLICY_TESTS}` });
+  } else {
+    tests.forEach((test, index) => errors.push(...getTestErrors(test, `tests[${index}]`)));
+  }
+
+  if (errors.length > 0) {
+    return { document: null, errors };
+  }
+
+  return {
+    document: {
+      defaultEffect: input.defaultEffect ?? 'allow',
+      policies: policies.map(({ id, description, effect, actions, condition }) => ({
+        id,
+        description: description ?? null,
+        effect,
+        actions: [...new Set(actions)],
+        condition: condition ?? null,
+      })),
+      tests: tests.map(({ name, action, attributes, expect }) => ({
+        name: name.trim(),
+        action,
+        attributes: attributes ?? {},
+        expect,
+      })),
+    },
+    errors: [],
+  };
+};
+
+// Every node is evaluated, not short-circuited, so the explanation shows each attribute that was looked at
+const evaluateCondition = (condition, attributes) => {
+  if (condition.all || condition.any) {
+    const group = condition.all ? 'all' : 'any';
+    const children = condition[group].map((child) => evaluateCondition(child, attributes));
+    const result = group === 'all' ? children.every((child) => child.result) : children.some((child) => child.result);
+    return { [group]: children, result };
+  }
+
+  if (condition.not) {
+    const child = evaluateCondition(condition.not, attributes);
+    return { not: child, result: !child.result };
+  }
+
+  const actual = attributes[condition.attribute] ?? null;
+  return {
+    attribute: condition.attribute,
+    operator: condition.operator,
+    value: condition.value,
+    actual,
+    result: OPERATORS[condition.operator].test(actual, condition.value),
+  };
+};
+
+/**
+ * Decide one action against a parsed document.
+ * A matching deny wins, then a matching allow, then the document's default effect.
+ * Returns the decision, the policies that made it, and a trace of every policy for explanations.
+ */
+const evaluatePolicyDocument = (document, action, attributes) => {
+  const context = { ...attributes, action };
+
+  const policies = document.policies.map((policy) => {
+    const applies = policy.actions.includes('*') || policy.actions.includes(action);
+    const condition = applies && policy.condition ? evaluateCondition(policy.condition, context) : null;
+    return {
+      id: policy.id,
+      description: policy.description,
+      effect: policy.effect,
+      applies,
+      matched: applies && (condition?.result ?? true),
+      condition,
+    };
+  });
+
+  const denying = policies.filter((policy) => policy.matched && policy.effect === 'deny');
+  const allowing = policies.filter((policy) => policy.matched && policy.effect === 'allow');
+  const decidedBy = denying.length > 0 ? denying : allowing;
+
+  let decision = document.defaultEffect;
+  let reason = `No policy matched ${action}; the default effect is ${document.defaultEffect}`;
+  if (decidedBy.length > 0) {
+    decision = decidedBy[0].effect;
+    reason = `${decision === 'deny' ? 'Denied' : 'Allowed'} by ${decidedBy.map((policy) => policy.id).join(', ')}`;
+  }
+
+  return {
+    decision,
+    reason,
+    decidedBy: decidedBy.map((policy) => policy.id),
+    attributes: context,
+    policies,
+  };
+};
+
+/**
+ * Run the document's own test cases. Attributes a test leaves out are null.
+ */
+const runPolicyTests = (document) => {
+  const blank = Object.fromEntries(POLICY_ATTRIBUTE_NAMES.map((name) => [name, null]));
+
+  return document.tests.map((test) => {
+    const { decision, decidedBy } = evaluatePolicyDocument(document, test.action, { ...blank, ...test.attributes });
+    return {
+      name: test.name,
+      action: test.action,
+      expect: test.expect,
+      decision,
+      decidedBy,
+      passed: decision === test.expect,
+    };
+  });
+};
+
+const getCurrentPolicy = () => AccessPolicyVersion.findOne().sort({ version: -1 });
+
+/**
+ * Check a request against the current policy version for each action it needs.
+ * Returns the first deny, with the version that produced it, or null when every action is allowed
+ * (also when no policy has been applied yet).
+ */
+const checkAccessPolicy = async (req, actions) => {
+  const current = await getCurrentPolicy();
+  if (!current) {
+    return null;
+  }
+
+  const attributes = buildRequestAttributes({ subject: req.user, session: req.user, ip: req.ip });
+  for (const action of actions) {
+    const result = evaluatePolicyDocument(current.document, action, attributes);
+    if (result.decision === 'deny') {
+      return { ...result, version: current.version };
+    }
+  }
+  return null;
+};
+
+/**
+ * Store a document as the next policy version.
+ * baseVersion is the version the admin edited; returns { conflict: true } if another version was applied since.
+ * guard is the applying admin's own attributes: a document that would deny them policies:manage is refused.
+ */
+const applyPolicyDocument = async (input, { baseVersion, note, createdBy, guard }) => {
+  const { document, errors } = parsePolicyDocument(input);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const testResults = runPolicyTests(document);
+  if (testResults.some((result) => !result.passed)) {
+    return { testResults };
+  }
+
+  const lockout = evaluatePolicyDocument(document, 'policies:manage', guard);
+  if (lockout.decision === 'deny') {
+    return { lockout };
+  }
+
+  const current = await getCurrentPolicy();
+  if ((current?.version ?? 0) !== baseVersion) {
+    return { conflict: true, currentVersion: current?.version ?? 0 };
+  }
+
+  try {
+    const policy = await AccessPolicyVersion.create({
+      version: baseVersion + 1,
+      document,
+      policyCount: document.policies.length,
+      testCount: document.tests.length,
+      note,
+      createdBy,
+    });
+    return { policy };
+  } catch (error) {
+    // Unique version: another apply took this version number first
+    if (error.code === 11000) {
+      return { conflict: true, currentVersion: baseVersion + 1 };
+    }
+    throw error;
+  }
+};
+
+const toPolicyVersionSummary = (policy) => ({
+  version: policy.version,
+  defaultEffect: policy.document.defaultEffect,
+  policyCount: policy.policyCount,
+  testCount: policy.testCount,
+  note: policy.note ?? null,
+  createdBy: policy.createdBy?.officialEmail ?? null,
+  createdAt: policy.createdAt,
+});
+
+const formatPolicyErrors = (errors) => errors.map(({ path, reason }) => `${path}: ${reason}`);
+
+export {
+  POLICY_ATTRIBUTES,
+  EMPTY_POLICY_DOCUMENT,
+  OPERATORS,
+  assertPolicyConfigReady,
+  buildRequestAttributes,
+  parsePolicyDocument,
+  evaluatePolicyDocument,
+  runPolicyTests,
+  getCurrentPolicy,
+  checkAccessPolicy,
+  applyPolicyDocument,
+  toPolicyVersionSummary,
+  formatPolicyErrors,
+};
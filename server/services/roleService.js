@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import { EMAIL_PATTERNS, PERMISSIONS, ROLE_KEYS, ROLE_REGISTRY, isRoleKey } from '../../shared/roleRegistry.js';
+import { ROLES_REQUIRING_APPROVAL } from './activationService.js';
+import { FOUR_EYES_ROLES } from './pendingOperationService.js';
+import { MFA_METHOD_STRENGTH } from './mfaService.js';
+
+const TOTP_ALGORITHMS = ['SHA1', 'SHA256', 'SHA512'];
+
+const isAnchored = ({ source }) => source.startsWith('^') && source.endsWith('$');
+
+const getRegistryProblems = () => {
+  const problems = [];
+  const dashboardPaths = new Set();
+
+  for (const [key, role] of Object.entries(ROLE_REGISTRY)) {
+    if (role.key !== key) {
+      problems.push(`Registry entry "${key}" declares key "${role.key}"`);
+    }
+    if (!role.dashboardPath.startsWith('/dashboard/') || dashboardPaths.has(role.dashboardPath)) {
+      problems.push(`Role "${key}" needs its own dashboard path under /dashboard/`);
+    }
+    dashboardPaths.add(role.dashboardPath);
+
+    if (!isAnchored(role.idRule.pattern)) {
+      problems.push(`ID rule of role "${key}" must match the whole credential (anchor it with ^ and $)`);
+    }
+
+    if (role.enforcedMfaMethod && !Object.hasOwn(MFA_METHOD_STRENGTH, role.enforcedMfaMethod)) {
+      problems.push(`Role "${key}" enforces unknown MFA method "${role.enforcedMfaMethod}"`);
+    }
+
+    if (role.totp && (!TOTP_ALGORITHMS.includes(role.totp.algorithm)
+      || ![6, 8].includes(role.totp.digits)
+      || !Number.isInteger(role.totp.period) || role.totp.period <= 0)) {
+      problems.push(`Role "${key}" needs totp with an algorithm of ${TOTP_ALGORITHMS.join('/')}, 6 or 8 digits and a period in seconds`);
+    }
+
+    if (role.passwordPolicy && (!Number.isInteger(role.passwordPolicy.minLength) || !role.passwordPolicy.message)) {
+      problems.push(`Role "${key}" needs a passwordPolicy with a whole-number minLength and a message`);
+    }
+
+    for (const permission of role.defaultPermissions) {
+      if (!Object.hasOwn(PERMISSIONS, permission)) {
+        problems.push(`Role "${key}" grants unknown permission "${permission}"`);
+      }
+    }
+  }
+
+  for (const [name, pattern] of Object.entries(EMAIL_PATTERNS)) {
+    if (!isAnchored(pattern)) {
+      problems.push(`Email pattern "${name}" must match the whole address (anchor it with ^ and $)`);
+    }
+  }
+
+  return problems;
+};
+
+// Role lists and tables kept next to the code that uses them; each may only name registry roles
+const getServerTableProblems = () => {
+  const tables = {
+    ROLES_REQUIRING_APPROVAL,
+    FOUR_EYES_ROLES,
+    AUTO_ACTIVATE_ROLES: (process.env.AUTO_ACTIVATE_ROLES || '').split(',').map((role) => role.trim()).filter(Boolean),
+  };
+
+  return Object.entries(tables).flatMap(([table, roles]) => roles
+    .filter((role) => !isRoleKey(role))
+    .map((role) => `${table} names unknown role "${role}"`));
+};
+
+// Every registered model with a role field must accept exactly the registry roles
+const getModelProblems = () => Object.values(mongoose.models).flatMap((model) => {
+  const enumValues = model.schema.path('role')?.enumValues;
+  if (!enumValues) {
+    return [];
+  }
+
+  const matches = enumValues.length === ROLE_KEYS.length && ROLE_KEYS.every((role) => enumValues.includes(role));
+  return matches ? [] : [`${model.modelName}.role accepts [${enumValues.join(', ')}], registry has [${ROLE_KEYS.join(', ')}]`];
+});
+
+/**
+ * Refuse to start when the server's role tables or models disagree with shared/roleRegistry.js.
+ * requireRole() checks its own arguments when routes are defined.
+ */
+const assertRoleRegistryInSync = () => {
+  const problems = [...getRegistryProblems(), ...getServerTableProblems(), ...getModelProblems()];
+  if (problems.length > 0) {
+    throw new Error(`Role registry drift:\n- ${problems.join('\n- ')}`);
+  }
+};
+
+export {
+  assertRoleRegistryInSync,
+};
@@ -0,0 +1,307 @@
+import validator from 'validator';
+import RosterVersion from '../models/RosterVersion.js';
+import { ROLE_REGISTRY } from '../../shared/roleRegistry.js';
+
+// Largest roster accepted in one import
+const MAX_ROSTER_ENTRIES = 20000;
+
+// Preview lists are cut to this many items per category; the counts are always complete
+const MAX_DIFF_ITEMS = 200;
+
+// Header names accepted for each roster column, compared without case, spaces or punctuation
+const COLUMN_ALIASES = {
+  credentialId: ['credentialid', 'serviceid', 'id'],
+  email: ['email', 'officialemail'],
+  fullName: ['fullname', 'name'],
+};
+
+const normalizeColumn = (value) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+// Split one CSV line, honouring double-quoted fields such as "Singh, R"
+const splitCsvLine = (line) => {
+  const values = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      current += '"';
+      i += 1;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+
+  return values;
+};
+
+const csvToRecords = (content) => {
+  const lines = String(content).split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() && !line.trim().startsWith('#'));
+  if (headerIndex === -1) {
+    return { records: [], error: { line: 1, reason: 'File is empty' } };
+  }
+
+  const header = splitCsvLine(lines[headerIndex]).map(normalizeColumn);
+  const columnFor = (field) => header.findIndex((column) => COLUMN_ALIASES[field].includes(column));
+  const columns = {
+    credentialId: columnFor('credentialId'),
+    email: columnFor('email'),
+    fullName: columnFor('fullName'),
+  };
+  if (columns.credentialId === -1) {
+    return { records: [], error: { line: headerIndex + 1, reason: 'Header must include a credential_id column' } };
+  }
+
+  const records = [];
+  lines.slice(headerIndex + 1).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) {
+      return;
+    }
+    const values = splitCsvLine(line);
+    records.push({
+      line: headerIndex + index + 2,
+      credentialId: values[columns.credentialId] ?? '',
+      email: columns.email === -1 ? '' : values[columns.email] ?? '',
+      fullName: columns.fullName === -1 ? '' : values[columns.fullName] ?? '',
+    });
+  });
+
+  return { records, error: null };
+};
+
+// JSON rosters are an array of { credentialId, email, fullName }; "line" is the 1-based array position
+const jsonToRecords = (content) => {
+  let parsed;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { records: [], error: { line: 1, reason: 'File is not valid JSON' } };
+  }
+
+  const items = Array.isArray(parsed) ? parsed : parsed?.entries;
+  if (!Array.isArray(items)) {
+    return { records: [], error: { line: 1, reason: 'JSON must be an array of roster entries' } };
+  }
+
+  return {
+    records: items.map((item, index) => ({
+      line: index + 1,
+      credentialId: typeof item?.credentialId === 'string' ? item.credentialId.trim() : '',
+      email: typeof item?.email === 'string' ? item.email.trim() : '',
+      fullName: typeof item?.fullName === 'string' ? item.fullName.trim() : '',
+    })),
+    error: null,
+  };
+};
+
+/**
+ * Parse a roster file for one role.
+ * Returns the valid entries and a per-line list of problems; callers refuse to apply a file with problems.
+ */
+const parseRoster = (role, format, content) => {
+  const { records, error } = format === 'json' ? jsonToRecords(content) : csvToRecords(content);
+  if (error) {
+    return { entries: [], errors: [error] };
+  }
+
+  if (records.length > MAX_ROSTER_ENTRIES) {
+    return { entries: [], errors: [{ line: 1, reason: `At most ${MAX_ROSTER_ENTRIES} entries per roster` }] };
+  }
+
+  const entries = [];
+  const errors = [];
+  const seen = new Set();
+
+  for (const record of records) {
+    const credentialId = record.credentialId.toUpperCase();
+    const email = record.email.toLowerCase();
+
+    let reason = null;
+    if (!ROLE_REGISTRY[role].idRule.pattern.test(credentialId)) {
+      reason = 'Credential ID does not match the role format';
+    } else if (seen.has(credentialId)) {
+      reason = 'Duplicate credential ID in file';
+    } else if (email && !validator.isEmail(email)) {
+      reason = 'Email is not valid';
+    } else if (record.fullName.length > 120) {
+      reason = 'Name must be 120 characters or fewer';
+    }
+
+    if (reason) {
+      errors.push({ line: record.line, credentialId: credentialId || null, reason });
+      continue;
+    }
+
+    seen.add(credentialId);
+    entries.push({ credentialId, email: email || null, fullName: record.fullName || null });
+  }
+
+  return { entries, errors };
+};
+
+const getCurrentRoster = (role) => RosterVersion.findOne({ role }).sort({ version: -1 });
+
+/**
+ * Compare parsed entries against the role's current roster
+ */
+const diffRoster = (currentEntries, nextEntries) => {
+  const current = new Map(currentEntries.map((entry) => [entry.credentialId, entry]));
+  const next = new Map(nextEntries.map((entry) => [entry.credentialId, entry]));
+
+  const added = nextEntries.filter((entry) => !current.has(entry.credentialId));
+  const removed = currentEntries.filter((entry) => !next.has(entry.credentialId));
+  const changed = nextEntries
+    .filter((entry) => {
+      const before = current.get(entry.credentialId);
+      return before && (before.email !== entry.email || before.fullName !== entry.fullName);
+    })
+    .map((entry) => {
+      const before = current.get(entry.credentialId);
+      return {
+        credentialId: entry.credentialId,
+        before: { email: before.email, fullName: before.fullName },
+        after: { email: entry.email, fullName: entry.fullName },
+      };
+    });
+
+  return { added, removed, changed };
+};
+
+const toRosterEntry = ({ credentialId, email, fullName }) => ({ credentialId, email, fullName });
+
+/**
+ * Dry run of an import: what would change, and which lines need fixing first
+ */
+const previewRosterImport = async (role, format, content) => {
+  const { entries, errors } = parseRoster(role, format, content);
+  const current = await getCurrentRoster(role);
+  const diff = diffRoster((current?.entries ?? []).map(toRosterEntry), entries);
+
+  return {
+    role,
+    baseVersion: current?.version ?? 0,
+    entryCount: entries.length,
+    counts: { added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length },
+    added: diff.added.slice(0, MAX_DIFF_ITEMS),
+    removed: diff.removed.slice(0, MAX_DIFF_ITEMS),
+    changed: diff.changed.slice(0, MAX_DIFF_ITEMS),
+    errors,
+  };
+};
+
+/**
+ * Store the file as the role's next roster version.
+ * baseVersion is the version the admin previewed against; returns { conflict: true } if another import landed since.
+ */
+const applyRosterImport = async (role, format, content, { baseVersion, fileName, note, importedBy }) => {
+  const { entries, errors } = parseRoster(role, format, content);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const current = await getCurrentRoster(role);
+  if ((current?.version ?? 0) !== baseVersion) {
+    return { conflict: true, currentVersion: current?.version ?? 0 };
+  }
+
+  const diff = diffRoster((current?.entries ?? []).map(toRosterEntry), entries);
+
+  try {
+    const roster = await RosterVersion.create({
+      role,
+      version: baseVersion + 1,
+      entries,
+      entryCount: entries.length,
+      changes: { added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length },
+      format,
+      fileName,
+      note,
+      importedBy,
+    });
+    return { roster };
+  } catch (error) {
+    // Unique (role, version): another import took this version number first
+    if (error.code === 11000) {
+      return { conflict: true, currentVersion: baseVersion + 1 };
+    }
+    throw error;
+  }
+};
+
+// Case, spacing and punctuation differences in names are not mismatches
+const normalizeName = (name) => validator.unescape(String(name)).toLowerCase().replace(/[^a-z]/g, '');
+
+// Registration stores normalised emails (see validateRegistration); compare roster emails the same way
+const normalizeEmail = (email) => validator.normalizeEmail(String(email)) || String(email).toLowerCase();
+
+const MISMATCH_MESSAGES = {
+  credential_id_not_on_roster: 'This credential ID is not on the authorised roster for the selected role.',
+  email_mismatch: 'The email does not match the roster entry for this credential ID.',
+  name_mismatch: 'The full name does not match the roster entry for this credential ID.',
+};
+
+/**
+ * Check registration details against the role's roster.
+ * Roles without an imported roster are not checked (enforced: false).
+ */
+const checkAgainstRoster = async ({ role, credentialId, email, fullName }) => {
+  const roster = await RosterVersion.findOne({ role })
+    .sort({ version: -1 })
+    .select({ version: 1, entries: { $elemMatch: { credentialId: String(credentialId).toUpperCase() } } });
+  if (!roster) {
+    return { enforced: false, mismatches: [] };
+  }
+
+  const entry = roster.entries?.[0];
+  const codes = [];
+  if (!entry) {
+    codes.push('credential_id_not_on_roster');
+  } else {
+    if (entry.email && normalizeEmail(entry.email) !== normalizeEmail(email)) {
+      codes.push('email_mismatch');
+    }
+    if (entry.fullName && normalizeName(entry.fullName) !== normalizeName(fullName)) {
+      codes.push('name_mismatch');
+    }
+  }
+
+  return {
+    enforced: true,
+    rosterVersion: roster.version,
+    mismatches: codes.map((code) => ({ code, message: MISMATCH_MESSAGES[code] })),
+  };
+};
+
+const toRosterVersionSummary = (roster) => ({
+  id: roster._id,
+  role: roster.role,
+  version: roster.version,
+  entryCount: roster.entryCount,
+  changes: {
+    added: roster.changes?.added ?? 0,
+    removed: roster.changes?.removed ?? 0,
+    changed: roster.changes?.changed ?? 0,
+  },
+  format: roster.format,
+  fileName: roster.fileName ?? null,
+  note: roster.note ?? null,
+  importedBy: roster.importedBy?.officialEmail ?? null,
+  importedAt: roster.createdAt,
+});
+
+export {
+  MAX_ROSTER_ENTRIES,
+  parseRoster,
+  previewRosterImport,
+  applyRosterImport,
+  checkAgainstRoster,
+  toRosterVersionSummary,
+};
@@ -0,0 +1,344 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import Session from '../models/Session.js';
+import User from '../models/User.js';
+import { ROLE_REGISTRY } from '../../shared/roleRegistry.js';
+
+const REFRESH_COOKIE_NAME = 'refreshToken';
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+const getAccessTokenTtlSeconds = () => parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900');
+
+const getRefreshTokenTtlDays = () => parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '7');
+
+// A just-rotated token is answered with "superseded" instead of tripping reuse detection,
+// so two tabs refreshing at the same moment do not sign each other out
+const getReuseGraceSeconds = () => parseInt(process.env.REFRESH_REUSE_GRACE_SECONDS || '10');
+
+// Roles whose sessions count as privileged, from highPrivilege in the shared role registry
+const HIGH_PRIVILEGE_ROLES = Object.values(ROLE_REGISTRY).filter((role) => role.highPrivilege).map((role) => role.key);
+
+/**
+ * How long an MFA proof stays fresh for sensitive actions.
+ * Privileged roles get a shorter window.
+ */
+const getStepUpMaxAgeSeconds = (role) => (HIGH_PRIVILEGE_ROLES.includes(role)
+  ? parseInt(process.env.STEP_UP_MAX_AGE_SECONDS_PRIVILEGED || '300')
+  : parseInt(process.env.STEP_UP_MAX_AGE_SECONDS || '900'));
+
+// Only write lastSeenAt once per interval instead of on every request
+const LAST_SEEN_WRITE_INTERVAL_MS = 60 * 1000;
+
+const BROWSER_PATTERNS = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Chrome', /Chrome\//],
+  ['Firefox', /Firefox\//],
+  ['Safari', /Safari\//],
+];
+
+const OS_PATTERNS = [
+  ['Android', /Android/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Linux', /Linux/],
+];
+
+/**
+ * Readable device label from a user agent, e.g. "Firefox on Linux".
+ * Best effort only - the raw user agent is stored alongside it.
+ */
+const describeDevice = (userAgent) => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+  const browser = BROWSER_PATTERNS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+  const os = OS_PATTERNS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser || os || 'Unknown device';
+};
+
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+const hashesMatch = (a, b) => Boolean(
+  a && b && a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b))
+);
+
+// Refresh tokens are "<familyId>.<secret>"; only the secret's hash is stored
+const parseRefreshToken = (token) => {
+  if (typeof token !== 'string') {
+    return null;
+  }
+  const [familyId, secret, ...rest] = token.split('.');
+  if (!familyId || !secret || rest.length > 0) {
+    return null;
+  }
+  return { familyId, secret };
+};
+
+const getRefreshExpiry = () => new Date(Date.now() + getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000);
+
+/**
+ * Short-lived access token bound to a session
+ */
+const signAccessToken = (user, session) => {
+  const ttlSeconds = getAccessTokenTtlSeconds();
+  const token = jwt.sign(
+    {
+      userId: user._id,
+      email: user.officialEmail,
+      role: user.role,
+      sid: String(session._id),
+    },
+    process.env.JWT_SECRET,
+    { expiresIn: ttlSeconds }
+  );
+
+  return { token, expiresAt: new Date(Date.now() + ttlSeconds * 1000) };
+};
+
+/**
+ * Start a new session (token family) after a completed sign-in.
+ * Returns the access token, its expiry and the first refresh token of the family.
+ */
+const createSession = async (user, req, { mfaVerified = true, mfaMethod = null } = {}) => {
+  const familyId = crypto.randomBytes(16).toString('hex');
+  const secret = crypto.randomBytes(32).toString('base64url');
+
+  const userAgent = req.get('user-agent') || null;
+  const session = await Session.create({
+    user: user._id,
+    familyId,
+    refreshTokenHash: hashToken(secret),
+    expiresAt: getRefreshExpiry(),
+    createdByIp: req.ip,
+    userAgent,
+    device: describeDevice(userAgent),
+    lastSeenAt: new Date(),
+    lastSeenIp: req.ip,
+    // An MFA sign-in counts as the first proof; a trusted-device sign-in has none yet
+    mfaVerifiedAt: mfaVerified ? new Date() : null,
+    mfaMethod: mfaVerified ? mfaMethod : null,
+  });
+
+  const access = signAccessToken(user, session);
+  return {
+    session,
+    accessToken: access.token,
+    accessTokenExpiresAt: access.expiresAt,
+    refreshToken: `${familyId}.${secret}`,
+  };
+};
+
+const revokeSession = async (session, reason) => {
+  if (session.revokedAt) {
+    return;
+  }
+  session.revokedAt = new Date();
+  session.revokedReason = reason;
+  await session.save();
+};
+
+/**
+ * Revoke every live session of a user, optionally keeping the current one
+ */
+const revokeUserSessions = async (userId, reason, { exceptSessionId } = {}) => {
+  const filter = { user: userId, revokedAt: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+  const result = await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+  return result.modifiedCount;
+};
+
+/**
+ * Exchange a refresh token for a new access token and the next refresh token of the family.
+ * Presenting an older token of the family revokes the whole family.
+ * Returns { valid: true, user, session, accessToken, accessTokenExpiresAt, refreshToken }
+ * or { valid: false, reason, session? }.
+ */
+const rotateSession = async (refreshToken, req) => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return { valid: false, reason: 'refresh_invalid' };
+  }
+
+  const session = await Session.findOne({ familyId: parsed.familyId });
+  if (!session) {
+    return { valid: false, reason: 'refresh_invalid' };
+  }
+
+  if (session.revokedAt) {
+    return { valid: false, reason: 'session_revoked', session };
+  }
+
+  if (session.expiresAt.getTime() <= Date.now()) {
+    return { valid: false, reason: 'refresh_expired', session };
+  }
+
+  const presentedHash = hashToken(parsed.secret);
+  if (!hashesMatch(presentedHash, session.refreshTokenHash)) {
+    const justRotated = session.lastRotatedAt
+      && Date.now() - session.lastRotatedAt.getTime() < getReuseGraceSeconds() * 1000
+      && hashesMatch(presentedHash, session.previousTokenHash);
+    if (justRotated) {
+      return { valid: false, reason: 'refresh_superseded', session };
+    }
+
+    // An old token came back: either the client was compromised or the token was stolen
+    await revokeSession(session, 'refresh_token_reuse');
+    return { valid: false, reason: 'refresh_token_reuse', session };
+  }
+
+  const user = await User.findById(session.user);
+  if (!user || !user.isActivated) {
+    await revokeSession(session, 'account_unavailable');
+    return { valid: false, reason: 'account_unavailable', session };
+  }
+
+  const nextSecret = crypto.randomBytes(32).toString('base64url');
+
+  // Conditional update so two concurrent refreshes cannot both rotate the same token
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: presentedHash, revokedAt: null },
+    {
+      refreshTokenHash: hashToken(nextSecret),
+      previousTokenHash: presentedHash,
+      lastRotatedAt: new Date(),
+      expiresAt: getRefreshExpiry(),
+      lastSeenAt: new Date(),
+      lastSeenIp: req.ip,
+    },
+    { new: true }
+  );
+  if (!rotated) {
+    return { valid: false, reason: 'refresh_superseded', session };
+  }
+
+  const access = signAccessToken(user, rotated);
+  return {
+    valid: true,
+    user,
+    session: rotated,
+    accessToken: access.token,
+    accessTokenExpiresAt: access.expiresAt,
+    refreshToken: `${parsed.familyId}.${nextSecret}`,
+  };
+};
+
+const isSessionActive = (session) => Boolean(
+  session && !session.revokedAt && session.expiresAt.getTime() > Date.now()
+);
+
+/**
+ * Record activity on a session from an authenticated request.
+ * Writes are throttled; failures are logged and never block the request.
+ */
+const touchSession = async (session, req) => {
+  if (session.lastSeenAt && Date.now() - session.lastSeenAt.getTime() < LAST_SEEN_WRITE_INTERVAL_MS) {
+    return;
+  }
+  try {
+    await Session.updateOne({ _id: session._id }, { lastSeenAt: new Date(), lastSeenIp: req.ip });
+  } catch (error) {
+    console.error('Session last-seen update error:', error);
+  }
+};
+
+// Mark a fresh MFA proof, and the factor that gave it, on the session making the request
+const recordStepUp = async (sessionId, mfaMethod) => {
+  const verifiedAt = new Date();
+  await Session.updateOne({ _id: sessionId }, { mfaVerifiedAt: verifiedAt, mfaMethod });
+  return verifiedAt;
+};
+
+// Live sessions of a user, most recently active first
+const listActiveSessions = (userId) => Session.find({
+  user: userId,
+  revokedAt: null,
+  expiresAt: { $gt: new Date() },
+}).sort({ lastSeenAt: -1 });
+
+// Shape returned to the client; never includes token hashes
+const toSessionSummary = (session, currentSessionId) => ({
+  id: session._id,
+  device: session.device,
+  userAgent: session.userAgent,
+  ipAddress: session.lastSeenIp || session.createdByIp,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  current: Boolean(currentSessionId) && String(session._id) === String(currentSessionId),
+});
+
+/**
+ * Look up the session a refresh token belongs to without rotating it
+ */
+const findSessionByRefreshToken = async (refreshToken) => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return null;
+  }
+  return Session.findOne({ familyId: parsed.familyId });
+};
+
+const getRefreshCookieOptions = () => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict',
+  path: REFRESH_COOKIE_PATH,
+});
+
+const setRefreshCookie = (res, refreshToken) => {
+  res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+    ...getRefreshCookieOptions(),
+    maxAge: getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000,
+  });
+};
+
+const clearRefreshCookie = (res) => {
+  res.clearCookie(REFRESH_COOKIE_NAME, getRefreshCookieOptions());
+};
+
+// Read a single cookie without pulling in a cookie parser
+const readCookie = (req, cookieName) => {
+  const header = req.get('cookie');
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === cookieName) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+};
+
+const readRefreshCookie = (req) => readCookie(req, REFRESH_COOKIE_NAME);
+
+export {
+  HIGH_PRIVILEGE_ROLES,
+  getAccessTokenTtlSeconds,
+  getStepUpMaxAgeSeconds,
+  describeDevice,
+  signAccessToken,
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  findSessionByRefreshToken,
+  isSessionActive,
+  touchSession,
+  recordStepUp,
+  listActiveSessions,
+  toSessionSummary,
+  setRefreshCookie,
+  clearRefreshCookie,
+  readCookie,
+  readRefreshCookie,
+};
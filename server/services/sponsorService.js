@@ -0,0 +1,84 @@
+import User from '../models/User.js';
+
+// Only an active Defence Personnel account, with no open manual verification, can vouch for a dependent
+const findSponsorByServiceId = (serviceId) => User.findOne({
+  role: 'personnel',
+  credentialId: serviceId,
+  isActivated: true,
+  'manualVerification.status': { $nin: ['pending', 'rejected'] },
+}).select('fullName officialEmail credentialId');
+
+const newSponsorLink = (sponsor) => ({
+  serviceId: sponsor.credentialId,
+  user: sponsor._id,
+  status: 'pending',
+  reason: null,
+  requestedAt: new Date(),
+  decidedAt: null,
+});
+
+/**
+ * Name a sponsor for a family account and wait for them to confirm.
+ * Returns the sponsor, or null when no active personnel account has that Service ID.
+ */
+const requestSponsorConfirmation = async (user, serviceId) => {
+  const sponsor = await findSponsorByServiceId(serviceId);
+  if (!sponsor) {
+    return null;
+  }
+
+  user.sponsor = newSponsorLink(sponsor);
+  await user.save();
+
+  return sponsor;
+};
+
+/**
+ * Record the sponsor's answer to a pending request.
+ * Returns the updated dependent, or null if there was no pending request from them to this sponsor.
+ */
+const decideSponsorship = (sponsorId, dependentId, { confirmed, reason }) => User.findOneAndUpdate(
+  { _id: dependentId, role: 'family', 'sponsor.user': sponsorId, 'sponsor.status': 'pending' },
+  {
+    $set: {
+      'sponsor.status': confirmed ? 'confirmed' : 'rejected',
+      'sponsor.reason': reason,
+      'sponsor.decidedAt': new Date(),
+    },
+  },
+  { new: true }
+);
+
+// Family accounts keep limited capabilities until the sponsor confirms them
+const isSponsorConfirmed = (user) => user.role !== 'family' || user.sponsor?.status === 'confirmed';
+
+// What a family member sees about their own link; the sponsor's name only once they have confirmed it
+const toSponsorLinkSummary = (user, sponsor = null) => (user.sponsor?.status ? {
+  serviceId: user.sponsor.serviceId,
+  status: user.sponsor.status,
+  reason: user.sponsor.reason ?? null,
+  requestedAt: user.sponsor.requestedAt,
+  decidedAt: user.sponsor.decidedAt ?? null,
+  sponsorName: user.sponsor.status === 'confirmed' ? sponsor?.fullName ?? null : null,
+} : null);
+
+const toDependentSummary = (user) => ({
+  id: user._id,
+  fullName: user.fullName,
+  email: user.officialEmail,
+  familyId: user.credentialId,
+  status: user.sponsor.status,
+  accountActive: user.isActivated,
+  requestedAt: user.sponsor.requestedAt,
+  decidedAt: user.sponsor.decidedAt ?? null,
+});
+
+export {
+  findSponsorByServiceId,
+  newSponsorLink,
+  requestSponsorConfirmation,
+  decideSponsorship,
+  isSponsorConfirmed,
+  toSponsorLinkSummary,
+  toDependentSummary,
+};
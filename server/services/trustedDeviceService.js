@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import TrustedDevice from '../models/TrustedDevice.js';
+import { describeDevice, readCookie } from './sessionService.js';
+import { ROLE_REGISTRY } from '../../shared/roleRegistry.js';
+
+const TRUSTED_DEVICE_COOKIE_NAME = 'trustedDevice';
+const TRUSTED_DEVICE_COOKIE_PATH = '/api/auth';
+
+// Roles that must complete MFA on every sign-in, from forbidTrustedDevice in the shared role registry
+const ROLES_FORBIDDING_TRUSTED_DEVICES = Object.values(ROLE_REGISTRY)
+  .filter((role) => role.forbidTrustedDevice)
+  .map((role) => role.key);
+
+const getTrustedDeviceDays = () => parseInt(process.env.TRUSTED_DEVICE_DAYS || '30');
+
+const isTrustedDeviceAllowedForRole = (role) => !ROLES_FORBIDDING_TRUSTED_DEVICES.includes(role);
+
+const hashSecret = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Trust the current browser for the user and return the signed device token.
+ * The token names the device record, so revoking the record voids the token.
+ */
+const trustDevice = async (user, req) => {
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const userAgent = req.get('user-agent') || null;
+  const expiresAt = new Date(Date.now() + getTrustedDeviceDays() * 24 * 60 * 60 * 1000);
+
+  const device = await TrustedDevice.create({
+    user: user._id,
+    secretHash: hashSecret(secret),
+    device: describeDevice(userAgent),
+    userAgent,
+    createdByIp: req.ip,
+    expiresAt,
+  });
+
+  const token = jwt.sign(
+    { type: 'trusted_device', secret },
+    process.env.JWT_SECRET,
+    {
+      subject: String(user._id),
+      jwtid: String(device._id),
+      expiresIn: getTrustedDeviceDays() * 24 * 60 * 60,
+    }
+  );
+
+  return { device, token, expiresAt };
+};
+
+/**
+ * Check a device token for the user signing in.
+ * Devices trusted before the last password or MFA change no longer count, even if
+ * the explicit revocation on that change was missed.
+ * Returns the device record or null. Updates lastUsedAt.
+ */
+const checkTrustedDevice = async (token, user) => {
+  if (!token || !isTrustedDeviceAllowedForRole(user.role)) {
+    return null;
+  }
+
+  let claims;
+  try {
+    claims = jwt.verify(token, process.env.JWT_SECRET);
+  } catch {
+    return null;
+  }
+
+  if (claims.type !== 'trusted_device' || claims.sub !== String(user._id)) {
+    return null;
+  }
+
+  const device = await TrustedDevice.findOne({ _id: claims.jti, user: user._id, revokedAt: null });
+  if (!device || device.expiresAt.getTime() <= Date.now() || device.secretHash !== hashSecret(claims.secret)) {
+    return null;
+  }
+
+  const trustedAt = device.createdAt.getTime();
+  if ((user.passwordChangedAt && user.passwordChangedAt.getTime() > trustedAt)
+    || (user.mfaChangedAt && user.mfaChangedAt.getTime() > trustedAt)) {
+    return null;
+  }
+
+  device.lastUsedAt = new Date();
+  await device.save();
+  return device;
+};
+
+/**
+ * Revoke every trusted device of a user, e.g. after a password or MFA change
+ */
+const revokeUserTrustedDevices = async (userId, reason) => {
+  const result = await TrustedDevice.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  return result.modifiedCount;
+};
+
+// Live trusted devices of a user, most recently used first
+const listTrustedDevices = (userId) => TrustedDevice.find({
+  user: userId,
+  revokedAt: null,
+  expiresAt: { $gt: new Date() },
+}).sort({ lastUsedAt: -1, createdAt: -1 });
+
+// Device record id named by a token, without verifying it is still valid
+const getTrustedDeviceId = (token) => {
+  try {
+    return jwt.verify(token, process.env.JWT_SECRET).jti || null;
+  } catch {
+    return null;
+  }
+};
+
+const toTrustedDeviceSummary = (device, currentDeviceId) => ({
+  id: device._id,
+  device: device.device,
+  userAgent: device.userAgent,
+  ipAddress: device.createdByIp,
+  trustedAt: device.createdAt,
+  lastUsedAt: device.lastUsedAt,
+  expiresAt: device.expiresAt,
+  current: Boolean(currentDeviceId) && String(device._id) === String(currentDeviceId),
+});
+
+const getTrustedDeviceCookieOptions = () => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict',
+  path: TRUSTED_DEVICE_COOKIE_PATH,
+});
+
+const setTrustedDeviceCookie = (res, token) => {
+  res.cookie(TRUSTED_DEVICE_COOKIE_NAME, token, {
+    ...getTrustedDeviceCookieOptions(),
+    maxAge: getTrustedDeviceDays() * 24 * 60 * 60 * 1000,
+  });
+};
+
+const clearTrustedDeviceCookie = (res) => {
+  res.clearCookie(TRUSTED_DEVICE_COOKIE_NAME, getTrustedDeviceCookieOptions());
+};
+
+const readTrustedDeviceCookie = (req) => readCookie(req, TRUSTED_DEVICE_COOKIE_NAME);
+
+export {
+  ROLES_FORBIDDING_TRUSTED_DEVICES,
+  getTrustedDeviceDays,
+  isTrustedDeviceAllowedForRole,
+  trustDevice,
+  checkTrustedDevice,
+  revokeUserTrustedDevices,
+  listTrustedDevices,
+  getTrustedDeviceId,
+  toTrustedDeviceSummary,
+  setTrustedDeviceCookie,
+  clearTrustedDeviceCookie,
+  readTrustedDeviceCookie,
+};
@@ -0,0 +1,78 @@
+import User from '../models/User.js';
+import { getEmailDomainFlags } from './activationService.js';
+import { ROLE_REGISTRY } from '../../shared/roleRegistry.js';
+
+/**
+ * Reason codes that send a new registration to manual verification.
+ * Email domain flags from activationService, plus credential IDs that don't fit the role or are already taken.
+ */
+const getVerificationReasons = async ({ officialEmail, role, credentialId }) => {
+  const reasons = getEmailDomainFlags(officialEmail, role);
+
+  if (!ROLE_REGISTRY[role]?.idRule.pattern.test(credentialId)) {
+    reasons.push('credential_id_format');
+  }
+
+  const duplicate = await User.exists({ role, credentialId });
+  if (duplicate) {
+    reasons.push('credential_id_in_use');
+  }
+
+  return reasons;
+};
+
+/**
+ * The manualVerification record for a new registration; pending when any reason applies
+ */
+const buildManualVerification = async (registration) => {
+  const reasons = await getVerificationReasons(registration);
+
+  return reasons.length > 0
+    ? { status: 'pending', reasons, flaggedAt: new Date() }
+    : { status: 'not_required', reasons: [] };
+};
+
+// Pending and rejected verifications keep the account restricted
+const isVerificationResolved = (user) => ['not_required', 'verified'].includes(
+  user.manualVerification?.status ?? 'not_required'
+);
+
+/**
+ * Record a reviewer's decision on a flagged registration.
+ * Returns the updated user, or null if it was not awaiting verification.
+ */
+const resolveVerification = (userId, { verified, note, resolvedBy }) => User.findOneAndUpdate(
+  { _id: userId, 'manualVerification.status': 'pending' },
+  {
+    $set: {
+      'manualVerification.status': verified ? 'verified' : 'rejected',
+      'manualVerification.note': note,
+      'manualVerification.resolvedBy': resolvedBy,
+      'manualVerification.resolvedAt': new Date(),
+    },
+  },
+  { new: true }
+);
+
+const toVerificationSummary = (user) => ({
+  id: user._id,
+  fullName: user.fullName,
+  email: user.officialEmail,
+  role: user.role,
+  credentialId: user.credentialId,
+  accountActive: user.isActivated,
+  status: user.manualVerification.status,
+  reasons: user.manualVerification.reasons,
+  flaggedAt: user.manualVerification.flaggedAt,
+  note: user.manualVerification.note ?? null,
+  resolvedBy: user.manualVerification.resolvedBy?.officialEmail ?? null,
+  resolvedAt: user.manualVerification.resolvedAt ?? null,
+});
+
+export {
+  getVerificationReasons,
+  buildManualVerification,
+  isVerificationResolved,
+  resolveVerification,
+  toVerificationSummary,
+};
@@ -0,0 +1,200 @@
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+} from '@simplewebauthn/server';
+import { isoBase64URL } from '@simplewebauthn/server/helpers';
+import WebAuthnChallenge from '../models/WebAuthnChallenge.js';
+
+const getChallengeTtlSeconds = () => parseInt(process.env.WEBAUTHN_CHALLENGE_TTL_SECONDS || '300');
+
+/**
+ * Relying party settings. WEBAUTHN_ORIGIN may list several comma-separated origins,
+ * e.g. the portal plus the origin a software authenticator runs against in tests.
+ */
+const getRelyingParty = () => ({
+  rpID: process.env.WEBAUTHN_RP_ID || 'localhost',
+  rpName: process.env.WEBAUTHN_RP_NAME || 'Defence Incident Sentinel Portal',
+  origins: (process.env.WEBAUTHN_ORIGIN || process.env.FRONTEND_URL || 'http://localhost:8080,http://localhost:5173')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+});
+
+// Replace any outstanding challenge for the same email/purpose pair
+const storeChallenge = async (email, purpose, challenge) => {
+  await WebAuthnChallenge.findOneAndUpdate(
+    { email: email.toLowerCase(), purpose },
+    { challenge, expiresAt: new Date(Date.now() + getChallengeTtlSeconds() * 1000) },
+    { upsert: true }
+  );
+};
+
+// Challenges are single-use: removed whether or not the ceremony succeeds
+const consumeChallenge = async (email, purpose) => {
+  const record = await WebAuthnChallenge.findOneAndDelete({ email: email.toLowerCase(), purpose });
+  if (!record || record.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return record.challenge;
+};
+
+const toCredentialDescriptor = (credential) => ({
+  id: credential.credentialId,
+  transports: credential.transports?.length ? credential.transports : undefined,
+});
+
+/**
+ * Registration options for a new security key.
+ * existingCredentials are excluded so the same key cannot be enrolled twice.
+ */
+const createRegistrationOptions = async ({ email, displayName, existingCredentials = [] }) => {
+  const { rpID, rpName } = getRelyingParty();
+
+  const options = await generateRegistrationOptions({
+    rpName,
+    rpID,
+    userName: email.toLowerCase(),
+    userDisplayName: displayName || email,
+    attestationType: 'none',
+    excludeCredentials: existingCredentials.map(toCredentialDescriptor),
+    authenticatorSelection: {
+      residentKey: 'discouraged',
+      userVerification: 'preferred',
+    },
+  });
+
+  await storeChallenge(email, 'registration', options.challenge);
+  return options;
+};
+
+/**
+ * Verify a registration response against a known challenge, without the challenge store.
+ * Returns { valid: true, credential } with a record ready for User.webauthnCredentials,
+ * or { valid: false, reason }.
+ */
+const checkRegistrationResponse = async (response, expectedChallenge, { nickname } = {}) => {
+  const { rpID, origins } = getRelyingParty();
+
+  try {
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origins,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+    });
+
+    if (!verified || !registrationInfo) {
+      return { valid: false, reason: 'webauthn_registration_rejected' };
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = registrationInfo;
+
+    return {
+      valid: true,
+      credential: {
+        credentialId: credential.id,
+        publicKey: isoBase64URL.fromBuffer(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports || [],
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        nickname: nickname || 'Security key',
+        createdAt: new Date(),
+      },
+    };
+  } catch (error) {
+    console.error('WebAuthn registration error:', error);
+    return { valid: false, reason: 'webauthn_registration_invalid' };
+  }
+};
+
+// Verify a registration response against the stored challenge; see checkRegistrationResponse
+const verifyRegistration = async (email, response, options = {}) => {
+  const expectedChallenge = await consumeChallenge(email, 'registration');
+  if (!expectedChallenge) {
+    return { valid: false, reason: 'webauthn_challenge_expired' };
+  }
+
+  return checkRegistrationResponse(response, expectedChallenge, options);
+};
+
+// Assertion options limited to the user's enrolled keys
+const createAuthenticationOptions = async (user, purpose) => {
+  const { rpID } = getRelyingParty();
+
+  const options = await generateAuthenticationOptions({
+    rpID,
+    allowCredentials: (user.webauthnCredentials || []).map(toCredentialDescriptor),
+    userVerification: 'preferred',
+  });
+
+  await storeChallenge(user.officialEmail, purpose, options.challenge);
+  return options;
+};
+
+/**
+ * Verify an assertion from one of the given credentials against a known challenge, without the challenge store.
+ * Updates the signature counter and lastUsedAt of the matching credential.
+ */
+const checkAuthenticationResponse = async (credentials, response, expectedChallenge) => {
+  const stored = (credentials || []).find((credential) => credential.credentialId === response?.id);
+  if (!stored) {
+    return { valid: false, reason: 'webauthn_unknown_credential' };
+  }
+
+  const { rpID, origins } = getRelyingParty();
+
+  try {
+    // Throws when the counter goes backwards, which points to a cloned key
+    const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origins,
+      expectedRPID: rpID,
+      credential: {
+        id: stored.credentialId,
+        publicKey: isoBase64URL.toBuffer(stored.publicKey),
+        counter: stored.counter,
+        transports: stored.transports,
+      },
+      requireUserVerification: false,
+    });
+
+    if (!verified) {
+      return { valid: false, reason: 'webauthn_assertion_rejected' };
+    }
+
+    stored.counter = authenticationInfo.newCounter;
+    stored.lastUsedAt = new Date();
+    return { valid: true };
+  } catch (error) {
+    console.error('WebAuthn authentication error:', error);
+    return { valid: false, reason: 'webauthn_assertion_invalid' };
+  }
+};
+
+/**
+ * Verify an assertion from one of the user's keys against the stored challenge.
+ * Updates the signature counter and lastUsedAt; caller is responsible for saving the user.
+ */
+const verifyAuthentication = async (user, response, purpose) => {
+  const expectedChallenge = await consumeChallenge(user.officialEmail, purpose);
+  if (!expectedChallenge) {
+    return { valid: false, reason: 'webauthn_challenge_expired' };
+  }
+
+  return checkAuthenticationResponse(user.webauthnCredentials, response, expectedChallenge);
+};
+
+export {
+  getRelyingParty,
+  createRegistrationOptions,
+  checkRegistrationResponse,
+  verifyRegistration,
+  createAuthenticationOptions,
+  checkAuthenticationResponse,
+  verifyAuthentication,
+};
@@ -0,0 +1,146 @@
+/**
+ * Role registry shared by the Express server and the React app.
+ * Plain JavaScript so Node imports it as is; the app reads its types through allowJs (tsconfig.app.json).
+ * server/services/roleService.js checks the server's own role tables against it at startup.
+ */
+
+// Named permissions a role can be granted, with the description shown to administrators.
+// defaultPermissions seed each role; administrators change the grants at runtime (server/services/permissionService.js).
+export const PERMISSIONS = /** @type {const} */ ({
+  'personnel:read': 'View personnel records, service details and assignments',
+  'dependents:review': 'Confirm or reject family members who name you as sponsor',
+  'family:read': 'View family benefits, medical and welfare services',
+  'veteran:read': 'View pension, medical and veteran services',
+  'cert:read': 'View threat analysis, incident reports and security monitoring',
+  'users:read': 'Search users and view their sessions',
+  'sessions:manage': 'Sign out the sessions of other users',
+  'registrations:review': 'Approve or reject new registrations',
+  'verifications:resolve': 'Resolve registrations flagged for manual verification',
+  'unlock_requests:review': 'Approve or reject account unlock requests',
+  'hardware_tokens:manage': 'Import, assign and unassign hardware tokens',
+  'rosters:manage': 'Import credential rosters',
+  'permissions:manage': 'Change role permissions and per-user overrides',
+  'policies:manage': 'Edit, test and apply access policies',
+  'elevations:approve': 'Grant or revoke temporary elevated access',
+  'accounts:manage': 'Deactivate accounts and reset their MFA',
+});
+
+// Official email addresses, checked by the sign-up form and when deciding whether a registration needs a closer look
+export const EMAIL_PATTERNS = {
+  // Service, DRDO and government mail; gmail.com is accepted by the form but flagged for review as a public provider
+  defence: /^[a-z0-9._%+-]+@(?:army|navy|airforce|drdo)\.(?:mil|gov)\.in$|^[a-z0-9._%+-]+@(?:gov|nic)\.in$|^[a-z0-9._%+-]+@gmail\.com$/i,
+  // MoD and government mail, the only domains accepted for administrators
+  admin: /^[a-z0-9._%+-]+@(?:mod\.gov\.in|defence\.in|gov\.in|nic\.in)$/i,
+};
+
+// Authenticator parameters for new enrollments, unless the role sets its own totp
+export const DEFAULT_TOTP_PARAMS = /** @type {const} */ ({ algorithm: 'SHA1', digits: 6, period: 30 });
+
+export const ROLE_REGISTRY = /** @type {const} */ ({
+  personnel: {
+    key: 'personnel',
+    displayName: 'Defence Personnel',
+    description: 'Access to defence operations and personnel resources',
+    dashboardPath: '/dashboard/personnel',
+    defaultPermissions: ['personnel:read', 'dependents:review'],
+    idRule: {
+      label: 'Service ID',
+      // Prefix names the branch: ARMY, NAVY, AIRF (Air Force) or DRDO
+      pattern: /^(?:ARMY|NAVY|AIRF|DRDO)[A-Z0-9]{2,6}$/,
+      uppercase: true,
+      message: 'Service ID must be 6-10 characters, start with ARMY, NAVY, AIRF, or DRDO, and contain only letters/numbers.',
+    },
+  },
+  family: {
+    key: 'family',
+    displayName: 'Family Member / Dependent',
+    description: 'Family services, benefits, and dependent support portal',
+    dashboardPath: '/dashboard/family',
+    defaultPermissions: ['family:read'],
+    idRule: {
+      label: 'Defence Family ID (D-FID)',
+      pattern: /^D-FID-\d{4,}$/i,
+      uppercase: true,
+      message: 'D-FID must start with D-FID- followed by at least 4 digits.',
+    },
+  },
+  veteran: {
+    key: 'veteran',
+    displayName: 'Veteran / Retired Officer',
+    description: 'Veteran affairs, pension management, and retirement services',
+    dashboardPath: '/dashboard/veteran',
+    defaultPermissions: ['veteran:read'],
+    idRule: {
+      label: 'SPARSH / Pension ID',
+      pattern: /^\d{6,12}$/,
+      uppercase: false,
+      message: 'SPARSH/Pension ID must be 6-12 digits (numbers only).',
+    },
+  },
+  cert: {
+    key: 'cert',
+    displayName: 'CERT Analyst',
+    description: 'CERT operations, threat analysis, and security intelligence',
+    dashboardPath: '/dashboard/cert',
+    defaultPermissions: ['cert:read'],
+    // Weakest MFA method the role accepts (email, totp, hotp, webauthn); 'webauthn' requires a security key
+    enforcedMfaMethod: 'totp',
+    // MFA on every sign-in; browsers cannot be trusted to skip it
+    forbidTrustedDevice: true,
+    idRule: {
+      label: 'Analyst Credential / Service ID',
+      pattern: /^CERT-[A-Z0-9-]*\d{3,}$/i,
+      uppercase: true,
+      message: 'Analyst ID must include the CERT- prefix and end with digits.',
+    },
+  },
+  admin: {
+    key: 'admin',
+    displayName: 'Admin / MoD Authority',
+    description: 'System administration, user management, and MoD authority controls',
+    dashboardPath: '/dashboard/admin',
+    defaultPermissions: [
+      'personnel:read',
+      'family:read',
+      'veteran:read',
+      'cert:read',
+      'users:read',
+      'sessions:manage',
+      'registrations:review',
+      'verifications:resolve',
+      'unlock_requests:review',
+      'hardware_tokens:manage',
+      'rosters:manage',
+      'permissions:manage',
+      'policies:manage',
+      'elevations:approve',
+      'accounts:manage',
+    ],
+    enforcedMfaMethod: 'totp',
+    // Sessions count as privileged: sensitive actions ask for a fresher MFA check
+    // Authenticator codes for new enrollments: algorithm SHA1, SHA256 or SHA512, 6 or 8 digits, period in seconds
+    totp: { algorithm: 'SHA256', digits: 8, period: 30 },
+    highPrivilege: true,
+    forbidTrustedDevice: true,
+    // Checked on top of the baseline policy; minLength below 12 has no effect
+    passwordPolicy: {
+      minLength: 12,
+      requireSpecialCharacter: true,
+      message: 'Passwords must be at least 12 characters with a special character for admin access.',
+    },
+    idRule: {
+      label: 'MOD Credential ID',
+      // MOD-UNIT-####: an approved unit code and four digits
+      pattern: /^MOD-[A-Z]{2,4}-\d{4}$/,
+      uppercase: true,
+      message: 'Credential ID must follow MOD-UNIT-#### with an approved unit code and four digits.',
+    },
+  },
+});
+
+// Registry order is the order roles are offered in the sign-up and sign-in forms
+export const ROLE_KEYS = Object.keys(ROLE_REGISTRY);
+
+export const isRoleKey = (value) => Object.prototype.hasOwnProperty.call(ROLE_REGISTRY, value);
+
+export const isPermission = (value) => Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
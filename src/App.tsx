@@ -7,6 +7,8 @@ import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Dashboard from "./pages/Dashboard";
 import VerifyEmail from "./pages/VerifyEmail";
+import ResetPassword from "./pages/ResetPassword";
+import { ROLE_REGISTRY, roleKeys } from "@/lib/roleConfig";
 
 const queryClient = new QueryClient();
 
@@ -19,11 +21,10 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/verify-email" element={<VerifyEmail />} />
-          <Route path="/dashboard/officer" element={<Dashboard role="officer" />} />
-          <Route path="/dashboard/staff" element={<Dashboard role="staff" />} />
-          <Route path="/dashboard/analyst" element={<Dashboard role="analyst" />} />
-          <Route path="/dashboard/guest" element={<Dashboard role="guest" />} />
-          <Route path="/dashboard/admin" element={<Dashboard role="admin" />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
+          {roleKeys.map((role) => (
+            <Route key={role} path={ROLE_REGISTRY[role].dashboardPath} element={<Dashboard role={role} />} />
+          ))}
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
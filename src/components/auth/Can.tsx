@@ -0,0 +1,24 @@
+import type { ReactNode } from "react";
+import { useAnyPermission, usePermission } from "@/hooks/usePermission";
+import type { Permission } from "@/lib/roleConfig";
+
+interface CanProps {
+  // Every listed permission is required
+  permission?: Permission | Permission[];
+  // At least one listed permission is required
+  anyOf?: Permission[];
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Render children only when the signed-in user holds the permission(s); fallback otherwise
+ */
+const Can = ({ permission = [], anyOf, fallback = null, children }: CanProps) => {
+  const hasAll = usePermission(permission);
+  const hasAny = useAnyPermission(anyOf ?? []);
+
+  return <>{hasAll && (!anyOf || hasAny) ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { HOTP_MAX_DIGITS, isValidHotpFormat } from "@/lib/auth/mfaMethods";
+import { resyncHardwareToken } from "@/services/authService";
+
+interface HardwareTokenResyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mfaChallenge: string;
+  onChallengeExpired: () => void;
+}
+
+/**
+ * Realign a hardware token whose button was pressed too many times without signing in
+ */
+const HardwareTokenResyncDialog = ({
+  open,
+  onOpenChange,
+  mfaChallenge,
+  onChallengeExpired,
+}: HardwareTokenResyncDialogProps) => {
+  const { toast } = useToast();
+  const [codes, setCodes] = useState<[string, string]>(["", ""]);
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setCodes(["", ""]);
+      setError("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!codes.every(isValidHotpFormat)) {
+      setError("Press the token button twice and enter both codes in order.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await resyncHardwareToken({ mfaChallenge, hotpCodes: codes });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setCodes(["", ""]);
+      setError(typeof result.attemptsRemaining === "number" && !result.challengeExpired
+        ? `${result.message} ${result.attemptsRemaining} attempts remaining.`
+        : result.message);
+      if (result.challengeExpired) {
+        onChallengeExpired();
+        handleOpenChange(false);
+      }
+      return;
+    }
+
+    toast({
+      title: "Token Resynchronised",
+      description: result.message,
+    });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resync Hardware Token</DialogTitle>
+          <DialogDescription>
+            If your codes keep being rejected, the token may be ahead of the server. Enter two consecutive codes to
+            realign it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {codes.map((code, index) => (
+              <div key={index} className="space-y-2">
+                <Label htmlFor={`hotp-resync-${index}`}>{index === 0 ? "First code" : "Next code"}</Label>
+                <Input
+                  id={`hotp-resync-${index}`}
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={HOTP_MAX_DIGITS}
+                  value={code}
+                  onChange={(e) => {
+                    const value = e.target.value.replace(/\D/g, "").slice(0, HOTP_MAX_DIGITS);
+                    setCodes((prev) => (index === 0 ? [value, prev[1]] : [prev[0], value]));
+                    if (error) setError("");
+                  }}
+                  className="text-center tracking-widest"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-[hsl(0,0%,31%)]">
+            Press the button, enter the code, then press it again for the next one. Afterwards, sign in with a fresh
+            code.
+          </p>
+
+          {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Resyncing..." : "Resync Token"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HardwareTokenResyncDialog;
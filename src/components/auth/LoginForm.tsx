@@ -1,40 +1,37 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Eye, EyeOff, Shield, Smartphone, AlertTriangle, Info, ChevronDown } from "lucide-react";
+import { Eye, EyeOff, Shield, Smartphone, KeyRound, Key, AlertTriangle, Info, ChevronDown } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { roleConfigurations, roleOptions, RoleConfig, RoleKey } from "@/lib/roleConfig";
+import { roleConfigurations, roleOptions, RoleConfig, RoleKey, ROLE_REGISTRY, getRoleRedirect } from "@/lib/roleConfig";
 import { cn } from "@/lib/utils";
-import { login, verifyMfa } from "@/services/authService";
-import { verifyTotpToken } from "@/lib/auth/totpService";
+import { login, verifyMfa, getWebAuthnLoginOptions } from "@/services/authService";
+import { useEmailOtp } from "@/hooks/useEmailOtp";
+import { maskEmail } from "@/lib/auth/emailOtp";
+import type { AuthUser, LockoutState, MfaMethod, MfaVerificationMethod } from "@/lib/auth/types";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/browser";
+import {
+  HOTP_MAX_DIGITS,
+  getEnforcedMfaMessage,
+  isMfaMethodAllowed,
+  isValidHotpFormat,
+  toMfaMethod,
+} from "@/lib/auth/mfaMethods";
+import { authenticateWithSecurityKey } from "@/lib/auth/webauthn";
+import UnlockRequestDialog from "./UnlockRequestDialog";
+import HardwareTokenResyncDialog from "./HardwareTokenResyncDialog";
 import "./auth-stepper.css";
 
 const BASE_PASSWORD_POLICY = "Minimum 12 characters, at least one uppercase letter, one number, and one special character.";
 const PASSWORD_POLICY_REGEX = /^(?=.*[A-Z])(?=.*[0-9])(?=.*[^A-Za-z0-9]).{12,}$/;
 
-const getRoleBasedRedirect = (role: RoleKey): string => {
-  // Defence Personnel, Family Member/Dependent, Veteran/Retired Officer
-  if (role === "personnel" || role === "family" || role === "veteran") {
-    return "https://cyber-complaint-portal.vercel.app/";
-  }
-  // CERT Analyst - placeholder for now
-  if (role === "cert") {
-    return "/dashboard/cert"; // Will be updated later
-  }
-  // Admin / MoD Authority
-  if (role === "admin") {
-    return "https://cert-dashbord.vercel.app";
-  }
-  return "/dashboard";
-};
-
 const formatCountdown = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
   const secs = seconds % 60;
@@ -45,10 +42,12 @@ const LoginForm = () => {
   const navigate = useNavigate();
   const [showPassword, setShowPassword] = useState(false);
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
-  const [mfaMethod, setMfaMethod] = useState<"totp" | "email">("totp");
-  const [failedAttempts, setFailedAttempts] = useState(0);
-  const [isLocked, setIsLocked] = useState(false);
-  const [lockoutTime, setLockoutTime] = useState(60);
+  const [mfaMethod, setMfaMethod] = useState<MfaMethod>("totp");
+  const [lockout, setLockout] = useState<LockoutState | null>(null);
+  const [lockSecondsLeft, setLockSecondsLeft] = useState(0);
+  const [showUnlockDialog, setShowUnlockDialog] = useState(false);
+  const [showResyncDialog, setShowResyncDialog] = useState(false);
+  const [unlockRequested, setUnlockRequested] = useState(false);
   const [showSSOModal, setShowSSOModal] = useState(false);
   const [showVPNModal, setShowVPNModal] = useState(false);
   const [showNCRPModal, setShowNCRPModal] = useState(false);
@@ -60,14 +59,22 @@ const LoginForm = () => {
   const [password, setPassword] = useState("");
   const [passwordError, setPasswordError] = useState("");
   const [otpCode, setOtpCode] = useState("");
-  const [otpSent, setOtpSent] = useState(false);
-  const [otpCountdown, setOtpCountdown] = useState(0);
-  const [userId, setUserId] = useState("");
-  const [totpSecret, setTotpSecret] = useState("");
-  const otpTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState("");
+  const [challengeSecondsLeft, setChallengeSecondsLeft] = useState(0);
+  const [challengeExpired, setChallengeExpired] = useState(false);
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [backupCode, setBackupCode] = useState("");
+  const [isWaitingForKey, setIsWaitingForKey] = useState(false);
+  const [trustThisDevice, setTrustThisDevice] = useState(false);
+  const [totpDigits, setTotpDigits] = useState(6);
+  // An admin MFA reset left the account with email OTP only, below the role's minimum, until it enrols a new factor
+  const [mfaEnrollmentRequired, setMfaEnrollmentRequired] = useState(false);
+  const emailOtp = useEmailOtp({ purpose: "login", mfaChallenge });
   const { toast } = useToast();
 
   const currentRoleConfig = userType ? roleConfigurations[userType] : undefined;
+  const canTrustDevice = !currentRoleConfig?.forbidTrustedDevice;
+  const signInMfaMinimum = mfaEnrollmentRequired ? undefined : currentRoleConfig?.enforcedMfaMethod;
 
   const computeNormalizedId = (value: string, config?: RoleConfig) => {
     if (!config) {
@@ -92,6 +99,7 @@ const LoginForm = () => {
     setPasswordError("");
     const enforcedMethod = roleConfigurations[roleKey]?.enforcedMfaMethod;
     setMfaMethod(enforcedMethod ?? "totp");
+    setMfaEnrollmentRequired(false);
   };
 
   const handleServiceIdChange = (rawValue: string) => {
@@ -116,28 +124,7 @@ const LoginForm = () => {
     }
   };
 
-  const clearOtpTimer = () => {
-    if (otpTimerRef.current) {
-      clearInterval(otpTimerRef.current);
-      otpTimerRef.current = null;
-    }
-  };
-
-  const startOtpCountdown = () => {
-    clearOtpTimer();
-    setOtpCountdown(60);
-    otpTimerRef.current = setInterval(() => {
-      setOtpCountdown((prev) => {
-        if (prev <= 1) {
-          clearOtpTimer();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-  };
-
-  const handleSendOtp = () => {
+  const handleSendOtp = async () => {
     if (!email || !email.trim()) {
       setEmailError("Email is required to receive OTP.");
       toast({
@@ -149,33 +136,30 @@ const LoginForm = () => {
     }
 
     setEmailError("");
-    setOtpSent(true);
-    setOtpCode("");
-    startOtpCountdown();
+    const sent = await emailOtp.sendOtp(email);
+    if (!sent) {
+      toast({
+        title: "OTP Not Sent",
+        description: "We couldn't send a one-time code. Please try again shortly.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     toast({
       title: "OTP Sent",
       description: `A one-time code has been dispatched to ${email}.`,
     });
   };
 
-  const handleMfaMethodChange = (value: string) => {
-    if (currentRoleConfig?.enforcedMfaMethod) {
-      setMfaMethod(currentRoleConfig.enforcedMfaMethod as "totp" | "email");
+  const handleMfaMethodChange = (value: MfaMethod) => {
+    if (!isMfaMethodAllowed(value, signInMfaMinimum)) {
       return;
     }
 
-    setMfaMethod(value === "email" ? "email" : "totp");
-    if (value === "email") {
-      clearOtpTimer();
-      setOtpSent(false);
-      setOtpCountdown(0);
-      setOtpCode("");
-    } else {
-      clearOtpTimer();
-      setOtpSent(false);
-      setOtpCountdown(0);
-      setOtpCode("");
-    }
+    setMfaMethod(value);
+    emailOtp.resetOtp();
+    setOtpCode("");
   };
 
   const validateServiceId = (value: string, config: RoleConfig) => {
@@ -232,22 +216,92 @@ const LoginForm = () => {
   ];
 
   useEffect(() => {
-    if (currentRoleConfig?.enforcedMfaMethod && currentRoleConfig.enforcedMfaMethod !== mfaMethod) {
-      setMfaMethod(currentRoleConfig.enforcedMfaMethod);
+    if (signInMfaMinimum && !isMfaMethodAllowed(mfaMethod, signInMfaMinimum)) {
+      setMfaMethod(signInMfaMinimum);
     }
-  }, [currentRoleConfig?.enforcedMfaMethod, mfaMethod]);
+  }, [signInMfaMinimum, mfaMethod]);
 
+  const { resetOtp: resetEmailOtp } = emailOtp;
   useEffect(() => {
     if (mfaMethod !== "email") {
-      clearOtpTimer();
-      setOtpSent(false);
-      setOtpCountdown(0);
+      resetEmailOtp();
     }
-  }, [mfaMethod]);
+  }, [mfaMethod, resetEmailOtp]);
 
+  // The MFA challenge is only redeemable for a short window after the password step
   useEffect(() => {
-    return () => clearOtpTimer();
-  }, []);
+    if (!mfaChallenge || challengeExpired) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      setChallengeSecondsLeft((prev) => {
+        if (prev <= 1) {
+          setChallengeExpired(true);
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [mfaChallenge, challengeExpired]);
+
+  // Lock state comes from the server; the countdown only mirrors lockedUntil
+  const isLocked = Boolean(lockout?.locked);
+  useEffect(() => {
+    if (!lockout?.locked || !lockout.lockedUntil) {
+      return;
+    }
+
+    const lockedUntil = new Date(lockout.lockedUntil).getTime();
+    const tick = () => {
+      const secondsLeft = Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+      setLockSecondsLeft(secondsLeft);
+      if (secondsLeft === 0) {
+        setLockout(null);
+        setUnlockRequested(false);
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [lockout]);
+
+  const handleUseDifferentAccount = () => {
+    setLockout(null);
+    setUnlockRequested(false);
+    setPassword("");
+    setCurrentStep(1);
+  };
+
+  const handleStartOver = () => {
+    setMfaChallenge("");
+    setChallengeSecondsLeft(0);
+    setChallengeExpired(false);
+    setPassword("");
+    setOtpCode("");
+    setUseBackupCode(false);
+    setBackupCode("");
+    resetEmailOtp();
+    setCurrentStep(2);
+  };
+
+  const handleBackupCodeChange = (value: string) => {
+    const digits = value.replace(/\D/g, "").slice(0, 8);
+    setBackupCode(digits.length > 4 ? `${digits.slice(0, 4)}-${digits.slice(4)}` : digits);
+  };
+
+  const toggleBackupCode = () => {
+    setUseBackupCode((prev) => !prev);
+    setBackupCode("");
+    setOtpCode("");
+  };
+
+  const totpBlocked = !isMfaMethodAllowed("totp", signInMfaMinimum);
+  const emailBlocked = !isMfaMethodAllowed("email", signInMfaMinimum);
+  const hotpBlocked = !isMfaMethodAllowed("hotp", signInMfaMinimum);
 
   const roleSecurityMessages = currentRoleConfig
     ? [
@@ -429,44 +483,57 @@ const LoginForm = () => {
         role: userType,
       });
 
-      if (result.success && result.user) {
-        // Store user ID and TOTP secret for MFA verification
-        setUserId(result.user.id);
-        if (result.user.totpSecret) {
-          setTotpSecret(result.user.totpSecret);
+      if (result.success && result.user && result.token) {
+        setLockout(null);
+        enterDashboard(result.user, "Trusted device recognised. Redirecting to dashboard...");
+      } else if (result.success && result.user) {
+        // Hold the signed challenge for the MFA step
+        if (result.user.mfaChallenge) {
+          const expiresAt = result.user.mfaChallengeExpiresAt
+            ? new Date(result.user.mfaChallengeExpiresAt).getTime()
+            : Date.now() + 5 * 60 * 1000;
+          setMfaChallenge(result.user.mfaChallenge);
+          setChallengeSecondsLeft(Math.max(0, Math.floor((expiresAt - Date.now()) / 1000)));
+          setChallengeExpired(false);
+        }
+        if (!email) {
+          // Roles without an email field still need an address for email OTP delivery
+          setEmail(result.user.email);
         }
-        
+
         // Update MFA method based on user's preference
-        // Backend returns 'authenticator' or 'email' in mfaMethod
+        // Backend returns 'authenticator', 'email' or 'webauthn' in mfaMethod
         if (result.user.mfaMethod) {
-          const method = (result.user.mfaMethod as string) === 'authenticator' ? 'totp' : 'email';
-          setMfaMethod(method);
+          setMfaMethod(toMfaMethod(result.user.mfaMethod));
         }
+        setTotpDigits(result.user.totpDigits ?? 6);
+        setMfaEnrollmentRequired(Boolean(result.user.mfaEnrollmentRequired));
 
+        setLockout(null);
         setCurrentStep(3);
-        clearOtpTimer();
-        setOtpSent(false);
-        setOtpCountdown(0);
+        emailOtp.resetOtp();
         setOtpCode("");
+        setUseBackupCode(false);
+        setBackupCode("");
+        setTrustThisDevice(false);
         toast({
           title: "Credentials Verified",
           description: "Please complete MFA authentication.",
         });
       } else {
-        const newFailedAttempts = failedAttempts + 1;
-        setFailedAttempts(newFailedAttempts);
-        
-        if (newFailedAttempts >= 3) {
-          setIsLocked(true);
+        setLockout(result.lockout ?? null);
+        setPassword("");
+
+        if (result.lockout?.locked) {
           toast({
             title: "Account Locked",
-            description: "Too many failed attempts. Your account is locked for 60 minutes.",
+            description: "Too many failed attempts. Your account is temporarily locked.",
             variant: "destructive",
           });
         } else {
           toast({
             title: "Login Failed",
-            description: `Invalid credentials. ${3 - newFailedAttempts} attempts remaining.`,
+            description: result.message || "Invalid credentials.",
             variant: "destructive",
           });
         }
@@ -484,7 +551,17 @@ const LoginForm = () => {
   const handleMFAVerify = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (mfaMethod === "email") {
+    if (!mfaChallenge || challengeExpired) {
+      setChallengeExpired(true);
+      toast({
+        title: "Session Expired",
+        description: "Your verification window has closed. Please sign in again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!useBackupCode && mfaMethod === "email") {
       if (!email || !email.trim()) {
         setEmailError("Email is required to receive OTP.");
         toast({
@@ -495,7 +572,7 @@ const LoginForm = () => {
         return;
       }
 
-      if (!otpSent) {
+      if (!emailOtp.otpSent) {
         toast({
           title: "Send OTP",
           description: "Tap 'Send OTP' before entering the verification code.",
@@ -504,7 +581,7 @@ const LoginForm = () => {
         return;
       }
 
-      if (otpCountdown === 0) {
+      if (emailOtp.otpCountdown === 0) {
         toast({
           title: "OTP Expired",
           description: "Your one-time code has expired. Request a new OTP.",
@@ -514,68 +591,139 @@ const LoginForm = () => {
       }
     }
 
-    if (otpCode.length !== 6) {
+    const method = useBackupCode ? "backup" : mfaMethod;
+    const code = useBackupCode ? backupCode : mfaMethod === "email" ? emailOtp.otpCode : otpCode;
+
+    if (method === "webauthn") {
+      await handleSecurityKeyVerify();
+      return;
+    }
+
+    if (useBackupCode && !/^\d{4}-\d{4}$/.test(code)) {
+      toast({
+        title: "Invalid Backup Code",
+        description: "Backup codes look like 1234-5678.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!useBackupCode && mfaMethod === "hotp" && !isValidHotpFormat(code)) {
       toast({
         title: "Invalid OTP",
-        description: "Please enter a valid 6-digit code.",
+        description: "Please enter the 6 or 8-digit code shown on your token.",
         variant: "destructive",
       });
       return;
     }
 
-    try {
-      // Verify TOTP code if using authenticator
-      if (mfaMethod === "totp" && totpSecret) {
-        const isValidTotp = verifyTotpToken(otpCode, totpSecret);
-        if (!isValidTotp) {
-          toast({
-            title: "Invalid Authenticator Code",
-            description: "The code you entered is incorrect. Please try again.",
-            variant: "destructive",
-          });
-          setOtpCode("");
-          return;
-        }
+    const codeLength = mfaMethod === "totp" ? totpDigits : 6;
+    if (!useBackupCode && mfaMethod !== "hotp" && code.length !== codeLength) {
+      toast({
+        title: "Invalid OTP",
+        description: `Please enter a valid ${codeLength}-digit code.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await completeMfa({ method, code });
+  };
+
+  // The key signs a server challenge tied to this sign-in; the assertion goes to /verify-mfa
+  const handleSecurityKeyVerify = async () => {
+    setIsWaitingForKey(true);
+    const assertion = await authenticateWithSecurityKey(() => getWebAuthnLoginOptions(mfaChallenge));
+    setIsWaitingForKey(false);
+
+    if (!assertion.success || !assertion.response) {
+      if (assertion.challengeExpired) {
+        setChallengeExpired(true);
+      }
+      toast({
+        title: "Security Key Not Verified",
+        description: assertion.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await completeMfa({ method: "webauthn", webauthnResponse: assertion.response });
+  };
+
+  // The access token is held by the session service; only the profile is kept locally
+  const enterDashboard = (user: AuthUser & { fullName?: string }, description: string) => {
+    localStorage.setItem('userRole', userType);
+    localStorage.setItem('userData', JSON.stringify(user));
+
+    toast({
+      title: "Authentication Successful",
+      description,
+    });
+
+    // Navigate to role-specific dashboard; an account pending MFA enrollment stays here to enrol first
+    const redirectUrl = user.mfaEnrollmentRequired
+      ? ROLE_REGISTRY[userType as RoleKey].dashboardPath
+      : getRoleRedirect(userType as RoleKey);
+    setTimeout(() => {
+      if (redirectUrl.startsWith("http")) {
+        window.location.href = redirectUrl;
+      } else {
+        navigate(redirectUrl);
       }
+    }, 1000);
+  };
+
+  const completeMfa = async (factor: {
+    method: MfaVerificationMethod;
+    code?: string;
+    webauthnResponse?: AuthenticationResponseJSON;
+  }) => {
+    const { method } = factor;
 
-      // Call backend MFA verification API
+    try {
+      // Call backend MFA verification API - the server is the only gate
       const result = await verifyMfa({
-        userId,
-        method: mfaMethod,
-        code: otpCode,
-        totpSecret: mfaMethod === "totp" ? totpSecret : undefined,
+        mfaChallenge,
+        ...factor,
+        trustDevice: canTrustDevice && trustThisDevice,
+        totpDigits,
       });
 
-      if (result.success && result.token) {
-        clearOtpTimer();
-        setOtpCountdown(0);
-        setOtpSent(false);
-        
-        // Store authentication token
-        localStorage.setItem('authToken', result.token);
-        localStorage.setItem('userRole', userType);
-        
-        toast({
-          title: "Authentication Successful",
-          description: "Redirecting to dashboard...",
-        });
-        
-        // Navigate to role-specific dashboard
-        const redirectUrl = getRoleBasedRedirect(userType as RoleKey);
-        setTimeout(() => {
-          if (redirectUrl.startsWith("http")) {
-            window.location.href = redirectUrl;
-          } else {
-            navigate(redirectUrl);
-          }
-        }, 1000);
+      if (result.success && result.token && result.user) {
+        emailOtp.resetOtp();
+        setMfaChallenge("");
+
+        enterDashboard(
+          result.user,
+          result.deviceTrusted
+            ? "This device is now trusted. Redirecting to dashboard..."
+            : "Redirecting to dashboard..."
+        );
+
+        if (method === "backup" && typeof result.backupCodesRemaining === "number") {
+          toast({
+            title: "Backup Code Used",
+            description: result.backupCodesRemaining > 0
+              ? `${result.backupCodesRemaining} backup codes remaining. Regenerate them from Security Settings if you are running low.`
+              : "That was your last backup code. Regenerate new codes from Security Settings.",
+            variant: result.backupCodesRemaining > 2 ? "default" : "destructive",
+          });
+        }
       } else {
+        if (result.challengeExpired) {
+          setChallengeExpired(true);
+        }
         toast({
           title: "Verification Failed",
-          description: result.message || "Invalid verification code.",
+          description: typeof result.attemptsRemaining === "number" && !result.challengeExpired
+            ? `${result.message || "Invalid verification code."} ${result.attemptsRemaining} attempts remaining.`
+            : result.message || "Invalid verification code.",
           variant: "destructive",
         });
         setOtpCode("");
+        setBackupCode("");
+        emailOtp.setOtpCode("");
       }
     } catch (error) {
       console.error('MFA verification error:', error);
@@ -585,6 +733,7 @@ const LoginForm = () => {
         variant: "destructive",
       });
       setOtpCode("");
+      emailOtp.setOtpCode("");
     }
   };
   let pageContent: JSX.Element;
@@ -600,19 +749,28 @@ const LoginForm = () => {
         <Alert variant="destructive">
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
-            Too many failed attempts. Your account is temporarily locked for {lockoutTime} minutes. Contact Admin or wait for the lockout period to expire.
+            Too many failed attempts. Your account is temporarily locked. Request an unlock from an administrator or wait for the lockout period to expire.
           </AlertDescription>
         </Alert>
 
         <div className="text-center py-8">
           <div className="text-6xl font-bold text-[hsl(213,100%,18%)] mb-2">
-            {lockoutTime}:00
+            {formatCountdown(lockSecondsLeft)}
           </div>
           <p className="text-sm text-[hsl(0,0%,31%)]">Time remaining</p>
         </div>
 
-        <Button disabled className="w-full" size="lg">
-          Request Unlock (Disabled)
+        <Button
+          className="w-full"
+          size="lg"
+          disabled={unlockRequested}
+          onClick={() => setShowUnlockDialog(true)}
+        >
+          {unlockRequested ? "Unlock Requested" : "Request Unlock"}
+        </Button>
+
+        <Button variant="outline" className="w-full" onClick={handleUseDifferentAccount}>
+          Use a Different Account
         </Button>
 
         <div className="text-center">
@@ -630,161 +788,310 @@ const LoginForm = () => {
           <p className="text-sm text-[hsl(0,0%,31%)] mt-2">Secure your access with MFA</p>
         </div>
 
-        <Alert>
-          <Shield className="h-4 w-4" />
-          <AlertDescription>
-            Choose your preferred authentication method
-          </AlertDescription>
-        </Alert>
+        {challengeExpired ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="space-y-3">
+              <p>Your verification window has expired. Sign in again to receive a new challenge.</p>
+              <Button type="button" variant="outline" size="sm" onClick={handleStartOver}>
+                Start Over
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert>
+            <Shield className="h-4 w-4" />
+            <AlertDescription>
+              Choose your preferred authentication method. Complete verification within{" "}
+              {formatCountdown(challengeSecondsLeft)}.
+            </AlertDescription>
+          </Alert>
+        )}
 
         <form onSubmit={handleMFAVerify} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="mfa-option">MFA Method</Label>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3" role="radiogroup" id="mfa-option">
-              <button
-                type="button"
-                onClick={() => handleMfaMethodChange("totp")}
-                className={`rounded-lg border p-4 text-left transition shadow-sm hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
-                  mfaMethod === "totp"
-                    ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
-                    : "border-[hsl(213,100%,18%)]/20 bg-white"
-                }`}
-                role="radio"
-                aria-checked={mfaMethod === "totp"}
-              >
-                <div className="flex items-center gap-3">
-                  <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                    mfaMethod === "totp"
-                      ? "bg-[hsl(213,100%,18%)] text-white"
-                      : "bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]"
-                  }`}>
-                    <Shield className="w-5 h-5" />
-                  </div>
-                  <div>
-                    <p className="font-semibold text-[hsl(213,100%,18%)]">Authenticator App</p>
-                    <p className="text-xs text-[hsl(0,0%,45%)]">
-                      Use TOTP codes from your registered authenticator.
-                    </p>
-                  </div>
-                </div>
-              </button>
-
-              <button
-                type="button"
-                onClick={() => handleMfaMethodChange("email")}
-                className={`rounded-lg border p-4 text-left transition shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
-                  mfaMethod === "email"
-                    ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
-                    : "border-[hsl(213,100%,18%)]/20 bg-white"
-                } ${currentRoleConfig?.enforcedMfaMethod === "totp" ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"}`}
-                role="radio"
-                aria-checked={mfaMethod === "email"}
-                aria-disabled={currentRoleConfig?.enforcedMfaMethod === "totp"}
-                disabled={currentRoleConfig?.enforcedMfaMethod === "totp"}
-              >
-                <div className="flex items-center gap-3">
-                  <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                    mfaMethod === "email"
-                      ? "bg-[hsl(213,100%,18%)] text-white"
-                      : "bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]"
-                  }`}>
-                    <Smartphone className="w-5 h-5" />
-                  </div>
-                  <div>
-                    <p className="font-semibold text-[hsl(213,100%,18%)]">Email OTP</p>
-                    <p className="text-xs text-[hsl(0,0%,30%)]">Receive one-time codes via email.</p>
-                  </div>
-                </div>
-              </button>
-            </div>
-            {currentRoleConfig?.enforcedMfaMethod === "totp" && (
-              <p className="text-xs text-[hsl(0,0%,45%)]">
-                Authenticator-based MFA is enforced for this role.
-              </p>
-            )}
-          </div>
-
-          {mfaMethod === "email" && (
+          {useBackupCode ? (
             <div className="space-y-2">
-              <Label htmlFor="emailOtp">Enter OTP Code</Label>
+              <Label htmlFor="backupCode">Backup Code</Label>
               <Input
-                id="emailOtp"
+                id="backupCode"
                 type="text"
                 inputMode="numeric"
-                pattern="\d*"
-                placeholder="000000"
-                maxLength={6}
-                value={otpCode}
-                onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+                autoComplete="off"
+                placeholder="XXXX-XXXX"
+                maxLength={9}
+                value={backupCode}
+                onChange={(e) => handleBackupCodeChange(e.target.value)}
+                className="text-center text-2xl tracking-widest"
               />
-              <p className="text-xs text-[hsl(0,0%,24%)]">Check your email for the 6-digit code.</p>
-              <div className="flex flex-wrap items-center gap-3 pt-1">
-                <Button
-                  type="button"
-                  variant="secondary"
-                  onClick={handleSendOtp}
-                  disabled={otpCountdown > 0}
-                >
-                  {otpSent
-                    ? otpCountdown > 0
-                      ? `Resend in ${formatCountdown(otpCountdown)}`
-                      : "Resend OTP"
-                    : "Send OTP"}
-                </Button>
-                {otpSent && (
-                  <p
-                    className={`text-xs ${
-                      otpCountdown > 0
-                        ? "text-[hsl(122,39%,49%)]"
-                        : "text-[hsl(0,84%,60%)]"
+              <p className="text-xs text-[hsl(0,0%,24%)]">
+                Enter one of the backup codes you saved during registration. Each code works only once.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="mfa-option">MFA Method</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3" role="radiogroup" id="mfa-option">
+                  <button
+                    type="button"
+                    onClick={() => handleMfaMethodChange("totp")}
+                    className={`rounded-lg border p-4 text-left transition shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
+                      mfaMethod === "totp"
+                        ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
+                        : "border-[hsl(213,100%,18%)]/20 bg-white"
+                    } ${totpBlocked ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"}`}
+                    role="radio"
+                    aria-checked={mfaMethod === "totp"}
+                    aria-disabled={totpBlocked}
+                    disabled={totpBlocked}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                        mfaMethod === "totp"
+                          ? "bg-[hsl(213,100%,18%)] text-white"
+                          : "bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]"
+                      }`}>
+                        <Shield className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-[hsl(213,100%,18%)]">Authenticator App</p>
+                        <p className="text-xs text-[hsl(0,0%,45%)]">
+                          Use TOTP codes from your registered authenticator.
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+
+                  <button
+                    type="button"
+                    onClick={() => handleMfaMethodChange("email")}
+                    className={`rounded-lg border p-4 text-left transition shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
+                      mfaMethod === "email"
+                        ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
+                        : "border-[hsl(213,100%,18%)]/20 bg-white"
+                    } ${emailBlocked ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"}`}
+                    role="radio"
+                    aria-checked={mfaMethod === "email"}
+                    aria-disabled={emailBlocked}
+                    disabled={emailBlocked}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                        mfaMethod === "email"
+                          ? "bg-[hsl(213,100%,18%)] text-white"
+                          : "bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]"
+                      }`}>
+                        <Smartphone className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-[hsl(213,100%,18%)]">Email OTP</p>
+                        <p className="text-xs text-[hsl(0,0%,30%)]">Receive one-time codes via email.</p>
+                      </div>
+                    </div>
+                  </button>
+
+                  <button
+                    type="button"
+                    onClick={() => handleMfaMethodChange("webauthn")}
+                    className={`rounded-lg border p-4 text-left transition shadow-sm hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
+                      mfaMethod === "webauthn"
+                        ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
+                        : "border-[hsl(213,100%,18%)]/20 bg-white"
                     }`}
+                    role="radio"
+                    aria-checked={mfaMethod === "webauthn"}
                   >
-                    {otpCountdown > 0
-                      ? `OTP sent to ${email}. Valid for ${formatCountdown(otpCountdown)}.`
-                      : "OTP expired. Tap resend to get a fresh code."}
+                    <div className="flex items-center gap-3">
+                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                        mfaMethod === "webauthn"
+                          ? "bg-[hsl(213,100%,18%)] text-white"
+                          : "bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]"
+                      }`}>
+                        <KeyRound className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-[hsl(213,100%,18%)]">Security Key</p>
+                        <p className="text-xs text-[hsl(0,0%,30%)]">Tap your registered FIDO2 key.</p>
+                      </div>
+                    </div>
+                  </button>
+
+                  <button
+                    type="button"
+                    onClick={() => handleMfaMethodChange("hotp")}
+                    className={`rounded-lg border p-4 text-left transition shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
+                      mfaMethod === "hotp"
+                        ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
+                        : "border-[hsl(213,100%,18%)]/20 bg-white"
+                    } ${hotpBlocked ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"}`}
+                    role="radio"
+                    aria-checked={mfaMethod === "hotp"}
+                    aria-disabled={hotpBlocked}
+                    disabled={hotpBlocked}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                        mfaMethod === "hotp"
+                          ? "bg-[hsl(213,100%,18%)] text-white"
+                          : "bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]"
+                      }`}>
+                        <Key className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <p className="font-semibold text-[hsl(213,100%,18%)]">Hardware Token</p>
+                        <p className="text-xs text-[hsl(0,0%,30%)]">Press the button on your issued OTP token.</p>
+                      </div>
+                    </div>
+                  </button>
+                </div>
+                {mfaEnrollmentRequired ? (
+                  <p className="text-xs text-[hsl(25,95%,60%)]">
+                    An administrator reset your MFA. Sign in with an email code, then set up a new method before continuing.
+                  </p>
+                ) : currentRoleConfig?.enforcedMfaMethod && currentRoleConfig.enforcedMfaMethod !== "email" && (
+                  <p className="text-xs text-[hsl(0,0%,45%)]">
+                    {getEnforcedMfaMessage(currentRoleConfig.enforcedMfaMethod)}
                   </p>
                 )}
               </div>
-            </div>
+
+              {mfaMethod === "email" && (
+                <div className="space-y-2">
+                  <Label htmlFor="emailOtp">Enter OTP Code</Label>
+                  <Input
+                    id="emailOtp"
+                    type="text"
+                    inputMode="numeric"
+                    pattern="\d*"
+                    placeholder="000000"
+                    maxLength={6}
+                    value={emailOtp.otpCode}
+                    onChange={(e) => emailOtp.setOtpCode(e.target.value)}
+                    aria-invalid={Boolean(emailOtp.otpError)}
+                  />
+                  {emailOtp.otpError ? (
+                    <p className="text-xs text-[hsl(0,84%,60%)]">{emailOtp.otpError}</p>
+                  ) : (
+                    <p className="text-xs text-[hsl(0,0%,24%)]">Check your email for the 6-digit code.</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-3 pt-1">
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      onClick={handleSendOtp}
+                      disabled={emailOtp.otpCountdown > 0 || emailOtp.isSending || challengeExpired}
+                    >
+                      {emailOtp.otpSent
+                        ? emailOtp.otpCountdown > 0
+                          ? `Resend in ${formatCountdown(emailOtp.otpCountdown)}`
+                          : "Resend OTP"
+                        : "Send OTP"}
+                    </Button>
+                    {emailOtp.otpSent && (
+                      <p
+                        className={`text-xs ${
+                          emailOtp.otpCountdown > 0
+                            ? "text-[hsl(122,39%,49%)]"
+                            : "text-[hsl(0,84%,60%)]"
+                        }`}
+                      >
+                        {emailOtp.otpCountdown > 0
+                          ? `OTP sent to ${maskEmail(email)}. Valid for ${formatCountdown(emailOtp.otpCountdown)}.`
+                          : "OTP expired. Tap resend to get a fresh code."}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {mfaMethod === "webauthn" && (
+                <div className="space-y-2">
+                  <Label>Security Key</Label>
+                  <p className="text-xs text-[hsl(0,0%,24%)]">
+                    {isWaitingForKey
+                      ? "Waiting for your security key... insert or tap it now."
+                      : "Select Verify & Login, then insert or tap the security key you registered."}
+                  </p>
+                </div>
+              )}
+
+              {mfaMethod === "totp" && (
+                <div className="space-y-2">
+                  <Label htmlFor="otp">Authenticator Code</Label>
+                  <Input
+                    id="otp"
+                    type="text"
+                    placeholder={`Enter ${totpDigits}-digit code`}
+                    maxLength={totpDigits}
+                    value={otpCode}
+                    onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, ""))}
+                    className="text-center text-2xl tracking-widest"
+                  />
+                  <p className="text-xs text-[hsl(0,0%,24%)]">
+                    Enter the code from your authenticator app
+                  </p>
+                </div>
+              )}
+
+              {mfaMethod === "hotp" && (
+                <div className="space-y-2">
+                  <Label htmlFor="hotp">Hardware Token Code</Label>
+                  <Input
+                    id="hotp"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    placeholder="Press the button and enter the code"
+                    maxLength={HOTP_MAX_DIGITS}
+                    value={otpCode}
+                    onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, ""))}
+                    className="text-center text-2xl tracking-widest"
+                  />
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-[hsl(0,0%,24%)]">Each code works once.</p>
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="px-0"
+                      onClick={() => setShowResyncDialog(true)}
+                      disabled={challengeExpired}
+                    >
+                      Codes not accepted? Resync token
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
           )}
 
-          {mfaMethod === "totp" && (
-            <div className="space-y-2">
-              <Label htmlFor="otp">Authenticator Code</Label>
-              <Input
-                id="otp"
-                type="text"
-                placeholder="Enter 6-digit code"
-                maxLength={6}
-                value={otpCode}
-                onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, ""))}
-                className="text-center text-2xl tracking-widest"
+          {canTrustDevice && (
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="remember"
+                className="rounded"
+                checked={trustThisDevice}
+                onChange={(e) => setTrustThisDevice(e.target.checked)}
               />
-              <p className="text-xs text-[hsl(0,0%,24%)]">
-                Enter the code from your authenticator app
-              </p>
+              <Label htmlFor="remember" className="text-sm font-normal cursor-pointer">
+                Trust this device and skip MFA on future sign-ins
+              </Label>
             </div>
           )}
 
-          <div className="flex items-center gap-2">
-            <input type="checkbox" id="remember" className="rounded" />
-            <Label htmlFor="remember" className="text-sm font-normal cursor-pointer">
-              Remember this device for 1 week
-            </Label>
-          </div>
-
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pt-2">
             <Button type="button" variant="outline" onClick={() => setCurrentStep(2)}>
               Back
             </Button>
-            <Button type="submit" className="w-full" size="lg">
+            <Button type="submit" className="w-full" size="lg" disabled={challengeExpired || isWaitingForKey}>
               Verify & Login
             </Button>
           </div>
 
           <div className="text-center">
-            <Button variant="link" size="sm">
-              Use backup code
+            <Button type="button" variant="link" size="sm" onClick={toggleBackupCode} disabled={challengeExpired}>
+              {useBackupCode ? "Use your MFA method instead" : "Use a backup code"}
             </Button>
           </div>
         </form>
@@ -851,11 +1158,11 @@ const LoginForm = () => {
           </div>
         </div>
 
-        {failedAttempts > 0 && failedAttempts < 3 && (
+        {lockout && !lockout.locked && (
           <Alert variant="destructive">
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              {failedAttempts} failed attempt(s). {3 - failedAttempts} remaining before lockout.
+              Failed sign-in attempt. {lockout.attemptsRemaining} attempt(s) remaining before lockout.
             </AlertDescription>
           </Alert>
         )}
@@ -999,7 +1306,16 @@ const LoginForm = () => {
         {currentStep === 2 && (
           <form onSubmit={handleLogin} className="space-y-5">
             <div className="space-y-2">
-              <Label htmlFor="password">Password *</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password *</Label>
+                <button
+                  type="button"
+                  onClick={() => navigate("/reset-password")}
+                  className="text-xs text-[hsl(207,90%,54%)] hover:underline"
+                >
+                  Forgot password?
+                </button>
+              </div>
               <div className="relative">
                 <Input
                   id="password"
@@ -1149,6 +1465,21 @@ const LoginForm = () => {
           </DialogContent>
         </Dialog>
 
+        <HardwareTokenResyncDialog
+          open={showResyncDialog}
+          onOpenChange={setShowResyncDialog}
+          mfaChallenge={mfaChallenge}
+          onChallengeExpired={() => setChallengeExpired(true)}
+        />
+
+        <UnlockRequestDialog
+          open={showUnlockDialog}
+          onOpenChange={setShowUnlockDialog}
+          identifier={showServiceIdField ? serviceId : email}
+          role={userType}
+          onSubmitted={() => setUnlockRequested(true)}
+        />
+
         {/* NCRP Redirect Modal */}
         <Dialog open={showNCRPModal} onOpenChange={setShowNCRPModal}>
           <DialogContent>
@@ -1,21 +1,26 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import type { LucideIcon } from "lucide-react";
-import { Shield, Smartphone, CheckCircle2, Clock, Info, Eye, EyeOff, ArrowLeft, Users, Medal, Radar, Cpu, ChevronDown } from "lucide-react";
+import { Shield, Smartphone, KeyRound, CheckCircle2, Clock, Info, Eye, EyeOff, ArrowLeft, Users, Medal, Radar, Cpu, ChevronDown } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { roleConfigurations, roleOptions, RoleKey, RoleConfig, defenceEmailPattern } from "@/lib/roleConfig";
+import { roleConfigurations, roleOptions, RoleKey, RoleConfig, defenceEmailPattern, getRoleRedirect } from "@/lib/roleConfig";
 import { cn } from "@/lib/utils";
 import { useAuthPreview } from "./AuthLayout";
-import { setupTotp, verifyTotpToken, generateBackupCodes } from "@/lib/auth/totpService";
+import { setupTotp, verifyTotpToken, generateBackupCodes, getTotpParams } from "@/lib/auth/totpService";
 import type { TotpSetup } from "@/lib/auth/totpService";
-import { register } from "@/services/authService";
+import { register, getWebAuthnRegistrationOptions, checkRoster } from "@/services/authService";
+import { useEmailOtp } from "@/hooks/useEmailOtp";
+import type { MfaMethod } from "@/lib/auth/types";
+import { getEnforcedMfaMessage, isMfaMethodAllowed } from "@/lib/auth/mfaMethods";
+import { registerSecurityKey } from "@/lib/auth/webauthn";
+import type { RegistrationResponseJSON } from "@simplewebauthn/browser";
 import "./register-preview.css";
 import "./auth-stepper.css";
 
@@ -27,22 +32,6 @@ const formatCountdown = (seconds: number) => {
   return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
 };
 
-const getRoleBasedRedirect = (role: RoleKey): string => {
-  // Defence Personnel, Family Member/Dependent, Veteran/Retired Officer
-  if (role === "personnel" || role === "family" || role === "veteran") {
-    return "https://cyber-complaint-portal.vercel.app/";
-  }
-  // CERT Analyst - placeholder for now
-  if (role === "cert") {
-    return "/dashboard/cert"; // Will be updated later
-  }
-  // Admin / MoD Authority
-  if (role === "admin") {
-    return "https://cert-dashbord.vercel.app";
-  }
-  return "/dashboard";
-};
-
 const roleAvatarIconMap: Record<RoleKey, LucideIcon> = {
   personnel: Shield,
   family: Users,
@@ -59,16 +48,15 @@ const RegisterForm = () => {
   const [userType, setUserType] = useState<RoleKey | "">("");
   const [serviceId, setServiceId] = useState("");
   const [serviceIdError, setServiceIdError] = useState("");
-  const [mfaMethod, setMfaMethod] = useState<"totp" | "email">("totp");
+  const [sponsorServiceId, setSponsorServiceId] = useState("");
+  const [sponsorServiceIdError, setSponsorServiceIdError] = useState("");
+  const [isCheckingRoster, setIsCheckingRoster] = useState(false);
+  const [mfaMethod, setMfaMethod] = useState<MfaMethod>("totp");
   const [agreedToTerms, setAgreedToTerms] = useState(false);
   const [activationPassword, setActivationPassword] = useState("");
   const [activationPasswordError, setActivationPasswordError] = useState("");
   const [showPassword, setShowPassword] = useState(false);
-  const [emailOtp, setEmailOtp] = useState("");
-  const [emailOtpError, setEmailOtpError] = useState("");
-  const [otpSent, setOtpSent] = useState(false);
-  const [otpCountdown, setOtpCountdown] = useState(0);
-  const otpTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const mfaEmailOtp = useEmailOtp({ purpose: "registration" });
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3 | 4>(1);
   const [hasActivatedPreview, setHasActivatedPreview] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
@@ -80,13 +68,13 @@ const RegisterForm = () => {
   const [totpCode, setTotpCode] = useState("");
   const [totpError, setTotpError] = useState("");
   const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [securityKeyResponse, setSecurityKeyResponse] = useState<RegistrationResponseJSON | null>(null);
+  const [securityKeyError, setSecurityKeyError] = useState("");
+  const [isRegisteringKey, setIsRegisteringKey] = useState(false);
   // Email verification for Step 1
-  const [emailVerificationOtp, setEmailVerificationOtp] = useState("");
-  const [emailVerificationSent, setEmailVerificationSent] = useState(false);
-  const [emailVerificationCountdown, setEmailVerificationCountdown] = useState(0);
+  const emailVerification = useEmailOtp({ purpose: "registration" });
   const [isEmailVerified, setIsEmailVerified] = useState(false);
-  const [emailVerificationError, setEmailVerificationError] = useState("");
-  const emailVerificationTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [emailVerificationToken, setEmailVerificationToken] = useState("");
   const { toast } = useToast();
 
   const steps = [
@@ -100,6 +88,7 @@ const RegisterForm = () => {
     () => (userType ? roleConfigurations[userType] : undefined),
     [userType]
   );
+  const totpDigits = totpSetup?.params.digits ?? getTotpParams(currentRoleConfig).digits;
 
   const roleSecurityMessages = useMemo(
     () =>
@@ -338,28 +327,7 @@ const RegisterForm = () => {
     }
   }, [hasActivatedPreview, previewContent, setPreviewContent]);
 
-  const clearOtpTimer = () => {
-    if (otpTimerRef.current) {
-      clearInterval(otpTimerRef.current);
-      otpTimerRef.current = null;
-    }
-  };
-
-  const startOtpCountdown = () => {
-    clearOtpTimer();
-    setOtpCountdown(60);
-    otpTimerRef.current = setInterval(() => {
-      setOtpCountdown((prev) => {
-        if (prev <= 1) {
-          clearOtpTimer();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-  };
-
-  const handleSendOtp = () => {
+  const handleSendOtp = async () => {
     if (!email || !email.trim()) {
       toast({
         title: "Update Email Address",
@@ -369,10 +337,16 @@ const RegisterForm = () => {
       return;
     }
 
-    setEmailOtp("");
-    setEmailOtpError("");
-    setOtpSent(true);
-    startOtpCountdown();
+    const sent = await mfaEmailOtp.sendOtp(email);
+    if (!sent) {
+      toast({
+        title: "OTP Not Sent",
+        description: "We couldn't send a one-time code. Please try again shortly.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     toast({
       title: "OTP Sent",
       description: `A one-time code has been dispatched to ${email}.`,
@@ -380,28 +354,7 @@ const RegisterForm = () => {
   };
 
   // Email Verification Functions for Step 1
-  const clearEmailVerificationTimer = () => {
-    if (emailVerificationTimerRef.current) {
-      clearInterval(emailVerificationTimerRef.current);
-      emailVerificationTimerRef.current = null;
-    }
-  };
-
-  const startEmailVerificationCountdown = () => {
-    clearEmailVerificationTimer();
-    setEmailVerificationCountdown(60);
-    emailVerificationTimerRef.current = setInterval(() => {
-      setEmailVerificationCountdown((prev) => {
-        if (prev <= 1) {
-          clearEmailVerificationTimer();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-  };
-
-  const handleSendEmailVerification = () => {
+  const handleSendEmailVerification = async () => {
     if (!email || !email.trim()) {
       toast({
         title: "Email Required",
@@ -422,33 +375,42 @@ const RegisterForm = () => {
       return;
     }
 
-    setEmailVerificationOtp("");
-    setEmailVerificationError("");
-    setEmailVerificationSent(true);
     setIsEmailVerified(false);
-    startEmailVerificationCountdown();
+    setEmailVerificationToken("");
+    const sent = await emailVerification.sendOtp(email);
+    if (!sent) {
+      toast({
+        title: "Code Not Sent",
+        description: "We couldn't send a verification code. Please try again shortly.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     toast({
       title: "Verification Code Sent",
       description: `A 6-digit verification code has been sent to ${email}.`,
     });
   };
 
-  const handleVerifyEmail = () => {
-    if (emailVerificationOtp.length !== 6) {
-      setEmailVerificationError("Enter the 6-digit code sent to your email.");
+  const handleVerifyEmail = async () => {
+    if (emailVerification.otpCode.length !== 6) {
+      emailVerification.setOtpError("Enter the 6-digit code sent to your email.");
+      return;
+    }
+
+    if (emailVerification.otpCountdown === 0) {
+      emailVerification.setOtpError("Code expired. Please request a new one.");
       return;
     }
 
-    if (emailVerificationCountdown === 0) {
-      setEmailVerificationError("Code expired. Please request a new one.");
+    const result = await emailVerification.verifyOtp(email);
+    if (!result?.success) {
       return;
     }
 
-    // Mock verification - in production, verify against backend
-    // For demo, accept any 6-digit code
-    clearEmailVerificationTimer();
     setIsEmailVerified(true);
-    setEmailVerificationError("");
+    setEmailVerificationToken(result.verificationToken ?? "");
     toast({
       title: "Email Verified",
       description: "Your email has been successfully verified.",
@@ -456,11 +418,7 @@ const RegisterForm = () => {
   };
 
   const handleEmailVerificationOtpChange = (value: string) => {
-    const cleaned = value.replace(/\D/g, "").slice(0, 6);
-    setEmailVerificationOtp(cleaned);
-    if (emailVerificationError) {
-      setEmailVerificationError("");
-    }
+    emailVerification.setOtpCode(value);
   };
 
   const computeNormalizedId = (value: string, config?: RoleConfig) => {
@@ -523,13 +481,10 @@ const RegisterForm = () => {
     setEmail(value);
     evaluateEmailAgainstRole(currentRoleConfig, value, userType || undefined);
     // Reset email verification when email changes
-    if (isEmailVerified || emailVerificationSent) {
+    if (isEmailVerified || emailVerification.otpSent) {
       setIsEmailVerified(false);
-      setEmailVerificationSent(false);
-      setEmailVerificationOtp("");
-      setEmailVerificationError("");
-      clearEmailVerificationTimer();
-      setEmailVerificationCountdown(0);
+      setEmailVerificationToken("");
+      emailVerification.resetOtp();
     }
   };
 
@@ -538,14 +493,12 @@ const RegisterForm = () => {
     setUserType(roleKey);
     setServiceId("");
     setServiceIdError("");
+    setSponsorServiceId("");
+    setSponsorServiceIdError("");
     setActivationPassword("");
     setActivationPasswordError("");
     setShowPassword(false);
-    setEmailOtp("");
-    setEmailOtpError("");
-    clearOtpTimer();
-    setOtpSent(false);
-    setOtpCountdown(0);
+    mfaEmailOtp.resetOtp();
     evaluateEmailAgainstRole(roleConfigurations[roleKey], undefined, roleKey);
     const enforcedMethod = roleConfigurations[roleKey]?.enforcedMfaMethod;
     setMfaMethod(enforcedMethod ?? "totp");
@@ -559,25 +512,20 @@ const RegisterForm = () => {
     }
   };
 
-  const handleMfaMethodChange = (value: string) => {
-    if (currentRoleConfig?.enforcedMfaMethod) {
-      setMfaMethod(currentRoleConfig.enforcedMfaMethod as "totp" | "email");
-      return;
+  const handleSponsorServiceIdChange = (rawValue: string) => {
+    setSponsorServiceId(computeNormalizedId(rawValue, roleConfigurations.personnel));
+    if (sponsorServiceIdError) {
+      setSponsorServiceIdError("");
     }
+  };
 
-    setMfaMethod(value === "email" ? "email" : "totp");
-    if (value === "email") {
-      setEmailOtp("");
-      setEmailOtpError("");
-      setOtpSent(false);
-      setOtpCountdown(0);
-    } else {
-      setEmailOtp("");
-      setEmailOtpError("");
-      clearOtpTimer();
-      setOtpSent(false);
-      setOtpCountdown(0);
+  const handleMfaMethodChange = (value: MfaMethod) => {
+    if (!isMfaMethodAllowed(value, currentRoleConfig?.enforcedMfaMethod)) {
+      return;
     }
+
+    setMfaMethod(value);
+    mfaEmailOtp.resetOtp();
   };
 
   const handleActivationPasswordChange = (value: string) => {
@@ -588,11 +536,7 @@ const RegisterForm = () => {
   };
 
   const handleEmailOtpChange = (rawValue: string) => {
-    const cleaned = rawValue.replace(/\D/g, "").slice(0, 6);
-    setEmailOtp(cleaned);
-    if (emailOtpError) {
-      setEmailOtpError("");
-    }
+    mfaEmailOtp.setOtpCode(rawValue);
   };
 
   const validateServiceId = (value: string, config: RoleConfig) => {
@@ -658,23 +602,18 @@ const RegisterForm = () => {
   };
 
   useEffect(() => {
-    if (currentRoleConfig?.enforcedMfaMethod && mfaMethod !== currentRoleConfig.enforcedMfaMethod) {
-      setMfaMethod(currentRoleConfig.enforcedMfaMethod);
+    const enforcedMethod = currentRoleConfig?.enforcedMfaMethod;
+    if (enforcedMethod && !isMfaMethodAllowed(mfaMethod, enforcedMethod)) {
+      setMfaMethod(enforcedMethod);
     }
   }, [currentRoleConfig?.enforcedMfaMethod, mfaMethod]);
 
+  const { resetOtp: resetMfaEmailOtp } = mfaEmailOtp;
   useEffect(() => {
     if (!showMFASetup || mfaMethod !== "email") {
-      clearOtpTimer();
-      setOtpSent(false);
-      setOtpCountdown(0);
+      resetMfaEmailOtp();
     }
-  }, [showMFASetup, mfaMethod]);
-
-  useEffect(() => () => clearOtpTimer(), []);
-
-  // Cleanup email verification timer on unmount
-  useEffect(() => () => clearEmailVerificationTimer(), []);
+  }, [showMFASetup, mfaMethod, resetMfaEmailOtp]);
 
   const handleIdentityStep = (e: React.FormEvent) => {
     e.preventDefault();
@@ -713,7 +652,7 @@ const RegisterForm = () => {
     setCurrentStep(2);
   };
 
-  const handleServiceStep = (e: React.FormEvent) => {
+  const handleServiceStep = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!userType) {
@@ -739,6 +678,17 @@ const RegisterForm = () => {
       return;
     }
 
+    if (config.requiresSponsor && !roleConfigurations.personnel.idPattern.test(sponsorServiceId)) {
+      const message = `Enter your sponsor's Service ID. ${roleConfigurations.personnel.idValidationMessage}`;
+      setSponsorServiceIdError(message);
+      toast({
+        title: "Check your sponsor",
+        description: message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (emailError) {
       toast({
         title: "Resolve Email Requirement",
@@ -748,6 +698,23 @@ const RegisterForm = () => {
       return;
     }
 
+    // Roles with an imported roster only accept listed IDs; catch mismatches before the security steps.
+    // A failed check does not block here: registration repeats it on the server.
+    setIsCheckingRoster(true);
+    const rosterCheck = await checkRoster({ role: userType, serviceId: normalizedId, email, fullName });
+    setIsCheckingRoster(false);
+
+    if (rosterCheck.success && rosterCheck.mismatches && rosterCheck.mismatches.length > 0) {
+      const message = rosterCheck.mismatches.map((mismatch) => mismatch.message).join(" ");
+      setServiceIdError(message);
+      toast({
+        title: "Not on the authorised roster",
+        description: message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     toast({
       title: "Service Details Saved",
       description: "Configure security preferences.",
@@ -800,7 +767,8 @@ const RegisterForm = () => {
         // Generate TOTP setup if TOTP method is selected
         if (mfaMethod === "totp") {
           try {
-            const setup = await setupTotp(email, "SecureDefence");
+            // The server stores the same role parameters for this account
+            const setup = await setupTotp(email, "SecureDefence", getTotpParams(currentRoleConfig));
             const codes = generateBackupCodes(10);
             setTotpSetup(setup);
             setBackupCodes(codes);
@@ -814,6 +782,13 @@ const RegisterForm = () => {
             return;
           }
         }
+
+        // Security key accounts also get backup codes in case the key is lost
+        if (mfaMethod === "webauthn") {
+          setSecurityKeyResponse(null);
+          setSecurityKeyError("");
+          setBackupCodes(generateBackupCodes(10));
+        }
         
         toast({
           title: "Verification Successful",
@@ -829,10 +804,99 @@ const RegisterForm = () => {
     }, 2500);
   };
 
+  /**
+   * Create the account with the chosen MFA details, then redirect.
+   * Returns false when the server rejected the registration.
+   */
+  const submitRegistration = async (mfaDetails: {
+    mfaMethod: MfaMethod;
+    totpSecret?: string;
+    webauthnResponse?: RegistrationResponseJSON;
+    backupCodes?: string[];
+    emailVerificationToken?: string;
+  }): Promise<boolean> => {
+    // Save user to database
+    try {
+      const result = await register({
+        fullName,
+        email,
+        mobile,
+        serviceId,
+        role: userType as string,
+        password: activationPassword,
+        sponsorServiceId: currentRoleConfig?.requiresSponsor ? sponsorServiceId : undefined,
+        ...mfaDetails,
+      });
+
+      if (!result.success) {
+        toast({
+          title: "Registration Failed",
+          description: result.message,
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      // Save user data; a session starts at the first sign-in
+      if (result.user) {
+        localStorage.setItem("userData", JSON.stringify(result.user));
+      }
+
+      toast({
+        title: "Registration Complete!",
+        description: result.message || "Redirecting to your dashboard...",
+      });
+
+      // Redirect to role-specific dashboard
+      if (userType) {
+        const redirectUrl = getRoleRedirect(userType);
+        setTimeout(() => {
+          if (redirectUrl.startsWith("http")) {
+            window.location.href = redirectUrl;
+          } else {
+            navigate(redirectUrl);
+          }
+        }, 1500);
+      }
+      return true;
+    } catch (error) {
+      console.error("Registration error:", error);
+      toast({
+        title: "Registration Failed",
+        description: "An error occurred. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleRegisterSecurityKey = async () => {
+    setIsRegisteringKey(true);
+    const result = await registerSecurityKey(() => getWebAuthnRegistrationOptions({ email, fullName }));
+    setIsRegisteringKey(false);
+
+    if (!result.success || !result.response) {
+      setSecurityKeyError(result.message);
+      toast({
+        title: "Security Key Not Registered",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSecurityKeyResponse(result.response);
+    setSecurityKeyError("");
+    toast({
+      title: "Security Key Ready",
+      description: "Complete setup to finish creating your account.",
+    });
+  };
+
   const handleCompleteMfaSetup = async () => {
     if (mfaMethod === "totp") {
-      if (totpCode.length !== 6) {
-        const message = "Enter the 6-digit code from your authenticator app.";
+      if (totpCode.length !== totpDigits) {
+        const message = `Enter the ${totpDigits}-digit code from your authenticator app.`;
         setTotpError(message);
         toast({
           title: "Verify Authenticator Code",
@@ -852,7 +916,7 @@ const RegisterForm = () => {
       }
 
       // Verify the TOTP token
-      const isValid = verifyTotpToken(totpCode, totpSetup.secret.base32);
+      const isValid = verifyTotpToken(totpCode, totpSetup.secret.base32, totpSetup.params);
       
       if (!isValid) {
         const message = "Invalid code. Please check your authenticator app and try again.";
@@ -865,71 +929,24 @@ const RegisterForm = () => {
         return;
       }
 
-      // Save user to database
-      try {
-        const result = await register({
-          fullName,
-          email,
-          mobile,
-          serviceId,
-          role: userType as string,
-          password: activationPassword,
-          mfaMethod: "totp",
-          totpSecret: totpSetup.secret.base32,
-          backupCodes,
-        });
-
-        if (!result.success) {
-          toast({
-            title: "Registration Failed",
-            description: result.message,
-            variant: "destructive",
-          });
-          return;
-        }
-
-        // Save token and user data
-        if (result.token) {
-          localStorage.setItem("authToken", result.token);
-        }
-        if (result.user) {
-          localStorage.setItem("userData", JSON.stringify(result.user));
-        }
+      const registered = await submitRegistration({
+        mfaMethod: "totp",
+        totpSecret: totpSetup.secret.base32,
+        backupCodes,
+        emailVerificationToken: emailVerificationToken || undefined,
+      });
 
-        // Success
+      if (registered) {
         setTotpCode("");
         setTotpError("");
-        toast({
-          title: "Registration Complete!",
-          description: "Redirecting to your dashboard...",
-        });
-
-        // Redirect to role-specific dashboard
-        if (userType) {
-          const redirectUrl = getRoleBasedRedirect(userType);
-          setTimeout(() => {
-            if (redirectUrl.startsWith("http")) {
-              window.location.href = redirectUrl;
-            } else {
-              navigate(redirectUrl);
-            }
-          }, 1500);
-        }
-      } catch (error) {
-        console.error("Registration error:", error);
-        toast({
-          title: "Registration Failed",
-          description: "An error occurred. Please try again.",
-          variant: "destructive",
-        });
       }
       return;
     }
 
     if (mfaMethod === "email") {
-      if (!otpSent) {
+      if (!mfaEmailOtp.otpSent) {
         const message = "Send the OTP to your email before completing setup.";
-        setEmailOtpError(message);
+        mfaEmailOtp.setOtpError(message);
         toast({
           title: "Send OTP",
           description: message,
@@ -938,9 +955,9 @@ const RegisterForm = () => {
         return;
       }
 
-      if (otpCountdown === 0) {
+      if (mfaEmailOtp.otpCountdown === 0) {
         const message = "Your OTP expired. Resend a new code to continue.";
-        setEmailOtpError(message);
+        mfaEmailOtp.setOtpError(message);
         toast({
           title: "OTP Expired",
           description: message,
@@ -949,9 +966,9 @@ const RegisterForm = () => {
         return;
       }
 
-      if (emailOtp.length !== 6) {
+      if (mfaEmailOtp.otpCode.length !== 6) {
         const message = "Enter the 6-digit code we just sent to your email.";
-        setEmailOtpError(message);
+        mfaEmailOtp.setOtpError(message);
         toast({
           title: "Verify Email Code",
           description: message,
@@ -960,79 +977,80 @@ const RegisterForm = () => {
         return;
       }
 
-      // Save user to database with email MFA
-      try {
-        const result = await register({
-          fullName,
-          email,
-          mobile,
-          serviceId,
-          role: userType as string,
-          password: activationPassword,
-          mfaMethod: "email",
+      // Confirm the code server-side before creating the account
+      const verification = await mfaEmailOtp.verifyOtp(email);
+      if (!verification?.success) {
+        toast({
+          title: "Invalid Code",
+          description: verification?.message ?? "Enter the 6-digit code we just sent to your email.",
+          variant: "destructive",
         });
+        return;
+      }
 
-        if (!result.success) {
-          toast({
-            title: "Registration Failed",
-            description: result.message,
-            variant: "destructive",
-          });
-          return;
-        }
-
-        // Save token and user data
-        if (result.token) {
-          localStorage.setItem("authToken", result.token);
-        }
-        if (result.user) {
-          localStorage.setItem("userData", JSON.stringify(result.user));
-        }
+      const registered = await submitRegistration({
+        mfaMethod: "email",
+        emailVerificationToken: verification.verificationToken,
+      });
 
-        clearOtpTimer();
-        setEmailOtp("");
-        setEmailOtpError("");
-        setOtpSent(false);
-        setOtpCountdown(0);
-        
-        toast({
-          title: "Registration Complete!",
-          description: "Redirecting to your dashboard...",
-        });
+      if (registered) {
+        mfaEmailOtp.resetOtp();
+      }
+      return;
+    }
 
-        // Redirect to role-specific dashboard
-        if (userType) {
-          const redirectUrl = getRoleBasedRedirect(userType);
-          setTimeout(() => {
-            if (redirectUrl.startsWith("http")) {
-              window.location.href = redirectUrl;
-            } else {
-              navigate(redirectUrl);
-            }
-          }, 1500);
-        }
-      } catch (error) {
-        console.error("Registration error:", error);
+    if (mfaMethod === "webauthn") {
+      if (!securityKeyResponse) {
+        const message = "Register your security key before completing setup.";
+        setSecurityKeyError(message);
         toast({
-          title: "Registration Failed",
-          description: "An error occurred. Please try again.",
+          title: "Register Security Key",
+          description: message,
           variant: "destructive",
         });
+        return;
+      }
+
+      const registered = await submitRegistration({
+        mfaMethod: "webauthn",
+        webauthnResponse: securityKeyResponse,
+        backupCodes,
+        emailVerificationToken: emailVerificationToken || undefined,
+      });
+
+      if (!registered) {
+        // The server consumed the registration challenge; the key has to be registered again
+        setSecurityKeyResponse(null);
       }
     }
   };
 
   const handleBackFromMfa = () => {
-    clearOtpTimer();
-    setEmailOtp("");
-    setEmailOtpError("");
-    setOtpSent(false);
-    setOtpCountdown(0);
+    mfaEmailOtp.resetOtp();
+    setSecurityKeyResponse(null);
+    setSecurityKeyError("");
     setShowMFASetup(false);
     setIsSubmitted(false);
     setCurrentStep(3);
   };
 
+  const totpBlocked = !isMfaMethodAllowed("totp", currentRoleConfig?.enforcedMfaMethod);
+  const emailBlocked = !isMfaMethodAllowed("email", currentRoleConfig?.enforcedMfaMethod);
+
+  const backupCodesPanel = (
+    <div className="bg-[hsl(25,95%,60%)]/10 border border-[hsl(25,95%,60%)]/20 p-4 rounded-lg space-y-2">
+      <h4 className="font-semibold text-sm">Backup Codes</h4>
+      <p className="text-xs text-[hsl(0,0%,31%)]">
+        Save these codes securely. Each can be used once if you lose access to your {mfaMethod === "webauthn" ? "security key" : "authenticator"}.
+      </p>
+      <div className="grid grid-cols-2 gap-2 mt-2 font-mono text-sm">
+        {backupCodes.slice(0, 10).map((code, index) => (
+          <code key={index} className="bg-white p-2 rounded">{code}</code>
+        ))}
+      </div>
+    </div>
+  );
+
   if (isSubmitted && !isVerified && !emailError) {
     return (
       <div className="space-y-6 text-center py-8">
@@ -1201,22 +1219,28 @@ const RegisterForm = () => {
             <div className="space-y-3 p-4 bg-[hsl(210,40%,96.1%)] rounded-lg border border-[hsl(213,100%,18%)]/10">
               <div className="flex items-center justify-between">
                 <Label className="text-sm font-semibold text-[hsl(213,100%,18%)]">Verify Your Email</Label>
-                {emailVerificationSent && emailVerificationCountdown > 0 && (
+                {emailVerification.otpSent && emailVerification.otpCountdown > 0 && (
                   <span className="text-xs text-[hsl(122,39%,49%)]">
-                    Code expires in {formatCountdown(emailVerificationCountdown)}
+                    Code expires in {formatCountdown(emailVerification.otpCountdown)}
                   </span>
                 )}
               </div>
               
-              {!emailVerificationSent ? (
-                <Button 
-                  type="button" 
-                  variant="secondary" 
-                  onClick={handleSendEmailVerification}
-                  className="w-full"
-                >
-                  Send Verification Code
-                </Button>
+              {!emailVerification.otpSent ? (
+                <div className="space-y-2">
+                  <Button 
+                    type="button" 
+                    variant="secondary" 
+                    onClick={handleSendEmailVerification}
+                    disabled={emailVerification.isSending}
+                    className="w-full"
+                  >
+                    Send Verification Code
+                  </Button>
+                  {emailVerification.otpError && (
+                    <p className="text-xs text-[hsl(0,84%,60%)]">{emailVerification.otpError}</p>
+                  )}
+                </div>
               ) : (
                 <div className="space-y-3">
                   <div className="space-y-2">
@@ -1228,13 +1252,13 @@ const RegisterForm = () => {
                       pattern="\d*"
                       placeholder="000000"
                       maxLength={6}
-                      value={emailVerificationOtp}
+                      value={emailVerification.otpCode}
                       onChange={(e) => handleEmailVerificationOtpChange(e.target.value)}
                       className="text-center text-2xl tracking-widest"
-                      aria-invalid={Boolean(emailVerificationError)}
+                      aria-invalid={Boolean(emailVerification.otpError)}
                     />
-                    {emailVerificationError && (
-                      <p className="text-xs text-[hsl(0,84%,60%)]">{emailVerificationError}</p>
+                    {emailVerification.otpError && (
+                      <p className="text-xs text-[hsl(0,84%,60%)]">{emailVerification.otpError}</p>
                     )}
                   </div>
                   
@@ -1243,17 +1267,17 @@ const RegisterForm = () => {
                       type="button"
                       variant="secondary"
                       onClick={handleSendEmailVerification}
-                      disabled={emailVerificationCountdown > 0}
+                      disabled={emailVerification.otpCountdown > 0 || emailVerification.isSending}
                       className="flex-1"
                     >
-                      {emailVerificationCountdown > 0 
-                        ? `Resend in ${formatCountdown(emailVerificationCountdown)}` 
+                      {emailVerification.otpCountdown > 0 
+                        ? `Resend in ${formatCountdown(emailVerification.otpCountdown)}` 
                         : "Resend Code"}
                     </Button>
                     <Button
                       type="button"
                       onClick={handleVerifyEmail}
-                      disabled={emailVerificationOtp.length !== 6}
+                      disabled={emailVerification.otpCode.length !== 6 || emailVerification.isVerifying}
                       className="flex-1"
                     >
                       Verify Email
@@ -1341,6 +1365,27 @@ const RegisterForm = () => {
                 <p className="text-xs text-[hsl(0,0%,45%)]">{currentRoleConfig.tooltip}</p>
               ) : null}
             </div>
+
+            {currentRoleConfig?.requiresSponsor && (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="sponsorServiceId">Sponsor's Service ID *</Label>
+                <Input
+                  id="sponsorServiceId"
+                  placeholder={roleConfigurations.personnel.placeholder}
+                  value={sponsorServiceId}
+                  onChange={(e) => handleSponsorServiceIdChange(e.target.value)}
+                  autoComplete="off"
+                  aria-invalid={Boolean(sponsorServiceIdError)}
+                />
+                {sponsorServiceIdError ? (
+                  <p className="text-xs text-[hsl(0,84%,60%)]">{sponsorServiceIdError}</p>
+                ) : (
+                  <p className="text-xs text-[hsl(0,0%,45%)]">
+                    The serving member you are registered under. They confirm the link from their dashboard.
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
           {roleSecurityMessages.length > 0 && (
@@ -1382,8 +1427,8 @@ const RegisterForm = () => {
             <Button type="button" variant="outline" onClick={() => setCurrentStep(1)}>
               Back
             </Button>
-            <Button type="submit" className="w-full" size="lg">
-              Continue to Security Preferences
+            <Button type="submit" className="w-full" size="lg" disabled={isCheckingRoster}>
+              {isCheckingRoster ? "Checking roster..." : "Continue to Security Preferences"}
             </Button>
           </div>
         </form>
@@ -1393,7 +1438,7 @@ const RegisterForm = () => {
         <form onSubmit={handleSubmit} className="space-y-5">
           <div className="space-y-2">
             <Label>Preferred MFA Method *</Label>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3" role="radiogroup" aria-label="Select MFA method">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3" role="radiogroup" aria-label="Select MFA method">
               <button
                 type="button"
                 onClick={() => handleMfaMethodChange("totp")}
@@ -1401,9 +1446,11 @@ const RegisterForm = () => {
                   mfaMethod === "totp"
                     ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
                     : "border-[hsl(213,100%,18%)]/20 bg-white"
-                }`}
+                } ${totpBlocked ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"}`}
                 role="radio"
                 aria-checked={mfaMethod === "totp"}
+                aria-disabled={totpBlocked}
+                disabled={totpBlocked}
               >
                 <div className="flex items-center gap-3">
                   <div
@@ -1429,11 +1476,11 @@ const RegisterForm = () => {
                   mfaMethod === "email"
                     ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
                     : "border-[hsl(213,100%,18%)]/20 bg-white"
-                } ${currentRoleConfig?.enforcedMfaMethod === "totp" ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"}`}
+                } ${emailBlocked ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"}`}
                 role="radio"
                 aria-checked={mfaMethod === "email"}
-                aria-disabled={currentRoleConfig?.enforcedMfaMethod === "totp"}
-                disabled={currentRoleConfig?.enforcedMfaMethod === "totp"}
+                aria-disabled={emailBlocked}
+                disabled={emailBlocked}
               >
                 <div className="flex items-center gap-3">
                   <div
@@ -1451,10 +1498,38 @@ const RegisterForm = () => {
                   </div>
                 </div>
               </button>
+
+              <button
+                type="button"
+                onClick={() => handleMfaMethodChange("webauthn")}
+                className={`rounded-lg border p-4 text-left transition shadow-sm hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
+                  mfaMethod === "webauthn"
+                    ? "border-[hsl(213,100%,18%)] bg-[hsl(210,40%,96.1%)]"
+                    : "border-[hsl(213,100%,18%)]/20 bg-white"
+                }`}
+                role="radio"
+                aria-checked={mfaMethod === "webauthn"}
+              >
+                <div className="flex items-center gap-3">
+                  <div
+                    className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                      mfaMethod === "webauthn"
+                        ? "bg-[hsl(213,100%,18%)] text-white"
+                        : "bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]"
+                    }`}
+                  >
+                    <KeyRound className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <p className="font-semibold text-[hsl(213,100%,18%)]">Security Key</p>
+                    <p className="text-xs text-[hsl(0,0%,30%)]">Use a FIDO2 hardware token or passkey.</p>
+                  </div>
+                </div>
+              </button>
             </div>
             <p className="text-xs text-[hsl(0,0%,31%)]">
-              {currentRoleConfig?.enforcedMfaMethod === "totp"
-                ? "Authenticator-based MFA is enforced for this role."
+              {currentRoleConfig?.enforcedMfaMethod && currentRoleConfig.enforcedMfaMethod !== "email"
+                ? getEnforcedMfaMessage(currentRoleConfig.enforcedMfaMethod)
                 : "TOTP offers higher security and works offline"}
             </p>
           </div>
@@ -1553,8 +1628,8 @@ const RegisterForm = () => {
                   type="text"
                   inputMode="numeric"
                   pattern="\d*"
-                  placeholder="000000"
-                  maxLength={6}
+                  placeholder={"0".repeat(totpDigits)}
+                  maxLength={totpDigits}
                   value={totpCode}
                   onChange={(e) => {
                     const value = e.target.value.replace(/\D/g, "");
@@ -1567,21 +1642,42 @@ const RegisterForm = () => {
                 {totpError ? (
                   <p className="text-xs text-[hsl(0,84%,60%)]">{totpError}</p>
                 ) : (
-                  <p className="text-xs text-[hsl(0,0%,24%)]">Enter the 6-digit code from your authenticator app.</p>
+                  <p className="text-xs text-[hsl(0,0%,24%)]">Enter the {totpDigits}-digit code from your authenticator app.</p>
                 )}
               </div>
 
-              <div className="bg-[hsl(25,95%,60%)]/10 border border-[hsl(25,95%,60%)]/20 p-4 rounded-lg space-y-2">
-                <h4 className="font-semibold text-sm">Backup Codes</h4>
-                <p className="text-xs text-[hsl(0,0%,31%)]">
-                  Save these codes securely. Each can be used once if you lose access to your authenticator.
-                </p>
-                <div className="grid grid-cols-2 gap-2 mt-2 font-mono text-sm">
-                  {backupCodes.slice(0, 10).map((code, index) => (
-                    <code key={index} className="bg-white p-2 rounded">{code}</code>
-                  ))}
-                </div>
+              {backupCodesPanel}
+            </div>
+          ) : mfaMethod === "webauthn" ? (
+            <div className="space-y-4">
+              <p className="text-sm text-[hsl(0,0%,24%)]">
+                Insert or tap your security key when prompted. Your browser will ask you to confirm the registration.
+              </p>
+              <div className="space-y-2">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  className="w-full"
+                  onClick={handleRegisterSecurityKey}
+                  disabled={isRegisteringKey || Boolean(securityKeyResponse)}
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  {securityKeyResponse
+                    ? "Security Key Registered"
+                    : isRegisteringKey
+                      ? "Waiting for Security Key..."
+                      : "Register Security Key"}
+                </Button>
+                {securityKeyError ? (
+                  <p className="text-xs text-[hsl(0,84%,60%)]">{securityKeyError}</p>
+                ) : securityKeyResponse ? (
+                  <p className="text-xs text-[hsl(122,39%,49%)]">Key ready. Complete setup to finish creating your account.</p>
+                ) : (
+                  <p className="text-xs text-[hsl(0,0%,24%)]">The key is only saved once the server verifies it.</p>
+                )}
               </div>
+
+              {backupCodesPanel}
             </div>
           ) : (
             <div className="space-y-4">
@@ -1594,24 +1690,31 @@ const RegisterForm = () => {
                   inputMode="numeric"
                   pattern="\d*"
                   maxLength={6}
-                  value={emailOtp}
+                  value={mfaEmailOtp.otpCode}
                   onChange={(e) => handleEmailOtpChange(e.target.value)}
                   className="text-center text-2xl tracking-widest"
-                  aria-invalid={Boolean(emailOtpError)}
+                  aria-invalid={Boolean(mfaEmailOtp.otpError)}
                 />
-                {emailOtpError ? (
-                  <p className="text-xs text-[hsl(0,84%,60%)]">{emailOtpError}</p>
+                {mfaEmailOtp.otpError ? (
+                  <p className="text-xs text-[hsl(0,84%,60%)]">{mfaEmailOtp.otpError}</p>
                 ) : (
                   <p className="text-xs text-[hsl(0,0%,24%)]">Enter the OTP to confirm your email address.</p>
                 )}
                 <div className="flex flex-wrap items-center gap-3 pt-1">
-                  <Button type="button" variant="secondary" onClick={handleSendOtp} disabled={otpCountdown > 0}>
-                    {otpSent ? (otpCountdown > 0 ? `Resend in ${formatCountdown(otpCountdown)}` : "Resend OTP") : "Send OTP"}
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={handleSendOtp}
+                    disabled={mfaEmailOtp.otpCountdown > 0 || mfaEmailOtp.isSending}
+                  >
+                    {mfaEmailOtp.otpSent
+                      ? (mfaEmailOtp.otpCountdown > 0 ? `Resend in ${formatCountdown(mfaEmailOtp.otpCountdown)}` : "Resend OTP")
+                      : "Send OTP"}
                   </Button>
-                  {otpSent && (
-                    <p className={`text-xs ${otpCountdown > 0 ? "text-[hsl(122,39%,49%)]" : "text-[hsl(0,84%,60%)]"}`}>
-                      {otpCountdown > 0
-                        ? `OTP sent to ${email}. Valid for ${formatCountdown(otpCountdown)}.`
+                  {mfaEmailOtp.otpSent && (
+                    <p className={`text-xs ${mfaEmailOtp.otpCountdown > 0 ? "text-[hsl(122,39%,49%)]" : "text-[hsl(0,84%,60%)]"}`}>
+                      {mfaEmailOtp.otpCountdown > 0
+                        ? `OTP sent to ${email}. Valid for ${formatCountdown(mfaEmailOtp.otpCountdown)}.`
                         : "OTP expired. Tap resend to request a new code."}
                     </p>
                   )}
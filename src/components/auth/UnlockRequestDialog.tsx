@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { requestAccountUnlock } from "@/services/authService";
+
+interface UnlockRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  identifier: string;
+  role: string;
+  onSubmitted: () => void;
+}
+
+const UnlockRequestDialog = ({ open, onOpenChange, identifier, role, onSubmitted }: UnlockRequestDialogProps) => {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setReason("");
+      setError("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (reason.trim().length < 10) {
+      setError("Describe why you need access (at least 10 characters).");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await requestAccountUnlock({ identifier, role, reason: reason.trim() });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+
+    toast({
+      title: "Unlock Requested",
+      description: "An administrator will review your request. You will receive an email once it is approved.",
+    });
+    onSubmitted();
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Unlock</DialogTitle>
+          <DialogDescription>
+            Tell an administrator why you need access before the lockout expires.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="unlock-reason">Reason</Label>
+            <Textarea
+              id="unlock-reason"
+              value={reason}
+              maxLength={500}
+              rows={4}
+              placeholder="e.g. Mistyped my password after a reset; urgent incident report pending."
+              onChange={(e) => {
+                setReason(e.target.value);
+                if (error) setError("");
+              }}
+            />
+            <p className="text-xs text-[hsl(0,0%,31%)]">
+              Do not include your password. Requests are logged for audit.
+            </p>
+          </div>
+
+          {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Submitting..." : "Submit Request"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnlockRequestDialog;
@@ -0,0 +1,450 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  PolicyAttributeInfo,
+  PolicyAttributes,
+  PolicyConditionTrace,
+  PolicyDecision,
+  PolicyOperatorInfo,
+  PolicyTestResult,
+  PolicyVersionSummary,
+} from "@/lib/auth/types";
+import { PERMISSIONS, Permission, isPermission } from "@/lib/roleConfig";
+import {
+  applyAccessPolicy,
+  explainAccessPolicy,
+  getAccessPolicy,
+  getAccessPolicyVersion,
+  getAccessPolicyVersions,
+  testAccessPolicy,
+} from "@/services/authService";
+
+const permissionNames = Object.keys(PERMISSIONS).filter(isPermission);
+
+const EMPTY_DOCUMENT = { defaultEffect: "allow", policies: [], tests: [] };
+
+const toEditorText = (document: unknown) => JSON.stringify(document, null, 2);
+
+// The editor holds text; only well-formed JSON is sent to the server
+const parseEditorText = (text: string): { document?: unknown; error?: string } => {
+  try {
+    return { document: JSON.parse(text) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Policy document is not valid JSON" };
+  }
+};
+
+const formatValue = (value: unknown) => JSON.stringify(value) ?? "null";
+
+const ConditionTrace = ({ trace }: { trace: PolicyConditionTrace }) => {
+  const mark = trace.result ? "✓" : "✗";
+
+  if ("all" in trace || "any" in trace) {
+    const group = "all" in trace ? "all" : "any";
+    const children = "all" in trace ? trace.all : trace.any;
+    return (
+      <div className="space-y-1">
+        <p>
+          {mark} {group === "all" ? "all of" : "any of"}
+        </p>
+        <div className="ml-4 space-y-1">
+          {children.map((child, index) => (
+            <ConditionTrace key={index} trace={child} />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if ("not" in trace) {
+    return (
+      <div className="space-y-1">
+        <p>{mark} not</p>
+        <div className="ml-4">
+          <ConditionTrace trace={trace.not} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <p className="font-mono">
+      {mark} {trace.attribute} {trace.operator} {formatValue(trace.value)}
+      <span className="text-[hsl(0,0%,31%)]"> (was {formatValue(trace.actual)})</span>
+    </p>
+  );
+};
+
+/**
+ * Admin view: edit, test and apply the versioned access policy, and explain its decisions
+ */
+const AccessPoliciesPanel = () => {
+  const { toast } = useToast();
+  const [current, setCurrent] = useState<PolicyVersionSummary | null>(null);
+  const [attributes, setAttributes] = useState<PolicyAttributeInfo[]>([]);
+  const [operators, setOperators] = useState<PolicyOperatorInfo[]>([]);
+  const [history, setHistory] = useState<PolicyVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [text, setText] = useState(toEditorText(EMPTY_DOCUMENT));
+  const [baseVersion, setBaseVersion] = useState(0);
+  const [note, setNote] = useState("");
+  const [documentErrors, setDocumentErrors] = useState<string[]>([]);
+  const [testResults, setTestResults] = useState<PolicyTestResult[] | null>(null);
+  const [action, setAction] = useState<Permission>("cert:read");
+  const [overrides, setOverrides] = useState("");
+  const [decision, setDecision] = useState<PolicyDecision | null>(null);
+  const [busy, setBusy] = useState<"test" | "explain" | "apply" | "load" | null>(null);
+
+  // keepDraft reloads the applied version and history without replacing the editor text
+  const loadPolicy = useCallback(async (keepDraft = false) => {
+    setIsLoading(true);
+    const [policy, versions] = await Promise.all([getAccessPolicy(), getAccessPolicyVersions()]);
+    setIsLoading(false);
+
+    if (!policy.success || !versions.success) {
+      setLoadError(policy.message || versions.message || "Failed to load access policy.");
+      return;
+    }
+
+    setLoadError("");
+    setCurrent(policy.current ?? null);
+    setAttributes(policy.attributes ?? []);
+    setOperators(policy.operators ?? []);
+    setHistory(versions.versions ?? []);
+    if (!keepDraft) {
+      setText(toEditorText(policy.current?.document ?? EMPTY_DOCUMENT));
+    }
+    setBaseVersion(policy.current?.version ?? 0);
+  }, []);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const clearResults = () => {
+    setDocumentErrors([]);
+    setTestResults(null);
+    setDecision(null);
+  };
+
+  const readDraft = () => {
+    const { document, error } = parseEditorText(text);
+    if (error) {
+      setDocumentErrors([error]);
+    }
+    return document;
+  };
+
+  const handleTest = async () => {
+    clearResults();
+    const document = readDraft();
+    if (document === undefined) {
+      return;
+    }
+
+    setBusy("test");
+    const result = await testAccessPolicy(document);
+    setBusy(null);
+
+    setDocumentErrors(result.errors ?? []);
+    setTestResults(result.results ?? null);
+    if (!result.success) {
+      toast({ title: "Policy Check Failed", description: result.message, variant: "destructive" });
+    }
+  };
+
+  const handleExplain = async (useDraft: boolean) => {
+    setDecision(null);
+    let attributeOverrides: PolicyAttributes | undefined;
+    if (overrides.trim()) {
+      const parsed = parseEditorText(overrides);
+      if (parsed.error || typeof parsed.document !== "object" || parsed.document === null) {
+        toast({ title: "Explain Failed", description: "Attribute overrides must be a JSON object", variant: "destructive" });
+        return;
+      }
+      attributeOverrides = parsed.document as PolicyAttributes;
+    }
+
+    const document = useDraft ? readDraft() : undefined;
+    if (useDraft && document === undefined) {
+      return;
+    }
+
+    setBusy("explain");
+    const result = await explainAccessPolicy({ action, attributes: attributeOverrides, document });
+    setBusy(null);
+
+    if (!result.success || !result.decision) {
+      toast({ title: "Explain Failed", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    setDecision(result.decision);
+  };
+
+  const handleApply = async () => {
+    clearResults();
+    const document = readDraft();
+    if (document === undefined) {
+      return;
+    }
+
+    setBusy("apply");
+    const result = await applyAccessPolicy({ document, baseVersion, note: note.trim() || undefined });
+    setBusy(null);
+
+    if (!result.success) {
+      toast({ title: "Apply Failed", description: result.message, variant: "destructive" });
+      setDocumentErrors(result.errors ?? []);
+      setTestResults(result.results ?? null);
+      if (result.conflict) {
+        // Rebase the draft on the version that landed; the admin reviews it and applies again
+        loadPolicy(true);
+      }
+      return;
+    }
+
+    toast({ title: "Access Policy Applied", description: result.message });
+    setNote("");
+    loadPolicy();
+  };
+
+  // Loading an older version makes it the draft; applying it again rolls back
+  const handleLoadVersion = async (version: number) => {
+    setBusy("load");
+    const result = await getAccessPolicyVersion(version);
+    setBusy(null);
+
+    if (!result.success || !result.version) {
+      toast({ title: "Load Failed", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    clearResults();
+    setText(toEditorText(result.version.document));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Access Policies
+        </CardTitle>
+        <CardDescription>
+          Checked after the permission grants: a matching deny wins, then a matching allow, then the default effect
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading access policy...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={() => loadPolicy()}>
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-[hsl(0,0%,31%)]">
+            {current
+              ? `Version ${current.version}: ${current.policyCount} policies, ${current.testCount} tests, applied ${new Date(current.createdAt).toLocaleString()}${current.createdBy ? ` by ${current.createdBy}` : ""}.`
+              : "No access policy applied; permission grants alone decide access."}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="policy-document">Policy document (JSON)</Label>
+          <Textarea
+            id="policy-document"
+            rows={16}
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              clearResults();
+            }}
+            className="font-mono text-xs"
+          />
+          <details className="text-xs text-[hsl(0,0%,31%)]">
+            <summary className="cursor-pointer">Attributes and operators</summary>
+            <div className="mt-2 space-y-1">
+              {attributes.map((attribute) => (
+                <p key={attribute.name}>
+                  <span className="font-mono">{attribute.name}</span> — {attribute.description}
+                </p>
+              ))}
+              {operators.map((operator) => (
+                <p key={operator.name}>
+                  <span className="font-mono">{operator.name}</span> takes {operator.expects}
+                </p>
+              ))}
+            </div>
+          </details>
+          <Input
+            placeholder="Note for the policy history (optional)"
+            maxLength={500}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={busy !== null} onClick={handleTest}>
+              {busy === "test" ? "Testing..." : "Check & Run Tests"}
+            </Button>
+            <Button size="sm" disabled={busy !== null || isLoading} onClick={handleApply}>
+              {busy === "apply" ? "Applying..." : `Apply as Version ${baseVersion + 1}`}
+            </Button>
+          </div>
+        </div>
+
+        {documentErrors.length > 0 && (
+          <div className="rounded-md border p-3 text-xs space-y-1">
+            <p className="text-[hsl(0,84%,60%)]">Fix the document before applying it:</p>
+            {documentErrors.map((error) => (
+              <p key={error} className="font-mono text-[hsl(0,0%,31%)]">
+                {error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {testResults && (
+          <div className="rounded-md border p-3 text-xs space-y-1">
+            <p className="text-sm">
+              {testResults.length === 0
+                ? "The document is valid but has no tests."
+                : `${testResults.filter((result) => result.passed).length} of ${testResults.length} tests passed`}
+            </p>
+            {testResults.map((result) => (
+              <p key={result.name}>
+                <Badge variant={result.passed ? "secondary" : "destructive"} className="mr-2">
+                  {result.passed ? "Pass" : "Fail"}
+                </Badge>
+                {result.name}
+                {!result.passed && (
+                  <span className="text-[hsl(0,0%,31%)]">
+                    {" "}
+                    — {result.action}: expected {result.expect}, got {result.decision}
+                    {result.decidedBy.length > 0 ? ` (${result.decidedBy.join(", ")})` : " (default effect)"}
+                  </span>
+                )}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Explain a decision</p>
+          <p className="text-xs text-[hsl(0,0%,31%)]">
+            Evaluates your own request. Override attributes to try other cases, e.g.{" "}
+            <span className="font-mono">{'{"subject.role": "cert", "environment.network": "external"}'}</span>
+          </p>
+          <div className="grid gap-2 md:grid-cols-[auto_1fr]">
+            <Select value={action} onValueChange={(value) => setAction(value as Permission)}>
+              <SelectTrigger className="md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {permissionNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Attribute overrides (JSON, optional)"
+              value={overrides}
+              onChange={(e) => setOverrides(e.target.value)}
+              className="font-mono text-xs"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => handleExplain(false)}>
+              {busy === "explain" ? "Explaining..." : "Explain Applied Version"}
+            </Button>
+            <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => handleExplain(true)}>
+              Explain Draft
+            </Button>
+          </div>
+        </div>
+
+        {decision && (
+          <div className="rounded-md border p-3 text-xs space-y-3">
+            <div className="flex items-center gap-2">
+              <Badge variant={decision.decision === "deny" ? "destructive" : "default"}>
+                {decision.decision === "deny" ? "Denied" : "Allowed"}
+              </Badge>
+              <span>
+                {decision.reason}
+                {decision.version === null ? " (draft)" : ` (version ${decision.version})`}
+              </span>
+            </div>
+            <div className="space-y-1 text-[hsl(0,0%,31%)]">
+              {Object.entries(decision.attributes).map(([name, value]) => (
+                <p key={name} className="font-mono">
+                  {name} = {formatValue(value)}
+                </p>
+              ))}
+            </div>
+            {decision.policies.filter((policy) => policy.applies).map((policy) => (
+              <div key={policy.id} className="rounded-md border p-2 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant={policy.matched ? "default" : "outline"}>{policy.matched ? "Matched" : "No match"}</Badge>
+                  <span className="font-mono">{policy.id}</span>
+                  <span className="text-[hsl(0,0%,31%)]">{policy.effect}</span>
+                </div>
+                {policy.description && <p className="text-[hsl(0,0%,31%)]">{policy.description}</p>}
+                {policy.condition ? <ConditionTrace trace={policy.condition} /> : <p>✓ no condition</p>}
+              </div>
+            ))}
+            {decision.policies.every((policy) => !policy.applies) && (
+              <p className="text-[hsl(0,0%,31%)]">No policy covers {action}.</p>
+            )}
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Policy history</p>
+            {history.map((version) => (
+              <div key={version.version} className="flex items-start justify-between gap-3 rounded-md border p-3 text-xs">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={version.version === current?.version ? "default" : "outline"}>v{version.version}</Badge>
+                    <span>
+                      {version.policyCount} policies · {version.testCount} tests · default {version.defaultEffect}
+                    </span>
+                  </div>
+                  <div className="text-[hsl(0,0%,31%)]">
+                    {new Date(version.createdAt).toLocaleString()}
+                    {version.createdBy ? ` by ${version.createdBy}` : ""}
+                  </div>
+                  {version.note && <div className="text-[hsl(0,0%,31%)]">{version.note}</div>}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy !== null}
+                  onClick={() => handleLoadVersion(version.version)}
+                >
+                  Load
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccessPoliciesPanel;
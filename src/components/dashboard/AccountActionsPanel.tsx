@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AdminUserSummary } from "@/lib/auth/types";
+import { deactivateUser, resetUserMfa, searchUsers } from "@/services/authService";
+
+type AccountAction = "deactivate" | "reset_mfa";
+
+/**
+ * Admin view: deactivate an account or reset its MFA; for an admin account the action goes to the approvals inbox
+ */
+const AccountActionsPanel = () => {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [selected, setSelected] = useState<AdminUserSummary | null>(null);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+  const [busy, setBusy] = useState<AccountAction | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSearching(true);
+    const result = await searchUsers(search.trim());
+    setIsSearching(false);
+
+    if (!result.success) {
+      setError(result.message || "Failed to search users.");
+      return;
+    }
+
+    setError("");
+    setUsers(result.users ?? []);
+    setSelected(null);
+  };
+
+  const handleAction = async (action: AccountAction) => {
+    if (!selected) {
+      return;
+    }
+
+    setBusy(action);
+    const result = action === "deactivate"
+      ? await deactivateUser(selected.id, reason.trim())
+      : await resetUserMfa(selected.id, reason.trim());
+    setBusy(null);
+
+    if (!result.success) {
+      toast({
+        title: action === "deactivate" ? "Deactivation Failed" : "MFA Reset Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: result.pendingApproval
+        ? "Sent for Approval"
+        : action === "deactivate" ? "Account Deactivated" : "MFA Reset",
+      description: result.message,
+    });
+    setReason("");
+    if (action === "deactivate" && !result.pendingApproval) {
+      const deactivated = { ...selected, isActivated: false };
+      setSelected(deactivated);
+      setUsers((prev) => prev.map((user) => (user.id === deactivated.id ? deactivated : user)));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserX className="h-5 w-5" />
+          Account Actions
+        </CardTitle>
+        <CardDescription>
+          Both actions sign the account out everywhere; an admin account needs a second administrator to approve
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            placeholder="Name, email or credential ID"
+            maxLength={100}
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              if (error) setError("");
+            }}
+          />
+          <Button type="submit" disabled={isSearching}>
+            {isSearching ? "Searching..." : "Search"}
+          </Button>
+        </form>
+
+        {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+        {users.length > 0 && (
+          <div className="space-y-2">
+            {users.map((user) => (
+              <button
+                key={user.id}
+                type="button"
+                className={`w-full text-left rounded-md border p-3 text-sm hover:bg-[hsl(210,40%,96.1%)] ${
+                  selected?.id === user.id ? "border-[hsl(213,100%,18%)]" : ""
+                }`}
+                onClick={() => setSelected(user)}
+              >
+                <span className="font-semibold">{user.fullName}</span>{" "}
+                <span className="text-[hsl(0,0%,31%)]">
+                  ({user.role} · {user.credentialId}) {user.email}
+                  {user.isActivated ? "" : " · inactive"}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selected && (
+          <div className="rounded-md border p-4 space-y-3 text-sm">
+            <p className="font-semibold">
+              {selected.fullName} ({selected.role})
+            </p>
+            {selected.role === "admin" && (
+              <p className="text-xs text-[hsl(25,95%,60%)]">
+                Admin account: the action waits in the approvals inbox until another administrator approves it.
+              </p>
+            )}
+            <Input
+              placeholder="Reason (required): recorded in the audit log"
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={!selected.isActivated || reason.trim().length < 10 || busy !== null}
+                onClick={() => handleAction("deactivate")}
+              >
+                {busy === "deactivate" ? "Submitting..." : "Deactivate Account"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={reason.trim().length < 10 || busy !== null}
+                onClick={() => handleAction("reset_mfa")}
+              >
+                {busy === "reset_mfa" ? "Submitting..." : "Reset MFA"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccountActionsPanel;
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { MonitorSmartphone } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { SessionSummary } from "@/lib/auth/types";
+import { getSessions, revokeOtherSessions, revokeSession } from "@/services/authService";
+
+interface ActiveSessionsPanelProps {
+  userId?: string; // set when an admin is viewing another user's sessions
+  userLabel?: string;
+}
+
+/**
+ * Devices an account is signed in on, with remote sign-out
+ */
+const ActiveSessionsPanel = ({ userId, userLabel }: ActiveSessionsPanelProps) => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getSessions(userId);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load sessions.");
+      return;
+    }
+
+    setLoadError("");
+    setSessions(result.sessions ?? []);
+  }, [userId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionSummary) => {
+    setBusyId(session.id);
+    const result = await revokeSession(session.id, userId);
+    setBusyId(null);
+
+    toast({
+      title: result.success ? "Session Signed Out" : "Sign Out Failed",
+      description: result.success ? `${session.device} was signed out.` : result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      setSessions((prev) => prev.filter((item) => item.id !== session.id));
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusyId("all");
+    const result = await revokeOtherSessions(userId);
+    setBusyId(null);
+
+    toast({
+      title: result.success ? "Sessions Signed Out" : "Sign Out Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      loadSessions();
+    }
+  };
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          {userLabel ? `Where ${userLabel} is signed in` : "Devices where your account is signed in"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading sessions...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadSessions}>
+              Retry
+            </Button>
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">No active sessions.</p>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+                <div className="text-sm space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{session.device}</span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    IP {session.ipAddress ?? "unknown"} · Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    Signed in {new Date(session.createdAt).toLocaleString()}
+                  </div>
+                  {session.userAgent && (
+                    <div className="text-xs text-[hsl(0,0%,31%)] truncate" title={session.userAgent}>
+                      {session.userAgent}
+                    </div>
+                  )}
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId !== null}
+                    onClick={() => handleRevoke(session)}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {otherSessions.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={busyId !== null}
+                onClick={handleRevokeOthers}
+              >
+                {userId ? "Sign Out All Sessions" : "Sign Out All Other Sessions"}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessionsPanel;
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Users } from "lucide-react";
+import type { AdminUserSummary } from "@/lib/auth/types";
+import { searchUsers } from "@/services/authService";
+import ActiveSessionsPanel from "./ActiveSessionsPanel";
+
+/**
+ * Admin view: find a user and manage their active sessions
+ */
+const AdminSessionsPanel = () => {
+  const [search, setSearch] = useState("");
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [selectedUser, setSelectedUser] = useState<AdminUserSummary | null>(null);
+  const [error, setError] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSearching(true);
+    const result = await searchUsers(search.trim());
+    setIsSearching(false);
+
+    if (!result.success) {
+      setError(result.message || "Failed to search users.");
+      return;
+    }
+
+    setError("");
+    setUsers(result.users ?? []);
+    setSelectedUser(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            User Sessions
+          </CardTitle>
+          <CardDescription>Look up a user by name, email or credential ID to review their sessions</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              placeholder="Name, email or credential ID"
+              maxLength={100}
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                if (error) setError("");
+              }}
+            />
+            <Button type="submit" disabled={isSearching}>
+              {isSearching ? "Searching..." : "Search"}
+            </Button>
+          </form>
+
+          {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+          {users.length > 0 && (
+            <div className="space-y-2">
+              {users.map((user) => (
+                <button
+                  key={user.id}
+                  type="button"
+                  className={`w-full text-left rounded-md border p-3 text-sm hover:bg-[hsl(210,40%,96.1%)] ${
+                    selectedUser?.id === user.id ? "border-[hsl(213,100%,18%)]" : ""
+                  }`}
+                  onClick={() => setSelectedUser(user)}
+                >
+                  <span className="font-semibold">{user.fullName}</span>{" "}
+                  <span className="text-[hsl(0,0%,31%)]">
+                    ({user.role} · {user.credentialId}) {user.email}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedUser && (
+        <ActiveSessionsPanel key={selectedUser.id} userId={selectedUser.id} userLabel={selectedUser.fullName} />
+      )}
+    </div>
+  );
+};
+
+export default AdminSessionsPanel;
@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Inbox } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { PendingOperationStatus, PendingOperationSummary } from "@/lib/auth/types";
+import { describeOperation, getPermissionChanges } from "@/lib/auth/pendingOperations";
+import { cancelPendingOperation, getPendingOperations, reviewPendingOperation } from "@/services/authService";
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+const statusLabels: Record<PendingOperationStatus, string> = {
+  pending: "Pending",
+  executed: "Executed",
+  failed: "Failed",
+  rejected: "Rejected",
+  cancelled: "Withdrawn",
+  expired: "Expired",
+};
+
+/**
+ * Approvals inbox: critical admin actions proposed by one administrator and waiting for a second one
+ */
+const ApprovalsInboxPanel = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<PendingOperationStatus>("pending");
+  const [operations, setOperations] = useState<PendingOperationSummary[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadOperations = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getPendingOperations(status);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load pending operations.");
+      return;
+    }
+
+    setLoadError("");
+    setOperations(result.operations ?? []);
+  }, [status]);
+
+  useEffect(() => {
+    loadOperations();
+  }, [loadOperations]);
+
+  const handleReview = async (operation: PendingOperationSummary, decision: "approve" | "reject") => {
+    const note = notes[operation.id]?.trim() ?? "";
+    if (decision === "reject" && !note) {
+      toast({
+        title: "Note Required",
+        description: "Add a note explaining why the operation is rejected.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusyId(operation.id);
+    const result = await reviewPendingOperation(operation.id, decision, note || undefined);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Review Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      // An approval that could not be carried out is closed either way
+      loadOperations();
+      return;
+    }
+
+    toast({
+      title: decision === "approve" ? "Operation Approved" : "Operation Rejected",
+      description: `${describeOperation(operation)}: ${result.message}`,
+    });
+    setOperations((prev) => prev.filter((item) => item.id !== operation.id));
+  };
+
+  const handleCancel = async (operation: PendingOperationSummary) => {
+    setBusyId(operation.id);
+    const result = await cancelPendingOperation(operation.id);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Withdraw Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Operation Withdrawn",
+      description: describeOperation(operation),
+    });
+    setOperations((prev) => prev.filter((item) => item.id !== operation.id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Approvals Inbox
+        </CardTitle>
+        <CardDescription>
+          Deactivating an admin, resetting an admin's MFA and changing role permissions need a second administrator
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(statusLabels) as PendingOperationStatus[]).map((option) => (
+            <Button
+              key={option}
+              variant={status === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setStatus(option)}
+            >
+              {statusLabels[option]}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading operations...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadOperations}>
+              Retry
+            </Button>
+          </div>
+        ) : operations.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">
+            {status === "pending" ? "Nothing is waiting for approval." : `No ${statusLabels[status].toLowerCase()} operations.`}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {operations.map((operation) => {
+              const { added, removed } = getPermissionChanges(operation);
+              return (
+                <div key={operation.id} className="rounded-md border p-4 space-y-3">
+                  <div className="text-sm space-y-1">
+                    <div className="font-semibold">{describeOperation(operation)}</div>
+                    {added.length > 0 && (
+                      <div className="font-mono text-xs">+ {added.join(", ")}</div>
+                    )}
+                    {removed.length > 0 && (
+                      <div className="font-mono text-xs text-[hsl(0,84%,60%)]">− {removed.join(", ")}</div>
+                    )}
+                    <div>
+                      <span className="font-semibold">Reason:</span> {operation.reason}
+                    </div>
+                    <div className="text-xs text-[hsl(0,0%,31%)]">
+                      Proposed by {operation.proposedByMe ? "you" : operation.proposedBy ?? "—"} on{" "}
+                      {formatTimestamp(operation.proposedAt)}
+                      {status === "pending"
+                        ? ` · Lapses ${formatTimestamp(operation.expiresAt)}`
+                        : ` · Reviewed by ${operation.reviewedBy ?? "—"} ${formatTimestamp(operation.reviewedAt)}`}
+                    </div>
+                    {operation.reviewNote && (
+                      <div className="text-xs">
+                        <span className="font-semibold">Review note:</span> {operation.reviewNote}
+                      </div>
+                    )}
+                    {operation.failureReason && (
+                      <p className="text-xs text-[hsl(0,84%,60%)]">{operation.failureReason}</p>
+                    )}
+                  </div>
+                  {status === "pending" && (operation.proposedByMe ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busyId === operation.id}
+                      onClick={() => handleCancel(operation)}
+                    >
+                      Withdraw
+                    </Button>
+                  ) : (
+                    <>
+                      <Input
+                        placeholder="Review note (required to reject)"
+                        maxLength={500}
+                        value={notes[operation.id] ?? ""}
+                        onChange={(e) => setNotes((prev) => ({ ...prev, [operation.id]: e.target.value }))}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          disabled={busyId === operation.id}
+                          onClick={() => handleReview(operation, "approve")}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === operation.id}
+                          onClick={() => handleReview(operation, "reject")}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    </>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApprovalsInboxPanel;
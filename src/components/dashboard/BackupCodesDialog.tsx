@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { regenerateBackupCodes } from "@/services/authService";
+
+interface BackupCodesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRegenerated: (remaining: number) => void;
+}
+
+const BackupCodesDialog = ({ open, onOpenChange, onRegenerated }: BackupCodesDialogProps) => {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [codes, setCodes] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      // Never keep plaintext codes around once the dialog closes
+      setPassword("");
+      setError("");
+      setCodes([]);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!password) {
+      setError("Enter your current password to continue.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await regenerateBackupCodes(password);
+    setIsSubmitting(false);
+    setPassword("");
+
+    if (!result.success || !result.codes) {
+      setError(result.message || "Failed to regenerate backup codes.");
+      return;
+    }
+
+    setError("");
+    setCodes(result.codes);
+    onRegenerated(result.remaining ?? result.codes.length);
+    toast({
+      title: "Backup Codes Regenerated",
+      description: "Your previous backup codes no longer work.",
+    });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({
+        title: "Copied",
+        description: "Backup codes copied to clipboard.",
+      });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Select the codes and copy them manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Regenerate Backup Codes</DialogTitle>
+          <DialogDescription>
+            {codes.length > 0
+              ? "Save these codes somewhere safe. They will not be shown again."
+              : "Generating new codes replaces all of your existing backup codes."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {codes.length > 0 ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {codes.map((code) => (
+                <code key={code} className="bg-[hsl(210,40%,96.1%)] p-2 rounded text-center">{code}</code>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleCopy} className="gap-2">
+                <Copy className="h-4 w-4" />
+                Copy
+              </Button>
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                I've saved these codes
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleRegenerate} className="space-y-4">
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Any backup codes you saved earlier will stop working immediately.
+              </AlertDescription>
+            </Alert>
+            <div className="space-y-2">
+              <Label htmlFor="backup-codes-password">Current Password</Label>
+              <Input
+                id="backup-codes-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  if (error) setError("");
+                }}
+                aria-invalid={Boolean(error)}
+              />
+              {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Generating..." : "Generate New Codes"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackupCodesDialog;
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { getPasswordPolicyError, getPasswordPolicyMessages } from "@/lib/auth/passwordPolicy";
+import { isValidMfaCodeFormat } from "@/lib/auth/mfaMethods";
+import { isValidBackupCodeFormat } from "@/lib/auth/backupCodes";
+import type { MfaMethod } from "@/lib/auth/types";
+import type { RoleConfig } from "@/lib/roleConfig";
+import { authenticateWithSecurityKey } from "@/lib/auth/webauthn";
+import { changePassword, getWebAuthnStepUpOptions } from "@/services/authService";
+import MfaCodeField from "./MfaCodeField";
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mfaMethod: MfaMethod;
+  totpDigits?: number;
+  roleConfig?: RoleConfig;
+}
+
+const ChangePasswordDialog = ({ open, onOpenChange, mfaMethod, totpDigits, roleConfig }: ChangePasswordDialogProps) => {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [mfaCode, setMfaCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setMfaCode("");
+    setUseBackupCode(false);
+    setError("");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      resetForm();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!currentPassword) {
+      setError("Enter your current password.");
+      return;
+    }
+
+    const policyError = getPasswordPolicyError(newPassword, roleConfig);
+    if (policyError) {
+      setError(policyError);
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError("New passwords do not match.");
+      return;
+    }
+
+    const useSecurityKey = mfaMethod === "webauthn" && !useBackupCode;
+    if (!useSecurityKey && !(useBackupCode ? isValidBackupCodeFormat(mfaCode) : isValidMfaCodeFormat(mfaMethod, mfaCode, totpDigits))) {
+      setError(useBackupCode ? "Enter a valid backup code (XXXX-XXXX)." : "Enter a valid verification code.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const assertion = useSecurityKey ? await authenticateWithSecurityKey(getWebAuthnStepUpOptions) : null;
+    if (assertion && !assertion.success) {
+      setIsSubmitting(false);
+      setError(assertion.message);
+      return;
+    }
+
+    const result = await changePassword({
+      currentPassword,
+      newPassword,
+      mfaMethod: useBackupCode ? "backup" : mfaMethod,
+      mfaCode,
+      webauthnResponse: assertion?.response,
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setError(result.message);
+      setMfaCode("");
+      return;
+    }
+
+    toast({
+      title: "Password Changed",
+      description: "Other sessions have been signed out. A confirmation email is on its way.",
+    });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change Password</DialogTitle>
+          <DialogDescription>
+            Confirm your current password and a fresh MFA code to set a new password.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="change-current-password">Current Password</Label>
+            <Input
+              id="change-current-password"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => {
+                setCurrentPassword(e.target.value);
+                if (error) setError("");
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="change-new-password">New Password</Label>
+            <Input
+              id="change-new-password"
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => {
+                setNewPassword(e.target.value);
+                if (error) setError("");
+              }}
+            />
+            <ul className="list-disc list-inside text-xs text-[hsl(0,0%,31%)] space-y-1">
+              {getPasswordPolicyMessages(roleConfig).map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="change-confirm-password">Confirm New Password</Label>
+            <Input
+              id="change-confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => {
+                setConfirmPassword(e.target.value);
+                if (error) setError("");
+              }}
+            />
+          </div>
+
+          <MfaCodeField
+            id="change-mfa-code"
+            mfaMethod={mfaMethod}
+            totpDigits={totpDigits}
+            value={mfaCode}
+            onChange={(value) => {
+              setMfaCode(value);
+              if (error) setError("");
+            }}
+            useBackupCode={useBackupCode}
+            onUseBackupCodeChange={setUseBackupCode}
+            onError={setError}
+          />
+
+          {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Change Password"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChangePasswordDialog;
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { DependentSummary } from "@/lib/auth/types";
+import { getDependents, reviewDependent } from "@/services/authService";
+
+/**
+ * Defence Personnel view: confirm family members who named you as sponsor and see linked dependents
+ */
+const DependentsPanel = () => {
+  const { toast } = useToast();
+  const [dependents, setDependents] = useState<DependentSummary[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadDependents = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getDependents();
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load dependents.");
+      return;
+    }
+
+    setLoadError("");
+    setDependents(result.dependents ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadDependents();
+  }, [loadDependents]);
+
+  const handleReview = async (dependent: DependentSummary, decision: "confirm" | "reject") => {
+    setReviewingId(dependent.id);
+    const result = await reviewDependent(dependent.id, decision, reasons[dependent.id]?.trim() || undefined);
+    setReviewingId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Review Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: decision === "confirm" ? "Dependent Confirmed" : "Request Rejected",
+      description: `${dependent.fullName}: ${result.message}`,
+    });
+    // Confirmed dependents move to the linked list; rejected ones drop off
+    const updated = result.dependent;
+    setDependents((prev) => (updated?.status === "confirmed"
+      ? prev.map((item) => (item.id === updated.id ? updated : item))
+      : prev.filter((item) => item.id !== dependent.id)));
+  };
+
+  const pending = dependents.filter((dependent) => dependent.status === "pending");
+  const confirmed = dependents.filter((dependent) => dependent.status === "confirmed");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Dependents
+        </CardTitle>
+        <CardDescription>Family members who named you as their sponsor</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading dependents...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadDependents}>
+              Retry
+            </Button>
+          </div>
+        ) : dependents.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">No family members have named you as sponsor.</p>
+        ) : (
+          <div className="space-y-6">
+            {pending.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-semibold">Awaiting your confirmation</p>
+                {pending.map((dependent) => (
+                  <div key={dependent.id} className="rounded-md border p-4 space-y-3">
+                    <div className="text-sm space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{dependent.fullName}</span>
+                        <span className="text-[hsl(0,0%,31%)] font-mono">{dependent.familyId}</span>
+                        {!dependent.accountActive && <Badge variant="outline">Account pending approval</Badge>}
+                      </div>
+                      <div className="text-[hsl(0,0%,31%)]">{dependent.email}</div>
+                      <div className="text-xs text-[hsl(0,0%,31%)]">
+                        Requested {new Date(dependent.requestedAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <Input
+                      placeholder="Reason (optional, emailed to the family member)"
+                      maxLength={500}
+                      value={reasons[dependent.id] ?? ""}
+                      onChange={(e) => setReasons((prev) => ({ ...prev, [dependent.id]: e.target.value }))}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        disabled={reviewingId === dependent.id}
+                        onClick={() => handleReview(dependent, "confirm")}
+                      >
+                        Confirm
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={reviewingId === dependent.id}
+                        onClick={() => handleReview(dependent, "reject")}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {confirmed.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-semibold">Linked dependents</p>
+                {confirmed.map((dependent) => (
+                  <div key={dependent.id} className="rounded-md border p-3 text-sm space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{dependent.fullName}</span>
+                      <span className="text-[hsl(0,0%,31%)] font-mono">{dependent.familyId}</span>
+                    </div>
+                    <div className="text-[hsl(0,0%,31%)]">{dependent.email}</div>
+                    {dependent.decidedAt && (
+                      <div className="text-xs text-[hsl(0,0%,31%)]">
+                        Confirmed {new Date(dependent.decidedAt).toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DependentsPanel;
@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { ElevationSummary } from "@/lib/auth/types";
+import { formatElevationDuration } from "@/lib/auth/elevation";
+import { PERMISSIONS, Permission } from "@/lib/roleConfig";
+import { cancelElevation, getElevation, requestElevation } from "@/services/authService";
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+interface ElevationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after the elevation starts or ends, so the Dashboard reloads its permissions
+  onChanged: () => void;
+}
+
+/**
+ * Request temporary elevated permissions, or follow and end an open request
+ */
+const ElevationDialog = ({ open, onOpenChange, onChanged }: ElevationDialogProps) => {
+  const { toast } = useToast();
+  const [elevation, setElevation] = useState<ElevationSummary | null>(null);
+  const [requestable, setRequestable] = useState<Permission[]>([]);
+  const [durations, setDurations] = useState<number[]>([]);
+  const [selected, setSelected] = useState<Permission[]>([]);
+  const [durationMinutes, setDurationMinutes] = useState("");
+  const [justification, setJustification] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadElevation = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getElevation();
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load elevation status.");
+      return;
+    }
+
+    setLoadError("");
+    setElevation(result.elevation ?? null);
+    setRequestable(result.requestable ?? []);
+    setDurations(result.durations ?? []);
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadElevation();
+    }
+  }, [open, loadElevation]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSelected([]);
+      setDurationMinutes("");
+      setJustification("");
+      setError("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, permission] : prev.filter((item) => item !== permission)));
+    if (error) setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (selected.length === 0) {
+      setError("Choose at least one permission.");
+      return;
+    }
+    if (!durationMinutes) {
+      setError("Choose how long you need it.");
+      return;
+    }
+    if (justification.trim().length < 20) {
+      setError("Explain why you need it (at least 20 characters).");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await requestElevation({
+      permissions: selected,
+      durationMinutes: Number(durationMinutes),
+      justification: justification.trim(),
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+
+    toast({
+      title: "Elevation Requested",
+      description: result.message,
+    });
+    setSelected([]);
+    setDurationMinutes("");
+    setJustification("");
+    setElevation(result.elevation ?? null);
+  };
+
+  const handleCancel = async () => {
+    const wasActive = elevation?.status === "approved";
+
+    setIsSubmitting(true);
+    const result = await cancelElevation();
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      toast({
+        title: wasActive ? "Could Not End Elevation" : "Could Not Withdraw Request",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: wasActive ? "Elevation Ended" : "Request Withdrawn",
+      description: result.message,
+    });
+    if (wasActive) {
+      onChanged();
+    }
+    await loadElevation();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Elevated Access</DialogTitle>
+          <DialogDescription>
+            Ask for extra permissions for a limited time. An approver has to grant them, and they end
+            automatically when the time runs out.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadElevation}>
+              Retry
+            </Button>
+          </div>
+        ) : elevation ? (
+          <div className="space-y-4">
+            <div className="rounded-md border p-4 text-sm space-y-1">
+              <div className="font-semibold">
+                {elevation.status === "approved" ? "Elevation active" : "Waiting for an approver"}
+              </div>
+              <div className="font-mono text-xs">{elevation.permissions.join(", ")}</div>
+              <div>
+                <span className="font-semibold">Justification:</span> {elevation.justification}
+              </div>
+              <div className="text-xs text-[hsl(0,0%,31%)]">
+                {elevation.status === "approved"
+                  ? `Granted by ${elevation.reviewedBy ?? "an approver"} · Ends ${formatTimestamp(elevation.expiresAt)}`
+                  : `Requested ${formatTimestamp(elevation.requestedAt)} for ${formatElevationDuration(elevation.durationMinutes)}`}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Close
+              </Button>
+              <Button type="button" variant="destructive" disabled={isSubmitting} onClick={handleCancel}>
+                {elevation.status === "approved" ? "End Elevation Now" : "Withdraw Request"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : requestable.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">You already hold every permission you could request.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="max-h-56 overflow-y-auto rounded-md border p-3 space-y-2">
+                {requestable.map((permission) => (
+                  <label key={permission} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.includes(permission)}
+                      disabled={isSubmitting}
+                      onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                    />
+                    <span className="space-y-1">
+                      <span className="block font-mono text-xs">{permission}</span>
+                      <span className="block text-xs text-[hsl(0,0%,31%)]">{PERMISSIONS[permission]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select
+                value={durationMinutes}
+                onValueChange={(value) => {
+                  setDurationMinutes(value);
+                  if (error) setError("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="How long you need it" />
+                </SelectTrigger>
+                <SelectContent>
+                  {durations.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {formatElevationDuration(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-[hsl(0,0%,31%)]">Counted from when the request is granted.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="elevation-justification">Justification</Label>
+              <Textarea
+                id="elevation-justification"
+                placeholder="What you need to do and why (shown to the approver)"
+                maxLength={500}
+                value={justification}
+                onChange={(e) => {
+                  setJustification(e.target.value);
+                  if (error) setError("");
+                }}
+              />
+            </div>
+
+            {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Submitting..." : "Request Elevation"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ElevationDialog;
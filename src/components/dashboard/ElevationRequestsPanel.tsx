@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { ElevationSummary } from "@/lib/auth/types";
+import { formatElevationDuration } from "@/lib/auth/elevation";
+import { getElevationRequests, reviewElevationRequest, revokeElevation } from "@/services/authService";
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+// Pending requests to decide on, or elevations still running
+type ElevationView = "pending" | "approved";
+
+const viewLabels: Record<ElevationView, string> = {
+  pending: "Pending",
+  approved: "Active",
+};
+
+/**
+ * Approver queue for temporary elevated access, and the elevations currently active
+ */
+const ElevationRequestsPanel = () => {
+  const { toast } = useToast();
+  const [view, setView] = useState<ElevationView>("pending");
+  const [requests, setRequests] = useState<ElevationSummary[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getElevationRequests(view);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load elevation requests.");
+      return;
+    }
+
+    setLoadError("");
+    setRequests(result.requests ?? []);
+  }, [view]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleReview = async (request: ElevationSummary, decision: "approve" | "reject") => {
+    const note = notes[request.id]?.trim() ?? "";
+    if (decision === "reject" && !note) {
+      toast({
+        title: "Note Required",
+        description: "Add a note explaining why the request is rejected.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusyId(request.id);
+    const result = await reviewElevationRequest(request.id, decision, note || undefined);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Review Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: decision === "approve" ? "Elevation Granted" : "Request Rejected",
+      description: `${request.email}: ${result.message}`,
+    });
+    setRequests((prev) => prev.filter((item) => item.id !== request.id));
+  };
+
+  const handleRevoke = async (request: ElevationSummary) => {
+    setBusyId(request.id);
+    const result = await revokeElevation(request.id);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Revoke Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Elevation Revoked",
+      description: `${request.email} no longer has ${request.permissions.join(", ")}.`,
+    });
+    setRequests((prev) => prev.filter((item) => item.id !== request.id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Elevated Access
+        </CardTitle>
+        <CardDescription>
+          Time-boxed permission requests; a grant ends automatically when its time runs out
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          {(["pending", "approved"] as const).map((option) => (
+            <Button
+              key={option}
+              variant={view === option ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView(option)}
+            >
+              {viewLabels[option]}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading requests...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadRequests}>
+              Retry
+            </Button>
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">
+            {view === "pending" ? "No pending elevation requests." : "No active elevations."}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {requests.map((request) => (
+              <div key={request.id} className="rounded-md border p-4 space-y-3">
+                <div className="text-sm space-y-1">
+                  <div>
+                    <span className="font-semibold">{request.fullName ?? request.email}</span>{" "}
+                    <span className="text-[hsl(0,0%,31%)]">
+                      ({request.role}{request.credentialId ? ` · ${request.credentialId}` : ""})
+                    </span>
+                  </div>
+                  <div className="text-[hsl(0,0%,31%)]">{request.email}</div>
+                  <div className="font-mono text-xs">{request.permissions.join(", ")}</div>
+                  <div>
+                    <span className="font-semibold">Justification:</span> {request.justification}
+                  </div>
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    {view === "pending"
+                      ? `Requested ${formatTimestamp(request.requestedAt)} for ${formatElevationDuration(request.durationMinutes)}`
+                      : `Granted by ${request.reviewedBy ?? "—"} · Ends ${formatTimestamp(request.expiresAt)} · Last used ${formatTimestamp(request.lastUsedAt)}`}
+                  </div>
+                </div>
+                {view === "pending" ? (
+                  <>
+                    <Input
+                      placeholder="Review note (required to reject)"
+                      maxLength={500}
+                      value={notes[request.id] ?? ""}
+                      onChange={(e) => setNotes((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        disabled={busyId === request.id}
+                        onClick={() => handleReview(request, "approve")}
+                      >
+                        Grant
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === request.id}
+                        onClick={() => handleReview(request, "reject")}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyId === request.id}
+                    onClick={() => handleRevoke(request)}
+                  >
+                    Revoke Now
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ElevationRequestsPanel;
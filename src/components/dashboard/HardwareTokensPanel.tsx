@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Key } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  AdminUserSummary,
+  HardwareTokenImportResult,
+  HardwareTokenStatus,
+  HardwareTokenSummary,
+} from "@/lib/auth/types";
+import {
+  assignHardwareToken,
+  getHardwareTokens,
+  importHardwareTokens,
+  searchUsers,
+  unassignHardwareToken,
+} from "@/services/authService";
+
+const CSV_EXAMPLE = "serial,seed,format,digits,algorithm,counter\nHT-004512,3132333435363738393031323334353637383930,hex,6,SHA1,0";
+
+/**
+ * Admin view: import OTP hardware tokens from the vendor's seed file and assign them to users
+ */
+const HardwareTokensPanel = () => {
+  const { toast } = useToast();
+  const [tokens, setTokens] = useState<HardwareTokenSummary[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<HardwareTokenStatus, number>>>({});
+  const [statusFilter, setStatusFilter] = useState<HardwareTokenStatus | "">("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [csv, setCsv] = useState("");
+  const [importResult, setImportResult] = useState<HardwareTokenImportResult | null>(null);
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+  const [userSearch, setUserSearch] = useState("");
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+
+  const loadTokens = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getHardwareTokens({ status: statusFilter || undefined });
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load hardware tokens.");
+      return;
+    }
+
+    setLoadError("");
+    setTokens(result.tokens ?? []);
+    setCounts(result.counts ?? {});
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const handleFileSelected = async (file?: File) => {
+    if (file) {
+      setCsv(await file.text());
+      setImportResult(null);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setBusyId("import");
+    const result = await importHardwareTokens(csv);
+    setBusyId(null);
+
+    setImportResult(result);
+    if (!result.success) {
+      return;
+    }
+
+    toast({ title: "Tokens Imported", description: result.message });
+    // Seeds are secrets; don't leave them sitting in the page
+    setCsv("");
+    loadTokens();
+  };
+
+  const handleUserSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = await searchUsers(userSearch.trim());
+    setUsers(result.success ? result.users ?? [] : []);
+  };
+
+  const closeAssign = () => {
+    setAssigningId(null);
+    setUserSearch("");
+    setUsers([]);
+  };
+
+  const handleAssign = async (token: HardwareTokenSummary, user: AdminUserSummary) => {
+    setBusyId(token.id);
+    const result = await assignHardwareToken(token.id, user.id);
+    setBusyId(null);
+
+    toast({
+      title: result.success ? "Token Assigned" : "Assign Failed",
+      description: result.success
+        ? `${user.fullName} can now activate ${token.serial} from their MFA settings.`
+        : result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      closeAssign();
+      loadTokens();
+    }
+  };
+
+  const handleUnassign = async (token: HardwareTokenSummary) => {
+    setBusyId(token.id);
+    const result = await unassignHardwareToken(token.id);
+    setBusyId(null);
+
+    toast({
+      title: result.success ? "Token Unassigned" : "Unassign Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      loadTokens();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Key className="h-5 w-5" />
+          Hardware Tokens
+        </CardTitle>
+        <CardDescription>
+          {counts.available ?? 0} available · {counts.assigned ?? 0} assigned
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleImport} className="space-y-2">
+          <Label htmlFor="hardware-token-csv">Import from CSV</Label>
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          />
+          <Textarea
+            id="hardware-token-csv"
+            rows={4}
+            placeholder={CSV_EXAMPLE}
+            value={csv}
+            onChange={(e) => {
+              setCsv(e.target.value);
+              setImportResult(null);
+            }}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-[hsl(0,0%,31%)]">
+            Columns: serial, seed (required); format hex|base32, digits 6|8, algorithm, counter (optional).
+            Existing serials are skipped.
+          </p>
+          <Button type="submit" size="sm" disabled={!csv.trim() || busyId !== null}>
+            {busyId === "import" ? "Importing..." : "Import Tokens"}
+          </Button>
+
+          {importResult && (
+            <div className="rounded-md border p-3 text-xs space-y-1">
+              <p className={importResult.success ? "" : "text-[hsl(0,84%,60%)]"}>{importResult.message}</p>
+              {importResult.skipped?.map((row) => (
+                <p key={`${row.line}-${row.serial ?? ""}`} className="text-[hsl(0,0%,31%)]">
+                  Line {row.line}{row.serial ? ` (${row.serial})` : ""}: {row.reason}
+                </p>
+              ))}
+            </div>
+          )}
+        </form>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            {(["", "available", "assigned"] as const).map((status) => (
+              <Button
+                key={status || "all"}
+                variant={statusFilter === status ? "default" : "outline"}
+                size="sm"
+                onClick={() => setStatusFilter(status)}
+              >
+                {status ? status[0].toUpperCase() + status.slice(1) : "All"}
+              </Button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-[hsl(0,0%,31%)]">Loading hardware tokens...</p>
+          ) : loadError ? (
+            <div className="space-y-2">
+              <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+              <Button variant="outline" size="sm" onClick={loadTokens}>
+                Retry
+              </Button>
+            </div>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-[hsl(0,0%,31%)]">No hardware tokens.</p>
+          ) : (
+            tokens.map((token) => (
+              <div key={token.id} className="rounded-md border p-3 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="text-sm space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold font-mono">{token.serial}</span>
+                      <Badge variant={token.status === "assigned" ? "default" : "secondary"}>{token.status}</Badge>
+                      {token.assignedTo?.inUse && <Badge variant="outline">In use</Badge>}
+                    </div>
+                    <div className="text-xs text-[hsl(0,0%,31%)]">
+                      {token.algorithm} · {token.digits} digits
+                      {token.lastUsedAt ? ` · Last used ${new Date(token.lastUsedAt).toLocaleString()}` : ""}
+                    </div>
+                    {token.assignedTo && (
+                      <div className="text-xs text-[hsl(0,0%,31%)]">
+                        {token.assignedTo.fullName} ({token.assignedTo.role}) {token.assignedTo.email}
+                      </div>
+                    )}
+                  </div>
+                  {token.status === "assigned" ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyId !== null || token.assignedTo?.inUse}
+                      onClick={() => handleUnassign(token)}
+                    >
+                      Unassign
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyId !== null}
+                      onClick={() => (assigningId === token.id ? closeAssign() : setAssigningId(token.id))}
+                    >
+                      {assigningId === token.id ? "Cancel" : "Assign"}
+                    </Button>
+                  )}
+                </div>
+
+                {assigningId === token.id && (
+                  <div className="space-y-2">
+                    <form onSubmit={handleUserSearch} className="flex gap-2">
+                      <Input
+                        placeholder="Name, email or credential ID"
+                        maxLength={100}
+                        value={userSearch}
+                        onChange={(e) => setUserSearch(e.target.value)}
+                      />
+                      <Button type="submit" size="sm">
+                        Search
+                      </Button>
+                    </form>
+                    {users.map((user) => (
+                      <button
+                        key={user.id}
+                        type="button"
+                        className="w-full text-left rounded-md border p-2 text-sm hover:bg-[hsl(210,40%,96.1%)]"
+                        disabled={busyId !== null}
+                        onClick={() => handleAssign(token, user)}
+                      >
+                        <span className="font-semibold">{user.fullName}</span>{" "}
+                        <span className="text-[hsl(0,0%,31%)]">
+                          ({user.role} · {user.credentialId}) {user.email}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HardwareTokensPanel;
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { SearchCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { VerificationStatus, VerificationSummary } from "@/lib/auth/types";
+import { verificationReasonLabels } from "@/lib/auth/verificationReasons";
+import { getVerifications, resolveVerification } from "@/services/authService";
+
+type QueueStatus = Exclude<VerificationStatus, "not_required">;
+
+/**
+ * Admin queue of registrations flagged for manual verification (unusual email domain or credential ID)
+ */
+const ManualVerificationPanel = () => {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<QueueStatus>("pending");
+  const [verifications, setVerifications] = useState<VerificationSummary[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadVerifications = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getVerifications(statusFilter);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load verifications.");
+      return;
+    }
+
+    setLoadError("");
+    setVerifications(result.verifications ?? []);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadVerifications();
+  }, [loadVerifications]);
+
+  const handleResolve = async (verification: VerificationSummary, decision: "verify" | "reject") => {
+    const note = notes[verification.id]?.trim() ?? "";
+    if (!note) {
+      toast({
+        title: "Note Required",
+        description: "Record what you checked before resolving the flag.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setResolvingId(verification.id);
+    const result = await resolveVerification(verification.id, decision, note);
+    setResolvingId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Resolve Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: decision === "verify" ? "Registration Verified" : "Registration Rejected",
+      description: `${verification.email}: ${result.message}`,
+    });
+    setVerifications((prev) => prev.filter((item) => item.id !== verification.id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SearchCheck className="h-5 w-5" />
+          Manual Verification
+        </CardTitle>
+        <CardDescription>Flagged registrations keep restricted access until a reviewer resolves them</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          {(["pending", "verified", "rejected"] as const).map((status) => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? "default" : "outline"}
+              size="sm"
+              onClick={() => setStatusFilter(status)}
+            >
+              {status[0].toUpperCase() + status.slice(1)}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading verifications...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadVerifications}>
+              Retry
+            </Button>
+          </div>
+        ) : verifications.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">
+            {statusFilter === "pending" ? "No registrations awaiting verification." : `No ${statusFilter} registrations.`}
+          </p>
+        ) : (
+          verifications.map((verification) => (
+            <div key={verification.id} className="rounded-md border p-4 space-y-3">
+              <div className="text-sm space-y-1">
+                <div>
+                  <span className="font-semibold">{verification.fullName}</span>{" "}
+                  <span className="text-[hsl(0,0%,31%)]">
+                    ({verification.role} · {verification.credentialId})
+                  </span>
+                </div>
+                <div className="text-[hsl(0,0%,31%)]">{verification.email}</div>
+                <div className="flex flex-wrap gap-2">
+                  {verification.reasons.map((reason) => (
+                    <Badge key={reason} variant="destructive">
+                      {verificationReasonLabels[reason]}
+                    </Badge>
+                  ))}
+                  {!verification.accountActive && <Badge variant="outline">Not activated</Badge>}
+                </div>
+                {verification.flaggedAt && (
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    Flagged {new Date(verification.flaggedAt).toLocaleString()}
+                  </div>
+                )}
+                {verification.resolvedAt && (
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    Resolved {new Date(verification.resolvedAt).toLocaleString()}
+                    {verification.resolvedBy ? ` by ${verification.resolvedBy}` : ""}
+                    {verification.note ? `: ${verification.note}` : ""}
+                  </div>
+                )}
+              </div>
+
+              {verification.status === "pending" && (
+                <>
+                  <Input
+                    placeholder="Note (required): what you checked and with whom"
+                    maxLength={500}
+                    value={notes[verification.id] ?? ""}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [verification.id]: e.target.value }))}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={resolvingId === verification.id}
+                      onClick={() => handleResolve(verification, "verify")}
+                    >
+                      Verify
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={resolvingId === verification.id}
+                      onClick={() => handleResolve(verification, "reject")}
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ManualVerificationPanel;
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type { MfaMethod } from "@/lib/auth/types";
+import { formatBackupCodeInput } from "@/lib/auth/backupCodes";
+import { getMfaCodeLength } from "@/lib/auth/mfaMethods";
+import { sendStepUpCode } from "@/services/authService";
+
+const codeLabels: Partial<Record<MfaMethod, string>> = {
+  totp: "Authenticator Code",
+  hotp: "Hardware Token Code",
+};
+
+interface MfaCodeFieldProps {
+  id: string;
+  mfaMethod: MfaMethod;
+  totpDigits?: number;
+  value: string;
+  onChange: (value: string) => void;
+  useBackupCode: boolean;
+  onUseBackupCodeChange: (useBackupCode: boolean) => void;
+  onError?: (message: string) => void;
+}
+
+/**
+ * Fresh MFA code input for signed-in confirmations (TOTP, hardware token, emailed step-up code or backup code).
+ * Security key users are prompted for their key when the parent form submits.
+ */
+const MfaCodeField = ({
+  id,
+  mfaMethod,
+  totpDigits,
+  value,
+  onChange,
+  useBackupCode,
+  onUseBackupCodeChange,
+  onError,
+}: MfaCodeFieldProps) => {
+  const { toast } = useToast();
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const codeLength = getMfaCodeLength(mfaMethod, totpDigits);
+
+  const handleSendCode = async () => {
+    setIsSendingCode(true);
+    const result = await sendStepUpCode();
+    setIsSendingCode(false);
+
+    if (!result.success) {
+      onError?.(result.message);
+      return;
+    }
+
+    setCodeSent(true);
+    toast({
+      title: "OTP Sent",
+      description: "Check your email for the 6-digit code.",
+    });
+  };
+
+  const handleChange = (raw: string) => {
+    onChange(useBackupCode ? formatBackupCodeInput(raw) : raw.replace(/\D/g, "").slice(0, codeLength));
+  };
+
+  const toggleBackupCode = (
+    <Button
+      type="button"
+      variant="link"
+      size="sm"
+      className="px-0"
+      onClick={() => {
+        onUseBackupCodeChange(!useBackupCode);
+        onChange("");
+      }}
+    >
+      {useBackupCode ? "Use your MFA method instead" : "Use a backup code"}
+    </Button>
+  );
+
+  if (mfaMethod === "webauthn" && !useBackupCode) {
+    return (
+      <div className="space-y-2">
+        <Label>Security Key</Label>
+        <p className="text-xs text-[hsl(0,0%,31%)]">
+          You'll be asked to insert or tap your security key when you continue.
+        </p>
+        {toggleBackupCode}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>
+        {useBackupCode ? "Backup Code" : codeLabels[mfaMethod] ?? "Email OTP"}
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder={useBackupCode ? "XXXX-XXXX" : "0".repeat(codeLength)}
+          maxLength={useBackupCode ? 9 : codeLength}
+          value={value}
+          onChange={(e) => handleChange(e.target.value)}
+          className="text-center tracking-widest"
+        />
+        {mfaMethod === "email" && !useBackupCode && (
+          <Button type="button" variant="secondary" onClick={handleSendCode} disabled={isSendingCode}>
+            {codeSent ? "Resend" : "Send OTP"}
+          </Button>
+        )}
+      </div>
+      {toggleBackupCode}
+    </div>
+  );
+};
+
+export default MfaCodeField;
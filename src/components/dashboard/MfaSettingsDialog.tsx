@@ -0,0 +1,612 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Shield, Smartphone, KeyRound, Key, Info } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { isValidBackupCodeFormat } from "@/lib/auth/backupCodes";
+import { getTotpParams, isValidTotpFormat, setupTotp, TotpSetup } from "@/lib/auth/totpService";
+import type { MfaMethod } from "@/lib/auth/types";
+import {
+  HOTP_MAX_DIGITS,
+  getEnforcedMfaMessage,
+  isMfaMethodAllowed,
+  isValidHotpFormat,
+  isValidMfaCodeFormat,
+} from "@/lib/auth/mfaMethods";
+import { authenticateWithSecurityKey, registerSecurityKey } from "@/lib/auth/webauthn";
+import type { RoleConfig } from "@/lib/roleConfig";
+import {
+  reverifyForMfaUpdate,
+  updateMfaMethod,
+  getWebAuthnStepUpOptions,
+  getWebAuthnEnrollmentOptions,
+} from "@/services/authService";
+import MfaCodeField from "./MfaCodeField";
+
+interface MfaSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userEmail: string;
+  currentMethod: MfaMethod;
+  totpDigits?: number;
+  roleConfig?: RoleConfig;
+  onUpdated: (method: MfaMethod, totpDigits?: number) => void;
+}
+
+type MfaSettingsStep = "verify" | "choose" | "enroll" | "security-key" | "hardware-token";
+
+const MfaSettingsDialog = ({
+  open,
+  onOpenChange,
+  userEmail,
+  currentMethod,
+  totpDigits,
+  roleConfig,
+  onUpdated,
+}: MfaSettingsDialogProps) => {
+  const { toast } = useToast();
+  const [step, setStep] = useState<MfaSettingsStep>("verify");
+  const [password, setPassword] = useState("");
+  const [mfaCode, setMfaCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [mfaUpdateToken, setMfaUpdateToken] = useState("");
+  const [enforcedMethod, setEnforcedMethod] = useState<MfaMethod | null>(roleConfig?.enforcedMfaMethod ?? null);
+  const [totpSetup, setTotpSetup] = useState<TotpSetup | null>(null);
+  const [totpCode, setTotpCode] = useState("");
+  const [keyNickname, setKeyNickname] = useState("");
+  const [tokenSerial, setTokenSerial] = useState("");
+  const [hotpCodes, setHotpCodes] = useState<[string, string]>(["", ""]);
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const resetDialog = () => {
+    setStep("verify");
+    setPassword("");
+    setMfaCode("");
+    setUseBackupCode(false);
+    setMfaUpdateToken("");
+    setTotpSetup(null);
+    setTotpCode("");
+    setKeyNickname("");
+    setTokenSerial("");
+    setHotpCodes(["", ""]);
+    setError("");
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      // Drop the pending secret and update token with the dialog
+      resetDialog();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!password) {
+      setError("Enter your current password.");
+      return;
+    }
+
+    const useSecurityKey = currentMethod === "webauthn" && !useBackupCode;
+    if (!useSecurityKey && !(useBackupCode ? isValidBackupCodeFormat(mfaCode) : isValidMfaCodeFormat(currentMethod, mfaCode, totpDigits))) {
+      setError(useBackupCode ? "Enter a valid backup code (XXXX-XXXX)." : "Enter a valid verification code.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const assertion = useSecurityKey ? await authenticateWithSecurityKey(getWebAuthnStepUpOptions) : null;
+    if (assertion && !assertion.success) {
+      setIsSubmitting(false);
+      setError(assertion.message);
+      return;
+    }
+
+    const result = await reverifyForMfaUpdate({
+      password,
+      mfaMethod: useBackupCode ? "backup" : currentMethod,
+      mfaCode,
+      webauthnResponse: assertion?.response,
+    });
+    setIsSubmitting(false);
+    setPassword("");
+    setMfaCode("");
+
+    if (!result.success || !result.mfaUpdateToken) {
+      setError(result.message);
+      return;
+    }
+
+    setError("");
+    setMfaUpdateToken(result.mfaUpdateToken);
+    setEnforcedMethod(result.enforcedMethod ?? roleConfig?.enforcedMfaMethod ?? null);
+    setStep("choose");
+  };
+
+  const handleUpdateFailure = (message: string, reverifyRequired?: boolean) => {
+    setError(message);
+    if (reverifyRequired) {
+      setMfaUpdateToken("");
+      setTotpSetup(null);
+      setTotpCode("");
+      setStep("verify");
+    }
+  };
+
+  const handleChooseAuthenticator = async () => {
+    try {
+      setIsSubmitting(true);
+      const setup = await setupTotp(userEmail, "SecureDefence", getTotpParams(roleConfig));
+      setTotpSetup(setup);
+      setTotpCode("");
+      setError("");
+      setStep("enroll");
+    } catch (setupError) {
+      console.error("Error setting up TOTP:", setupError);
+      setError("Unable to generate an authenticator QR code. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChooseEmail = async () => {
+    setIsSubmitting(true);
+    const result = await updateMfaMethod({ mfaUpdateToken, method: "email" });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      handleUpdateFailure(result.message, result.reverifyRequired);
+      return;
+    }
+
+    onUpdated("email");
+    toast({
+      title: "MFA Updated",
+      description: "Sign-in now uses one-time codes sent to your email.",
+    });
+    handleOpenChange(false);
+  };
+
+  const handleConfirmAuthenticator = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!totpSetup) {
+      return;
+    }
+
+    if (!isValidTotpFormat(totpCode, totpSetup.params.digits)) {
+      setError(`Enter the ${totpSetup.params.digits}-digit code shown in your authenticator app.`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await updateMfaMethod({
+      mfaUpdateToken,
+      method: "totp",
+      totpSecret: totpSetup.secret.base32,
+      totpCode,
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setTotpCode("");
+      handleUpdateFailure(result.message, result.reverifyRequired);
+      return;
+    }
+
+    onUpdated("totp", result.totpDigits);
+    toast({
+      title: "Authenticator Enrolled",
+      description: "Codes from your previous authenticator no longer work.",
+    });
+    handleOpenChange(false);
+  };
+
+  const handleRegisterSecurityKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    const registration = await registerSecurityKey(() => getWebAuthnEnrollmentOptions(mfaUpdateToken));
+    if (!registration.success || !registration.response) {
+      setIsSubmitting(false);
+      handleUpdateFailure(registration.message, registration.reverifyRequired);
+      return;
+    }
+
+    const result = await updateMfaMethod({
+      mfaUpdateToken,
+      method: "webauthn",
+      webauthnResponse: registration.response,
+      nickname: keyNickname.trim() || undefined,
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      handleUpdateFailure(result.message, result.reverifyRequired);
+      return;
+    }
+
+    onUpdated("webauthn");
+    toast({
+      title: "Security Key Registered",
+      description: currentMethod === "webauthn"
+        ? "Any of your registered keys can now be used to sign in."
+        : "Sign-in now requires your security key.",
+    });
+    handleOpenChange(false);
+  };
+
+  // Two consecutive presses prove the token is in hand and line up the server's counter
+  const handleActivateHardwareToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!tokenSerial.trim()) {
+      setError("Enter the serial number printed on the back of your token.");
+      return;
+    }
+
+    if (!hotpCodes.every(isValidHotpFormat)) {
+      setError("Press the token button twice and enter both codes in order.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await updateMfaMethod({
+      mfaUpdateToken,
+      method: "hotp",
+      tokenSerial: tokenSerial.trim(),
+      hotpCodes,
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setHotpCodes(["", ""]);
+      handleUpdateFailure(result.message, result.reverifyRequired);
+      return;
+    }
+
+    onUpdated("hotp");
+    toast({
+      title: "Hardware Token Activated",
+      description: "Sign-in now requires a code from your hardware token.",
+    });
+    handleOpenChange(false);
+  };
+
+  const totpBlocked = !isMfaMethodAllowed("totp", enforcedMethod);
+  const hotpBlocked = !isMfaMethodAllowed("hotp", enforcedMethod);
+  const emailBlocked = !isMfaMethodAllowed("email", enforcedMethod);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Update MFA Settings</DialogTitle>
+          <DialogDescription>
+            {step === "verify" && "Confirm it's you before changing how you sign in."}
+            {step === "choose" && "Choose the second factor you want to use from now on."}
+            {step === "enroll" && "Scan the QR code, then enter the first code to finish enrolling."}
+            {step === "security-key" && "Name the key, then follow your browser's prompt to register it."}
+            {step === "hardware-token" && "Enter the serial of the token issued to you and two consecutive codes."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "verify" && (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mfa-settings-password">Current Password</Label>
+              <Input
+                id="mfa-settings-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  if (error) setError("");
+                }}
+              />
+            </div>
+
+            <MfaCodeField
+              id="mfa-settings-code"
+              mfaMethod={currentMethod}
+              totpDigits={totpDigits}
+              value={mfaCode}
+              onChange={(value) => {
+                setMfaCode(value);
+                if (error) setError("");
+              }}
+              useBackupCode={useBackupCode}
+              onUseBackupCodeChange={setUseBackupCode}
+              onError={setError}
+            />
+
+            {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Verifying..." : "Continue"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {step === "choose" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3">
+              <button
+                type="button"
+                onClick={handleChooseAuthenticator}
+                disabled={isSubmitting || totpBlocked}
+                aria-disabled={totpBlocked}
+                className={`rounded-lg border border-[hsl(213,100%,18%)]/20 bg-white p-4 text-left transition shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
+                  totpBlocked ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full flex items-center justify-center bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]">
+                    <Shield className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <p className="font-semibold text-[hsl(213,100%,18%)]">
+                      {currentMethod === "totp" ? "Re-enroll Authenticator App" : "Switch to Authenticator App"}
+                    </p>
+                    <p className="text-xs text-[hsl(0,0%,45%)]">
+                      {currentMethod === "totp"
+                        ? "Use this if you lost or replaced your phone."
+                        : "Use TOTP codes from an authenticator app."}
+                    </p>
+                  </div>
+                </div>
+              </button>
+
+              <button
+                type="button"
+                onClick={handleChooseEmail}
+                disabled={isSubmitting || emailBlocked || currentMethod === "email"}
+                aria-disabled={emailBlocked || currentMethod === "email"}
+                className={`rounded-lg border border-[hsl(213,100%,18%)]/20 bg-white p-4 text-left transition shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
+                  emailBlocked || currentMethod === "email" ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full flex items-center justify-center bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]">
+                    <Smartphone className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <p className="font-semibold text-[hsl(213,100%,18%)]">Email OTP</p>
+                    <p className="text-xs text-[hsl(0,0%,30%)]">
+                      {currentMethod === "email" ? "Currently active." : "Receive one-time codes via email."}
+                    </p>
+                  </div>
+                </div>
+              </button>
+
+              <button
+                type="button"
+                onClick={() => {
+                  setError("");
+                  setStep("security-key");
+                }}
+                disabled={isSubmitting}
+                className="rounded-lg border border-[hsl(213,100%,18%)]/20 bg-white p-4 text-left transition shadow-sm hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)]"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full flex items-center justify-center bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]">
+                    <KeyRound className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <p className="font-semibold text-[hsl(213,100%,18%)]">
+                      {currentMethod === "webauthn" ? "Add Another Security Key" : "Switch to Security Key"}
+                    </p>
+                    <p className="text-xs text-[hsl(0,0%,45%)]">
+                      {currentMethod === "webauthn"
+                        ? "Register a spare key in case one is lost."
+                        : "Use a FIDO2 hardware token or passkey."}
+                    </p>
+                  </div>
+                </div>
+              </button>
+
+              <button
+                type="button"
+                onClick={() => {
+                  setError("");
+                  setStep("hardware-token");
+                }}
+                disabled={isSubmitting || hotpBlocked}
+                aria-disabled={hotpBlocked}
+                className={`rounded-lg border border-[hsl(213,100%,18%)]/20 bg-white p-4 text-left transition shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(213,100%,18%)] ${
+                  hotpBlocked ? "opacity-60 cursor-not-allowed" : "hover:shadow-md"
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full flex items-center justify-center bg-[hsl(213,100%,18%)]/10 text-[hsl(213,100%,18%)]">
+                    <Key className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <p className="font-semibold text-[hsl(213,100%,18%)]">
+                      {currentMethod === "hotp" ? "Resync Hardware Token" : "Switch to Hardware Token"}
+                    </p>
+                    <p className="text-xs text-[hsl(0,0%,45%)]">
+                      Use the OTP token an administrator issued to you.
+                    </p>
+                  </div>
+                </div>
+              </button>
+            </div>
+
+            {enforcedMethod && emailBlocked && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription className="text-xs">
+                  {getEnforcedMfaMessage(enforcedMethod)} Weaker methods cannot be selected.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {currentMethod === "webauthn" && (
+              <p className="text-xs text-[hsl(0,0%,45%)]">
+                Switching to another method removes all registered security keys.
+              </p>
+            )}
+
+            {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "security-key" && (
+          <form onSubmit={handleRegisterSecurityKey} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mfa-settings-key-name">Key name (optional)</Label>
+              <Input
+                id="mfa-settings-key-name"
+                type="text"
+                placeholder="e.g., Office YubiKey"
+                maxLength={60}
+                value={keyNickname}
+                onChange={(e) => setKeyNickname(e.target.value)}
+              />
+              <p className="text-xs text-[hsl(0,0%,31%)]">
+                Insert or tap your security key when your browser asks for it.
+              </p>
+            </div>
+
+            {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setStep("choose")}>
+                Back
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Waiting for Key..." : "Register Security Key"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {step === "hardware-token" && (
+          <form onSubmit={handleActivateHardwareToken} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mfa-settings-token-serial">Token serial number</Label>
+              <Input
+                id="mfa-settings-token-serial"
+                type="text"
+                autoComplete="off"
+                placeholder="e.g., HT-004512"
+                maxLength={32}
+                value={tokenSerial}
+                onChange={(e) => {
+                  setTokenSerial(e.target.value.toUpperCase());
+                  if (error) setError("");
+                }}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {hotpCodes.map((code, index) => (
+                <div key={index} className="space-y-2">
+                  <Label htmlFor={`mfa-settings-hotp-${index}`}>{index === 0 ? "First code" : "Next code"}</Label>
+                  <Input
+                    id={`mfa-settings-hotp-${index}`}
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    maxLength={HOTP_MAX_DIGITS}
+                    value={code}
+                    onChange={(e) => {
+                      const value = e.target.value.replace(/\D/g, "").slice(0, HOTP_MAX_DIGITS);
+                      setHotpCodes((prev) => (index === 0 ? [value, prev[1]] : [prev[0], value]));
+                      if (error) setError("");
+                    }}
+                    className="text-center tracking-widest"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-[hsl(0,0%,31%)]">
+              Press the button, enter the code, then press it again for the next one.
+            </p>
+
+            {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setStep("choose")}>
+                Back
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Activating..." : "Activate Token"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+
+        {step === "enroll" && totpSetup && (
+          <form onSubmit={handleConfirmAuthenticator} className="space-y-4">
+            <div className="flex justify-center">
+              <img src={totpSetup.qrCodeDataUrl} alt="Authenticator QR code" className="w-48 h-48" />
+            </div>
+            <div className="text-center space-y-1">
+              <p className="text-xs text-[hsl(0,0%,31%)]">Can't scan? Enter this key manually:</p>
+              <code className="block bg-[hsl(210,40%,96.1%)] p-2 rounded font-mono text-sm break-all">
+                {totpSetup.manualEntryKey}
+              </code>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="mfa-settings-totp">Code from the new authenticator</Label>
+              <Input
+                id="mfa-settings-totp"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder={"0".repeat(totpSetup.params.digits)}
+                maxLength={totpSetup.params.digits}
+                value={totpCode}
+                onChange={(e) => {
+                  setTotpCode(e.target.value.replace(/\D/g, "").slice(0, totpSetup.params.digits));
+                  if (error) setError("");
+                }}
+                className="text-center text-2xl tracking-widest"
+              />
+            </div>
+
+            {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setStep("choose")}>
+                Back
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Confirming..." : "Confirm & Enroll"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MfaSettingsDialog;
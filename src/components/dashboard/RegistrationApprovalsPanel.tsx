@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { RegistrationSummary } from "@/lib/auth/types";
+import { verificationReasonLabels } from "@/lib/auth/verificationReasons";
+import { getRegistrations, reviewRegistration } from "@/services/authService";
+
+/**
+ * Admin queue of new registrations waiting for activation
+ */
+const RegistrationApprovalsPanel = () => {
+  const { toast } = useToast();
+  const [registrations, setRegistrations] = useState<RegistrationSummary[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadRegistrations = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getRegistrations("pending");
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load registrations.");
+      return;
+    }
+
+    setLoadError("");
+    setRegistrations(result.registrations ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadRegistrations();
+  }, [loadRegistrations]);
+
+  const handleReview = async (registration: RegistrationSummary, decision: "approve" | "reject") => {
+    const reason = reasons[registration.id]?.trim() ?? "";
+    if (decision === "reject" && !reason) {
+      toast({
+        title: "Reason Required",
+        description: "Add a reason; it is emailed to the applicant.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReviewingId(registration.id);
+    const result = await reviewRegistration(registration.id, decision, reason || undefined);
+    setReviewingId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Review Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: decision === "approve" ? "Account Activated" : "Registration Rejected",
+      description: `${registration.email}: ${result.message}`,
+    });
+    setRegistrations((prev) => prev.filter((item) => item.id !== registration.id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Pending Registrations
+        </CardTitle>
+        <CardDescription>New accounts cannot sign in until an administrator approves them</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading registrations...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadRegistrations}>
+              Retry
+            </Button>
+          </div>
+        ) : registrations.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">No registrations awaiting approval.</p>
+        ) : (
+          <div className="space-y-4">
+            {registrations.map((registration) => (
+              <div key={registration.id} className="rounded-md border p-4 space-y-3">
+                <div className="text-sm space-y-1">
+                  <div>
+                    <span className="font-semibold">{registration.fullName}</span>{" "}
+                    <span className="text-[hsl(0,0%,31%)]">
+                      ({registration.role} · {registration.credentialId})
+                    </span>
+                  </div>
+                  <div className="text-[hsl(0,0%,31%)]">{registration.email}</div>
+                  <div className="flex flex-wrap gap-2">
+                    {!registration.emailVerified && <Badge variant="outline">Email not verified</Badge>}
+                    {registration.emailFlags.map((flag) => (
+                      <Badge key={flag} variant="destructive">
+                        {verificationReasonLabels[flag]}
+                      </Badge>
+                    ))}
+                    {registration.verificationStatus === "pending" && (
+                      <Badge variant="outline">Manual verification pending</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    Registered {new Date(registration.registeredAt).toLocaleString()}
+                  </div>
+                </div>
+                <Input
+                  placeholder="Reason (required to reject, emailed to the applicant)"
+                  maxLength={500}
+                  value={reasons[registration.id] ?? ""}
+                  onChange={(e) => setReasons((prev) => ({ ...prev, [registration.id]: e.target.value }))}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={reviewingId === registration.id}
+                    onClick={() => handleReview(registration, "approve")}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={reviewingId === registration.id}
+                    onClick={() => handleReview(registration, "reject")}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RegistrationApprovalsPanel;
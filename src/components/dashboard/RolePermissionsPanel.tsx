@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { PermissionInfo, RolePermissionsSummary } from "@/lib/auth/types";
+import { roleOptions, Permission, RoleKey } from "@/lib/roleConfig";
+import { getPermissions, resetRolePermissions, updateRolePermissions } from "@/services/authService";
+
+// Keeps the permission screens reachable; mirrors LOCKED_ROLE_PERMISSIONS in server/services/permissionService.js
+const LOCKED_PERMISSIONS: Partial<Record<RoleKey, Permission[]>> = {
+  admin: ["permissions:manage"],
+};
+
+/**
+ * Admin view: change which permissions each role is granted
+ */
+const RolePermissionsPanel = () => {
+  const { toast } = useToast();
+  const [catalogue, setCatalogue] = useState<PermissionInfo[]>([]);
+  const [roles, setRoles] = useState<RolePermissionsSummary[]>([]);
+  const [role, setRole] = useState<RoleKey>("personnel");
+  const [draft, setDraft] = useState<Permission[]>([]);
+  const [reason, setReason] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [busy, setBusy] = useState<"save" | "reset" | null>(null);
+
+  const loadPermissions = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getPermissions();
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load permissions.");
+      return;
+    }
+
+    setLoadError("");
+    setCatalogue(result.permissions ?? []);
+    setRoles(result.roles ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadPermissions();
+  }, [loadPermissions]);
+
+  const current = roles.find((item) => item.role === role);
+
+  useEffect(() => {
+    setDraft(current?.permissions ?? []);
+  }, [current]);
+
+  const locked = LOCKED_PERMISSIONS[role] ?? [];
+  const isDirty = Boolean(current)
+    && (draft.length !== current.permissions.length || draft.some((permission) => !current.permissions.includes(permission)));
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setDraft((prev) => (checked ? [...prev, permission] : prev.filter((item) => item !== permission)));
+  };
+
+  const handleSave = async () => {
+    setBusy("save");
+    const result = await updateRolePermissions(role, draft, reason.trim());
+    setBusy(null);
+
+    if (!result.success) {
+      toast({ title: "Update Failed", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Sent for Approval", description: result.message });
+    setReason("");
+    setDraft(current?.permissions ?? []);
+  };
+
+  const handleReset = async () => {
+    setBusy("reset");
+    const result = await resetRolePermissions(role, reason.trim());
+    setBusy(null);
+
+    if (!result.success) {
+      toast({ title: "Reset Failed", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Sent for Approval", description: result.message });
+    setReason("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Role Permissions
+        </CardTitle>
+        <CardDescription>
+          A change waits for a second administrator in the approvals inbox, then applies to every account of the role
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {roleOptions.map((option) => (
+            <Button
+              key={option.value}
+              variant={role === option.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setRole(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading permissions...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadPermissions}>
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-[hsl(0,0%,31%)]">
+              <Badge variant={current?.customized ? "default" : "outline"}>
+                {current?.customized ? "Customised" : "Registry defaults"}
+              </Badge>
+              {current?.updatedAt && (
+                <span>
+                  Changed {new Date(current.updatedAt).toLocaleString()}
+                  {current.updatedBy ? ` by ${current.updatedBy}` : ""}
+                </span>
+              )}
+            </div>
+
+            <div className="grid gap-2 md:grid-cols-2">
+              {catalogue.map((permission) => {
+                const isLocked = locked.includes(permission.name);
+                const isDefault = current?.defaultPermissions.includes(permission.name);
+                return (
+                  <label
+                    key={permission.name}
+                    className="flex items-start gap-3 rounded-md border p-3 text-sm"
+                  >
+                    <Checkbox
+                      checked={draft.includes(permission.name)}
+                      disabled={isLocked || busy !== null}
+                      onCheckedChange={(checked) => togglePermission(permission.name, checked === true)}
+                    />
+                    <span className="space-y-1">
+                      <span className="block font-mono text-xs">
+                        {permission.name}
+                        {isDefault ? " · default" : ""}
+                        {isLocked ? " · required" : ""}
+                      </span>
+                      <span className="block text-xs text-[hsl(0,0%,31%)]">{permission.description}</span>
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+
+            <Input
+              placeholder="Reason (required): shown to the administrator who approves the change"
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+
+            <div className="flex gap-2">
+              <Button size="sm" disabled={!isDirty || reason.trim().length < 10 || busy !== null} onClick={handleSave}>
+                {busy === "save" ? "Submitting..." : "Propose Change"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!current?.customized || reason.trim().length < 10 || busy !== null}
+                onClick={handleReset}
+              >
+                {busy === "reset" ? "Submitting..." : "Propose Reset to Defaults"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RolePermissionsPanel;
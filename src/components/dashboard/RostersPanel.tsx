@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ClipboardList } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { RosterEntry, RosterFormat, RosterLineError, RosterPreview, RosterVersionSummary } from "@/lib/auth/types";
+import { roleConfigurations, roleOptions, RoleKey } from "@/lib/roleConfig";
+import { applyRoster, getRosters, getRosterVersions, previewRoster } from "@/services/authService";
+
+const CSV_EXAMPLE = "credential_id,full_name,email\nARMY123456,\"Singh, Rajesh\",rajesh.singh@army.mil.in";
+
+// Rows of each diff category shown in the preview; the counts cover everything
+const PREVIEW_ROWS = 20;
+
+const detectFormat = (fileName: string, content: string): RosterFormat =>
+  fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(content) ? "json" : "csv";
+
+const describeEntry = (entry: Omit<RosterEntry, "credentialId">) =>
+  [entry.fullName, entry.email].filter(Boolean).join(" · ") || "No name or email";
+
+/**
+ * Admin view: import the authorised credential roster of each role, preview the changes and review past imports
+ */
+const RostersPanel = () => {
+  const { toast } = useToast();
+  const [role, setRole] = useState<RoleKey>("personnel");
+  const [currentVersions, setCurrentVersions] = useState<Record<string, RosterVersionSummary | null>>({});
+  const [history, setHistory] = useState<RosterVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [note, setNote] = useState("");
+  const [preview, setPreview] = useState<RosterPreview | null>(null);
+  const [lineErrors, setLineErrors] = useState<RosterLineError[]>([]);
+  const [busy, setBusy] = useState<"preview" | "apply" | null>(null);
+
+  const loadRosters = useCallback(async () => {
+    setIsLoading(true);
+    const [rosters, versions] = await Promise.all([getRosters(), getRosterVersions(role)]);
+    setIsLoading(false);
+
+    if (!rosters.success || !versions.success) {
+      setLoadError(rosters.message || versions.message || "Failed to load rosters.");
+      return;
+    }
+
+    setLoadError("");
+    setCurrentVersions(Object.fromEntries((rosters.rosters ?? []).map((roster) => [roster.role, roster.current])));
+    setHistory(versions.versions ?? []);
+  }, [role]);
+
+  useEffect(() => {
+    loadRosters();
+  }, [loadRosters]);
+
+  const resetImport = () => {
+    setPreview(null);
+    setLineErrors([]);
+  };
+
+  const handleRoleChange = (nextRole: RoleKey) => {
+    setRole(nextRole);
+    resetImport();
+  };
+
+  const handleFileSelected = async (file?: File) => {
+    if (file) {
+      setContent(await file.text());
+      setFileName(file.name);
+      resetImport();
+    }
+  };
+
+  const format = detectFormat(fileName, content);
+
+  const handlePreview = async () => {
+    setBusy("preview");
+    const result = await previewRoster(role, format, content);
+    setBusy(null);
+
+    if (!result.success || !result.preview) {
+      toast({ title: "Preview Failed", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    setPreview(result.preview);
+    setLineErrors(result.preview.errors);
+  };
+
+  const handleApply = async () => {
+    if (!preview) {
+      return;
+    }
+
+    setBusy("apply");
+    const result = await applyRoster(role, {
+      format,
+      content,
+      baseVersion: preview.baseVersion,
+      fileName: fileName || undefined,
+      note: note.trim() || undefined,
+    });
+    setBusy(null);
+
+    if (!result.success) {
+      toast({ title: "Import Failed", description: result.message, variant: "destructive" });
+      if (result.errors) {
+        setLineErrors(result.errors);
+      } else {
+        // The roster moved on since the preview; it has to be previewed again
+        setPreview(null);
+      }
+      return;
+    }
+
+    toast({ title: "Roster Imported", description: result.message });
+    setContent("");
+    setFileName("");
+    setNote("");
+    resetImport();
+    loadRosters();
+  };
+
+  const current = currentVersions[role];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          Credential Rosters
+        </CardTitle>
+        <CardDescription>
+          Registration for a role with a roster only accepts listed credential IDs, with the listed email and name
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {roleOptions.map((option) => (
+            <Button
+              key={option.value}
+              variant={role === option.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => handleRoleChange(option.value)}
+            >
+              {option.label}
+              {currentVersions[option.value] && (
+                <Badge variant="secondary" className="ml-2">
+                  v{currentVersions[option.value]?.version}
+                </Badge>
+              )}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading rosters...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadRosters}>
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-[hsl(0,0%,31%)]">
+            {current
+              ? `Version ${current.version}: ${current.entryCount} entries, imported ${new Date(current.importedAt).toLocaleString()}${current.importedBy ? ` by ${current.importedBy}` : ""}.`
+              : "No roster imported; registration only checks the ID format."}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="roster-content">Import roster (CSV or JSON)</Label>
+          <Input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          />
+          <Textarea
+            id="roster-content"
+            rows={4}
+            placeholder={CSV_EXAMPLE}
+            value={content}
+            onChange={(e) => {
+              setContent(e.target.value);
+              resetImport();
+            }}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-[hsl(0,0%,31%)]">
+            Columns: credential_id (required), full_name, email. JSON: an array of {"{ credentialId, fullName, email }"}.
+            IDs must match the {roleConfigurations[role].idLabel} format. The file replaces the whole roster.
+          </p>
+          <Input
+            placeholder="Note for the import history (optional)"
+            maxLength={500}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={!content.trim() || busy !== null} onClick={handlePreview}>
+              {busy === "preview" ? "Previewing..." : "Preview Changes"}
+            </Button>
+            <Button
+              size="sm"
+              disabled={!preview || lineErrors.length > 0 || busy !== null}
+              onClick={handleApply}
+            >
+              {busy === "apply" ? "Applying..." : `Apply as Version ${(preview?.baseVersion ?? current?.version ?? 0) + 1}`}
+            </Button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="rounded-md border p-3 text-xs space-y-3">
+            <p className="text-sm">
+              {preview.entryCount} valid entries · {preview.counts.added} added · {preview.counts.removed} removed ·{" "}
+              {preview.counts.changed} changed
+            </p>
+            {preview.added.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-semibold">Added</p>
+                {preview.added.slice(0, PREVIEW_ROWS).map((entry) => (
+                  <p key={entry.credentialId} className="text-[hsl(0,0%,31%)]">
+                    <span className="font-mono">{entry.credentialId}</span> {describeEntry(entry)}
+                  </p>
+                ))}
+              </div>
+            )}
+            {preview.removed.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-semibold">Removed</p>
+                {preview.removed.slice(0, PREVIEW_ROWS).map((entry) => (
+                  <p key={entry.credentialId} className="text-[hsl(0,0%,31%)]">
+                    <span className="font-mono">{entry.credentialId}</span> {describeEntry(entry)}
+                  </p>
+                ))}
+              </div>
+            )}
+            {preview.changed.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-semibold">Changed</p>
+                {preview.changed.slice(0, PREVIEW_ROWS).map((entry) => (
+                  <p key={entry.credentialId} className="text-[hsl(0,0%,31%)]">
+                    <span className="font-mono">{entry.credentialId}</span> {describeEntry(entry.before)} →{" "}
+                    {describeEntry(entry.after)}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {lineErrors.length > 0 && (
+          <div className="rounded-md border p-3 text-xs space-y-1">
+            <p className="text-[hsl(0,84%,60%)]">
+              Fix {lineErrors.length} {lineErrors.length === 1 ? "line" : "lines"} before applying:
+            </p>
+            {lineErrors.map((error) => (
+              <p key={`${error.line}-${error.credentialId ?? ""}`} className="text-[hsl(0,0%,31%)]">
+                {format === "json" ? "Entry" : "Line"} {error.line}
+                {error.credentialId ? ` (${error.credentialId})` : ""}: {error.reason}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Import history</p>
+            {history.map((version) => (
+              <div key={version.id} className="rounded-md border p-3 text-xs space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant={version.version === current?.version ? "default" : "outline"}>v{version.version}</Badge>
+                  <span>
+                    {version.entryCount} entries · +{version.changes.added} −{version.changes.removed} ~
+                    {version.changes.changed}
+                  </span>
+                </div>
+                <div className="text-[hsl(0,0%,31%)]">
+                  {new Date(version.importedAt).toLocaleString()}
+                  {version.importedBy ? ` by ${version.importedBy}` : ""} · {version.format.toUpperCase()}
+                  {version.fileName ? ` · ${version.fileName}` : ""}
+                </div>
+                {version.note && <div className="text-[hsl(0,0%,31%)]">{version.note}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RostersPanel;
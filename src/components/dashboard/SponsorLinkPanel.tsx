@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { SponsorLink, SponsorLinkStatus } from "@/lib/auth/types";
+import { roleConfigurations } from "@/lib/roleConfig";
+import { getSponsorLink, requestSponsor } from "@/services/authService";
+
+const statusLabels: Record<SponsorLinkStatus, string> = {
+  pending: "Awaiting sponsor",
+  confirmed: "Confirmed",
+  rejected: "Not confirmed",
+};
+
+interface SponsorLinkPanelProps {
+  onConfirmedChange: (confirmed: boolean) => void;
+}
+
+/**
+ * Family member's view of their sponsor link; family services unlock once the sponsor confirms it
+ */
+const SponsorLinkPanel = ({ onConfirmedChange }: SponsorLinkPanelProps) => {
+  const { toast } = useToast();
+  const [sponsor, setSponsor] = useState<SponsorLink | null>(null);
+  const [serviceId, setServiceId] = useState("");
+  const [serviceIdError, setServiceIdError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadSponsor = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getSponsorLink();
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load sponsor status.");
+      return;
+    }
+
+    setLoadError("");
+    setSponsor(result.sponsor ?? null);
+    onConfirmedChange(result.sponsor?.status === "confirmed");
+  }, [onConfirmedChange]);
+
+  useEffect(() => {
+    loadSponsor();
+  }, [loadSponsor]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const personnelConfig = roleConfigurations.personnel;
+    if (!personnelConfig.idPattern.test(serviceId)) {
+      setServiceIdError(personnelConfig.idValidationMessage);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await requestSponsor(serviceId);
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setServiceIdError(result.message);
+      return;
+    }
+
+    toast({ title: "Request Sent", description: result.message });
+    setServiceId("");
+    setSponsor(result.sponsor ?? null);
+  };
+
+  const canRequest = !sponsor || sponsor.status === "rejected";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Sponsor
+        </CardTitle>
+        <CardDescription>Family services are available once your sponsor confirms you as their dependent</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading sponsor status...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadSponsor}>
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <>
+            {sponsor ? (
+              <div className="text-sm space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold font-mono">{sponsor.serviceId}</span>
+                  <Badge variant={sponsor.status === "rejected" ? "destructive" : sponsor.status === "confirmed" ? "default" : "secondary"}>
+                    {statusLabels[sponsor.status]}
+                  </Badge>
+                </div>
+                {sponsor.sponsorName && <div className="text-[hsl(0,0%,31%)]">{sponsor.sponsorName}</div>}
+                {sponsor.reason && <div className="text-[hsl(0,0%,31%)]">Reason: {sponsor.reason}</div>}
+                <div className="text-xs text-[hsl(0,0%,31%)]">
+                  {sponsor.decidedAt
+                    ? `Answered ${new Date(sponsor.decidedAt).toLocaleString()}`
+                    : `Requested ${new Date(sponsor.requestedAt).toLocaleString()}`}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-[hsl(0,0%,31%)]">No sponsor named yet.</p>
+            )}
+
+            {canRequest && (
+              <form onSubmit={handleSubmit} className="space-y-2">
+                <Label htmlFor="sponsor-service-id">
+                  {sponsor ? "Name a different sponsor" : "Name your sponsor"}
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="sponsor-service-id"
+                    placeholder={roleConfigurations.personnel.placeholder}
+                    value={serviceId}
+                    onChange={(e) => {
+                      setServiceId(e.target.value.replace(/\s+/g, "").toUpperCase());
+                      if (serviceIdError) setServiceIdError("");
+                    }}
+                    autoComplete="off"
+                    aria-invalid={Boolean(serviceIdError)}
+                  />
+                  <Button type="submit" size="sm" disabled={isSubmitting || !serviceId}>
+                    {isSubmitting ? "Sending..." : "Send Request"}
+                  </Button>
+                </div>
+                {serviceIdError && <p className="text-xs text-[hsl(0,84%,60%)]">{serviceIdError}</p>}
+              </form>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SponsorLinkPanel;
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { isValidBackupCodeFormat } from "@/lib/auth/backupCodes";
+import type { MfaMethod } from "@/lib/auth/types";
+import { isValidMfaCodeFormat } from "@/lib/auth/mfaMethods";
+import { authenticateWithSecurityKey } from "@/lib/auth/webauthn";
+import { getWebAuthnStepUpOptions, stepUp } from "@/services/authService";
+import { setStepUpHandler } from "@/services/sessionService";
+import MfaCodeField from "./MfaCodeField";
+
+interface StepUpDialogProps {
+  mfaMethod: MfaMethod;
+  totpDigits?: number;
+}
+
+/**
+ * Fresh MFA check for sensitive actions.
+ * Mount once per page; it opens whenever an API call answers with stepUpRequired
+ * or an action calls requestStepUp() from the session service.
+ */
+const StepUpDialog = ({ mfaMethod, totpDigits }: StepUpDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [mfaCode, setMfaCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  useEffect(() => setStepUpHandler(() => new Promise<boolean>((resolve) => {
+    resolveRef.current = resolve;
+    setOpen(true);
+  })), []);
+
+  const close = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setOpen(false);
+    setMfaCode("");
+    setUseBackupCode(false);
+    setError("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const useSecurityKey = mfaMethod === "webauthn" && !useBackupCode;
+    if (!useSecurityKey && !(useBackupCode ? isValidBackupCodeFormat(mfaCode) : isValidMfaCodeFormat(mfaMethod, mfaCode, totpDigits))) {
+      setError(useBackupCode ? "Enter a valid backup code (XXXX-XXXX)." : "Enter a valid verification code.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const assertion = useSecurityKey ? await authenticateWithSecurityKey(getWebAuthnStepUpOptions) : null;
+    if (assertion && !assertion.success) {
+      setIsSubmitting(false);
+      setError(assertion.message);
+      return;
+    }
+
+    const result = await stepUp({
+      mfaMethod: useBackupCode ? "backup" : mfaMethod,
+      mfaCode,
+      webauthnResponse: assertion?.response,
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setError(result.message);
+      setMfaCode("");
+      return;
+    }
+
+    close(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && close(false)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Confirm It's You</DialogTitle>
+          <DialogDescription>
+            This action needs a fresh MFA check. Your last verification has expired.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <MfaCodeField
+            id="step-up-mfa-code"
+            mfaMethod={mfaMethod}
+            totpDigits={totpDigits}
+            value={mfaCode}
+            onChange={(value) => {
+              setMfaCode(value);
+              if (error) setError("");
+            }}
+            useBackupCode={useBackupCode}
+            onUseBackupCodeChange={setUseBackupCode}
+            onError={setError}
+          />
+
+          {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => close(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Verifying..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StepUpDialog;
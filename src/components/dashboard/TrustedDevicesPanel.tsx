@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { TrustedDeviceSummary } from "@/lib/auth/types";
+import { getTrustedDevices, revokeAllTrustedDevices, revokeTrustedDevice } from "@/services/authService";
+
+/**
+ * Browsers allowed to skip the MFA step, with revocation
+ */
+const TrustedDevicesPanel = () => {
+  const { toast } = useToast();
+  const [devices, setDevices] = useState<TrustedDeviceSummary[]>([]);
+  const [allowed, setAllowed] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getTrustedDevices();
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load trusted devices.");
+      return;
+    }
+
+    setLoadError("");
+    setAllowed(result.allowed ?? true);
+    setDevices(result.devices ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const handleRevoke = async (device: TrustedDeviceSummary) => {
+    setBusyId(device.id);
+    const result = await revokeTrustedDevice(device.id);
+    setBusyId(null);
+
+    toast({
+      title: result.success ? "Device Removed" : "Remove Failed",
+      description: result.success ? `${device.device} will ask for MFA on the next sign-in.` : result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      setDevices((prev) => prev.filter((item) => item.id !== device.id));
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setBusyId("all");
+    const result = await revokeAllTrustedDevices();
+    setBusyId(null);
+
+    toast({
+      title: result.success ? "Devices Removed" : "Remove Failed",
+      description: result.message,
+      variant: result.success ? "default" : "destructive",
+    });
+    if (result.success) {
+      setDevices([]);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Trusted Devices
+        </CardTitle>
+        <CardDescription>Devices that skip the MFA step when you sign in</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading trusted devices...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadDevices}>
+              Retry
+            </Button>
+          </div>
+        ) : !allowed ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">
+            Your role must complete MFA on every sign-in, so devices cannot be trusted.
+          </p>
+        ) : devices.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">
+            No trusted devices. Tick "Trust this device" during the MFA step to add one.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {devices.map((device) => (
+              <div key={device.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+                <div className="text-sm space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{device.device}</span>
+                    {device.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    IP {device.ipAddress ?? "unknown"} · Trusted {new Date(device.trustedAt).toLocaleString()}
+                  </div>
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    {device.lastUsedAt ? `Last used ${new Date(device.lastUsedAt).toLocaleString()} · ` : ""}
+                    Expires {new Date(device.expiresAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId !== null}
+                  onClick={() => handleRevoke(device)}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+
+            {devices.length > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={busyId !== null}
+                onClick={handleRevokeAll}
+              >
+                Remove All Trusted Devices
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrustedDevicesPanel;
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { UnlockRequestSummary } from "@/lib/auth/types";
+import { getUnlockRequests, reviewUnlockRequest } from "@/services/authService";
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+/**
+ * Admin queue of pending account unlock requests
+ */
+const UnlockRequestsPanel = () => {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<UnlockRequestSummary[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getUnlockRequests("pending");
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLoadError(result.message || "Failed to load unlock requests.");
+      return;
+    }
+
+    setLoadError("");
+    setRequests(result.requests ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const handleReview = async (request: UnlockRequestSummary, decision: "approve" | "reject") => {
+    const note = notes[request.id]?.trim() ?? "";
+    if (decision === "reject" && !note) {
+      toast({
+        title: "Note Required",
+        description: "Add a note explaining why the request is rejected.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReviewingId(request.id);
+    const result = await reviewUnlockRequest(request.id, decision, note || undefined);
+    setReviewingId(null);
+
+    if (!result.success) {
+      toast({
+        title: "Review Failed",
+        description: result.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: decision === "approve" ? "Account Unlocked" : "Request Rejected",
+      description: `${request.email}: ${result.message}`,
+    });
+    setRequests((prev) => prev.filter((item) => item.id !== request.id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Unlock Requests
+        </CardTitle>
+        <CardDescription>Accounts locked after repeated failed sign-ins</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">Loading requests...</p>
+        ) : loadError ? (
+          <div className="space-y-2">
+            <p className="text-xs text-[hsl(0,84%,60%)]">{loadError}</p>
+            <Button variant="outline" size="sm" onClick={loadRequests}>
+              Retry
+            </Button>
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-[hsl(0,0%,31%)]">No pending unlock requests.</p>
+        ) : (
+          <div className="space-y-4">
+            {requests.map((request) => (
+              <div key={request.id} className="rounded-md border p-4 space-y-3">
+                <div className="text-sm space-y-1">
+                  <div>
+                    <span className="font-semibold">{request.fullName ?? request.email}</span>{" "}
+                    <span className="text-[hsl(0,0%,31%)]">
+                      ({request.role}{request.credentialId ? ` · ${request.credentialId}` : ""})
+                    </span>
+                  </div>
+                  <div className="text-[hsl(0,0%,31%)]">{request.email}</div>
+                  <div>
+                    <span className="font-semibold">Reason:</span> {request.reason}
+                  </div>
+                  <div className="text-xs text-[hsl(0,0%,31%)]">
+                    Requested {formatTimestamp(request.requestedAt)} · Locked until {formatTimestamp(request.lockedUntil)}
+                  </div>
+                </div>
+                <Input
+                  placeholder="Review note (required to reject)"
+                  maxLength={500}
+                  value={notes[request.id] ?? ""}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={reviewingId === request.id}
+                    onClick={() => handleReview(request, "approve")}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={reviewingId === request.id}
+                    onClick={() => handleReview(request, "reject")}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnlockRequestsPanel;
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { UserCog } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AdminUserSummary, PermissionOverrideEffect, UserPermissions } from "@/lib/auth/types";
+import { PERMISSIONS, Permission, isPermission } from "@/lib/roleConfig";
+import {
+  getUserPermissions,
+  removePermissionOverride,
+  searchUsers,
+  setPermissionOverride,
+} from "@/services/authService";
+
+const permissionNames = Object.keys(PERMISSIONS).filter(isPermission);
+
+/**
+ * Admin view: grant or deny single permissions to one user, on top of their role's grants
+ */
+const UserPermissionsPanel = () => {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [details, setDetails] = useState<UserPermissions | null>(null);
+  const [error, setError] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+  const [permission, setPermission] = useState<Permission | "">("");
+  const [effect, setEffect] = useState<PermissionOverrideEffect>("grant");
+  const [reason, setReason] = useState("");
+  const [busyPermission, setBusyPermission] = useState<Permission | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSearching(true);
+    const result = await searchUsers(search.trim());
+    setIsSearching(false);
+
+    if (!result.success) {
+      setError(result.message || "Failed to search users.");
+      return;
+    }
+
+    setError("");
+    setUsers(result.users ?? []);
+    setDetails(null);
+  };
+
+  const handleSelectUser = async (user: AdminUserSummary) => {
+    const result = await getUserPermissions(user.id);
+    if (!result.success || !result.user) {
+      setError(result.message || "Failed to load user permissions.");
+      return;
+    }
+
+    setError("");
+    setDetails({
+      user: result.user,
+      rolePermissions: result.rolePermissions ?? [],
+      overrides: result.overrides ?? [],
+      effective: result.effective ?? [],
+    });
+  };
+
+  const applyResult = (result: Partial<UserPermissions>) => {
+    if (result.user) {
+      setDetails({
+        user: result.user,
+        rolePermissions: result.rolePermissions ?? [],
+        overrides: result.overrides ?? [],
+        effective: result.effective ?? [],
+      });
+    }
+  };
+
+  const handleAddOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!details || !permission) {
+      return;
+    }
+
+    setBusyPermission(permission);
+    const result = await setPermissionOverride(details.user.id, { permission, effect, reason: reason.trim() });
+    setBusyPermission(null);
+
+    if (!result.success) {
+      toast({ title: "Override Failed", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: result.pendingApproval ? "Sent for Approval" : "Override Saved", description: result.message });
+    applyResult(result);
+    setPermission("");
+    setReason("");
+  };
+
+  const handleRemoveOverride = async (overridePermission: Permission) => {
+    if (!details) {
+      return;
+    }
+
+    setBusyPermission(overridePermission);
+    const result = await removePermissionOverride(details.user.id, overridePermission, reason.trim());
+    setBusyPermission(null);
+
+    if (!result.success) {
+      toast({ title: "Remove Failed", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: result.pendingApproval ? "Sent for Approval" : "Override Removed", description: result.message });
+    applyResult(result);
+    setReason("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCog className="h-5 w-5" />
+          User Permission Overrides
+        </CardTitle>
+        <CardDescription>
+          A deny wins over the role's grant; remove the override to fall back to the role. Changes to an admin, or to
+          an admin-level permission, wait for a second administrator
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            placeholder="Name, email or credential ID"
+            maxLength={100}
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              if (error) setError("");
+            }}
+          />
+          <Button type="submit" disabled={isSearching}>
+            {isSearching ? "Searching..." : "Search"}
+          </Button>
+        </form>
+
+        {error && <p className="text-xs text-[hsl(0,84%,60%)]">{error}</p>}
+
+        {users.length > 0 && (
+          <div className="space-y-2">
+            {users.map((user) => (
+              <button
+                key={user.id}
+                type="button"
+                className={`w-full text-left rounded-md border p-3 text-sm hover:bg-[hsl(210,40%,96.1%)] ${
+                  details?.user.id === user.id ? "border-[hsl(213,100%,18%)]" : ""
+                }`}
+                onClick={() => handleSelectUser(user)}
+              >
+                <span className="font-semibold">{user.fullName}</span>{" "}
+                <span className="text-[hsl(0,0%,31%)]">
+                  ({user.role} · {user.credentialId}) {user.email}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {details && (
+          <div className="rounded-md border p-4 space-y-4 text-sm">
+            <div className="space-y-2">
+              <p className="font-semibold">
+                Effective permissions of {details.user.fullName} ({details.user.role})
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {details.effective.length === 0 ? (
+                  <span className="text-xs text-[hsl(0,0%,31%)]">None</span>
+                ) : (
+                  details.effective.map((name) => (
+                    <Badge key={name} variant={details.rolePermissions.includes(name) ? "secondary" : "default"}>
+                      {name}
+                    </Badge>
+                  ))
+                )}
+              </div>
+            </div>
+
+            <Input
+              placeholder="Reason (required): why you are adding or removing this override"
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+
+            {details.overrides.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-semibold">Overrides</p>
+                {details.overrides.map((override) => (
+                  <div key={override.permission} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                    <div className="space-y-1 text-xs">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={override.effect === "deny" ? "destructive" : "default"}>
+                          {override.effect === "deny" ? "Deny" : "Grant"}
+                        </Badge>
+                        <span className="font-mono">{override.permission}</span>
+                      </div>
+                      <div className="text-[hsl(0,0%,31%)]">{override.reason}</div>
+                      <div className="text-[hsl(0,0%,31%)]">
+                        {new Date(override.createdAt).toLocaleString()}
+                        {override.grantedBy ? ` by ${override.grantedBy}` : ""}
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={reason.trim().length < 10 || busyPermission !== null}
+                      title={reason.trim().length < 10 ? "Enter a reason first" : undefined}
+                      onClick={() => handleRemoveOverride(override.permission)}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleAddOverride} className="space-y-2">
+              <p className="font-semibold">Add override</p>
+              <div className="grid gap-2 md:grid-cols-[1fr_auto]">
+                <Select value={permission} onValueChange={(value) => setPermission(value as Permission)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Permission" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {permissionNames.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  {(["grant", "deny"] as const).map((option) => (
+                    <Button
+                      key={option}
+                      type="button"
+                      size="sm"
+                      variant={effect === option ? "default" : "outline"}
+                      onClick={() => setEffect(option)}
+                    >
+                      {option === "grant" ? "Grant" : "Deny"}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {permission && <p className="text-xs text-[hsl(0,0%,31%)]">{PERMISSIONS[permission]}</p>}
+              <Button
+                type="submit"
+                size="sm"
+                disabled={!permission || reason.trim().length < 10 || busyPermission !== null}
+              >
+                Save Override
+              </Button>
+            </form>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UserPermissionsPanel;
@@ -1,30 +1,37 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { OTP_EXPIRY_SECONDS, sanitizeOtpInput, isValidOtpFormat } from "@/lib/auth/emailOtp";
-import type { OtpState } from "@/lib/auth/types";
+import { sendOtp as sendOtpRequest, verifyOtp as verifyOtpRequest } from "@/services/authService";
+import type { OtpPurpose, OtpResponse, OtpState } from "@/lib/auth/types";
 
 interface UseEmailOtpOptions {
+  purpose: OtpPurpose;
+  mfaChallenge?: string; // required when purpose is "login"
   expirySeconds?: number;
   onExpire?: () => void;
-  onSend?: (email: string) => Promise<boolean> | boolean;
 }
 
 interface UseEmailOtpReturn extends OtpState {
   sendOtp: (email: string) => Promise<boolean>;
-  verifyOtp: () => boolean;
+  validateOtp: () => boolean;
+  verifyOtp: (email: string) => Promise<OtpResponse | null>;
   setOtpCode: (value: string) => void;
   setOtpError: (error: string) => void;
   resetOtp: () => void;
   isExpired: boolean;
   canResend: boolean;
+  isSending: boolean;
+  isVerifying: boolean;
 }
 
-export const useEmailOtp = (options: UseEmailOtpOptions = {}): UseEmailOtpReturn => {
-  const { expirySeconds = OTP_EXPIRY_SECONDS, onExpire, onSend } = options;
+export const useEmailOtp = (options: UseEmailOtpOptions): UseEmailOtpReturn => {
+  const { purpose, mfaChallenge, expirySeconds = OTP_EXPIRY_SECONDS, onExpire } = options;
 
   const [otpCode, setOtpCodeRaw] = useState("");
   const [otpSent, setOtpSent] = useState(false);
   const [otpCountdown, setOtpCountdown] = useState(0);
   const [otpError, setOtpError] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
 
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
@@ -35,9 +42,9 @@ export const useEmailOtp = (options: UseEmailOtpOptions = {}): UseEmailOtpReturn
     }
   }, []);
 
-  const startCountdown = useCallback(() => {
+  const startCountdown = useCallback((seconds: number) => {
     clearTimer();
-    setOtpCountdown(expirySeconds);
+    setOtpCountdown(seconds);
 
     timerRef.current = setInterval(() => {
       setOtpCountdown((prev) => {
@@ -49,7 +56,7 @@ export const useEmailOtp = (options: UseEmailOtpOptions = {}): UseEmailOtpReturn
         return prev - 1;
       });
     }, 1000);
-  }, [clearTimer, expirySeconds, onExpire]);
+  }, [clearTimer, onExpire]);
 
   const setOtpCode = useCallback((value: string) => {
     const sanitized = sanitizeOtpInput(value);
@@ -65,22 +72,23 @@ export const useEmailOtp = (options: UseEmailOtpOptions = {}): UseEmailOtpReturn
       return false;
     }
 
-    // Call custom send handler if provided
-    if (onSend) {
-      const result = await onSend(email);
-      if (!result) {
-        return false;
-      }
+    setIsSending(true);
+    const result = await sendOtpRequest({ email: email.trim().toLowerCase(), purpose, mfaChallenge });
+    setIsSending(false);
+
+    if (!result.success) {
+      setOtpError(result.message);
+      return false;
     }
 
     setOtpError("");
     setOtpCodeRaw("");
     setOtpSent(true);
-    startCountdown();
+    startCountdown(result.expiresIn ?? expirySeconds);
     return true;
-  }, [onSend, startCountdown]);
+  }, [expirySeconds, mfaChallenge, purpose, startCountdown]);
 
-  const verifyOtp = useCallback((): boolean => {
+  const validateOtp = useCallback((): boolean => {
     if (!otpSent) {
       setOtpError("Please request an OTP first.");
       return false;
@@ -96,11 +104,30 @@ export const useEmailOtp = (options: UseEmailOtpOptions = {}): UseEmailOtpReturn
       return false;
     }
 
-    // In production, actual verification happens server-side
-    // This just validates the format client-side
     return true;
   }, [otpSent, otpCountdown, otpCode]);
 
+  // Server-side verification; consumes the code on success
+  const verifyOtp = useCallback(async (email: string): Promise<OtpResponse | null> => {
+    if (!validateOtp()) {
+      return null;
+    }
+
+    setIsVerifying(true);
+    const result = await verifyOtpRequest({ email: email.trim().toLowerCase(), otpCode, purpose });
+    setIsVerifying(false);
+
+    if (!result.success) {
+      setOtpError(result.message);
+      setOtpCodeRaw("");
+      return result;
+    }
+
+    clearTimer();
+    setOtpError("");
+    return result;
+  }, [clearTimer, otpCode, purpose, validateOtp]);
+
   const resetOtp = useCallback(() => {
     clearTimer();
     setOtpCodeRaw("");
@@ -120,12 +147,15 @@ export const useEmailOtp = (options: UseEmailOtpOptions = {}): UseEmailOtpReturn
     otpCountdown,
     otpError,
     sendOtp,
+    validateOtp,
     verifyOtp,
     setOtpCode,
     setOtpError,
     resetOtp,
     isExpired: otpSent && otpCountdown === 0,
     canResend: otpCountdown === 0,
+    isSending,
+    isVerifying,
   };
 };
 
@@ -0,0 +1,23 @@
+import { useContext } from "react";
+import { PermissionsContext } from "@/lib/auth/permissions";
+import type { Permission } from "@/lib/roleConfig";
+
+/**
+ * Whether the signed-in user holds every listed permission.
+ * UI only: the server enforces the same names with requirePermission.
+ */
+export const usePermission = (permission: Permission | Permission[]): boolean => {
+  const permissions = useContext(PermissionsContext);
+  const required = Array.isArray(permission) ? permission : [permission];
+
+  return permissions !== null && required.every((name) => permissions.includes(name));
+};
+
+/**
+ * Whether the signed-in user holds at least one of the listed permissions
+ */
+export const useAnyPermission = (permissions: Permission[]): boolean => {
+  const granted = useContext(PermissionsContext);
+
+  return granted !== null && permissions.some((name) => granted.includes(name));
+};
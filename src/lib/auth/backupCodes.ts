@@ -0,0 +1,15 @@
+/**
+ * Backup code helpers (XXXX-XXXX recovery codes)
+ */
+
+export const BACKUP_CODE_PATTERN = /^\d{4}-?\d{4}$/;
+
+export const isValidBackupCodeFormat = (code: string): boolean => BACKUP_CODE_PATTERN.test(code.trim());
+
+/**
+ * Keep digits only and insert the dash after the first four
+ */
+export const formatBackupCodeInput = (value: string): string => {
+  const digits = value.replace(/\D/g, "").slice(0, 8);
+  return digits.length > 4 ? `${digits.slice(0, 4)}-${digits.slice(4)}` : digits;
+};
@@ -0,0 +1,13 @@
+/**
+ * Display helpers for temporary elevated access
+ */
+
+// e.g. "30 minutes", "1 hour", "4 hours"
+export const formatElevationDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : `${minutes / 60} ${minutes === 60 ? "hour" : "hours"}`;
+
+// Header label for an active elevation, e.g. "42 min left"; whole minutes, never below 1
+export const formatTimeLeft = (expiresAt: string, now: number) => {
+  const minutes = Math.max(1, Math.ceil((new Date(expiresAt).getTime() - now) / 60000));
+  return minutes < 60 ? `${minutes} min left` : `${Math.floor(minutes / 60)} h ${minutes % 60} min left`;
+};
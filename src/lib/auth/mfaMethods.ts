@@ -0,0 +1,57 @@
+/**
+ * MFA method ordering shared by login, registration and the dashboard.
+ * Mirrors MFA_METHOD_STRENGTH in server/services/mfaService.js.
+ */
+
+import type { MfaMethod } from "./types";
+import { OTP_LENGTH, isValidOtpFormat } from "./emailOtp";
+import { DEFAULT_TOTP_PARAMS, isValidTotpFormat } from "./totpService";
+
+// A role's enforcedMfaMethod is the weakest method it accepts
+export const MFA_METHOD_STRENGTH: Record<MfaMethod, number> = {
+  email: 1,
+  totp: 2,
+  hotp: 2,
+  webauthn: 3,
+};
+
+export const isMfaMethodAllowed = (method: MfaMethod, enforced?: MfaMethod | null): boolean =>
+  !enforced || MFA_METHOD_STRENGTH[method] >= MFA_METHOD_STRENGTH[enforced];
+
+export const getEnforcedMfaMessage = (enforced: MfaMethod): string =>
+  enforced === "webauthn"
+    ? "Security key (WebAuthn) MFA is enforced for this role."
+    : "Authenticator-based MFA is enforced for this role.";
+
+// Hardware tokens show 6 or 8 digits depending on the model
+export const HOTP_MAX_DIGITS = 8;
+
+export const isValidHotpFormat = (code: string): boolean => /^(\d{6}|\d{8})$/.test(code);
+
+// Longest code for a method; authenticator codes follow the user's enrolled parameters
+export const getMfaCodeLength = (method: MfaMethod, totpDigits?: number): number => {
+  if (method === "hotp") {
+    return HOTP_MAX_DIGITS;
+  }
+  return method === "totp" ? totpDigits ?? DEFAULT_TOTP_PARAMS.digits : OTP_LENGTH;
+};
+
+export const isValidMfaCodeFormat = (method: MfaMethod, code: string, totpDigits?: number): boolean => {
+  if (method === "hotp") {
+    return isValidHotpFormat(code);
+  }
+  return method === "totp" ? isValidTotpFormat(code, totpDigits) : isValidOtpFormat(code);
+};
+
+/**
+ * Map the server's stored authMethod ("authenticator", "hardware_token", "email", "webauthn") onto client method names
+ */
+export const toMfaMethod = (authMethod: string): MfaMethod => {
+  if (authMethod === "authenticator" || authMethod === "totp") {
+    return "totp";
+  }
+  if (authMethod === "hardware_token" || authMethod === "hotp") {
+    return "hotp";
+  }
+  return authMethod === "webauthn" ? "webauthn" : "email";
+};
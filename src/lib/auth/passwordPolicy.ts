@@ -0,0 +1,47 @@
+/**
+ * Password policy helpers shared by flows that set a new password
+ */
+
+import type { RoleConfig } from "@/lib/roleConfig";
+
+export const BASE_PASSWORD_POLICY = "Minimum 12 characters, at least one uppercase letter, one number, and one special character.";
+export const PASSWORD_POLICY_REGEX = /^(?=.*[A-Z])(?=.*[0-9])(?=.*[^A-Za-z0-9]).{12,}$/;
+
+/**
+ * Policy lines to show for a role (baseline plus any role-specific message)
+ */
+export const getPasswordPolicyMessages = (config?: RoleConfig): string[] => {
+  const messages = new Set<string>([BASE_PASSWORD_POLICY]);
+  if (config?.passwordPolicy?.message) {
+    messages.add(config.passwordPolicy.message);
+  }
+  return Array.from(messages);
+};
+
+/**
+ * Check a new password against the baseline and role policy.
+ * Returns an error message, or null when the password is acceptable.
+ */
+export const getPasswordPolicyError = (value: string, config?: RoleConfig): string | null => {
+  if (!value.trim()) {
+    return "Create a password that meets the listed policy.";
+  }
+
+  if (!PASSWORD_POLICY_REGEX.test(value)) {
+    return BASE_PASSWORD_POLICY;
+  }
+
+  const minLength = Math.max(12, config?.passwordPolicy?.minLength ?? 12);
+  if (value.length < minLength) {
+    return (
+      config?.passwordPolicy?.message ??
+      `Password must be at least ${minLength} characters and include uppercase letters, numbers, and special characters.`
+    );
+  }
+
+  if (config?.passwordPolicy?.requireSpecialCharacter && !/[^A-Za-z0-9]/.test(value)) {
+    return config.passwordPolicy.message ?? "Include at least one special character in your password.";
+  }
+
+  return null;
+};
@@ -0,0 +1,32 @@
+/**
+ * Display helpers for the approvals inbox
+ */
+import type { PendingOperationSummary } from "./types";
+
+// One line saying what approving the operation would do
+export const describeOperation = (operation: PendingOperationSummary) => {
+  const target = operation.targetUser
+    ? `${operation.targetUser.fullName} (${operation.targetUser.role} · ${operation.targetUser.email})`
+    : "a deleted account";
+
+  switch (operation.type) {
+    case "deactivate_account":
+      return `Deactivate ${target}`;
+    case "reset_mfa":
+      return `Reset the MFA of ${target} to email OTP`;
+    case "set_role_permissions":
+      return `Change the permissions of the ${operation.targetRole} role`;
+    case "reset_role_permissions":
+      return `Reset the permissions of the ${operation.targetRole} role to the registry defaults`;
+    case "set_permission_override":
+      return `${operation.params.effect === "deny" ? "Deny" : "Grant"} ${operation.params.permission} for ${target}`;
+    case "remove_permission_override":
+      return `Remove the ${operation.params.permission} override of ${target}`;
+  }
+};
+
+// Grants a role operation adds and removes, compared with the list the proposer saw
+export const getPermissionChanges = ({ params }: PendingOperationSummary) => ({
+  added: (params.permissions ?? []).filter((permission) => !(params.previous ?? []).includes(permission)),
+  removed: (params.previous ?? []).filter((permission) => !(params.permissions ?? []).includes(permission)),
+});
@@ -0,0 +1,9 @@
+/**
+ * Permissions of the signed-in user, provided by the Dashboard once /api/dashboard/user has loaded.
+ * null until then, so <Can> and usePermission render nothing rather than guess.
+ */
+
+import { createContext } from "react";
+import type { Permission } from "@/lib/roleConfig";
+
+export const PermissionsContext = createContext<Permission[] | null>(null);
@@ -5,6 +5,9 @@
 
 import * as OTPAuth from 'otpauth';
 import QRCode from 'qrcode';
+import type { TotpParams } from './types';
+import type { RoleConfig } from '@/lib/roleConfig';
+import { DEFAULT_TOTP_PARAMS as REGISTRY_DEFAULT_TOTP_PARAMS } from '../../../shared/roleRegistry.js';
 
 export interface TotpSecret {
   ascii: string;
@@ -15,14 +18,33 @@ export interface TotpSecret {
 
 export interface TotpSetup {
   secret: TotpSecret;
+  params: TotpParams;
   qrCodeDataUrl: string;
   manualEntryKey: string;
 }
 
+// From the shared role registry, as on the server
+export const DEFAULT_TOTP_PARAMS: TotpParams = REGISTRY_DEFAULT_TOTP_PARAMS;
+
+/**
+ * Authenticator parameters for a new enrollment under a role
+ */
+export const getTotpParams = (roleConfig?: RoleConfig): TotpParams => roleConfig?.totp ?? DEFAULT_TOTP_PARAMS;
+
+/**
+ * Check the shape of an authenticator code before sending it
+ */
+export const isValidTotpFormat = (token: string, digits: number = DEFAULT_TOTP_PARAMS.digits): boolean =>
+  token.length === digits && /^\d+$/.test(token);
+
 /**
  * Generate a new TOTP secret for a user
  */
-export const generateTotpSecret = (userEmail: string, issuer: string = 'SecureDefence'): TotpSecret => {
+export const generateTotpSecret = (
+  userEmail: string,
+  issuer: string = 'SecureDefence',
+  params: TotpParams = DEFAULT_TOTP_PARAMS
+): TotpSecret => {
   // Generate a random secret
   const secret = new OTPAuth.Secret({ size: 20 });
   
@@ -30,9 +52,7 @@ export const generateTotpSecret = (userEmail: string, issuer: string = 'SecureDe
   const totp = new OTPAuth.TOTP({
     issuer: issuer,
     label: userEmail,
-    algorithm: 'SHA1',
-    digits: 6,
-    period: 30,
+    ...params,
     secret: secret,
   });
 
@@ -67,8 +87,12 @@ export const generateQRCode = async (otpauthUrl: string): Promise<string> => {
 /**
  * Complete TOTP setup - generates secret and QR code
  */
-export const setupTotp = async (userEmail: string, issuer: string = 'SecureDefence'): Promise<TotpSetup> => {
-  const secret = generateTotpSecret(userEmail, issuer);
+export const setupTotp = async (
+  userEmail: string,
+  issuer: string = 'SecureDefence',
+  params: TotpParams = DEFAULT_TOTP_PARAMS
+): Promise<TotpSetup> => {
+  const secret = generateTotpSecret(userEmail, issuer, params);
   
   if (!secret.otpauth_url) {
     throw new Error('Failed to generate OTP auth URL');
@@ -78,6 +102,7 @@ export const setupTotp = async (userEmail: string, issuer: string = 'SecureDefen
   
   return {
     secret,
+    params,
     qrCodeDataUrl,
     manualEntryKey: formatSecretForDisplay(secret.base32),
   };
@@ -91,18 +116,21 @@ export const formatSecretForDisplay = (secret: string): string => {
 };
 
 /**
- * Verify a TOTP token against a secret
+ * Verify a TOTP token against a secret.
+ * Only a pre-check during enrollment; the server also refuses codes that were already used.
  */
-export const verifyTotpToken = (token: string, secretBase32: string): boolean => {
+export const verifyTotpToken = (
+  token: string,
+  secretBase32: string,
+  params: TotpParams = DEFAULT_TOTP_PARAMS
+): boolean => {
   try {
     const totp = new OTPAuth.TOTP({
-      algorithm: 'SHA1',
-      digits: 6,
-      period: 30,
+      ...params,
       secret: OTPAuth.Secret.fromBase32(secretBase32),
     });
 
-    // Verify with a window of 1 step (30 seconds before and after)
+    // Verify with a window of 1 step either side
     const delta = totp.validate({
       token: token,
       window: 1,
@@ -115,6 +143,21 @@ export const verifyTotpToken = (token: string, secretBase32: string): boolean =>
   }
 };
 
+/**
+ * Uniform random integer in [0, max) from the Web Crypto CSPRNG
+ */
+const secureRandomInt = (max: number): number => {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+
+  // Reject values past the last full multiple of max to avoid modulo bias
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return buffer[0] % max;
+};
+
 /**
  * Generate backup codes for recovery
  */
@@ -122,9 +165,7 @@ export const generateBackupCodes = (count: number = 10): string[] => {
   const codes: string[] = [];
   
   for (let i = 0; i < count; i++) {
-    const code = Array.from({ length: 8 }, () => 
-      Math.floor(Math.random() * 10)
-    ).join('');
+    const code = secureRandomInt(100000000).toString().padStart(8, '0');
     
     // Format as XXXX-XXXX
     codes.push(`${code.slice(0, 4)}-${code.slice(4)}`);
@@ -134,6 +175,8 @@ export const generateBackupCodes = (count: number = 10): string[] => {
 };
 
 export default {
+  getTotpParams,
+  isValidTotpFormat,
   generateTotpSecret,
   generateQRCode,
   setupTotp,
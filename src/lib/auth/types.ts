@@ -1,4 +1,22 @@
-export type MfaMethod = "totp" | "email";
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/browser";
+import type { Permission, RoleKey } from "@/lib/roleConfig";
+
+export type MfaMethod = "totp" | "hotp" | "email" | "webauthn";
+
+// Authenticator app parameters; the server fixes them per user at enrollment
+export interface TotpParams {
+  algorithm: "SHA1" | "SHA256" | "SHA512";
+  digits: 6 | 8;
+  period: number; // seconds
+}
+
+// Methods accepted at the login MFA step; backup codes are a recovery path
+export type MfaVerificationMethod = MfaMethod | "backup";
 
 export interface OtpState {
   otpCode: string;
@@ -7,21 +25,25 @@ export interface OtpState {
   otpError: string;
 }
 
+export type OtpPurpose = "login" | "registration" | "password-reset";
+
 export interface SendOtpRequest {
   email: string;
-  purpose: "login" | "registration" | "password-reset";
+  purpose: OtpPurpose;
+  mfaChallenge?: string; // required for "login" codes
 }
 
 export interface VerifyOtpRequest {
   email: string;
   otpCode: string;
-  purpose: "login" | "registration" | "password-reset";
+  purpose: OtpPurpose;
 }
 
 export interface OtpResponse {
   success: boolean;
   message: string;
   expiresIn?: number; // seconds
+  verificationToken?: string; // proof of verification for follow-up requests
 }
 
 export interface AuthUser {
@@ -30,5 +52,450 @@ export interface AuthUser {
   role: string;
   mfaEnabled: boolean;
   mfaMethod?: MfaMethod;
-  totpSecret?: string; // TOTP secret for verification
+  totpDigits?: number; // length of the user's authenticator codes
+  mfaEnrollmentRequired?: boolean; // an admin MFA reset left the account below its role's MFA minimum
+  mfaChallenge?: string; // signed, single-use token for the MFA step
+  mfaChallengeExpiresAt?: string; // ISO timestamp
+}
+
+// Server-side lockout after repeated failed passwords
+export interface LockoutState {
+  locked: boolean;
+  lockedUntil: string | null; // ISO timestamp
+  attemptsRemaining: number;
+}
+
+export type UnlockRequestStatus = "pending" | "approved" | "rejected";
+
+export interface UnlockRequestSummary {
+  id: string;
+  email: string;
+  role: string;
+  fullName: string | null;
+  credentialId: string | null;
+  reason: string;
+  status: UnlockRequestStatus;
+  requestedAt: string;
+  lockedUntil: string | null;
+  reviewedBy: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string; // e.g. "Chrome on Windows"
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean; // the session making this request
+}
+
+// A browser that may skip the MFA step until trust expires or is revoked
+export interface TrustedDeviceSummary {
+  id: string;
+  device: string; // e.g. "Chrome on Windows"
+  userAgent: string | null;
+  ipAddress: string | null;
+  trustedAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string;
+  current: boolean; // the browser making this request
+}
+
+export type RegistrationStatus = "pending" | "approved" | "rejected";
+
+// Why an applicant's email needs a closer look; see getEmailDomainFlags on the server
+export type EmailDomainFlag = "public_email_provider" | "non_defence_domain" | "admin_domain_mismatch";
+
+export type VerificationStatus = "not_required" | "pending" | "verified" | "rejected";
+
+// Why a registration was flagged for manual verification; see getVerificationReasons on the server
+export type VerificationReason = EmailDomainFlag | "credential_id_format" | "credential_id_in_use";
+
+export interface RegistrationSummary {
+  id: string;
+  fullName: string;
+  email: string;
+  role: string;
+  credentialId: string;
+  mfaMethod: string;
+  emailVerified: boolean;
+  emailFlags: EmailDomainFlag[];
+  status: RegistrationStatus;
+  reason: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  autoApproved: boolean;
+  verificationStatus: VerificationStatus;
+  registeredAt: string;
+}
+
+export interface VerificationSummary {
+  id: string;
+  fullName: string;
+  email: string;
+  role: string;
+  credentialId: string;
+  accountActive: boolean;
+  status: VerificationStatus;
+  reasons: VerificationReason[];
+  flaggedAt: string | null;
+  note: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+}
+
+// Signed-in user's profile from /api/dashboard/user
+export interface DashboardUser {
+  fullName: string;
+  email: string;
+  role: string;
+  // Until a compliant factor is enrolled the server serves nothing but MFA settings
+  mfaEnrollmentRequired: boolean;
+  verification: {
+    status: VerificationStatus;
+    reasons: VerificationReason[];
+  };
+  // Role grants, any active elevation, then the user's overrides
+  permissions: Permission[];
+  elevation: ActiveElevation | null;
+}
+
+// Temporary extra permissions granted by an approver; they stop applying at expiresAt
+export interface ActiveElevation {
+  permissions: Permission[];
+  expiresAt: string;
+}
+
+export type ElevationStatus = "pending" | "approved" | "rejected" | "cancelled" | "expired" | "revoked";
+
+// Requester fields are null on the user's own view
+export interface ElevationSummary {
+  id: string;
+  fullName: string | null;
+  email: string | null;
+  role: string | null;
+  credentialId: string | null;
+  permissions: Permission[];
+  justification: string;
+  durationMinutes: number;
+  status: ElevationStatus;
+  requestedAt: string;
+  reviewedBy: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  endedAt: string | null;
+}
+
+export type PendingOperationType =
+  | "deactivate_account"
+  | "reset_mfa"
+  | "set_role_permissions"
+  | "reset_role_permissions"
+  | "set_permission_override"
+  | "remove_permission_override";
+
+export type PendingOperationStatus = "pending" | "executed" | "failed" | "rejected" | "cancelled" | "expired";
+
+// A critical admin action waiting for (or decided by) a second administrator
+export interface PendingOperationSummary {
+  id: string;
+  type: PendingOperationType;
+  requiredPermission: Permission;
+  targetUser: { id: string; fullName: string; email: string; role: string } | null;
+  targetRole: RoleKey | null;
+  // Role operations carry the new grant list and the one it replaces
+  params: {
+    permissions?: Permission[];
+    previous?: Permission[];
+    permission?: Permission;
+    effect?: PermissionOverrideEffect;
+  };
+  reason: string;
+  status: PendingOperationStatus;
+  proposedBy: string | null;
+  proposedByMe: boolean;
+  proposedAt: string;
+  expiresAt: string;
+  reviewedBy: string | null;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  executedAt: string | null;
+  failureReason: string | null;
+}
+
+export interface PermissionInfo {
+  name: Permission;
+  description: string;
+}
+
+// A role's grant list; customized is false while the registry defaults apply
+export interface RolePermissionsSummary {
+  role: RoleKey;
+  permissions: Permission[];
+  defaultPermissions: Permission[];
+  customized: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export type PermissionOverrideEffect = "grant" | "deny";
+
+export interface PermissionOverride {
+  permission: Permission;
+  effect: PermissionOverrideEffect;
+  reason: string;
+  grantedBy: string | null;
+  createdAt: string;
+}
+
+export interface UserPermissions {
+  user: { id: string; fullName: string; email: string; role: RoleKey };
+  rolePermissions: Permission[];
+  overrides: PermissionOverride[];
+  effective: Permission[];
+}
+
+export type PolicyEffect = "allow" | "deny";
+
+// Attribute name to value, e.g. { "environment.network": "external" }; names are listed by GET /admin/policies
+export type PolicyAttributes = Record<string, string | number | boolean | null>;
+
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { attribute: string; operator: string; value: unknown };
+
+// Stored form of an access policy document (server/services/policyService.js)
+export interface PolicyDocument {
+  defaultEffect: PolicyEffect;
+  policies: {
+    id: string;
+    description: string | null;
+    effect: PolicyEffect;
+    actions: (Permission | "*")[];
+    condition: PolicyCondition | null;
+  }[];
+  tests: { name: string; action: Permission; attributes: PolicyAttributes; expect: PolicyEffect }[];
+}
+
+export interface PolicyVersionSummary {
+  version: number;
+  defaultEffect: PolicyEffect;
+  policyCount: number;
+  testCount: number;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface PolicyAttributeInfo {
+  name: string;
+  description: string;
+}
+
+export interface PolicyOperatorInfo {
+  name: string;
+  expects: string;
+}
+
+// Every condition node with its result; leaves also show the value the request had
+export type PolicyConditionTrace =
+  | { all: PolicyConditionTrace[]; result: boolean }
+  | { any: PolicyConditionTrace[]; result: boolean }
+  | { not: PolicyConditionTrace; result: boolean }
+  | { attribute: string; operator: string; value: unknown; actual: string | number | boolean | null; result: boolean };
+
+export interface PolicyDecision {
+  // Applied version that was evaluated; null for a draft
+  version: number | null;
+  decision: PolicyEffect;
+  reason: string;
+  // Policies that made the decision; empty when the default effect applied
+  decidedBy: string[];
+  attributes: PolicyAttributes;
+  policies: {
+    id: string;
+    description: string | null;
+    effect: PolicyEffect;
+    applies: boolean;
+    matched: boolean;
+    condition: PolicyConditionTrace | null;
+  }[];
+}
+
+export interface PolicyTestResult {
+  name: string;
+  action: Permission;
+  expect: PolicyEffect;
+  decision: PolicyEffect;
+  decidedBy: string[];
+  passed: boolean;
+}
+
+export type RosterFormat = "csv" | "json";
+
+export interface RosterEntry {
+  credentialId: string;
+  email: string | null;
+  fullName: string | null;
+}
+
+// Line (CSV) or 1-based entry position (JSON) that has to be fixed before the roster can be applied
+export interface RosterLineError {
+  line: number;
+  credentialId?: string | null;
+  reason: string;
+}
+
+export interface RosterPreview {
+  role: string;
+  baseVersion: number;
+  entryCount: number;
+  counts: { added: number; removed: number; changed: number };
+  // Lists stop after the first 200 items of each kind; counts are complete
+  added: RosterEntry[];
+  removed: RosterEntry[];
+  changed: { credentialId: string; before: Omit<RosterEntry, "credentialId">; after: Omit<RosterEntry, "credentialId"> }[];
+  errors: RosterLineError[];
+}
+
+export interface RosterVersionSummary {
+  id: string;
+  role: string;
+  version: number;
+  entryCount: number;
+  changes: { added: number; removed: number; changed: number };
+  format: RosterFormat;
+  fileName: string | null;
+  note: string | null;
+  importedBy: string | null;
+  importedAt: string;
+}
+
+export type RosterMismatchCode = "credential_id_not_on_roster" | "email_mismatch" | "name_mismatch";
+
+export interface RosterMismatch {
+  code: RosterMismatchCode;
+  message: string;
+}
+
+export type SponsorLinkStatus = "pending" | "confirmed" | "rejected";
+
+// A family member's link to the Defence Personnel account that sponsors them
+export interface SponsorLink {
+  serviceId: string;
+  status: SponsorLinkStatus;
+  reason: string | null;
+  requestedAt: string;
+  decidedAt: string | null;
+  sponsorName: string | null; // only once confirmed
+}
+
+export interface DependentSummary {
+  id: string;
+  fullName: string;
+  email: string;
+  familyId: string;
+  status: SponsorLinkStatus;
+  accountActive: boolean;
+  requestedAt: string;
+  decidedAt: string | null;
+}
+
+export type HardwareTokenStatus = "available" | "assigned";
+
+export interface HardwareTokenSummary {
+  id: string;
+  serial: string;
+  algorithm: "SHA1" | "SHA256" | "SHA512";
+  digits: 6 | 8;
+  status: HardwareTokenStatus;
+  assignedTo: {
+    id: string;
+    fullName: string;
+    email: string;
+    role: string;
+    inUse: boolean; // the user signs in with this token
+  } | null;
+  assignedAt: string | null;
+  lastUsedAt: string | null;
+  lastResyncAt: string | null;
+  importedAt: string;
+}
+
+export interface HardwareTokenImportResult {
+  success: boolean;
+  message: string;
+  imported?: number;
+  serials?: string[];
+  skipped?: { line: number; serial?: string | null; reason: string }[];
+}
+
+export interface AdminUserSummary {
+  id: string;
+  fullName: string;
+  email: string;
+  role: string;
+  credentialId: string;
+  isActivated: boolean;
+  lastLogin: string | null;
+}
+
+export interface BackupCodeStatus {
+  success: boolean;
+  message?: string;
+  remaining?: number;
+  total?: number;
+  codes?: string[]; // plaintext, only returned right after regeneration
+}
+
+export interface PasswordResetStartResponse {
+  success: boolean;
+  message?: string;
+  role?: string;
+  mfaMethod?: MfaMethod;
+  totpDigits?: number;
+  mfaRequired?: boolean; // authenticator users must also provide a TOTP or backup code
+  resetExpired?: boolean;
+}
+
+export interface PasswordResetRequest {
+  email: string;
+  verificationToken: string;
+  newPassword: string;
+  mfaMethod?: "totp" | "hotp" | "webauthn" | "backup";
+  mfaCode?: string;
+  webauthnResponse?: AuthenticationResponseJSON;
+}
+
+export interface MfaReverifyResponse {
+  success: boolean;
+  message: string;
+  mfaUpdateToken?: string; // short-lived proof for /mfa/update
+  currentMethod?: MfaMethod;
+  enforcedMethod?: MfaMethod | null;
+}
+
+export interface WebAuthnOptionsResponse<TOptions> {
+  success: boolean;
+  message: string;
+  options?: TOptions;
+  challengeExpired?: boolean; // login MFA challenge no longer redeemable
+  reverifyRequired?: boolean; // enrollment needs a fresh /mfa/reverify
+  resetExpired?: boolean;
+}
+
+export type WebAuthnRegistrationOptions = WebAuthnOptionsResponse<PublicKeyCredentialCreationOptionsJSON>;
+export type WebAuthnAuthenticationOptions = WebAuthnOptionsResponse<PublicKeyCredentialRequestOptionsJSON>;
+
+// Outcome of a browser security key ceremony, ready to send to the server
+export interface SecurityKeyResult<TResponse extends RegistrationResponseJSON | AuthenticationResponseJSON>
+  extends Omit<WebAuthnOptionsResponse<never>, "options"> {
+  response?: TResponse;
 }
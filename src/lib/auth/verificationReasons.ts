@@ -0,0 +1,13 @@
+/**
+ * Labels for the reason codes that send a registration to manual verification
+ */
+
+import type { VerificationReason } from "./types";
+
+export const verificationReasonLabels: Record<VerificationReason, string> = {
+  public_email_provider: "Public email provider",
+  non_defence_domain: "Non-defence domain",
+  admin_domain_mismatch: "Not an MoD admin domain",
+  credential_id_format: "ID does not match role format",
+  credential_id_in_use: "ID already registered",
+};
@@ -0,0 +1,86 @@
+/**
+ * Browser side of WebAuthn security key ceremonies.
+ * Options always come from the server, which stores the challenge and verifies the result.
+ */
+
+import {
+  browserSupportsWebAuthn,
+  startAuthentication,
+  startRegistration,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/browser";
+import type {
+  SecurityKeyResult,
+  WebAuthnAuthenticationOptions,
+  WebAuthnRegistrationOptions,
+} from "./types";
+
+export const isWebAuthnSupported = (): boolean => browserSupportsWebAuthn();
+
+/**
+ * Readable message for a failed or cancelled ceremony
+ */
+export const getSecurityKeyErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    if (error.name === "NotAllowedError") {
+      return "The security key request was cancelled or timed out.";
+    }
+    if (error.name === "InvalidStateError") {
+      return "This security key is already registered.";
+    }
+    if (error.name === "SecurityError") {
+      return "Security keys are not available on this address. Use the official portal URL.";
+    }
+    return error.message;
+  }
+  return "Security key verification failed.";
+};
+
+/**
+ * Fetch registration options and ask the browser to create a credential
+ */
+export const registerSecurityKey = async (
+  fetchOptions: () => Promise<WebAuthnRegistrationOptions>
+): Promise<SecurityKeyResult<RegistrationResponseJSON>> => {
+  if (!isWebAuthnSupported()) {
+    return { success: false, message: "This browser does not support security keys." };
+  }
+
+  const { options, ...result } = await fetchOptions();
+  if (!result.success || !options) {
+    return { ...result, success: false };
+  }
+
+  try {
+    const response = await startRegistration({ optionsJSON: options });
+    return { success: true, message: "Security key registered", response };
+  } catch (error) {
+    console.error("[WebAuthn] Registration error:", error);
+    return { success: false, message: getSecurityKeyErrorMessage(error) };
+  }
+};
+
+/**
+ * Fetch assertion options and ask the browser to sign with an enrolled key
+ */
+export const authenticateWithSecurityKey = async (
+  fetchOptions: () => Promise<WebAuthnAuthenticationOptions>
+): Promise<SecurityKeyResult<AuthenticationResponseJSON>> => {
+  if (!isWebAuthnSupported()) {
+    return { success: false, message: "This browser does not support security keys." };
+  }
+
+  const { options, ...result } = await fetchOptions();
+  if (!result.success || !options) {
+    return { ...result, success: false };
+  }
+
+  try {
+    const response = await startAuthentication({ optionsJSON: options });
+    return { success: true, message: "Security key verified", response };
+  } catch (error) {
+    console.error("[WebAuthn] Authentication error:", error);
+    return { success: false, message: getSecurityKeyErrorMessage(error) };
+  }
+};
@@ -1,9 +1,26 @@
-export type RoleKey =
-	| "personnel"
-	| "family"
-	| "veteran"
-	| "cert"
-	| "admin";
+import type { MfaMethod, TotpParams } from "@/lib/auth/types";
+import {
+	EMAIL_PATTERNS,
+	PERMISSIONS,
+	ROLE_KEYS,
+	ROLE_REGISTRY,
+	isPermission as isRegisteredPermission,
+	isRoleKey as isRegisteredRole,
+} from "../../shared/roleRegistry.js";
+
+// Keys, display names, dashboard paths, permissions, ID rules, email patterns and MFA and password settings live in the shared registry
+export { PERMISSIONS, ROLE_REGISTRY };
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const isPermission = (value: unknown): value is Permission => isRegisteredPermission(value);
+
+export type RoleKey = keyof typeof ROLE_REGISTRY;
+export type RoleDefinition = (typeof ROLE_REGISTRY)[RoleKey];
+
+export const roleKeys = ROLE_KEYS as RoleKey[];
+
+export const isRoleKey = (value: unknown): value is RoleKey => isRegisteredRole(value);
 
 export interface RoleConfig {
 	idLabel: string;
@@ -19,38 +36,75 @@ export interface RoleConfig {
 	emailWarningMessage?: string;
 	emailWhitelist?: string[];
 	requiresMfa?: boolean;
-	enforcedMfaMethod?: "totp" | "email";
+	// Weakest MFA method the role accepts, from the shared registry; "webauthn" requires a security key
+	enforcedMfaMethod?: MfaMethod;
+	// Authenticator parameters for new enrollments (default SHA1, 6 digits, 30s), from the shared registry
+	totp?: TotpParams;
 	securityNotes?: string[];
+	// Checked on top of the baseline policy, from the shared registry
 	passwordPolicy?: {
 		minLength: number;
 		requireSpecialCharacter?: boolean;
 		message: string;
 	};
+	// Shorter step-up window for sensitive actions, from the shared registry
 	highPrivilege?: boolean;
+	// MFA on every sign-in, no trusted devices, from the shared registry
+	forbidTrustedDevice?: boolean;
+	// Registrant names a Defence Personnel sponsor by Service ID; limited capabilities until the sponsor confirms
+	requiresSponsor?: boolean;
 	readOnlyRole?: boolean;
 }
 
-export const defenceEmailPattern = /^[a-z0-9._%+-]+@(?:army|navy|airforce|drdo)\.(?:mil|gov)\.in$|^[a-z0-9._%+-]+@(?:gov|nic)\.in$|^[a-z0-9._%+-]+@gmail\.com$/i;
-export const adminEmailPattern = /^[a-z0-9._%+-]+@(?:mod\.gov\.in|defence\.in|gov\.in|nic\.in)$/i;
-export const modCredentialPattern = /^MOD-[A-Z]{2,4}-\d{4}$/;
+export const defenceEmailPattern = EMAIL_PATTERNS.defence;
+export const adminEmailPattern = EMAIL_PATTERNS.admin;
+export const modCredentialPattern = ROLE_REGISTRY.admin.idRule.pattern;
+
+export const roleOptions: { value: RoleKey; label: string }[] = roleKeys.map((key) => ({
+	value: key,
+	label: ROLE_REGISTRY[key].displayName,
+}));
+
+// Credential field settings from the role's ID rule
+const idFieldFor = (role: RoleKey) => {
+	const { label, pattern, message, uppercase } = ROLE_REGISTRY[role].idRule;
+	return { idLabel: label, idPattern: pattern, idValidationMessage: message, enforceUppercase: uppercase };
+};
+
+// Security settings only some registry entries declare
+interface RegistrySecurityFields {
+	enforcedMfaMethod?: MfaMethod;
+	totp?: TotpParams;
+	passwordPolicy?: RoleConfig["passwordPolicy"];
+	highPrivilege?: boolean;
+	forbidTrustedDevice?: boolean;
+}
+
+const securityFieldsFor = (role: RoleKey): Pick<RoleConfig, keyof RegistrySecurityFields> => {
+	const { enforcedMfaMethod, totp, passwordPolicy, highPrivilege, forbidTrustedDevice } = ROLE_REGISTRY[role] as RegistrySecurityFields;
+	return { enforcedMfaMethod, totp, passwordPolicy, highPrivilege, forbidTrustedDevice };
+};
 
-export const roleOptions: { value: RoleKey; label: string }[] = [
-	{ value: "personnel", label: "Defence Personnel" },
-	{ value: "family", label: "Family Member / Dependent" },
-	{ value: "veteran", label: "Veteran / Retired Officer" },
-	{ value: "cert", label: "CERT Analyst" },
-	{ value: "admin", label: "Admin / MoD Authority" },
-];
+/**
+ * Where a role lands after signing in or registering.
+ * Personnel, family, veteran and admin accounts continue on their external portals; CERT analysts use the in-app dashboard.
+ */
+export const getRoleRedirect = (role: RoleKey): string => {
+	if (role === "personnel" || role === "family" || role === "veteran") {
+		return "https://cyber-complaint-portal.vercel.app/";
+	}
+	if (role === "admin") {
+		return "https://cert-dashbord.vercel.app";
+	}
+	return ROLE_REGISTRY[role].dashboardPath;
+};
 
 export const roleConfigurations: Record<RoleKey, RoleConfig> = {
 	personnel: {
-		idLabel: "Service ID",
+		...idFieldFor("personnel"),
+		...securityFieldsFor("personnel"),
 		placeholder: "e.g., ARMY123456",
 		tooltip: "Enter your official Service ID. Prefix indicates branch (ARMY, NAVY, AIRF, DRDO).",
-		idPattern: /^(?:ARMY|NAVY|AIRF|DRDO)[A-Z0-9]{2,6}$/,
-		idValidationMessage:
-			"Service ID must be 6-10 characters, start with ARMY, NAVY, AIRF, or DRDO, and contain only letters/numbers.",
-		enforceUppercase: true,
 		requiresDefenceEmail: true,
 		emailPattern: defenceEmailPattern,
 		emailErrorMessage: "Defence Personnel must use an official defence email domain (army/navy/airforce/drdo).",
@@ -60,27 +114,23 @@ export const roleConfigurations: Record<RoleKey, RoleConfig> = {
 		],
 	},
 	family: {
-		idLabel: "Defence Family ID (D-FID)",
+		...idFieldFor("family"),
+		...securityFieldsFor("family"),
 		placeholder: "e.g., D-FID-23857",
 		tooltip: "Your D-FID links to your sponsor's record. Non-defence email allowed but flagged for manual verification.",
-		idPattern: /^D-FID-\d{4,}$/i,
-		idValidationMessage: "D-FID must start with D-FID- followed by at least 4 digits.",
-		enforceUppercase: true,
 		emailWarningMessage:
 			"Non-defence email detected. Registration will be flagged for manual verification.",
+		requiresSponsor: true,
 		securityNotes: [
 			"Manual verification required if email is non-defence.",
 			"Limited portal capabilities until sponsor confirmation.",
 		],
 	},
 	veteran: {
-		idLabel: "SPARSH / Pension ID",
+		...idFieldFor("veteran"),
+		...securityFieldsFor("veteran"),
 		placeholder: "e.g., 7654321",
 		tooltip: "Enter your SPARSH ID or Pension ID (numeric only, 6-12 digits).",
-		idPattern: /^\d{6,12}$/,
-		idValidationMessage:
-			"SPARSH/Pension ID must be 6-12 digits (numbers only).",
-		enforceUppercase: false,
 		requiresDefenceEmail: true,
 		emailPattern: defenceEmailPattern,
 		emailErrorMessage:
@@ -88,44 +138,32 @@ export const roleConfigurations: Record<RoleKey, RoleConfig> = {
 		securityNotes: ["Pension-linked accounts monitored for anomalous payments."],
 	},
 	cert: {
-		idLabel: "Analyst Credential / Service ID",
+		...idFieldFor("cert"),
+		...securityFieldsFor("cert"),
 		placeholder: "e.g., CERT-ANL-0942",
 		tooltip: "Analyst ID issues CERT dashboard access. Defence domain required.",
-		idPattern: /^CERT-[A-Z0-9-]*\d{3,}$/i,
-		idValidationMessage:
-			"Analyst ID must include the CERT- prefix and end with digits.",
-		enforceUppercase: true,
 		requiresDefenceEmail: true,
 		emailPattern: defenceEmailPattern,
 		emailErrorMessage: "CERT Analysts must use a defence-controlled email domain.",
 		requiresMfa: true,
-		enforcedMfaMethod: "totp",
 		securityNotes: [
-			"MFA via authenticator app is mandatory.",
+			"MFA via authenticator app or security key is mandatory.",
 			"All actions logged within CERT audit trail.",
 		],
 	},
 	admin: {
-		idLabel: "MOD Credential ID",
+		...idFieldFor("admin"),
+		...securityFieldsFor("admin"),
 		placeholder: "e.g., MOD-HQ-2045",
 		tooltip: "Issued by the MoD Identity Directorate. Format: MOD-UNIT-####.",
-		idPattern: modCredentialPattern,
-		idValidationMessage:
-			"Credential ID must follow MOD-UNIT-#### with an approved unit code and four digits.",
-		enforceUppercase: true,
 		requiresMfa: true,
-		enforcedMfaMethod: "totp",
 		requiresDefenceEmail: true,
 		emailPattern: adminEmailPattern,
 		emailErrorMessage: "Administrators must authenticate with mod.gov.in or defence.in email.",
-		passwordPolicy: {
-			minLength: 12,
-			requireSpecialCharacter: true,
-			message: "Passwords must be at least 12 characters with a special character for admin access.",
-		},
 		securityNotes: [
 			"Strict password policy enforced (12+ chars, special character).",
-			"MFA mandatory. Session is privileged.",
+			"MFA mandatory. Authenticator codes are 8 digits (SHA-256).",
+			"Session is privileged: sensitive actions ask for a fresh MFA check.",
 		],
 	},
 };
\ No newline at end of file
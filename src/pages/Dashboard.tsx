@@ -1,58 +1,168 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, LogOut, User, Settings, Bell } from "lucide-react";
+import { Shield, ShieldAlert, ShieldPlus, LogOut, User, Settings, Bell } from "lucide-react";
+import BackupCodesDialog from "@/components/dashboard/BackupCodesDialog";
+import ChangePasswordDialog from "@/components/dashboard/ChangePasswordDialog";
+import MfaSettingsDialog from "@/components/dashboard/MfaSettingsDialog";
+import UnlockRequestsPanel from "@/components/dashboard/UnlockRequestsPanel";
+import RegistrationApprovalsPanel from "@/components/dashboard/RegistrationApprovalsPanel";
+import ManualVerificationPanel from "@/components/dashboard/ManualVerificationPanel";
+import ActiveSessionsPanel from "@/components/dashboard/ActiveSessionsPanel";
+import TrustedDevicesPanel from "@/components/dashboard/TrustedDevicesPanel";
+import AdminSessionsPanel from "@/components/dashboard/AdminSessionsPanel";
+import HardwareTokensPanel from "@/components/dashboard/HardwareTokensPanel";
+import RostersPanel from "@/components/dashboard/RostersPanel";
+import RolePermissionsPanel from "@/components/dashboard/RolePermissionsPanel";
+import UserPermissionsPanel from "@/components/dashboard/UserPermissionsPanel";
+import AccessPoliciesPanel from "@/components/dashboard/AccessPoliciesPanel";
+import ElevationRequestsPanel from "@/components/dashboard/ElevationRequestsPanel";
+import AccountActionsPanel from "@/components/dashboard/AccountActionsPanel";
+import ApprovalsInboxPanel from "@/components/dashboard/ApprovalsInboxPanel";
+import ElevationDialog from "@/components/dashboard/ElevationDialog";
+import SponsorLinkPanel from "@/components/dashboard/SponsorLinkPanel";
+import DependentsPanel from "@/components/dashboard/DependentsPanel";
+import StepUpDialog from "@/components/dashboard/StepUpDialog";
+import Can from "@/components/auth/Can";
+import type { ActiveElevation, DashboardUser, MfaMethod } from "@/lib/auth/types";
+import { formatTimeLeft } from "@/lib/auth/elevation";
+import { toMfaMethod } from "@/lib/auth/mfaMethods";
+import { PermissionsContext } from "@/lib/auth/permissions";
+import { roleConfigurations, Permission, RoleKey, ROLE_REGISTRY, isRoleKey } from "@/lib/roleConfig";
+import { verificationReasonLabels } from "@/lib/auth/verificationReasons";
+import { getBackupCodeStatus, getDashboardUser } from "@/services/authService";
+import { endSession, restoreSession } from "@/services/sessionService";
+
+const mfaMethodLabels: Record<MfaMethod, string> = {
+  totp: "Authenticator App",
+  hotp: "Hardware Token",
+  email: "Email OTP",
+  webauthn: "Security Key",
+};
+
+// Permissions behind the administration panels; holding any of them shows that section
+const adminPermissions: Permission[] = [
+  "registrations:review",
+  "verifications:resolve",
+  "unlock_requests:review",
+  "users:read",
+  "hardware_tokens:manage",
+  "rosters:manage",
+  "permissions:manage",
+  "policies:manage",
+  "elevations:approve",
+  "accounts:manage",
+];
 
 interface DashboardProps {
-  role: string;
+  role: RoleKey;
 }
 
 const Dashboard = ({ role }: DashboardProps) => {
   const navigate = useNavigate();
   const [user, setUser] = useState<any>(null);
+  const [backupCodesRemaining, setBackupCodesRemaining] = useState<number | null>(null);
+  const [showBackupCodesDialog, setShowBackupCodesDialog] = useState(false);
+  const [showChangePasswordDialog, setShowChangePasswordDialog] = useState(false);
+  const [showMfaSettingsDialog, setShowMfaSettingsDialog] = useState(false);
+  // Family services stay locked until the sponsor confirms the account
+  const [sponsorConfirmed, setSponsorConfirmed] = useState(false);
+  const [verification, setVerification] = useState<DashboardUser["verification"] | null>(null);
+  // Effective permissions from the server; panels stay hidden until they load
+  const [permissions, setPermissions] = useState<Permission[] | null>(null);
+  const [elevation, setElevation] = useState<ActiveElevation | null>(null);
+  const [showElevationDialog, setShowElevationDialog] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  // After an admin MFA reset the server serves nothing else until a compliant factor is enrolled
+  const [mfaEnrollmentRequired, setMfaEnrollmentRequired] = useState(false);
+
+  const loadDashboardUser = useCallback(async () => {
+    const result = await getDashboardUser();
+    if (result.success && result.user) {
+      setVerification(result.user.verification);
+      setMfaEnrollmentRequired(result.user.mfaEnrollmentRequired);
+      setPermissions(result.user.permissions);
+      setElevation(result.user.elevation);
+    }
+  }, []);
 
   useEffect(() => {
-    // Get user data from localStorage
-    const token = localStorage.getItem("authToken");
-    const userData = localStorage.getItem("userData");
+    // The access token lives in memory; after a reload the refresh cookie restores it
+    restoreSession().then((active) => {
+      const userData = localStorage.getItem("userData");
+      if (!active || !userData) {
+        navigate("/");
+        return;
+      }
+
+      const storedUser = JSON.parse(userData);
+      // Each role has its own dashboard path; a link to another role's dashboard lands on the user's own
+      if (isRoleKey(storedUser.role) && storedUser.role !== role) {
+        navigate(ROLE_REGISTRY[storedUser.role].dashboardPath, { replace: true });
+        return;
+      }
+
+      setUser(storedUser);
+      setMfaEnrollmentRequired(Boolean(storedUser.mfaEnrollmentRequired));
 
-    if (!token || !userData) {
-      navigate("/");
+      loadDashboardUser();
+
+      getBackupCodeStatus().then((status) => {
+        if (status.success && typeof status.remaining === "number") {
+          setBackupCodesRemaining(status.remaining);
+        }
+      });
+    });
+  }, [navigate, role, loadDashboardUser]);
+
+  useEffect(() => {
+    if (!elevation) {
       return;
     }
 
-    setUser(JSON.parse(userData));
-  }, [navigate]);
+    setNow(Date.now());
+    const tick = setInterval(() => setNow(Date.now()), 30 * 1000);
+    // The server stops honouring the elevation at expiresAt; reload so the panels it opened close as well
+    const expiry = setTimeout(loadDashboardUser, Math.max(0, new Date(elevation.expiresAt).getTime() - Date.now()) + 1000);
 
-  const handleLogout = () => {
-    localStorage.removeItem("authToken");
-    localStorage.removeItem("userData");
-    navigate("/");
+    return () => {
+      clearInterval(tick);
+      clearTimeout(expiry);
+    };
+  }, [elevation, loadDashboardUser]);
+
+  const handleElevationDialogChange = (open: boolean) => {
+    setShowElevationDialog(open);
+    // A request may have been granted while the dialog was open
+    if (!open) {
+      loadDashboardUser();
+    }
   };
 
-  const getRoleName = () => {
-    const roleNames: Record<string, string> = {
-      personnel: "Defence Personnel",
-      family: "Family Member / Dependent",
-      veteran: "Veteran / Retired Officer",
-      cert: "CERT Analyst",
-      admin: "Admin / MoD Authority",
-    };
-    return roleNames[role] || "User";
+  const handleMfaUpdated = (mfaMethod: MfaMethod, totpDigits?: number) => {
+    const updatedUser = { ...user, mfaMethod, totpDigits: totpDigits ?? user.totpDigits, mfaEnrollmentRequired: false };
+    setUser(updatedUser);
+    localStorage.setItem("userData", JSON.stringify(updatedUser));
+    if (mfaEnrollmentRequired) {
+      setMfaEnrollmentRequired(false);
+      loadDashboardUser();
+    }
   };
 
-  const getRoleDescription = () => {
-    const descriptions: Record<string, string> = {
-      personnel: "Access to defence operations and personnel resources",
-      family: "Family services, benefits, and dependent support portal",
-      veteran: "Veteran affairs, pension management, and retirement services",
-      cert: "CERT operations, threat analysis, and security intelligence",
-      admin: "System administration, user management, and MoD authority controls",
-    };
-    return descriptions[role] || "Dashboard access";
+  const handleLogout = async () => {
+    await endSession();
+    navigate("/");
   };
 
+  const getRoleName = () => ROLE_REGISTRY[role].displayName;
+
+  const getRoleDescription = () => ROLE_REGISTRY[role].description;
+
+  // Flagged registrations, and family members without a confirmed sponsor, keep restricted access
+  const verificationPending = verification?.status === "pending";
+  const quickActionsLocked = verificationPending || (role === "family" && !sponsorConfirmed);
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -62,157 +172,320 @@ const Dashboard = ({ role }: DashboardProps) => {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-[hsl(210,40%,96.1%)] to-white">
-      {/* Header */}
-      <header className="bg-white border-b border-[hsl(213,100%,18%)]/10 shadow-sm">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <Shield className="h-8 w-8 text-[hsl(213,100%,18%)]" />
-              <div>
-                <h1 className="text-xl font-bold text-[hsl(213,100%,18%)]">
-                  SecureDefence Portal
-                </h1>
-                <p className="text-sm text-[hsl(0,0%,31%)]">{getRoleName()}</p>
-              </div>
-            </div>
-            <Button variant="outline" onClick={handleLogout} className="gap-2">
-              <LogOut className="h-4 w-4" />
-              Logout
-            </Button>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Welcome Section */}
-        <div className="mb-8">
-          <h2 className="text-3xl font-bold text-[hsl(213,100%,18%)] mb-2">
-            Welcome back, {user.fullName}
-          </h2>
-          <p className="text-[hsl(0,0%,31%)]">
-            {getRoleDescription()}
-          </p>
-        </div>
-
-        {/* Dashboard Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <User className="h-5 w-5" />
-                Profile
-              </CardTitle>
-              <CardDescription>Manage your account information</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2 text-sm">
-                <div>
-                  <span className="font-semibold">Email:</span> {user.email}
-                </div>
-                <div>
-                  <span className="font-semibold">Role:</span> {getRoleName()}
-                </div>
+    <PermissionsContext.Provider value={permissions}>
+      <div className="min-h-screen bg-gradient-to-br from-[hsl(210,40%,96.1%)] to-white">
+        {/* Header */}
+        <header className="bg-white border-b border-[hsl(213,100%,18%)]/10 shadow-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Shield className="h-8 w-8 text-[hsl(213,100%,18%)]" />
                 <div>
-                  <span className="font-semibold">MFA:</span>{" "}
-                  {user.mfaMethod === "totp" ? "Authenticator App" : "Email OTP"}
+                  <h1 className="text-xl font-bold text-[hsl(213,100%,18%)]">
+                    SecureDefence Portal
+                  </h1>
+                  <p className="text-sm text-[hsl(0,0%,31%)]">{getRoleName()}</p>
                 </div>
               </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Settings className="h-5 w-5" />
-                Security Settings
-              </CardTitle>
-              <CardDescription>Manage authentication and privacy</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                <Button variant="outline" size="sm" className="w-full">
-                  Change Password
-                </Button>
-                <Button variant="outline" size="sm" className="w-full">
-                  Update MFA Settings
+              <div className="flex items-center gap-2">
+                {elevation ? (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowElevationDialog(true)}
+                    className="gap-2 border-[hsl(25,95%,60%)] text-[hsl(25,95%,60%)]"
+                    title={`Elevated: ${elevation.permissions.join(", ")}`}
+                  >
+                    <ShieldAlert className="h-4 w-4" />
+                    Elevated · {formatTimeLeft(elevation.expiresAt, now)}
+                  </Button>
+                ) : (
+                  <Button variant="ghost" onClick={() => setShowElevationDialog(true)} className="gap-2">
+                    <ShieldPlus className="h-4 w-4" />
+                    Request Access
+                  </Button>
+                )}
+                <Button variant="outline" onClick={handleLogout} className="gap-2">
+                  <LogOut className="h-4 w-4" />
+                  Logout
                 </Button>
               </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Bell className="h-5 w-5" />
-                Notifications
-              </CardTitle>
-              <CardDescription>Recent updates and alerts</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-sm text-[hsl(0,0%,31%)]">
-                No new notifications at this time.
-              </p>
-            </CardContent>
-          </Card>
-        </div>
-
-        {/* Role-Specific Content */}
-        <div className="mt-8">
-          <Card>
-            <CardHeader>
-              <CardTitle>Quick Actions</CardTitle>
-              <CardDescription>Common tasks for your role</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                {role === "admin" && (
-                  <>
-                    <Button variant="outline">User Management</Button>
-                    <Button variant="outline">System Configuration</Button>
-                    <Button variant="outline">Access Control</Button>
-                    <Button variant="outline">Audit & Compliance</Button>
-                  </>
-                )}
-                {role === "personnel" && (
-                  <>
-                    <Button variant="outline">Personnel Records</Button>
-                    <Button variant="outline">Service Details</Button>
-                    <Button variant="outline">Leave Management</Button>
-                    <Button variant="outline">Training & Assignments</Button>
-                  </>
-                )}
-                {role === "family" && (
-                  <>
-                    <Button variant="outline">Family Benefits</Button>
-                    <Button variant="outline">Medical Services</Button>
-                    <Button variant="outline">Education Support</Button>
-                    <Button variant="outline">Welfare Programs</Button>
-                  </>
-                )}
-                {role === "veteran" && (
-                  <>
-                    <Button variant="outline">Pension Management</Button>
-                    <Button variant="outline">Medical Facilities</Button>
-                    <Button variant="outline">Veteran Services</Button>
-                    <Button variant="outline">Retirement Benefits</Button>
-                  </>
-                )}
-                {role === "cert" && (
-                  <>
-                    <Button variant="outline">Threat Analysis</Button>
-                    <Button variant="outline">Incident Reports</Button>
-                    <Button variant="outline">Security Monitoring</Button>
-                    <Button variant="outline">CERT Operations</Button>
-                  </>
-                )}
+            </div>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Welcome Section */}
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold text-[hsl(213,100%,18%)] mb-2">
+              Welcome back, {user.fullName}
+            </h2>
+            <p className="text-[hsl(0,0%,31%)]">
+              {getRoleDescription()}
+            </p>
+          </div>
+
+          {mfaEnrollmentRequired ? (
+            <Card className="border-[hsl(25,95%,60%)]">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5 text-[hsl(25,95%,60%)]" />
+                  Set Up a New MFA Method
+                </CardTitle>
+                <CardDescription>
+                  An administrator reset your MFA. Your account stays limited to this page until you set up a
+                  method your role accepts.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button onClick={() => setShowMfaSettingsDialog(true)}>Set Up MFA</Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Dashboard Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <User className="h-5 w-5" />
+                      Profile
+                    </CardTitle>
+                    <CardDescription>Manage your account information</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2 text-sm">
+                      <div>
+                        <span className="font-semibold">Email:</span> {user.email}
+                      </div>
+                      <div>
+                        <span className="font-semibold">Role:</span> {getRoleName()}
+                      </div>
+                      <div>
+                        <span className="font-semibold">MFA:</span>{" "}
+                        {mfaMethodLabels[toMfaMethod(user.mfaMethod ?? "")]}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Settings className="h-5 w-5" />
+                      Security Settings
+                    </CardTitle>
+                    <CardDescription>Manage authentication and privacy</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => setShowChangePasswordDialog(true)}
+                      >
+                        Change Password
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => setShowMfaSettingsDialog(true)}
+                      >
+                        Update MFA Settings
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => setShowBackupCodesDialog(true)}
+                      >
+                        Regenerate Backup Codes
+                      </Button>
+                      <p
+                        className={`text-xs ${
+                          backupCodesRemaining !== null && backupCodesRemaining <= 2
+                            ? "text-[hsl(0,84%,60%)]"
+                            : "text-[hsl(0,0%,31%)]"
+                        }`}
+                      >
+                        {backupCodesRemaining === null
+                          ? "Backup code status unavailable."
+                          : `${backupCodesRemaining} backup ${backupCodesRemaining === 1 ? "code" : "codes"} remaining.`}
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Bell className="h-5 w-5" />
+                      Notifications
+                    </CardTitle>
+                    <CardDescription>Recent updates and alerts</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {verificationPending ? (
+                      <div className="space-y-2 text-sm">
+                        <p className="font-semibold">Registration under manual verification</p>
+                        <p className="text-[hsl(0,0%,31%)]">
+                          A reviewer is checking your registration. Some portal features stay locked until they finish.
+                        </p>
+                        <ul className="list-disc list-inside text-xs text-[hsl(0,0%,31%)]">
+                          {(verification?.reasons ?? []).map((reason) => (
+                            <li key={reason}>{verificationReasonLabels[reason]}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-[hsl(0,0%,31%)]">
+                        No new notifications at this time.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Role-Specific Content */}
+              <div className="mt-8">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Quick Actions</CardTitle>
+                    <CardDescription>Common tasks for your role</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {role === "admin" && (
+                        <>
+                          <Button variant="outline" disabled={quickActionsLocked}>User Management</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>System Configuration</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Access Control</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Audit & Compliance</Button>
+                        </>
+                      )}
+                      {role === "personnel" && (
+                        <>
+                          <Button variant="outline" disabled={quickActionsLocked}>Personnel Records</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Service Details</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Leave Management</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Training & Assignments</Button>
+                        </>
+                      )}
+                      {role === "family" && (
+                        <>
+                          <Button variant="outline" disabled={quickActionsLocked}>Family Benefits</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Medical Services</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Education Support</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Welfare Programs</Button>
+                        </>
+                      )}
+                      {role === "veteran" && (
+                        <>
+                          <Button variant="outline" disabled={quickActionsLocked}>Pension Management</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Medical Facilities</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Veteran Services</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Retirement Benefits</Button>
+                        </>
+                      )}
+                      {role === "cert" && (
+                        <>
+                          <Button variant="outline" disabled={quickActionsLocked}>Threat Analysis</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Incident Reports</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>Security Monitoring</Button>
+                          <Button variant="outline" disabled={quickActionsLocked}>CERT Operations</Button>
+                        </>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
               </div>
-            </CardContent>
-          </Card>
-        </div>
-      </main>
-    </div>
+
+              <div className="mt-8 space-y-6">
+                {role === "family" && <SponsorLinkPanel onConfirmedChange={setSponsorConfirmed} />}
+                <Can permission="dependents:review">
+                  <DependentsPanel />
+                </Can>
+                <ActiveSessionsPanel />
+                <TrustedDevicesPanel />
+              </div>
+
+              <Can anyOf={adminPermissions}>
+                <div className="mt-8 space-y-6">
+                  <Can permission="registrations:review">
+                    <RegistrationApprovalsPanel />
+                  </Can>
+                  <Can permission="verifications:resolve">
+                    <ManualVerificationPanel />
+                  </Can>
+                  <Can permission="unlock_requests:review">
+                    <UnlockRequestsPanel />
+                  </Can>
+                  <Can permission="users:read">
+                    <AdminSessionsPanel />
+                  </Can>
+                  <Can permission="hardware_tokens:manage">
+                    <HardwareTokensPanel />
+                  </Can>
+                  <Can permission="rosters:manage">
+                    <RostersPanel />
+                  </Can>
+                  <Can permission="permissions:manage">
+                    <RolePermissionsPanel />
+                    <UserPermissionsPanel />
+                  </Can>
+                  <Can permission="policies:manage">
+                    <AccessPoliciesPanel />
+                  </Can>
+                  <Can permission="elevations:approve">
+                    <ElevationRequestsPanel />
+                  </Can>
+                  <Can permission="accounts:manage">
+                    <AccountActionsPanel />
+                  </Can>
+                  <Can anyOf={["accounts:manage", "permissions:manage"]}>
+                    <ApprovalsInboxPanel />
+                  </Can>
+                </div>
+              </Can>
+            </>
+          )}
+        </main>
+
+        <BackupCodesDialog
+          open={showBackupCodesDialog}
+          onOpenChange={setShowBackupCodesDialog}
+          onRegenerated={setBackupCodesRemaining}
+        />
+
+        <ChangePasswordDialog
+          open={showChangePasswordDialog}
+          onOpenChange={setShowChangePasswordDialog}
+          mfaMethod={toMfaMethod(user.mfaMethod ?? "")}
+          totpDigits={user.totpDigits}
+          roleConfig={roleConfigurations[user.role as RoleKey]}
+        />
+
+        <MfaSettingsDialog
+          open={showMfaSettingsDialog}
+          onOpenChange={setShowMfaSettingsDialog}
+          userEmail={user.email}
+          currentMethod={toMfaMethod(user.mfaMethod ?? "")}
+          totpDigits={user.totpDigits}
+          roleConfig={roleConfigurations[user.role as RoleKey]}
+          onUpdated={handleMfaUpdated}
+        />
+
+        <ElevationDialog
+          open={showElevationDialog}
+          onOpenChange={handleElevationDialogChange}
+          onChanged={loadDashboardUser}
+        />
+
+        <StepUpDialog mfaMethod={toMfaMethod(user.mfaMethod ?? "")} totpDigits={user.totpDigits} />
+      </div>
+    </PermissionsContext.Provider>
   );
 };
 
@@ -0,0 +1,416 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, CheckCircle2, Eye, EyeOff, KeyRound, Shield } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useEmailOtp } from "@/hooks/useEmailOtp";
+import { formatCountdown, maskEmail } from "@/lib/auth/emailOtp";
+import { getPasswordPolicyError, getPasswordPolicyMessages } from "@/lib/auth/passwordPolicy";
+import { getMfaCodeLength, isValidMfaCodeFormat } from "@/lib/auth/mfaMethods";
+import { authenticateWithSecurityKey } from "@/lib/auth/webauthn";
+import type { MfaMethod } from "@/lib/auth/types";
+import { roleConfigurations, RoleKey } from "@/lib/roleConfig";
+import { startPasswordReset, resetPassword, getWebAuthnResetOptions } from "@/services/authService";
+import { clearSession } from "@/services/sessionService";
+
+type ResetStep = "email" | "password" | "done";
+
+const ResetPassword = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const resetOtp = useEmailOtp({ purpose: "password-reset" });
+
+  const [step, setStep] = useState<ResetStep>("email");
+  const [email, setEmail] = useState("");
+  const [verificationToken, setVerificationToken] = useState("");
+  const [role, setRole] = useState<RoleKey | "">("");
+  const [mfaRequired, setMfaRequired] = useState(false);
+  const [mfaMethod, setMfaMethod] = useState<MfaMethod>("email");
+  const [totpDigits, setTotpDigits] = useState(6);
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [mfaCode, setMfaCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const roleConfig = role ? roleConfigurations[role] : undefined;
+
+  const handleStartOver = () => {
+    resetOtp.resetOtp();
+    setVerificationToken("");
+    setRole("");
+    setMfaRequired(false);
+    setMfaMethod("email");
+    setUseBackupCode(false);
+    setMfaCode("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setPasswordError("");
+    setStep("email");
+  };
+
+  const handleSendCode = async () => {
+    const sent = await resetOtp.sendOtp(email);
+    if (sent) {
+      toast({
+        title: "Code Sent",
+        description: `If an account exists for ${maskEmail(email)}, a reset code is on its way.`,
+      });
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const verification = await resetOtp.verifyOtp(email);
+    if (!verification?.success || !verification.verificationToken) {
+      return;
+    }
+
+    const result = await startPasswordReset({
+      email: email.trim().toLowerCase(),
+      verificationToken: verification.verificationToken,
+    });
+
+    if (!result.success) {
+      toast({
+        title: "Reset Unavailable",
+        description: result.message || "Please request a new code.",
+        variant: "destructive",
+      });
+      handleStartOver();
+      return;
+    }
+
+    setVerificationToken(verification.verificationToken);
+    setRole((result.role as RoleKey) || "");
+    setMfaRequired(Boolean(result.mfaRequired));
+    setMfaMethod(result.mfaMethod ?? "email");
+    setTotpDigits(result.totpDigits ?? 6);
+    setStep("password");
+  };
+
+  const codeLength = getMfaCodeLength(mfaMethod, totpDigits);
+  const codeSource = mfaMethod === "hotp" ? "hardware token" : "authenticator app";
+
+  const handleMfaCodeChange = (value: string) => {
+    const digits = value.replace(/\D/g, "").slice(0, useBackupCode ? 8 : codeLength);
+    setMfaCode(useBackupCode && digits.length > 4 ? `${digits.slice(0, 4)}-${digits.slice(4)}` : digits);
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const policyError = getPasswordPolicyError(newPassword, roleConfig);
+    if (policyError) {
+      setPasswordError(policyError);
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setPasswordError("Passwords do not match.");
+      return;
+    }
+
+    const useSecurityKey = mfaRequired && mfaMethod === "webauthn" && !useBackupCode;
+    if (mfaRequired && !useSecurityKey && !(useBackupCode ? /^\d{4}-\d{4}$/.test(mfaCode) : isValidMfaCodeFormat(mfaMethod, mfaCode, totpDigits))) {
+      toast({
+        title: "Verification Code Required",
+        description: useBackupCode
+          ? "Enter one of your backup codes (XXXX-XXXX)."
+          : `Enter the code from your ${codeSource}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPasswordError("");
+    setIsSubmitting(true);
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const assertion = useSecurityKey
+      ? await authenticateWithSecurityKey(() => getWebAuthnResetOptions({ email: normalizedEmail, verificationToken }))
+      : null;
+    if (assertion && !assertion.success) {
+      setIsSubmitting(false);
+      toast({
+        title: "Security Key Not Verified",
+        description: assertion.message,
+        variant: "destructive",
+      });
+      if (assertion.resetExpired) {
+        handleStartOver();
+      }
+      return;
+    }
+
+    const result = await resetPassword({
+      email: normalizedEmail,
+      verificationToken,
+      newPassword,
+      ...(useSecurityKey
+        ? { mfaMethod: "webauthn" as const, webauthnResponse: assertion?.response }
+        : mfaRequired
+          ? { mfaMethod: useBackupCode ? ("backup" as const) : mfaMethod === "hotp" ? ("hotp" as const) : ("totp" as const), mfaCode }
+          : {}),
+    });
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      toast({
+        title: "Password Not Reset",
+        description: result.message,
+        variant: "destructive",
+      });
+      setMfaCode("");
+      if (result.resetExpired) {
+        handleStartOver();
+      }
+      return;
+    }
+
+    // Any session on this browser was signed out by the reset
+    clearSession();
+    setNewPassword("");
+    setConfirmPassword("");
+    setMfaCode("");
+    setStep("done");
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-[hsl(213,100%,18%)] to-[hsl(207,90%,54%)] p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-2xl p-8">
+          {step === "email" && (
+            <form onSubmit={handleVerifyCode} className="space-y-6">
+              <div className="text-center space-y-2">
+                <div className="flex justify-center">
+                  <KeyRound className="w-12 h-12 text-[hsl(213,100%,18%)]" />
+                </div>
+                <h2 className="text-2xl font-bold text-[hsl(213,100%,18%)]">Reset Your Password</h2>
+                <p className="text-sm text-[hsl(0,0%,31%)]">
+                  We'll email a one-time code to your registered address.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reset-email">Official Email</Label>
+                <Input
+                  id="reset-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={resetOtp.otpSent && resetOtp.otpCountdown > 0}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reset-code">Reset Code</Label>
+                <Input
+                  id="reset-code"
+                  type="text"
+                  inputMode="numeric"
+                  pattern="\d*"
+                  placeholder="000000"
+                  maxLength={6}
+                  value={resetOtp.otpCode}
+                  onChange={(e) => resetOtp.setOtpCode(e.target.value)}
+                  className="text-center text-2xl tracking-widest"
+                  aria-invalid={Boolean(resetOtp.otpError)}
+                  disabled={!resetOtp.otpSent}
+                />
+                {resetOtp.otpError ? (
+                  <p className="text-xs text-[hsl(0,84%,60%)]">{resetOtp.otpError}</p>
+                ) : resetOtp.otpSent ? (
+                  <p className="text-xs text-[hsl(0,0%,24%)]">
+                    {resetOtp.otpCountdown > 0
+                      ? `Code valid for ${formatCountdown(resetOtp.otpCountdown)}.`
+                      : "Code expired. Request a new one."}
+                  </p>
+                ) : null}
+              </div>
+
+              <div className="grid grid-cols-1 gap-3">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={handleSendCode}
+                  disabled={!resetOtp.canResend || resetOtp.isSending}
+                >
+                  {resetOtp.otpSent
+                    ? resetOtp.canResend
+                      ? "Resend Code"
+                      : `Resend in ${formatCountdown(resetOtp.otpCountdown)}`
+                    : "Send Reset Code"}
+                </Button>
+                <Button type="submit" disabled={!resetOtp.otpSent || resetOtp.isVerifying}>
+                  {resetOtp.isVerifying ? "Verifying..." : "Verify Code"}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {step === "password" && (
+            <form onSubmit={handleResetPassword} className="space-y-6">
+              <div className="text-center space-y-2">
+                <div className="flex justify-center">
+                  <Shield className="w-12 h-12 text-[hsl(213,100%,18%)]" />
+                </div>
+                <h2 className="text-2xl font-bold text-[hsl(213,100%,18%)]">Choose a New Password</h2>
+                <p className="text-sm text-[hsl(0,0%,31%)]">
+                  All existing sessions will be signed out.
+                </p>
+              </div>
+
+              {mfaRequired && (
+                <div className="space-y-2">
+                  {mfaMethod === "webauthn" && !useBackupCode ? (
+                    <>
+                      <Label>Security Key</Label>
+                      <p className="text-xs text-[hsl(0,0%,31%)]">
+                        You'll be asked to insert or tap your security key when you reset your password.
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <Label htmlFor="reset-mfa">
+                        {useBackupCode ? "Backup Code" : mfaMethod === "hotp" ? "Hardware Token Code" : "Authenticator Code"}
+                      </Label>
+                      <Input
+                        id="reset-mfa"
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        placeholder={useBackupCode ? "XXXX-XXXX" : "0".repeat(codeLength)}
+                        maxLength={useBackupCode ? 9 : codeLength}
+                        value={mfaCode}
+                        onChange={(e) => handleMfaCodeChange(e.target.value)}
+                        className="text-center text-2xl tracking-widest"
+                      />
+                    </>
+                  )}
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="px-0"
+                    onClick={() => {
+                      setUseBackupCode((prev) => !prev);
+                      setMfaCode("");
+                    }}
+                  >
+                    {useBackupCode
+                      ? mfaMethod === "webauthn" ? "Use your security key instead" : `Use your ${codeSource} instead`
+                      : "Use a backup code"}
+                  </Button>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="reset-new-password">New Password</Label>
+                <div className="relative">
+                  <Input
+                    id="reset-new-password"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="new-password"
+                    value={newPassword}
+                    onChange={(e) => {
+                      setNewPassword(e.target.value);
+                      if (passwordError) setPasswordError("");
+                    }}
+                    aria-invalid={Boolean(passwordError)}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-[hsl(0,0%,31%)] hover:text-[hsl(213,100%,18%)] transition-colors"
+                  >
+                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reset-confirm-password">Confirm New Password</Label>
+                <Input
+                  id="reset-confirm-password"
+                  type={showPassword ? "text" : "password"}
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => {
+                    setConfirmPassword(e.target.value);
+                    if (passwordError) setPasswordError("");
+                  }}
+                />
+                {passwordError && <p className="text-xs text-[hsl(0,84%,60%)]">{passwordError}</p>}
+              </div>
+
+              <div className="bg-[hsl(210,40%,96.1%)] border border-[hsl(213,100%,18%)]/15 rounded-lg p-4 space-y-1">
+                <p className="text-sm font-semibold text-[hsl(213,100%,18%)]">Password policy</p>
+                <ul className="list-disc list-inside text-xs text-[hsl(0,0%,31%)] space-y-1">
+                  {getPasswordPolicyMessages(roleConfig).map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <Button type="button" variant="outline" onClick={handleStartOver}>
+                  Start Over
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "Saving..." : "Reset Password"}
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {step === "done" && (
+            <div className="text-center space-y-6">
+              <div className="flex justify-center">
+                <div className="w-16 h-16 rounded-full bg-green-100 flex items-center justify-center">
+                  <CheckCircle2 className="w-10 h-10 text-green-600" />
+                </div>
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-[hsl(213,100%,18%)]">Password Updated</h2>
+                <p className="text-sm text-[hsl(0,0%,31%)] mt-2">
+                  Your password has been reset and all previous sessions were signed out.
+                </p>
+              </div>
+              <Alert className="border-green-200 bg-green-50">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-sm text-green-800">
+                  A confirmation email has been sent to {maskEmail(email)}.
+                </AlertDescription>
+              </Alert>
+              <Button className="w-full" onClick={() => navigate("/")}>
+                Continue to Login
+              </Button>
+            </div>
+          )}
+
+          {step !== "done" && (
+            <Button variant="ghost" className="w-full mt-4" onClick={() => navigate("/")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Login
+            </Button>
+          )}
+        </div>
+
+        <div className="mt-6 text-center text-sm text-white/80">
+          <p>Defence Incident Sentinel Portal</p>
+          <p className="text-xs mt-1">Ministry of Defence | Government of India</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
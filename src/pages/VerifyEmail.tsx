@@ -29,12 +29,14 @@ const VerifyEmail = () => {
 
         if (data.success) {
           setStatus("success");
-          setMessage("Your email has been successfully verified!");
+          setMessage(data.message || "Your email has been successfully verified!");
           setUserEmail(data.user?.email || "");
           
           toast({
             title: "Email Verified!",
-            description: "You can now log in to your account.",
+            description: data.user?.isActivated
+              ? "You can now log in to your account."
+              : "You can log in once an administrator approves your account.",
           });
 
           // Redirect to login after 3 seconds
@@ -3,8 +3,62 @@
  * Handles API calls for authentication with backend
  */
 
-import type { SendOtpRequest, VerifyOtpRequest, OtpResponse, AuthUser } from "@/lib/auth/types";
-import { verifyTotpToken } from "@/lib/auth/totpService";
+import type {
+  SendOtpRequest,
+  VerifyOtpRequest,
+  OtpResponse,
+  AuthUser,
+  MfaVerificationMethod,
+  BackupCodeStatus,
+  PasswordResetStartResponse,
+  PasswordResetRequest,
+  MfaMethod,
+  MfaReverifyResponse,
+  WebAuthnRegistrationOptions,
+  WebAuthnAuthenticationOptions,
+  LockoutState,
+  UnlockRequestStatus,
+  UnlockRequestSummary,
+  SessionSummary,
+  TrustedDeviceSummary,
+  AdminUserSummary,
+  HardwareTokenStatus,
+  RegistrationStatus,
+  RegistrationSummary,
+  SponsorLink,
+  DependentSummary,
+  VerificationStatus,
+  VerificationSummary,
+  DashboardUser,
+  RosterFormat,
+  RosterPreview,
+  RosterVersionSummary,
+  RosterLineError,
+  RosterMismatch,
+  PermissionInfo,
+  PermissionOverrideEffect,
+  RolePermissionsSummary,
+  UserPermissions,
+  PolicyAttributeInfo,
+  PolicyAttributes,
+  PolicyDecision,
+  PolicyDocument,
+  PolicyOperatorInfo,
+  PolicyTestResult,
+  PolicyVersionSummary,
+  ElevationStatus,
+  ElevationSummary,
+  PendingOperationStatus,
+  PendingOperationSummary,
+  HardwareTokenSummary,
+  HardwareTokenImportResult,
+} from "@/lib/auth/types";
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from "@simplewebauthn/browser";
+import type { Permission } from "@/lib/roleConfig";
+import { isValidOtpFormat } from "@/lib/auth/emailOtp";
+import { isValidMfaCodeFormat } from "@/lib/auth/mfaMethods";
+import { isValidBackupCodeFormat } from "@/lib/auth/backupCodes";
+import { authFetch, startSession } from "./sessionService";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
 
@@ -12,46 +66,66 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api"
  * Send OTP to email
  */
 export const sendOtp = async (request: SendOtpRequest): Promise<OtpResponse> => {
-  // Mock implementation - replace with actual API call
-  // Example: return fetch(`${API_BASE_URL}/auth/send-otp`, { method: 'POST', body: JSON.stringify(request) })
-  
-  console.log(`[AuthService] Sending OTP to ${request.email} for ${request.purpose}`);
-  
-  // Simulate network delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/send-otp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
 
-  // Mock success response
-  return {
-    success: true,
-    message: `OTP sent to ${request.email}`,
-    expiresIn: 60,
-  };
+    return {
+      success: response.ok && data.success,
+      message: data.message || (response.ok ? `OTP sent to ${request.email}` : 'Failed to send OTP'),
+      expiresIn: data.expiresIn,
+    };
+  } catch (error) {
+    console.error('[AuthService] Send OTP error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to send OTP',
+    };
+  }
 };
 
 /**
  * Verify OTP
+ * Returns a verificationToken that proves the email was verified for the given purpose.
  */
 export const verifyOtp = async (request: VerifyOtpRequest): Promise<OtpResponse> => {
-  // Mock implementation - replace with actual API call
-  // Example: return fetch(`${API_BASE_URL}/auth/verify-otp`, { method: 'POST', body: JSON.stringify(request) })
-  
-  console.log(`[AuthService] Verifying OTP for ${request.email}`);
-  
-  // Simulate network delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-
-  // Mock validation (accepts any 6-digit code for demo)
-  if (request.otpCode.length === 6) {
+  if (!isValidOtpFormat(request.otpCode)) {
     return {
-      success: true,
-      message: "OTP verified successfully",
+      success: false,
+      message: "Invalid OTP code",
     };
   }
 
-  return {
-    success: false,
-    message: "Invalid OTP code",
-  };
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/verify-otp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || (response.ok ? 'OTP verified successfully' : 'Invalid OTP code'),
+      verificationToken: data.verificationToken,
+    };
+  } catch (error) {
+    console.error('[AuthService] Verify OTP error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'OTP verification failed',
+    };
+  }
 };
 
 /**
@@ -62,10 +136,18 @@ export const login = async (credentials: {
   email?: string;
   password: string;
   role: string;
-}): Promise<{ success: boolean; user?: AuthUser; message: string }> => {
+}): Promise<{
+  success: boolean;
+  user?: AuthUser & { fullName?: string };
+  message: string;
+  lockout?: LockoutState;
+  token?: string;
+  trustedDevice?: boolean;
+}> => {
   try {
     const response = await fetch(`${API_BASE_URL}/auth/login`, {
       method: 'POST',
+      credentials: 'include', // sends the trusted-device cookie; receives the refresh cookie when MFA is skipped
       headers: {
         'Content-Type': 'application/json',
       },
@@ -78,13 +160,21 @@ export const login = async (credentials: {
       return {
         success: false,
         message: data.message || 'Login failed',
+        lockout: data.lockout,
       };
     }
 
+    // A trusted device signs in without the MFA step
+    if (data.token) {
+      startSession(data.token, data.expiresAt);
+    }
+
     return {
       success: data.success,
       user: data.user,
       message: data.message,
+      token: data.token,
+      trustedDevice: data.trustedDevice,
     };
   } catch (error: any) {
     console.error('[AuthService] Login error:', error);
@@ -95,38 +185,96 @@ export const login = async (credentials: {
   }
 };
 
+/**
+ * Ask an administrator to unlock a locked account
+ */
+export const requestAccountUnlock = async (params: {
+  identifier: string;
+  role: string;
+  reason: string;
+}): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/unlock-request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to submit unlock request',
+    };
+  } catch (error) {
+    console.error('[AuthService] Unlock request error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to submit unlock request',
+    };
+  }
+};
+
 /**
  * Complete MFA verification
+ * The code is checked server-side; the local format check is only a UX hint.
+ * Security key sign-ins send the assertion instead of a code.
  */
 export const verifyMfa = async (params: {
-  userId: string;
-  method: "totp" | "email";
-  code: string;
-  totpSecret?: string; // TOTP secret for verification
-}): Promise<{ success: boolean; token?: string; message: string }> => {
-  try {
-    // For TOTP, verify locally first for quick feedback
-    if (params.method === "totp" && params.totpSecret) {
-      const isValid = verifyTotpToken(params.code, params.totpSecret);
-      
-      if (!isValid) {
-        return {
-          success: false,
-          message: "Invalid verification code",
-        };
-      }
+  mfaChallenge: string;
+  method: MfaVerificationMethod;
+  code?: string;
+  webauthnResponse?: AuthenticationResponseJSON;
+  trustDevice?: boolean;
+  totpDigits?: number;
+}): Promise<{
+  success: boolean;
+  token?: string;
+  user?: AuthUser & { fullName: string };
+  message: string;
+  challengeExpired?: boolean;
+  attemptsRemaining?: number;
+  backupCodesRemaining?: number;
+  deviceTrusted?: boolean;
+}> => {
+  try {
+    if (params.method === "webauthn" && !params.webauthnResponse) {
+      return {
+        success: false,
+        message: "Use your security key to continue.",
+      };
+    }
+
+    if (params.method === "backup" && !isValidBackupCodeFormat(params.code ?? "")) {
+      return {
+        success: false,
+        message: "Please enter a valid backup code (XXXX-XXXX).",
+      };
+    }
+
+    if (params.method !== "backup" && params.method !== "webauthn"
+      && !isValidMfaCodeFormat(params.method, params.code ?? "", params.totpDigits)) {
+      return {
+        success: false,
+        message: "Please enter a valid verification code.",
+      };
     }
 
     // Call backend to complete MFA and get JWT token
     const response = await fetch(`${API_BASE_URL}/auth/verify-mfa`, {
       method: 'POST',
+      credentials: 'include', // receives the refresh and trusted-device cookies
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        userId: params.userId,
+        mfaChallenge: params.mfaChallenge,
         code: params.code,
         method: params.method,
+        webauthnResponse: params.webauthnResponse,
+        trustDevice: params.trustDevice ?? false,
       }),
     });
 
@@ -136,13 +284,22 @@ export const verifyMfa = async (params: {
       return {
         success: false,
         message: data.message || 'MFA verification failed',
+        challengeExpired: data.challengeExpired,
+        attemptsRemaining: data.attemptsRemaining,
       };
     }
 
+    if (data.token) {
+      startSession(data.token, data.expiresAt);
+    }
+
     return {
       success: data.success,
       token: data.token,
+      user: data.user,
       message: data.message,
+      backupCodesRemaining: data.backupCodesRemaining,
+      deviceTrusted: data.deviceTrusted,
     };
   } catch (error: any) {
     console.error('[AuthService] MFA verification error:', error);
@@ -163,9 +320,12 @@ export const register = async (userData: {
   serviceId: string;
   role: string;
   password: string;
-  mfaMethod: "totp" | "email";
+  mfaMethod: MfaMethod;
   totpSecret?: string;
+  webauthnResponse?: RegistrationResponseJSON;
   backupCodes?: string[];
+  emailVerificationToken?: string;
+  sponsorServiceId?: string;
 }): Promise<{ success: boolean; message: string; token?: string; user?: any }> => {
   try {
     const response = await fetch(`${API_BASE_URL}/auth/register`, {
@@ -192,10 +352,1868 @@ export const register = async (userData: {
   }
 };
 
+/**
+ * Get how many unused backup codes the signed-in user has left
+ */
+export const getBackupCodeStatus = async (): Promise<BackupCodeStatus> => {
+  try {
+    const response = await authFetch('/auth/backup-codes');
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.message || 'Failed to load backup codes',
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('[AuthService] Backup code status error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load backup codes',
+    };
+  }
+};
+
+/**
+ * Replace all backup codes; the new codes are only returned once
+ */
+export const regenerateBackupCodes = async (password: string): Promise<BackupCodeStatus> => {
+  try {
+    const response = await authFetch('/auth/backup-codes/regenerate', {
+      method: 'POST',
+      body: JSON.stringify({ password }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.message || 'Failed to regenerate backup codes',
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('[AuthService] Backup code regeneration error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to regenerate backup codes',
+    };
+  }
+};
+
+/**
+ * Exchange a verified reset OTP for the reset requirements (role policy, MFA factor)
+ */
+export const startPasswordReset = async (params: {
+  email: string;
+  verificationToken: string;
+}): Promise<PasswordResetStartResponse> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/reset-password/start`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.message || 'Failed to start password reset',
+        resetExpired: data.resetExpired,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('[AuthService] Password reset start error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to start password reset',
+    };
+  }
+};
+
+/**
+ * Set a new password; signs out all existing sessions on success
+ */
+export const resetPassword = async (
+  request: PasswordResetRequest
+): Promise<{ success: boolean; message: string; resetExpired?: boolean }> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/reset-password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.message || 'Password reset failed',
+        resetExpired: data.resetExpired,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('[AuthService] Password reset error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Password reset failed',
+    };
+  }
+};
+
+/**
+ * Email a fresh MFA code to the signed-in user (email MFA accounts)
+ */
+export const sendStepUpCode = async (): Promise<OtpResponse> => {
+  try {
+    const response = await authFetch('/auth/mfa/send-code', {
+      method: 'POST',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.message || 'Failed to send OTP',
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('[AuthService] Send step-up code error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to send OTP',
+    };
+  }
+};
+
+/**
+ * Change the signed-in user's password.
+ * Returns a replacement token because the change signs out every existing session.
+ */
+export const changePassword = async (params: {
+  currentPassword: string;
+  newPassword: string;
+  mfaMethod: MfaVerificationMethod;
+  mfaCode: string;
+  webauthnResponse?: AuthenticationResponseJSON;
+}): Promise<{ success: boolean; message: string; token?: string }> => {
+  try {
+    const response = await authFetch('/auth/change-password', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.errors?.[0] || data.message || 'Failed to change password',
+      };
+    }
+
+    if (data.token) {
+      startSession(data.token, data.expiresAt);
+    }
+
+    return data;
+  } catch (error) {
+    console.error('[AuthService] Change password error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to change password',
+    };
+  }
+};
+
+/**
+ * Confirm a fresh MFA proof for the current session (step-up)
+ */
+export const stepUp = async (params: {
+  mfaMethod: MfaVerificationMethod;
+  mfaCode?: string;
+  webauthnResponse?: AuthenticationResponseJSON;
+}): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch('/auth/step-up', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Verification failed',
+    };
+  } catch (error) {
+    console.error('[AuthService] Step-up error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Verification failed',
+    };
+  }
+};
+
+/**
+ * Re-verify the signed-in user before changing MFA settings
+ */
+export const reverifyForMfaUpdate = async (params: {
+  password: string;
+  mfaMethod: MfaVerificationMethod;
+  mfaCode: string;
+  webauthnResponse?: AuthenticationResponseJSON;
+}): Promise<MfaReverifyResponse> => {
+  try {
+    const response = await authFetch('/auth/mfa/reverify', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.errors?.[0] || data.message || 'Verification failed',
+      };
+    }
+
+    return { message: 'Identity verified', ...data };
+  } catch (error) {
+    console.error('[AuthService] MFA re-verification error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Verification failed',
+    };
+  }
+};
+
+/**
+ * Switch MFA method, enroll a new authenticator secret (confirmed by its first code),
+ * register a security key or activate an assigned hardware token (two consecutive codes)
+ */
+export const updateMfaMethod = async (params: {
+  mfaUpdateToken: string;
+  method: MfaMethod;
+  totpSecret?: string;
+  totpCode?: string;
+  webauthnResponse?: RegistrationResponseJSON;
+  nickname?: string;
+  tokenSerial?: string;
+  hotpCodes?: [string, string];
+}): Promise<{
+  success: boolean;
+  message: string;
+  mfaMethod?: MfaMethod;
+  totpDigits?: number;
+  reverifyRequired?: boolean;
+}> => {
+  try {
+    const response = await authFetch('/auth/mfa/update', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.errors?.[0] || data.message || 'Failed to update MFA settings',
+        reverifyRequired: data.reverifyRequired,
+      };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('[AuthService] MFA update error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to update MFA settings',
+    };
+  }
+};
+
+/**
+ * POST to a WebAuthn options endpoint
+ */
+const fetchWebAuthnOptions = async <T extends WebAuthnRegistrationOptions | WebAuthnAuthenticationOptions>(
+  path: string,
+  body: Record<string, unknown>,
+  { authenticated = false }: { authenticated?: boolean } = {}
+): Promise<T> => {
+  try {
+    const init: RequestInit = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    };
+    const response = authenticated
+      ? await authFetch(`/auth/webauthn/${path}`, init)
+      : await fetch(`${API_BASE_URL}/auth/webauthn/${path}`, init);
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        message: data.errors?.[0] || data.message || 'Failed to start security key verification',
+        challengeExpired: data.challengeExpired,
+        reverifyRequired: data.reverifyRequired,
+        resetExpired: data.resetExpired,
+      } as T;
+    }
+
+    return { message: 'Security key options ready', ...data };
+  } catch (error) {
+    console.error('[AuthService] WebAuthn options error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to start security key verification',
+    } as T;
+  }
+};
+
+/**
+ * Security key registration options during sign-up
+ */
+export const getWebAuthnRegistrationOptions = (params: {
+  email: string;
+  fullName: string;
+}): Promise<WebAuthnRegistrationOptions> => fetchWebAuthnOptions('register/options', params);
+
+/**
+ * Security key registration options for the signed-in user (after /mfa/reverify)
+ */
+export const getWebAuthnEnrollmentOptions = (mfaUpdateToken: string): Promise<WebAuthnRegistrationOptions> =>
+  fetchWebAuthnOptions('enroll/options', { mfaUpdateToken }, { authenticated: true });
+
+/**
+ * Security key assertion options for the login MFA step
+ */
+export const getWebAuthnLoginOptions = (mfaChallenge: string): Promise<WebAuthnAuthenticationOptions> =>
+  fetchWebAuthnOptions('login/options', { mfaChallenge });
+
+/**
+ * Security key assertion options for signed-in confirmations
+ */
+export const getWebAuthnStepUpOptions = (): Promise<WebAuthnAuthenticationOptions> =>
+  fetchWebAuthnOptions('step-up/options', {}, { authenticated: true });
+
+/**
+ * Security key assertion options for a password reset
+ */
+export const getWebAuthnResetOptions = (params: {
+  email: string;
+  verificationToken: string;
+}): Promise<WebAuthnAuthenticationOptions> => fetchWebAuthnOptions('reset/options', params);
+
+/**
+ * Admin: list account unlock requests
+ */
+export const getUnlockRequests = async (
+  status: UnlockRequestStatus = 'pending'
+): Promise<{ success: boolean; message?: string; requests?: UnlockRequestSummary[] }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/unlock-requests?status=${status}`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      requests: data.requests,
+    };
+  } catch (error) {
+    console.error('[AuthService] Unlock request list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load unlock requests',
+    };
+  }
+};
+
+/**
+ * Admin: approve or reject an unlock request
+ */
+export const reviewUnlockRequest = async (
+  id: string,
+  decision: 'approve' | 'reject',
+  note?: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/unlock-requests/${id}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, note }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to review unlock request',
+    };
+  } catch (error) {
+    console.error('[AuthService] Unlock request review error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to review unlock request',
+    };
+  }
+};
+
+/**
+ * Admin: registrations awaiting activation, or recently decided ones
+ */
+export const getRegistrations = async (
+  status: RegistrationStatus = 'pending'
+): Promise<{ success: boolean; message?: string; registrations?: RegistrationSummary[] }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/registrations?status=${status}`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      registrations: data.registrations,
+    };
+  } catch (error) {
+    console.error('[AuthService] Registration list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load registrations',
+    };
+  }
+};
+
+/**
+ * Admin: approve or reject a registration; the applicant is emailed the decision
+ */
+export const reviewRegistration = async (
+  userId: string,
+  decision: 'approve' | 'reject',
+  reason?: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/registrations/${userId}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, reason }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to review registration',
+    };
+  } catch (error) {
+    console.error('[AuthService] Registration review error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to review registration',
+    };
+  }
+};
+
+/**
+ * Admin: registrations flagged for manual verification, or recently resolved ones
+ */
+export const getVerifications = async (
+  status: Exclude<VerificationStatus, 'not_required'> = 'pending'
+): Promise<{ success: boolean; message?: string; verifications?: VerificationSummary[] }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/verifications?status=${status}`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      verifications: data.verifications,
+    };
+  } catch (error) {
+    console.error('[AuthService] Verification list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load verifications',
+    };
+  }
+};
+
+/**
+ * Admin: verify or reject a flagged registration; a note is always required
+ */
+export const resolveVerification = async (
+  userId: string,
+  decision: 'verify' | 'reject',
+  note: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/verifications/${userId}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, note }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to resolve verification',
+    };
+  } catch (error) {
+    console.error('[AuthService] Verification resolve error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to resolve verification',
+    };
+  }
+};
+
+/**
+ * Signed-in user's profile, including any open manual verification
+ */
+export const getDashboardUser = async (): Promise<{ success: boolean; message?: string; user?: DashboardUser }> => {
+  try {
+    const response = await authFetch('/dashboard/user');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      user: data.user,
+    };
+  } catch (error) {
+    console.error('[AuthService] Dashboard user error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load profile',
+    };
+  }
+};
+
+/**
+ * Check registration details against the role's credential roster before the security steps
+ */
+export const checkRoster = async (details: {
+  role: string;
+  serviceId: string;
+  email: string;
+  fullName: string;
+}): Promise<{ success: boolean; message?: string; enforced?: boolean; mismatches?: RosterMismatch[] }> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/roster-check`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(details),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message,
+      enforced: data.enforced,
+      mismatches: data.mismatches,
+    };
+  } catch (error) {
+    console.error('[AuthService] Roster check error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to check the credential roster',
+    };
+  }
+};
+
+/**
+ * Admin: the current roster version of every role
+ */
+export const getRosters = async (): Promise<{
+  success: boolean;
+  message?: string;
+  rosters?: { role: string; current: RosterVersionSummary | null }[];
+}> => {
+  try {
+    const response = await authFetch('/dashboard/admin/rosters');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      rosters: data.rosters,
+    };
+  } catch (error) {
+    console.error('[AuthService] Roster list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load rosters',
+    };
+  }
+};
+
+/**
+ * Admin: import history of one role's roster, newest first
+ */
+export const getRosterVersions = async (
+  role: string
+): Promise<{ success: boolean; message?: string; versions?: RosterVersionSummary[] }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/rosters/${role}/versions`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      versions: data.versions,
+    };
+  } catch (error) {
+    console.error('[AuthService] Roster history error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load roster history',
+    };
+  }
+};
+
+/**
+ * Admin: see what a roster file would change without applying it
+ */
+export const previewRoster = async (
+  role: string,
+  format: RosterFormat,
+  content: string
+): Promise<{ success: boolean; message?: string; preview?: RosterPreview }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/rosters/${role}/preview`, {
+      method: 'POST',
+      body: JSON.stringify({ format, content }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message,
+      preview: data.preview,
+    };
+  } catch (error) {
+    console.error('[AuthService] Roster preview error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to preview roster',
+    };
+  }
+};
+
+/**
+ * Admin: apply a previewed roster as the role's next version
+ */
+export const applyRoster = async (
+  role: string,
+  details: { format: RosterFormat; content: string; baseVersion: number; fileName?: string; note?: string }
+): Promise<{ success: boolean; message: string; version?: RosterVersionSummary; errors?: RosterLineError[] }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/rosters/${role}/apply`, {
+      method: 'POST',
+      body: JSON.stringify(details),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: (typeof data.errors?.[0] === 'string' ? data.errors[0] : data.message) || 'Failed to apply roster',
+      version: data.version,
+      // Line errors come back as objects; validation errors as strings
+      errors: Array.isArray(data.errors) && typeof data.errors[0] === 'object' ? data.errors : undefined,
+    };
+  } catch (error) {
+    console.error('[AuthService] Roster apply error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to apply roster',
+    };
+  }
+};
+
+/**
+ * Admin: the permission catalogue and every role's grant list
+ */
+export const getPermissions = async (): Promise<{
+  success: boolean;
+  message?: string;
+  permissions?: PermissionInfo[];
+  roles?: RolePermissionsSummary[];
+}> => {
+  try {
+    const response = await authFetch('/dashboard/admin/permissions');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      permissions: data.permissions,
+      roles: data.roles,
+    };
+  } catch (error) {
+    console.error('[AuthService] Permission list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load permissions',
+    };
+  }
+};
+
+/**
+ * Admin: propose a new grant list for a role; it applies once a second administrator approves it
+ */
+export const updateRolePermissions = async (
+  role: string,
+  permissions: Permission[],
+  reason: string
+): Promise<{ success: boolean; message: string; pendingApproval?: boolean }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/permissions/roles/${role}`, {
+      method: 'POST',
+      body: JSON.stringify({ permissions, reason }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to update role permissions',
+      pendingApproval: data.pendingApproval,
+    };
+  } catch (error) {
+    console.error('[AuthService] Role permission update error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to update role permissions',
+    };
+  }
+};
+
+/**
+ * Admin: propose returning a role to the registry's default permissions; needs a second administrator
+ */
+export const resetRolePermissions = async (
+  role: string,
+  reason: string
+): Promise<{ success: boolean; message: string; pendingApproval?: boolean }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/permissions/roles/${role}/reset`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to reset role permissions',
+      pendingApproval: data.pendingApproval,
+    };
+  } catch (error) {
+    console.error('[AuthService] Role permission reset error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to reset role permissions',
+    };
+  }
+};
+
+/**
+ * Admin: a user's role grants, overrides and effective permissions
+ */
+export const getUserPermissions = async (
+  userId: string
+): Promise<{ success: boolean; message?: string } & Partial<UserPermissions>> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/users/${userId}/permissions`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      user: data.user,
+      rolePermissions: data.rolePermissions,
+      overrides: data.overrides,
+      effective: data.effective,
+    };
+  } catch (error) {
+    console.error('[AuthService] User permission list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load user permissions',
+    };
+  }
+};
+
+/**
+ * Admin: grant or deny one permission to a user; a reason is required
+ */
+export const setPermissionOverride = async (
+  userId: string,
+  details: { permission: Permission; effect: PermissionOverrideEffect; reason: string }
+): Promise<{ success: boolean; message: string; pendingApproval?: boolean } & Partial<UserPermissions>> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/users/${userId}/permissions/overrides`, {
+      method: 'POST',
+      body: JSON.stringify(details),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to set permission override',
+      pendingApproval: data.pendingApproval,
+      user: data.user,
+      rolePermissions: data.rolePermissions,
+      overrides: data.overrides,
+      effective: data.effective,
+    };
+  } catch (error) {
+    console.error('[AuthService] Permission override error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to set permission override',
+    };
+  }
+};
+
+/**
+ * Admin: remove a user's override so the role grants apply again; waits for a second administrator when the
+ * user is an admin or the permission is admin-level
+ */
+export const removePermissionOverride = async (
+  userId: string,
+  permission: Permission,
+  reason: string
+): Promise<{ success: boolean; message: string; pendingApproval?: boolean } & Partial<UserPermissions>> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/users/${userId}/permissions/overrides/${permission}/remove`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to remove permission override',
+      pendingApproval: data.pendingApproval,
+      user: data.user,
+      rolePermissions: data.rolePermissions,
+      overrides: data.overrides,
+      effective: data.effective,
+    };
+  } catch (error) {
+    console.error('[AuthService] Permission override removal error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to remove permission override',
+    };
+  }
+};
+
+/**
+ * Admin: the applied access policy, and the attributes and operators a policy can use
+ */
+export const getAccessPolicy = async (): Promise<{
+  success: boolean;
+  message?: string;
+  current?: (PolicyVersionSummary & { document: PolicyDocument }) | null;
+  attributes?: PolicyAttributeInfo[];
+  operators?: PolicyOperatorInfo[];
+}> => {
+  try {
+    const response = await authFetch('/dashboard/admin/policies');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      current: data.current,
+      attributes: data.attributes,
+      operators: data.operators,
+    };
+  } catch (error) {
+    console.error('[AuthService] Access policy error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load access policy',
+    };
+  }
+};
+
+/**
+ * Admin: applied access policy versions, newest first
+ */
+export const getAccessPolicyVersions = async (): Promise<{
+  success: boolean;
+  message?: string;
+  versions?: PolicyVersionSummary[];
+}> => {
+  try {
+    const response = await authFetch('/dashboard/admin/policies/versions');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      versions: data.versions,
+    };
+  } catch (error) {
+    console.error('[AuthService] Access policy history error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load policy history',
+    };
+  }
+};
+
+/**
+ * Admin: the document of one applied version
+ */
+export const getAccessPolicyVersion = async (
+  version: number
+): Promise<{ success: boolean; message?: string; version?: PolicyVersionSummary & { document: PolicyDocument } }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/policies/versions/${version}`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      version: data.version,
+    };
+  } catch (error) {
+    console.error('[AuthService] Access policy version error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load policy version',
+    };
+  }
+};
+
+/**
+ * Admin: check a draft policy document and run its tests without applying it
+ */
+export const testAccessPolicy = async (
+  document: unknown
+): Promise<{ success: boolean; message: string; results?: PolicyTestResult[]; passed?: boolean; errors?: string[] }> => {
+  try {
+    const response = await authFetch('/dashboard/admin/policies/test', {
+      method: 'POST',
+      body: JSON.stringify({ document }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to test policy document',
+      results: data.results,
+      passed: data.passed,
+      errors: data.errors,
+    };
+  } catch (error) {
+    console.error('[AuthService] Access policy test error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to test policy document',
+    };
+  }
+};
+
+/**
+ * Admin: dry run of one action; without a document the applied version is used
+ */
+export const explainAccessPolicy = async (request: {
+  action: Permission;
+  userId?: string;
+  attributes?: PolicyAttributes;
+  document?: unknown;
+}): Promise<{ success: boolean; message?: string; decision?: PolicyDecision; errors?: string[] }> => {
+  try {
+    const response = await authFetch('/dashboard/admin/policies/explain', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
+    const { success, message, errors, ...decision } = data;
+
+    return {
+      success: response.ok && success,
+      message: errors?.[0] || message,
+      decision: response.ok && success ? decision : undefined,
+      errors,
+    };
+  } catch (error) {
+    console.error('[AuthService] Access policy explain error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to explain policy decision',
+    };
+  }
+};
+
+/**
+ * Admin: apply a policy document as the next version; it must pass its own tests
+ */
+export const applyAccessPolicy = async (details: {
+  document: unknown;
+  baseVersion: number;
+  note?: string;
+}): Promise<{
+  success: boolean;
+  message: string;
+  version?: PolicyVersionSummary;
+  results?: PolicyTestResult[];
+  errors?: string[];
+  // Another version was applied since the draft's base version
+  conflict?: boolean;
+}> => {
+  try {
+    const response = await authFetch('/dashboard/admin/policies/apply', {
+      method: 'POST',
+      body: JSON.stringify(details),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to apply access policy',
+      version: data.version,
+      results: data.results,
+      errors: data.errors,
+      conflict: response.status === 409,
+    };
+  } catch (error) {
+    console.error('[AuthService] Access policy apply error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to apply access policy',
+    };
+  }
+};
+
+/**
+ * Signed-in user: their pending elevation request or active elevation, and the permissions they can request
+ */
+export const getElevation = async (): Promise<{
+  success: boolean;
+  message?: string;
+  elevation?: ElevationSummary | null;
+  requestable?: Permission[];
+  durations?: number[];
+}> => {
+  try {
+    const response = await authFetch('/dashboard/elevation');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      elevation: data.elevation,
+      requestable: data.requestable,
+      durations: data.durations,
+    };
+  } catch (error) {
+    console.error('[AuthService] Elevation status error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load elevation status',
+    };
+  }
+};
+
+/**
+ * Signed-in user: request temporary elevated permissions
+ */
+export const requestElevation = async (details: {
+  permissions: Permission[];
+  durationMinutes: number;
+  justification: string;
+}): Promise<{ success: boolean; message: string; elevation?: ElevationSummary }> => {
+  try {
+    const response = await authFetch('/dashboard/elevation', {
+      method: 'POST',
+      body: JSON.stringify(details),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to request elevation',
+      elevation: data.elevation,
+    };
+  } catch (error) {
+    console.error('[AuthService] Elevation request error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to request elevation',
+    };
+  }
+};
+
+/**
+ * Signed-in user: withdraw a pending elevation request, or end an active elevation early
+ */
+export const cancelElevation = async (): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch('/dashboard/elevation/cancel', {
+      method: 'POST',
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to cancel elevation',
+    };
+  } catch (error) {
+    console.error('[AuthService] Elevation cancel error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to cancel elevation',
+    };
+  }
+};
+
+/**
+ * Admin: elevation requests by status; approved lists the elevations still active
+ */
+export const getElevationRequests = async (
+  status: ElevationStatus = 'pending'
+): Promise<{ success: boolean; message?: string; requests?: ElevationSummary[] }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/elevations?status=${status}`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      requests: data.requests,
+    };
+  } catch (error) {
+    console.error('[AuthService] Elevation list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load elevation requests',
+    };
+  }
+};
+
+/**
+ * Admin: grant or reject an elevation request
+ */
+export const reviewElevationRequest = async (
+  id: string,
+  decision: 'approve' | 'reject',
+  note?: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/elevations/${id}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, note }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to review elevation request',
+    };
+  } catch (error) {
+    console.error('[AuthService] Elevation review error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to review elevation request',
+    };
+  }
+};
+
+/**
+ * Admin: end someone's active elevation before it expires
+ */
+export const revokeElevation = async (id: string): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/elevations/${id}/revoke`, {
+      method: 'POST',
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to revoke elevation',
+    };
+  } catch (error) {
+    console.error('[AuthService] Elevation revoke error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to revoke elevation',
+    };
+  }
+};
+
+/**
+ * Admin: deactivate an account; for an admin account this only proposes it to a second administrator
+ */
+export const deactivateUser = async (
+  userId: string,
+  reason: string
+): Promise<{ success: boolean; message: string; pendingApproval?: boolean }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/users/${userId}/deactivate`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to deactivate account',
+      pendingApproval: data.pendingApproval,
+    };
+  } catch (error) {
+    console.error('[AuthService] Account deactivation error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to deactivate account',
+    };
+  }
+};
+
+/**
+ * Admin: reset a user's MFA to email OTP; for an admin account this only proposes it to a second administrator
+ */
+export const resetUserMfa = async (
+  userId: string,
+  reason: string
+): Promise<{ success: boolean; message: string; pendingApproval?: boolean }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/users/${userId}/mfa/reset`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to reset MFA',
+      pendingApproval: data.pendingApproval,
+    };
+  } catch (error) {
+    console.error('[AuthService] MFA reset error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to reset MFA',
+    };
+  }
+};
+
+/**
+ * Admin: approvals inbox, limited to operations the caller is allowed to approve
+ */
+export const getPendingOperations = async (
+  status: PendingOperationStatus = 'pending'
+): Promise<{ success: boolean; message?: string; operations?: PendingOperationSummary[] }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/operations?status=${status}`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      operations: data.operations,
+    };
+  } catch (error) {
+    console.error('[AuthService] Operation list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load pending operations',
+    };
+  }
+};
+
+/**
+ * Admin: approve (and so carry out) or reject an operation another administrator proposed
+ */
+export const reviewPendingOperation = async (
+  id: string,
+  decision: 'approve' | 'reject',
+  note?: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/operations/${id}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, note }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to review operation',
+    };
+  } catch (error) {
+    console.error('[AuthService] Operation review error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to review operation',
+    };
+  }
+};
+
+/**
+ * Admin: withdraw an operation you proposed before anyone reviews it
+ */
+export const cancelPendingOperation = async (id: string): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/operations/${id}/cancel`, {
+      method: 'POST',
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to withdraw operation',
+    };
+  } catch (error) {
+    console.error('[AuthService] Operation cancel error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to withdraw operation',
+    };
+  }
+};
+
+/**
+ * Family member: the sponsor link and whether it is confirmed
+ */
+export const getSponsorLink = async (): Promise<{ success: boolean; message?: string; sponsor?: SponsorLink | null }> => {
+  try {
+    const response = await authFetch('/dashboard/sponsor');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      sponsor: data.sponsor,
+    };
+  } catch (error) {
+    console.error('[AuthService] Sponsor status error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load sponsor status',
+    };
+  }
+};
+
+/**
+ * Family member: name a sponsor by Service ID; they are emailed to confirm
+ */
+export const requestSponsor = async (
+  serviceId: string
+): Promise<{ success: boolean; message: string; sponsor?: SponsorLink }> => {
+  try {
+    const response = await authFetch('/dashboard/sponsor', {
+      method: 'POST',
+      body: JSON.stringify({ serviceId }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to request sponsor confirmation',
+      sponsor: data.sponsor,
+    };
+  } catch (error) {
+    console.error('[AuthService] Sponsor request error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to request sponsor confirmation',
+    };
+  }
+};
+
+/**
+ * Defence Personnel: family members awaiting confirmation and confirmed dependents
+ */
+export const getDependents = async (): Promise<{ success: boolean; message?: string; dependents?: DependentSummary[] }> => {
+  try {
+    const response = await authFetch('/dashboard/dependents');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      dependents: data.dependents,
+    };
+  } catch (error) {
+    console.error('[AuthService] Dependents list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load dependents',
+    };
+  }
+};
+
+/**
+ * Defence Personnel: confirm or reject a family member who named you as sponsor
+ */
+export const reviewDependent = async (
+  userId: string,
+  decision: 'confirm' | 'reject',
+  reason?: string
+): Promise<{ success: boolean; message: string; dependent?: DependentSummary }> => {
+  try {
+    const response = await authFetch(`/dashboard/dependents/${userId}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, reason }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to review dependent',
+      dependent: data.dependent,
+    };
+  } catch (error) {
+    console.error('[AuthService] Sponsor review error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to review dependent',
+    };
+  }
+};
+
+/**
+ * Active sessions of the signed-in user, or of any user for admins
+ */
+export const getSessions = async (
+  userId?: string
+): Promise<{ success: boolean; message?: string; sessions?: SessionSummary[] }> => {
+  try {
+    const response = await authFetch(userId ? `/dashboard/admin/users/${userId}/sessions` : '/auth/sessions');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      sessions: data.sessions,
+    };
+  } catch (error) {
+    console.error('[AuthService] Session list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load sessions',
+    };
+  }
+};
+
+/**
+ * Sign out one session; pass userId to act on another user's session as an admin
+ */
+export const revokeSession = async (
+  sessionId: string,
+  userId?: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(
+      userId ? `/dashboard/admin/users/${userId}/sessions/${sessionId}/revoke` : `/auth/sessions/${sessionId}/revoke`,
+      { method: 'POST' }
+    );
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to sign out session',
+    };
+  } catch (error) {
+    console.error('[AuthService] Session revoke error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to sign out session',
+    };
+  }
+};
+
+/**
+ * Sign out every other session of the signed-in user, or every session of a user as an admin
+ */
+export const revokeOtherSessions = async (userId?: string): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(
+      userId ? `/dashboard/admin/users/${userId}/sessions/revoke-all` : '/auth/sessions/revoke-others',
+      { method: 'POST' }
+    );
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to sign out sessions',
+    };
+  } catch (error) {
+    console.error('[AuthService] Session revoke error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to sign out sessions',
+    };
+  }
+};
+
+/**
+ * List browsers the signed-in user trusts to skip the MFA step
+ */
+export const getTrustedDevices = async (): Promise<{
+  success: boolean;
+  message?: string;
+  allowed?: boolean;
+  devices?: TrustedDeviceSummary[];
+}> => {
+  try {
+    const response = await authFetch('/auth/trusted-devices');
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      allowed: data.allowed,
+      devices: data.devices,
+    };
+  } catch (error) {
+    console.error('[AuthService] Trusted device list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load trusted devices',
+    };
+  }
+};
+
+/**
+ * Stop trusting one device; it will ask for MFA on the next sign-in
+ */
+export const revokeTrustedDevice = async (deviceId: string): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/auth/trusted-devices/${deviceId}/revoke`, { method: 'POST' });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to remove trusted device',
+    };
+  } catch (error) {
+    console.error('[AuthService] Trusted device revoke error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to remove trusted device',
+    };
+  }
+};
+
+/**
+ * Stop trusting every device of the signed-in user
+ */
+export const revokeAllTrustedDevices = async (): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch('/auth/trusted-devices/revoke-all', { method: 'POST' });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message || 'Failed to remove trusted devices',
+    };
+  } catch (error) {
+    console.error('[AuthService] Trusted device revoke error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to remove trusted devices',
+    };
+  }
+};
+
+/**
+ * Admin: search users by name, email or credential ID
+ */
+export const searchUsers = async (
+  search: string
+): Promise<{ success: boolean; message?: string; users?: AdminUserSummary[] }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/users?search=${encodeURIComponent(search)}`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      users: data.users,
+    };
+  } catch (error) {
+    console.error('[AuthService] User search error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to search users',
+    };
+  }
+};
+
+/**
+ * Resynchronise a drifted hardware token during the login MFA step
+ */
+export const resyncHardwareToken = async (params: {
+  mfaChallenge: string;
+  hotpCodes: [string, string];
+}): Promise<{ success: boolean; message: string; attemptsRemaining?: number; challengeExpired?: boolean }> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/hardware-token/resync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to resynchronise hardware token',
+      attemptsRemaining: data.attemptsRemaining,
+      challengeExpired: data.challengeExpired,
+    };
+  } catch (error) {
+    console.error('[AuthService] Hardware token resync error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to resynchronise hardware token',
+    };
+  }
+};
+
+/**
+ * Admin: list hardware tokens, optionally filtered by status or serial
+ */
+export const getHardwareTokens = async (params: {
+  status?: HardwareTokenStatus;
+  search?: string;
+} = {}): Promise<{
+  success: boolean;
+  message?: string;
+  tokens?: HardwareTokenSummary[];
+  counts?: Partial<Record<HardwareTokenStatus, number>>;
+}> => {
+  try {
+    const query = new URLSearchParams({
+      ...(params.status && { status: params.status }),
+      ...(params.search && { search: params.search }),
+    });
+    const response = await authFetch(`/dashboard/admin/hardware-tokens?${query}`);
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.message,
+      tokens: data.tokens,
+      counts: data.counts,
+    };
+  } catch (error) {
+    console.error('[AuthService] Hardware token list error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to load hardware tokens',
+    };
+  }
+};
+
+/**
+ * Admin: bulk import token serials and seeds from CSV
+ */
+export const importHardwareTokens = async (csv: string): Promise<HardwareTokenImportResult> => {
+  try {
+    const response = await authFetch('/dashboard/admin/hardware-tokens/import', {
+      method: 'POST',
+      body: JSON.stringify({ csv }),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || 'Failed to import hardware tokens',
+      imported: data.imported,
+      serials: data.serials,
+      skipped: data.skipped,
+    };
+  } catch (error) {
+    console.error('[AuthService] Hardware token import error:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to import hardware tokens',
+    };
+  }
+};
+
+/**
+ * Admin: assign a token to a user, or return it to the pool
+ */
+const changeHardwareTokenAssignment = async (
+  tokenId: string,
+  action: 'assign' | 'unassign',
+  body: Record<string, string> = {}
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const response = await authFetch(`/dashboard/admin/hardware-tokens/${tokenId}/${action}`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+
+    return {
+      success: response.ok && data.success,
+      message: data.errors?.[0] || data.message || `Failed to ${action} hardware token`,
+    };
+  } catch (error) {
+    console.error(`[AuthService] Hardware token ${action} error:`, error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : `Failed to ${action} hardware token`,
+    };
+  }
+};
+
+export const assignHardwareToken = (tokenId: string, userId: string) =>
+  changeHardwareTokenAssignment(tokenId, 'assign', { userId });
+
+export const unassignHardwareToken = (tokenId: string) =>
+  changeHardwareTokenAssignment(tokenId, 'unassign');
+
 export default {
   sendOtp,
   verifyOtp,
   login,
+  requestAccountUnlock,
   verifyMfa,
   register,
+  getBackupCodeStatus,
+  regenerateBackupCodes,
+  startPasswordReset,
+  resetPassword,
+  sendStepUpCode,
+  changePassword,
+  stepUp,
+  reverifyForMfaUpdate,
+  updateMfaMethod,
+  getWebAuthnRegistrationOptions,
+  getWebAuthnEnrollmentOptions,
+  getWebAuthnLoginOptions,
+  getWebAuthnStepUpOptions,
+  getWebAuthnResetOptions,
+  getUnlockRequests,
+  reviewUnlockRequest,
+  getRegistrations,
+  reviewRegistration,
+  getVerifications,
+  resolveVerification,
+  getDashboardUser,
+  checkRoster,
+  getRosters,
+  getRosterVersions,
+  previewRoster,
+  applyRoster,
+  getPermissions,
+  updateRolePermissions,
+  resetRolePermissions,
+  getUserPermissions,
+  setPermissionOverride,
+  removePermissionOverride,
+  getAccessPolicy,
+  getAccessPolicyVersions,
+  getAccessPolicyVersion,
+  testAccessPolicy,
+  explainAccessPolicy,
+  applyAccessPolicy,
+  getElevation,
+  requestElevation,
+  cancelElevation,
+  getElevationRequests,
+  reviewElevationRequest,
+  revokeElevation,
+  deactivateUser,
+  resetUserMfa,
+  getPendingOperations,
+  reviewPendingOperation,
+  cancelPendingOperation,
+  getSponsorLink,
+  requestSponsor,
+  getDependents,
+  reviewDependent,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+  getTrustedDevices,
+  revokeTrustedDevice,
+  revokeAllTrustedDevices,
+  searchUsers,
+  resyncHardwareToken,
+  getHardwareTokens,
+  importHardwareTokens,
+  assignHardwareToken,
+  unassignHardwareToken,
 };
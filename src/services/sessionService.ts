@@ -0,0 +1,190 @@
+/**
+ * Session Service
+ * Keeps the short-lived access token in memory and renews it through the
+ * httpOnly refresh cookie. Every authenticated API call goes through authFetch.
+ */
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
+
+// Renew a little before expiry so requests in flight don't race the deadline
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+let accessToken: string | null = null;
+let accessTokenExpiresAt = 0;
+let pendingRefresh: Promise<boolean> | null = null;
+let stepUpHandler: (() => Promise<boolean>) | null = null;
+let pendingStepUp: Promise<boolean> | null = null;
+
+/**
+ * Store the access token returned by a sign-in or a refresh
+ */
+export const startSession = (token: string, expiresAt?: string) => {
+  accessToken = token;
+  accessTokenExpiresAt = expiresAt ? new Date(expiresAt).getTime() : Date.now() + 15 * 60 * 1000;
+};
+
+/**
+ * Forget the local session without contacting the server
+ */
+export const clearSession = () => {
+  accessToken = null;
+  accessTokenExpiresAt = 0;
+  localStorage.removeItem('userData');
+  localStorage.removeItem('userRole');
+};
+
+const hasFreshAccessToken = () => Boolean(accessToken) && accessTokenExpiresAt - EXPIRY_SKEW_MS > Date.now();
+
+const requestRefresh = async (retryIfSuperseded: boolean): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+      method: 'POST',
+      credentials: 'include',
+    });
+
+    const data = await response.json();
+
+    // Another tab rotated the shared cookie a moment ago; retry once with the new one
+    if (response.status === 409 && data.retry && retryIfSuperseded) {
+      return requestRefresh(false);
+    }
+
+    if (!response.ok || !data.success || !data.token) {
+      clearSession();
+      return false;
+    }
+
+    startSession(data.token, data.expiresAt);
+    if (data.user) {
+      localStorage.setItem('userData', JSON.stringify(data.user));
+    }
+    return true;
+  } catch (error) {
+    console.error('[SessionService] Refresh error:', error);
+    return false;
+  }
+};
+
+/**
+ * Rotate the refresh cookie and fetch a new access token.
+ * Concurrent callers share one request so the token is rotated only once.
+ */
+export const refreshSession = (): Promise<boolean> => {
+  if (!pendingRefresh) {
+    pendingRefresh = requestRefresh(true).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+};
+
+/**
+ * Make sure a usable access token exists, e.g. after a page reload
+ */
+export const restoreSession = async (): Promise<boolean> => {
+  if (hasFreshAccessToken()) {
+    return true;
+  }
+  return refreshSession();
+};
+
+/**
+ * Register the UI that collects a fresh MFA proof (the Dashboard's step-up dialog).
+ * Returns a function that unregisters it.
+ */
+export const setStepUpHandler = (handler: () => Promise<boolean>) => {
+  stepUpHandler = handler;
+  return () => {
+    if (stepUpHandler === handler) {
+      stepUpHandler = null;
+    }
+  };
+};
+
+/**
+ * Ask the user to confirm their identity; resolves false when cancelled or no dialog is mounted.
+ * Concurrent callers share one prompt.
+ */
+export const requestStepUp = (): Promise<boolean> => {
+  if (!stepUpHandler) {
+    return Promise.resolve(false);
+  }
+  if (!pendingStepUp) {
+    pendingStepUp = stepUpHandler().finally(() => {
+      pendingStepUp = null;
+    });
+  }
+  return pendingStepUp;
+};
+
+// Sensitive endpoints answer 403 { stepUpRequired } when the session's last MFA proof is too old
+const isStepUpRequired = async (response: Response) => {
+  if (response.status !== 403) {
+    return false;
+  }
+  try {
+    const data = await response.clone().json();
+    return Boolean(data.stepUpRequired);
+  } catch {
+    return false;
+  }
+};
+
+const withAuthorization = (init: RequestInit): RequestInit => ({
+  ...init,
+  credentials: 'include',
+  headers: {
+    'Content-Type': 'application/json',
+    ...(init.headers as Record<string, string> | undefined),
+    ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+  },
+});
+
+/**
+ * fetch for endpoints that require a signed-in user.
+ * Renews an expiring token first and retries once if the server still rejects it.
+ * A step-up demand opens the step-up dialog and retries once the user confirms.
+ */
+export const authFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  if (!hasFreshAccessToken()) {
+    await refreshSession();
+  }
+
+  let response = await fetch(`${API_BASE_URL}${path}`, withAuthorization(init));
+  if (response.status === 401 && await refreshSession()) {
+    response = await fetch(`${API_BASE_URL}${path}`, withAuthorization(init));
+  }
+
+  if (await isStepUpRequired(response) && await requestStepUp()) {
+    response = await fetch(`${API_BASE_URL}${path}`, withAuthorization(init));
+  }
+
+  return response;
+};
+
+/**
+ * Revoke the session on the server and clear it locally
+ */
+export const endSession = async (): Promise<void> => {
+  try {
+    await fetch(`${API_BASE_URL}/auth/logout`, {
+      method: 'POST',
+      credentials: 'include',
+    });
+  } catch (error) {
+    console.error('[SessionService] Logout error:', error);
+  } finally {
+    clearSession();
+  }
+};
+
+export default {
+  startSession,
+  clearSession,
+  refreshSession,
+  restoreSession,
+  authFetch,
+  setStepUpHandler,
+  requestStepUp,
+  endSession,
+};